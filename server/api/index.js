@@ -1,7 +1,9 @@
 const express = require('express');
 const cors = require('cors');
-const axios = require('axios');
-const { createClient } = require('@supabase/supabase-js');
+const { requirePermission } = require('../lib/adminAuth');
+const { calculateSummary, getMaxGradePoint } = require('../lib/gpa');
+const { fitSmsToLimit, formatPhone, getSmsProvider, sendSMS } = require('../lib/sms');
+const { smsWebhookRouter } = require('../lib/smsWebhooks');
 require('dotenv').config();
 const serverless = require('serverless-http');
 
@@ -9,6 +11,9 @@ const serverless = require('serverless-http');
 const app = express();
 const PORT = process.env.PORT || 3001;
 
+// SMS delivery reports (ahead of the JSON parser: some providers sign the raw body)
+app.use('/sms-webhooks', smsWebhookRouter);
+
 // Middleware
 app.use(express.json());
 app.use(cors({ 
@@ -16,98 +21,48 @@ app.use(cors({
   credentials: true 
 }));
 
-// Initialize Supabase client
-const supabase = createClient(
-  process.env.SUPABASE_URL,
-  process.env.SUPABASE_ANON_KEY
-);
-
-// SMS Configuration
-const SENDCHAMP_BASE_URL = 'https://api.sendchamp.com/api/v1';
-const SENDER_NAME = 'Schamp';
-
-// Phone number formatter for Nigeria
-const formatPhone = (phone) => {
-  if (!phone) return null;
-  const cleaned = phone.replace(/\D/g, '');
-  
-  if (cleaned.startsWith('0')) return '234' + cleaned.substring(1);
-  if (cleaned.startsWith('+234')) return cleaned.substring(1);
-  if (!cleaned.startsWith('234')) return '234' + cleaned;
-  return cleaned;
-};
-
-// SMS sender function
-const sendSMS = async (phoneNumber, message) => {
-  try {
-    const response = await axios.post(
-      `${SENDCHAMP_BASE_URL}/sms/send`,
-      {
-        to: [phoneNumber],
-        message: message,
-        sender_name: SENDER_NAME,
-        route: 'dnd'
-      },
-      {
-        headers: {
-          'Authorization': `Bearer ${process.env.SENDCHAMP_API_KEY}`,
-          'Content-Type': 'application/json'
-        }
-      }
-    );
-
-    return { success: true, data: response.data };
-  } catch (error) {
-    console.error('SMS Error:', error.response?.data || error.message);
-    return { success: false, error: error.response?.data?.message || error.message };
-  }
-};
-
-// Calculate student result summary
-const calculateSummary = (results) => {
-  const totalUnits = results.reduce((sum, r) => sum + (r.courses?.credit_units || 0), 0);
-  const totalGradePoints = results.reduce((sum, r) => {
-    const gp = r.grade_point || 0;
-    const units = r.courses?.credit_units || 0;
-    return sum + (gp * units);
-  }, 0);
-  
-  return {
-    totalCourses: results.length,
-    totalUnits,
-    gpa: totalUnits > 0 ? (totalGradePoints / totalUnits).toFixed(2) : '0.00'
-  };
-};
-
-// Format results for SMS
+// Result lines for SMS, one per course
 const formatResultsForSMS = (results) => {
   return results.map(r => {
     const course = r.courses?.course_code || 'N/A';
     const total = r.total_score || 0;
     const grade = r.grade || 'N/A';
     return `${course}: ${total} (${grade})`;
-  }).join('\n');
+  });
 };
 
-// Main notification endpoint - checks DB and sends SMS
-app.post('/api/notify-results', async (req, res) => {
+// Main notification endpoint - queues an SMS of their published results for each student in the
+// cohort and courses just published; the SMS worker (worker.js) sends them. Publishing itself goes
+// through the scoped publish in the dashboard, never through here.
+app.post('/api/notify-results', requirePermission('results:publish'), async (req, res) => {
   try {
-    const { semester, academicYear, studentIds } = req.body;
+    // Queries run as the calling admin, so RLS applies
+    const { supabase } = req;
+    const { semester, academicYear, department, level, courseIds } = req.body;
+
+    if (!semester || !academicYear || !department || !level) {
+      return res.status(400).json({
+        success: false,
+        error: 'academicYear, semester, department and level are required'
+      });
+    }
 
-    // Build query conditions
+    // The same scope as the publish: one cohort's semester, optionally limited to some courses
     let query = supabase
       .from('results')
       .select(`
         *,
-        students!inner(id, first_name, last_name, phone, student_id),
+        students!inner(id, first_name, last_name, phone, student_id, department, level),
         courses!inner(course_title, course_code, credit_units)
-      `);
-
-    // Add filters if provided
-    if (semester) query = query.eq('semester', semester);
-    if (academicYear) query = query.eq('academic_year', academicYear);
-    if (studentIds && studentIds.length > 0) {
-      query = query.in('student_id', studentIds);
+      `)
+      .eq('status', 'published')
+      .eq('academic_year', academicYear)
+      .eq('semester', semester)
+      .eq('students.department', department)
+      .eq('students.level', level);
+
+    if (Array.isArray(courseIds) && courseIds.length > 0) {
+      query = query.in('course_id', courseIds);
     }
 
     const { data: results, error } = await query;
@@ -121,8 +76,7 @@ app.post('/api/notify-results', async (req, res) => {
         success: true,
         message: 'No results found in database',
         resultsFound: 0,
-        published: 0,
-        smsSent: 0
+        smsQueued: 0
       });
     }
 
@@ -138,91 +92,52 @@ app.post('/api/notify-results', async (req, res) => {
       return acc;
     }, {});
 
-    let published = 0;
-    let smsSent = 0;
+    const queue = [];
     const errors = [];
 
-    // Process each student
+    // Build each student's message
     for (const [studentId, { student, results: studentResults }] of Object.entries(studentGroups)) {
       try {
-        // Check if results need to be published
-        const unpublishedResults = studentResults.filter(r => r.status !== 'published');
-        
-        if (unpublishedResults.length > 0) {
-          // Publish results
-          const { error: publishError } = await supabase
-            .from('results')
-            .update({ 
-              status: 'published',
-              published_at: new Date().toISOString()
-            })
-            .in('id', unpublishedResults.map(r => r.id));
-
-          if (publishError) {
-            console.error(`Failed to publish results for ${student.first_name}:`, publishError);
-            errors.push(`Failed to publish results for ${student.first_name}`);
-            continue;
-          }
-
-          published += unpublishedResults.length;
-          console.log(`Published ${unpublishedResults.length} results for ${student.first_name}`);
-        }
-
-        // Send SMS notification
-        const phoneNumber = formatPhone(student.phone);
+        const phoneNumber = await formatPhone(student.phone);
         if (!phoneNumber) {
           errors.push(`Invalid phone number for ${student.first_name}`);
           continue;
         }
 
-        const summary = calculateSummary(studentResults);
-        const resultDetails = formatResultsForSMS(studentResults);
+        const summary = await calculateSummary(studentResults, await getMaxGradePoint(supabase, student));
         
-        // Create SMS message
-        const smsMessage = `Hello ${student.first_name},
+        // Create SMS message, leaving out the courses that would take it past the segment limit
+        const smsMessage = await fitSmsToLimit(formatResultsForSMS(studentResults), (lines, hidden) => `Hello ${student.first_name},
 
 Your ${studentResults[0].academic_year} ${studentResults[0].semester} results:
 
-${resultDetails}
+${[...lines, ...(hidden > 0 ? [`+${hidden} more on the student portal`] : [])].join('\n')}
 
 Summary: ${summary.totalCourses} courses, ${summary.totalUnits} units, GPA: ${summary.gpa}
 
-Moshood Abiola Polytechnic`;
-
-        const smsResult = await sendSMS(phoneNumber, smsMessage);
-
-        if (smsResult.success) {
-          smsSent++;
-          console.log(`SMS sent to ${student.first_name} ${student.last_name}`);
-          
-          // Store notification record
-          await supabase.from('notifications').insert({
-            student_id: studentId,
-            title: 'Results Published',
-            message: `Your ${studentResults[0].academic_year} ${studentResults[0].semester} results: ${summary.totalCourses} courses, GPA: ${summary.gpa}`,
-            type: 'result_published',
-            status: 'sent',
-            sent_at: new Date().toISOString()
-          });
-        } else {
-          errors.push(`SMS failed for ${student.first_name}: ${smsResult.error}`);
-        }
-
-        // Rate limiting delay
-        await new Promise(resolve => setTimeout(resolve, 1000));
+Moshood Abiola Polytechnic`);
 
+        queue.push({ student_id: studentId, phone_number: phoneNumber, message: smsMessage, status: 'pending' });
       } catch (error) {
         console.error(`Error processing ${student.first_name}:`, error);
         errors.push(`Error processing ${student.first_name}: ${error.message}`);
       }
     }
 
+    if (queue.length > 0) {
+      const { error: queueError } = await supabase.from('sms_records').insert(queue);
+      if (queueError) {
+        throw new Error(`Failed to queue SMS: ${queueError.message}`);
+      }
+    }
+
+    console.log(`Queued ${queue.length} result SMS`);
+
     res.json({
       success: true,
       message: `Processed ${Object.keys(studentGroups).length} students`,
       resultsFound: results.length,
-      published,
-      smsSent,
+      smsQueued: queue.length,
       studentsProcessed: Object.keys(studentGroups).length,
       errors
     });
@@ -233,15 +148,15 @@ Moshood Abiola Polytechnic`;
       success: false,
       error: error.message,
       resultsFound: 0,
-      published: 0,
-      smsSent: 0
+      smsQueued: 0
     });
   }
 });
 
 // Quick result check endpoint
-app.get('/check-results', async (req, res) => {
+app.get('/check-results', requirePermission('dashboard:view'), async (req, res) => {
   try {
+    const { supabase } = req;
     const { semester, academicYear, studentId } = req.query;
 
     let query = supabase
@@ -270,7 +185,7 @@ app.get('/check-results', async (req, res) => {
 });
 
 // Test SMS endpoint
-app.post('/test-sms', async (req, res) => {
+app.post('/test-sms', requirePermission('notifications:send'), async (req, res) => {
   try {
     const { phone, message } = req.body;
 
@@ -278,7 +193,7 @@ app.post('/test-sms', async (req, res) => {
       return res.status(400).json({ success: false, error: 'Phone and message required' });
     }
 
-    const phoneNumber = formatPhone(phone);
+    const phoneNumber = await formatPhone(phone);
     if (!phoneNumber) {
       return res.status(400).json({ success: false, error: 'Invalid phone number' });
     }
@@ -294,10 +209,12 @@ app.post('/test-sms', async (req, res) => {
 });
 
 // Health check
-app.get('/health', (req, res) => {
+app.get('/health', async (req, res) => {
+  const smsProvider = await getSmsProvider();
   res.json({ 
     status: 'OK', 
     timestamp: new Date().toISOString(),
+    smsProvider: { name: smsProvider.name, configured: smsProvider.configured },
     service: 'EduNotify Optimized SMS Service',
     features: ['Database check', 'Auto-publish', 'SMS notifications']
   });
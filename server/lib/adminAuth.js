@@ -0,0 +1,51 @@
+const { createClient } = require('@supabase/supabase-js');
+
+// Extract the admin session token sent by the dashboard
+const getBearerToken = (req) => {
+  const header = req.headers.authorization || '';
+  const [scheme, token] = header.split(' ');
+  return scheme === 'Bearer' && token ? token : null;
+};
+
+// Supabase client that acts as the signed-in admin, so RLS policies apply to every query
+const createAdminClient = (token) => createClient(
+  process.env.SUPABASE_URL,
+  process.env.SUPABASE_ANON_KEY,
+  {
+    global: { headers: { Authorization: `Bearer ${token}` } },
+    auth: { persistSession: false, autoRefreshToken: false }
+  }
+);
+
+// Middleware: only let admins whose role grants `permission` through.
+// The check runs in the database (admin_has_permission), which also verifies the token signature.
+const requirePermission = (permission) => async (req, res, next) => {
+  const token = getBearerToken(req);
+  if (!token) {
+    return res.status(401).json({ success: false, error: 'Authentication required' });
+  }
+
+  const supabase = createAdminClient(token);
+
+  try {
+    const { data: allowed, error } = await supabase.rpc('admin_has_permission', {
+      p_permission: permission
+    });
+
+    if (error) {
+      return res.status(401).json({ success: false, error: 'Invalid or expired session' });
+    }
+
+    if (!allowed) {
+      return res.status(403).json({ success: false, error: 'You do not have permission to perform this action' });
+    }
+
+    req.supabase = supabase;
+    next();
+  } catch (error) {
+    console.error('Permission check failed:', error);
+    res.status(500).json({ success: false, error: 'Unable to verify permissions' });
+  }
+};
+
+module.exports = { requirePermission };
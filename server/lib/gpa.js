@@ -0,0 +1,37 @@
+let gpaEngine;
+const loadGpaEngine = () => {
+  gpaEngine = gpaEngine || import('../../src/lib/gpa.js');
+  return gpaEngine;
+};
+
+// Top grade point of the scale the database grades a student's results on; undefined falls back to 5
+const getMaxGradePoint = async (supabase, { department, level }) => {
+  const { data: scaleId, error } = await supabase.rpc('resolve_grading_scale', {
+    p_department: department,
+    p_level: level,
+    p_academic_year: null
+  });
+  if (error || !scaleId) return undefined;
+
+  const { data: scale } = await supabase
+    .from('grading_scales')
+    .select('max_grade_point')
+    .eq('id', scaleId)
+    .single();
+  return scale ? Number(scale.max_grade_point) : undefined;
+};
+
+// Calculate student result summary
+const calculateSummary = async (results, maxGradePoint) => {
+  const { summarizeResults } = await loadGpaEngine();
+  const summary = summarizeResults(results, { maxGradePoint });
+
+  return {
+    totalCourses: results.length,
+    totalUnits: summary.creditUnitsAttempted,
+    gpa: summary.gpa.toFixed(2),
+    cgpa: summary.cgpa.toFixed(2)
+  };
+};
+
+module.exports = { calculateSummary, getMaxGradePoint };
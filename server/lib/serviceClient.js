@@ -0,0 +1,17 @@
+const { createClient } = require('@supabase/supabase-js');
+
+// Supabase client with the service role key, for work no admin is signed in for
+// (the SMS worker and provider webhooks). It bypasses RLS, so never use it for admin requests.
+const createServiceClient = () => {
+  if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    throw new Error('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required');
+  }
+
+  return createClient(
+    process.env.SUPABASE_URL,
+    process.env.SUPABASE_SERVICE_ROLE_KEY,
+    { auth: { persistSession: false, autoRefreshToken: false } }
+  );
+};
+
+module.exports = { createServiceClient };
@@ -0,0 +1,90 @@
+const fs = require('fs');
+
+// The shared SMS modules are ES modules in the app's src/lib, so they are imported on first use
+let smsModule;
+const loadSmsProviders = () => {
+  smsModule = smsModule || import('../../src/lib/smsProviders.js');
+  return smsModule;
+};
+
+let analysisModule;
+const loadSmsAnalysis = () => {
+  analysisModule = analysisModule || import('../../src/lib/smsAnalysis.js');
+  return analysisModule;
+};
+
+// The stub provider appends to SMS_STUB_FILE when it is set, so local runs leave a record
+const stubLog = (entry) => {
+  console.log(`[sms stub] ${entry.to}: ${entry.message}`);
+  if (process.env.SMS_STUB_FILE) {
+    fs.appendFileSync(process.env.SMS_STUB_FILE, JSON.stringify(entry) + '\n');
+  }
+};
+
+// The provider chosen by SMS_PROVIDER, built on first use
+let provider;
+const getSmsProvider = async () => {
+  if (!provider) {
+    const { createSmsProvider, smsConfigFromEnv } = await loadSmsProviders();
+    provider = createSmsProvider(smsConfigFromEnv((name) => process.env[name]), { log: stubLog });
+    console.log(`SMS provider: ${provider.name}${provider.configured ? '' : ' (not configured)'}`);
+  }
+  return provider;
+};
+
+// Nigerian phone number in the form every provider expects, or null when it is not valid
+const formatPhone = async (phone) => {
+  const { formatNigerianPhone } = await loadSmsProviders();
+  return formatNigerianPhone(phone);
+};
+
+// Send through the active provider; resolves to { success, provider, sid, status } or { success: false, provider, error }
+const sendSMS = async (phoneNumber, message) => {
+  const smsProvider = await getSmsProvider();
+  const result = await smsProvider.send(phoneNumber, message);
+  if (!result.success) {
+    console.error(`SMS Error (${result.provider}):`, result.error);
+  }
+  return result;
+};
+
+// The message `render(shown, hiddenCount)` with as many of `lines` as fit in SMS_MAX_SEGMENTS
+// segments; lines that do not fit are left out and counted in `hiddenCount`
+const fitSmsToLimit = async (lines, render) => {
+  const { analyzeSms, smsPricingFromEnv } = await loadSmsAnalysis();
+  const { maxSegments } = smsPricingFromEnv((name) => process.env[name]);
+
+  for (let shown = lines.length; shown > 0; shown--) {
+    const message = render(lines.slice(0, shown), lines.length - shown);
+    if (analyzeSms(message).segments <= maxSegments) return message;
+  }
+  return render([], lines.length);
+};
+
+// Record a provider's delivery report against the message it sent. Resolves to the sms_records id,
+// or null when the status is not one we know or no queued message has that provider id.
+const recordDeliveryStatus = async (supabase, provider, { sid, providerStatus, errorCode, payload }) => {
+  const { mapDeliveryStatus } = await loadSmsProviders();
+  const status = mapDeliveryStatus(provider, providerStatus);
+  if (!sid || !status) {
+    console.warn(`Ignoring ${provider} delivery report for ${sid || 'unknown message'}: status "${providerStatus}"`);
+    return null;
+  }
+
+  const { data, error } = await supabase.rpc('record_sms_delivery_status', {
+    p_provider: provider,
+    p_sid: String(sid),
+    p_status: status,
+    p_provider_status: providerStatus ? String(providerStatus) : null,
+    p_error_code: errorCode ? String(errorCode) : null,
+    p_payload: payload || null
+  });
+
+  if (error) {
+    throw new Error(`Failed to record SMS delivery status: ${error.message}`);
+  }
+
+  return data;
+};
+
+module.exports = { getSmsProvider, formatPhone, sendSMS, fitSmsToLimit, recordDeliveryStatus };
@@ -0,0 +1,136 @@
+const { formatPhone, getSmsProvider, recordDeliveryStatus } = require('./sms');
+
+// Queue settings, overridable from the environment
+const settings = () => ({
+  concurrency: Number(process.env.SMS_WORKER_CONCURRENCY) || 5,
+  pollIntervalMs: Number(process.env.SMS_WORKER_POLL_MS) || 5000,
+  backoffBaseMs: Number(process.env.SMS_RETRY_BACKOFF_MS) || 30000,
+  staleAfterSeconds: Number(process.env.SMS_WORKER_STALE_SECONDS) || 300
+});
+
+// Delay before the next attempt: the base delay doubled for each attempt already made, capped at an hour
+const backoffDelay = (attempts, baseMs) => Math.min(baseMs * 2 ** Math.max(attempts - 1, 0), 60 * 60 * 1000);
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Record the outcome of one attempt. The database counts it, and turns a retry into a failure
+// once the message has used its last attempt; resolves to the status the message ended up with.
+// Only the worker holding the message may record it, so a message reclaimed from a stalled
+// worker is not overwritten when that worker finally answers.
+const recordAttempt = async (supabase, workerId, record, config, outcome) => {
+  const attempt = record.attempts + 1;
+  const { data, error } = await supabase.rpc('record_sms_attempt', {
+    p_record_id: record.id,
+    p_worker: workerId,
+    p_status: outcome.status,
+    p_error: outcome.error || null,
+    p_sid: outcome.sid || null,
+    p_provider: outcome.provider || null,
+    p_retry_at: outcome.status === 'retry'
+      ? new Date(Date.now() + backoffDelay(attempt, config.backoffBaseMs)).toISOString()
+      : null
+  });
+
+  if (error) {
+    throw new Error(`Failed to record SMS attempt for ${record.id}: ${error.message}`);
+  }
+
+  return data.status;
+};
+
+// Send one claimed message and record whether it went out, will be retried or has failed
+const processRecord = async (supabase, workerId, record, config) => {
+  const phoneNumber = await formatPhone(record.phone_number);
+  if (!phoneNumber) {
+    return recordAttempt(supabase, workerId, record, config, { status: 'failed', error: 'Invalid phone number format' });
+  }
+
+  const provider = await getSmsProvider();
+  const result = await provider.send(phoneNumber, record.message);
+
+  if (!result.success) {
+    return recordAttempt(supabase, workerId, record, config, {
+      status: 'retry',
+      provider: result.provider,
+      error: result.error
+    });
+  }
+
+  const status = await recordAttempt(supabase, workerId, record, config, {
+    status: 'sent',
+    sid: result.sid,
+    provider: result.provider
+  });
+
+  // First entry on the delivery timeline; the provider's webhook reports the rest.
+  // The message has gone out, so a failure here must not send it again.
+  try {
+    await recordDeliveryStatus(supabase, result.provider, { sid: result.sid, providerStatus: result.status });
+  } catch (error) {
+    console.error(`SMS record ${record.id}:`, error.message);
+  }
+  return status;
+};
+
+// Claim up to `concurrency` due messages and send them side by side; resolves to how many were claimed
+const drainOnce = async (supabase, workerId, config = settings()) => {
+  const { data: records, error } = await supabase.rpc('claim_sms_records', {
+    p_worker: workerId,
+    p_limit: config.concurrency,
+    p_stale_after: `${config.staleAfterSeconds} seconds`
+  });
+
+  if (error) {
+    throw new Error(`Failed to claim SMS records: ${error.message}`);
+  }
+
+  // A message whose outcome could not be recorded stays `sending` and is reclaimed once stale
+  const outcomes = await Promise.all((records || []).map(record =>
+    processRecord(supabase, workerId, record, config).catch((processError) => {
+      console.error(`SMS record ${record.id} failed unexpectedly:`, processError.message);
+      return 'error';
+    })
+  ));
+
+  if (outcomes.length > 0) {
+    const count = (outcome) => outcomes.filter(o => o === outcome).length;
+    console.log(`SMS batch: ${count('sent')} sent, ${count('retry')} to retry, ${count('failed')} failed, ${count('error')} unrecorded`);
+  }
+
+  return outcomes.length;
+};
+
+// Drain the queue until stop() is called. A full batch is followed straight away by the next one;
+// an empty or short one waits for the poll interval. stop() resolves once the batch in hand is done.
+const startQueueWorker = (supabase, workerId) => {
+  const config = settings();
+  let running = true;
+
+  const loop = (async () => {
+    console.log(`SMS worker ${workerId} started (concurrency ${config.concurrency})`);
+
+    while (running) {
+      let claimed = 0;
+      try {
+        claimed = await drainOnce(supabase, workerId, config);
+      } catch (error) {
+        console.error('SMS worker error:', error.message);
+      }
+
+      if (running && claimed < config.concurrency) {
+        await sleep(config.pollIntervalMs);
+      }
+    }
+
+    console.log(`SMS worker ${workerId} stopped`);
+  })();
+
+  return {
+    stop: async () => {
+      running = false;
+      await loop;
+    }
+  };
+};
+
+module.exports = { backoffDelay, drainOnce, startQueueWorker };
@@ -0,0 +1,123 @@
+const crypto = require('crypto');
+const express = require('express');
+const { recordDeliveryStatus } = require('./sms');
+const { createServiceClient } = require('./serviceClient');
+
+// Delivery report webhooks, one per provider. Each checks the request really comes from the
+// provider before anything is recorded, and refuses every request while its secret is unset.
+// Mount the router before any app-wide body parser: Termii signs the raw request body.
+
+// Supabase service client, created on the first report
+let supabase;
+const getServiceClient = () => {
+  supabase = supabase || createServiceClient();
+  return supabase;
+};
+
+const safeEqual = (a, b) => {
+  const left = Buffer.from(String(a || ''));
+  const right = Buffer.from(String(b || ''));
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+};
+
+// Public URL of the request as the provider called it. Set SMS_WEBHOOK_BASE_URL behind a proxy,
+// or when the platform strips a path prefix, so the URL matches what the provider signed.
+const publicUrl = (req) =>
+  `${process.env.SMS_WEBHOOK_BASE_URL || `${req.protocol}://${req.get('host')}`}${req.originalUrl}`;
+
+// Twilio: X-Twilio-Signature is an HMAC-SHA1 (auth token) of the URL followed by the sorted form fields
+const verifyTwilio = (req) => {
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  if (!authToken) return false;
+
+  const params = req.body || {};
+  const signed = Object.keys(params).sort().reduce((data, key) => data + key + params[key], publicUrl(req));
+  const expected = crypto.createHmac('sha1', authToken).update(signed).digest('base64');
+
+  return safeEqual(req.get('x-twilio-signature'), expected);
+};
+
+// SendChamp: the callback URL registered with SendChamp carries our secret as `?token=`
+const verifySendChamp = (req) => {
+  const secret = process.env.SENDCHAMP_WEBHOOK_SECRET;
+  return !!secret && safeEqual(req.query.token, secret);
+};
+
+// Termii: X-Termii-Signature is an HMAC-SHA512 (webhook secret) of the raw body, hex encoded
+const verifyTermii = (req) => {
+  const secret = process.env.TERMII_WEBHOOK_SECRET;
+  if (!secret || !req.rawBody) return false;
+
+  const expected = crypto.createHmac('sha512', secret).update(req.rawBody).digest('hex');
+  return safeEqual(req.get('x-termii-signature'), expected);
+};
+
+const parseTwilio = (body) => ({
+  sid: body.MessageSid || body.SmsSid,
+  providerStatus: body.MessageStatus || body.SmsStatus,
+  errorCode: body.ErrorCode
+});
+
+const parseSendChamp = (body) => {
+  const report = body.data || body;
+  return {
+    sid: report.id || report.reference || report.message_id,
+    providerStatus: report.status,
+    errorCode: report.error_code || report.reason
+  };
+};
+
+const parseTermii = (body) => ({
+  sid: body.message_id || body.id,
+  providerStatus: body.status,
+  errorCode: body.error_code
+});
+
+// Verify, parse and record one report. Reports for messages we did not queue (e.g. test SMS)
+// are acknowledged so the provider stops resending them.
+const deliveryReportHandler = (provider, verify, parse) => async (req, res) => {
+  if (!verify(req)) {
+    console.warn(`Rejected ${provider} delivery report: signature check failed`);
+    return res.status(403).json({ success: false, error: 'Invalid signature' });
+  }
+
+  try {
+    const recordId = await recordDeliveryStatus(getServiceClient(), provider, {
+      ...parse(req.body || {}),
+      payload: req.body
+    });
+
+    res.json({ success: true, recorded: !!recordId });
+  } catch (error) {
+    console.error(`${provider} delivery report error:`, error.message);
+    res.status(500).json({ success: false, error: 'Failed to record delivery report' });
+  }
+};
+
+const keepRawBody = (req, res, buffer) => {
+  req.rawBody = buffer;
+};
+
+// Middleware for each provider's webhook, for servers that expose them at their own paths
+const smsWebhookHandlers = {
+  twilio: [
+    express.urlencoded({ extended: false }),
+    deliveryReportHandler('twilio', verifyTwilio, parseTwilio)
+  ],
+  sendchamp: [
+    express.json(),
+    deliveryReportHandler('sendchamp', verifySendChamp, parseSendChamp)
+  ],
+  termii: [
+    express.json({ verify: keepRawBody }),
+    deliveryReportHandler('termii', verifyTermii, parseTermii)
+  ]
+};
+
+// POST /twilio, /sendchamp and /termii under wherever the router is mounted
+const smsWebhookRouter = express.Router();
+Object.entries(smsWebhookHandlers).forEach(([provider, handlers]) => {
+  smsWebhookRouter.post(`/${provider}`, ...handlers);
+});
+
+module.exports = { smsWebhookHandlers, smsWebhookRouter };
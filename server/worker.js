@@ -0,0 +1,27 @@
+const os = require('os');
+const { createServiceClient } = require('./lib/serviceClient');
+const { startQueueWorker } = require('./lib/smsQueue');
+require('dotenv').config();
+
+// Sends the SMS the dashboard queues in sms_records. Runs apart from the API so it keeps going
+// when no admin is signed in; any number of workers can share the queue.
+let supabase;
+try {
+  supabase = createServiceClient();
+} catch (error) {
+  console.error(`Cannot start the SMS worker: ${error.message}`);
+  process.exit(1);
+}
+
+const workerId = process.env.SMS_WORKER_ID || `${os.hostname()}-${process.pid}`;
+const worker = startQueueWorker(supabase, workerId);
+
+// Finish the batch in hand before exiting; anything cut short is reclaimed by the next worker
+const shutdown = async (signal) => {
+  console.log(`${signal} received, finishing the current SMS batch`);
+  await worker.stop();
+  process.exit(0);
+};
+
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
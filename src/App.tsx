@@ -5,12 +5,19 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/contexts/AuthContext";
+import { StudentAuthProvider } from "@/contexts/StudentAuthContext";
 import ProtectedRoute from "@/components/ProtectedRoute";
+import { PERMISSIONS } from "@/lib/permissions";
+import StudentProtectedRoute from "@/components/StudentProtectedRoute";
 import Landing from "./pages/Landing";
 import Register from "./pages/Register";
 import StudentDashboard from "./pages/StudentDashboard";
+import StudentLogin from "./pages/StudentLogin";
+import StudentResetPassword from "./pages/StudentResetPassword";
 import AdminDashboard from "./pages/AdminDashboard";
 import AdminLogin from "./pages/AdminLogin";
+import AdminChangePassword from "./pages/AdminChangePassword";
+import LecturerPortal from "./pages/LecturerPortal";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -18,25 +25,39 @@ const queryClient = new QueryClient();
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <AuthProvider>
-      <TooltipProvider>
-        <Toaster />
-        <Sonner />
-        <BrowserRouter>
-          <Routes>
-            <Route path="/" element={<Landing />} />
-            <Route path="/register" element={<Register />} />
-            <Route path="/student" element={<StudentDashboard />} />
-            <Route path="/admin/login" element={<AdminLogin />} />
-            <Route path="/admin" element={
-              <ProtectedRoute>
-                <AdminDashboard />
-              </ProtectedRoute>
-            } />
-            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </BrowserRouter>
-      </TooltipProvider>
+      <StudentAuthProvider>
+        <TooltipProvider>
+          <Toaster />
+          <Sonner />
+          <BrowserRouter>
+            <Routes>
+              <Route path="/" element={<Landing />} />
+              <Route path="/register" element={<Register />} />
+              <Route path="/student/login" element={<StudentLogin />} />
+              <Route path="/student/reset-password" element={<StudentResetPassword />} />
+              <Route path="/student" element={
+                <StudentProtectedRoute>
+                  <StudentDashboard />
+                </StudentProtectedRoute>
+              } />
+              <Route path="/admin/login" element={<AdminLogin />} />
+              <Route path="/admin/change-password" element={<AdminChangePassword />} />
+              <Route path="/admin" element={
+                <ProtectedRoute requiredPermission={PERMISSIONS.VIEW_DASHBOARD}>
+                  <AdminDashboard />
+                </ProtectedRoute>
+              } />
+              <Route path="/lecturer" element={
+                <ProtectedRoute requiredPermission={PERMISSIONS.ENTER_COURSE_SCORES}>
+                  <LecturerPortal />
+                </ProtectedRoute>
+              } />
+              {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </BrowserRouter>
+        </TooltipProvider>
+      </StudentAuthProvider>
     </AuthProvider>
   </QueryClientProvider>
 );
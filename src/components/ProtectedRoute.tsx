@@ -2,14 +2,16 @@
 import React from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { Navigate } from 'react-router-dom';
-import { Loader2 } from 'lucide-react';
+import { Loader2, ShieldAlert } from 'lucide-react';
+import { Permission, permissionDeniedMessage } from '@/lib/permissions';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
+  requiredPermission?: Permission;
 }
 
-const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
-  const { admin, loading } = useAuth();
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, requiredPermission }) => {
+  const { admin, loading, can } = useAuth();
 
   if (loading) {
     return (
@@ -23,6 +25,23 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
     return <Navigate to="/admin/login" replace />;
   }
 
+  // Accounts created or reset by a super admin start with a temporary password
+  if (admin.must_reset_password) {
+    return <Navigate to="/admin/change-password" replace />;
+  }
+
+  if (requiredPermission && !can(requiredPermission)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <div className="text-center max-w-sm">
+          <ShieldAlert className="h-10 w-10 text-red-500 mx-auto mb-4" />
+          <h2 className="text-xl font-semibold text-gray-900">Access Denied</h2>
+          <p className="text-gray-600 mt-2">{permissionDeniedMessage(requiredPermission)}.</p>
+        </div>
+      </div>
+    );
+  }
+
   return <>{children}</>;
 };
 
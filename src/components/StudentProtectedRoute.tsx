@@ -0,0 +1,29 @@
+import React from 'react';
+import { useStudentAuth } from '@/contexts/StudentAuthContext';
+import { Navigate, useLocation } from 'react-router-dom';
+import { Loader2 } from 'lucide-react';
+
+interface StudentProtectedRouteProps {
+  children: React.ReactNode;
+}
+
+const StudentProtectedRoute: React.FC<StudentProtectedRouteProps> = ({ children }) => {
+  const { session, loading } = useStudentAuth();
+  const location = useLocation();
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!session) {
+    return <Navigate to="/student/login" replace state={{ from: location.pathname }} />;
+  }
+
+  return <>{children}</>;
+};
+
+export default StudentProtectedRoute;
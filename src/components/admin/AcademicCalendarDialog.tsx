@@ -0,0 +1,365 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CalendarDays, Loader2, Plus, Save, Star, Trash2 } from 'lucide-react';
+import { useAcademicCalendar } from '@/hooks/useAcademicCalendar';
+import {
+  defaultSessionDates,
+  isRegistrationOpen,
+  isResultEntryOpen,
+  Semester,
+  SemesterUpdate,
+} from '@/services/academicCalendarService';
+
+interface AcademicCalendarDialogProps {
+  canManageCalendar: boolean;
+}
+
+// datetime-local inputs work in local time without a zone
+const toLocalInput = (value: string | null) => {
+  if (!value) return '';
+  const date = new Date(value);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const fromLocalInput = (value: string) => (value ? new Date(value).toISOString() : null);
+
+const semesterForm = (semester: Semester) => ({
+  start_date: semester.start_date,
+  end_date: semester.end_date,
+  registration_opens_at: toLocalInput(semester.registration_opens_at),
+  registration_closes_at: toLocalInput(semester.registration_closes_at),
+  result_entry_opens_at: toLocalInput(semester.result_entry_opens_at),
+  result_entry_closes_at: toLocalInput(semester.result_entry_closes_at),
+});
+
+interface SemesterEditorProps {
+  semester: Semester;
+  canManage: boolean;
+  onSave: (semester: Semester, updates: SemesterUpdate) => Promise<boolean>;
+}
+
+const SemesterEditor: React.FC<SemesterEditorProps> = ({ semester, canManage, onSave }) => {
+  const [form, setForm] = useState(() => semesterForm(semester));
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setForm(semesterForm(semester));
+  }, [semester]);
+
+  const field = (key: keyof typeof form, label: string, type: 'date' | 'datetime-local') => (
+    <div className="space-y-1">
+      <Label htmlFor={`${semester.id}-${key}`}>{label}</Label>
+      <Input
+        id={`${semester.id}-${key}`}
+        type={type}
+        value={form[key]}
+        disabled={!canManage || saving}
+        onChange={e => setForm(prev => ({ ...prev, [key]: e.target.value }))}
+      />
+    </div>
+  );
+
+  const handleSave = async () => {
+    setSaving(true);
+    await onSave(semester, {
+      start_date: form.start_date,
+      end_date: form.end_date,
+      registration_opens_at: fromLocalInput(form.registration_opens_at),
+      registration_closes_at: fromLocalInput(form.registration_closes_at),
+      result_entry_opens_at: fromLocalInput(form.result_entry_opens_at),
+      result_entry_closes_at: fromLocalInput(form.result_entry_closes_at),
+    });
+    setSaving(false);
+  };
+
+  return (
+    <div className="border rounded-lg p-3 space-y-3">
+      <div className="flex items-center gap-2 font-medium text-gray-900">
+        {semester.name}
+        {isRegistrationOpen(semester) && (
+          <Badge variant="outline" className="bg-green-100 text-green-800 border-green-200">Registration open</Badge>
+        )}
+        {semester.result_entry_opens_at && isResultEntryOpen(semester) && (
+          <Badge variant="outline" className="bg-blue-100 text-blue-800 border-blue-200">Result entry open</Badge>
+        )}
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {field('start_date', 'Starts', 'date')}
+        {field('end_date', 'Ends', 'date')}
+        {field('registration_opens_at', 'Registration opens', 'datetime-local')}
+        {field('registration_closes_at', 'Registration closes', 'datetime-local')}
+        {field('result_entry_opens_at', 'Result entry opens', 'datetime-local')}
+        {field('result_entry_closes_at', 'Result entry closes', 'datetime-local')}
+      </div>
+      <p className="text-xs text-gray-500">
+        Students can only register inside the registration window. Leave the result entry window empty to accept results at any time.
+      </p>
+      {canManage && (
+        <div className="flex justify-end">
+          <Button size="sm" onClick={handleSave} disabled={saving || !form.start_date || !form.end_date}>
+            {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+            Save {semester.name}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const AcademicCalendarDialog: React.FC<AcademicCalendarDialogProps> = ({ canManageCalendar }) => {
+  const {
+    sessions,
+    loading,
+    currentSession,
+    createSession,
+    updateSession,
+    deleteSession,
+    setCurrentSession,
+    updateSemester,
+    refetch
+  } = useAcademicCalendar();
+  const [open, setOpen] = useState(false);
+  const [selectedName, setSelectedName] = useState('');
+  const [sessionDates, setSessionDates] = useState({ start_date: '', end_date: '' });
+  const [newSession, setNewSession] = useState({ name: '', start_date: '', end_date: '' });
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+
+  const selectedSession = sessions.find(session => session.name === selectedName) ?? null;
+
+  useEffect(() => {
+    if (open) refetch();
+  }, [open, refetch]);
+
+  // Start on the current session, and fall back to it if the selected one is deleted
+  useEffect(() => {
+    if (!selectedSession && currentSession) {
+      setSelectedName(currentSession.name);
+    }
+  }, [selectedSession, currentSession]);
+
+  useEffect(() => {
+    setSessionDates(selectedSession
+      ? { start_date: selectedSession.start_date, end_date: selectedSession.end_date }
+      : { start_date: '', end_date: '' });
+  }, [selectedSession]);
+
+  const runSaving = async (key: string, action: () => Promise<boolean>) => {
+    setSavingKey(key);
+    const saved = await action();
+    setSavingKey(null);
+    return saved;
+  };
+
+  const handleNewSessionName = (name: string) => {
+    const dates = defaultSessionDates(name.trim());
+    setNewSession(prev => ({ ...prev, name, ...(dates ?? {}) }));
+  };
+
+  const handleCreateSession = async () => {
+    const name = newSession.name.trim();
+    const created = await runSaving('create', () => createSession({ ...newSession, name }));
+    if (created) {
+      setNewSession({ name: '', start_date: '', end_date: '' });
+      setSelectedName(name);
+    }
+  };
+
+  const handleDeleteSession = async () => {
+    if (!selectedSession) return;
+    if (!confirm(`Delete the ${selectedSession.name} session and its semesters?`)) return;
+
+    const deleted = await runSaving('delete', () => deleteSession(selectedSession));
+    if (deleted) setSelectedName('');
+  };
+
+  const sessionDatesChanged = !!selectedSession && (
+    sessionDates.start_date !== selectedSession.start_date || sessionDates.end_date !== selectedSession.end_date
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2">
+          <CalendarDays className="h-4 w-4" />
+          Academic Calendar
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle>Academic Calendar</DialogTitle>
+          <DialogDescription>
+            Sessions and semesters used across results, courses and notifications, with their registration and result entry windows.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading && sessions.length === 0 ? (
+          <div className="flex justify-center py-10">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-3">
+              <div className="flex flex-wrap items-end gap-3">
+                <div className="space-y-1 min-w-[12rem]">
+                  <Label>Session</Label>
+                  <Select value={selectedName} onValueChange={setSelectedName}>
+                    <SelectTrigger><SelectValue placeholder="Pick session" /></SelectTrigger>
+                    <SelectContent>
+                      {sessions.map(session => (
+                        <SelectItem key={session.id} value={session.name}>
+                          {session.name}{session.is_current ? ' (current)' : ''}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {selectedSession?.is_current && (
+                  <Badge variant="outline" className="bg-green-100 text-green-800 border-green-200 mb-2">Current session</Badge>
+                )}
+                {canManageCalendar && selectedSession && (
+                  <div className="flex gap-2 ml-auto">
+                    {!selectedSession.is_current && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => runSaving('current', () => setCurrentSession(selectedSession))}
+                        disabled={savingKey !== null}
+                      >
+                        {savingKey === 'current' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Star className="mr-2 h-4 w-4" />}
+                        Make Current
+                      </Button>
+                    )}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-red-600 hover:text-red-700"
+                      onClick={handleDeleteSession}
+                      disabled={savingKey !== null}
+                    >
+                      {savingKey === 'delete' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Trash2 className="mr-2 h-4 w-4" />}
+                      Delete
+                    </Button>
+                  </div>
+                )}
+              </div>
+
+              {selectedSession && (
+                <>
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 items-end">
+                    <div className="space-y-1">
+                      <Label htmlFor="session-start">Session starts</Label>
+                      <Input
+                        id="session-start"
+                        type="date"
+                        value={sessionDates.start_date}
+                        disabled={!canManageCalendar}
+                        onChange={e => setSessionDates(prev => ({ ...prev, start_date: e.target.value }))}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="session-end">Session ends</Label>
+                      <Input
+                        id="session-end"
+                        type="date"
+                        value={sessionDates.end_date}
+                        disabled={!canManageCalendar}
+                        onChange={e => setSessionDates(prev => ({ ...prev, end_date: e.target.value }))}
+                      />
+                    </div>
+                    {canManageCalendar && (
+                      <Button
+                        variant="outline"
+                        onClick={() => runSaving('session', () => updateSession(selectedSession, sessionDates))}
+                        disabled={!sessionDatesChanged || savingKey !== null}
+                      >
+                        {savingKey === 'session' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Save Dates
+                      </Button>
+                    )}
+                  </div>
+
+                  {selectedSession.semesters.map(semester => (
+                    <SemesterEditor
+                      key={semester.id}
+                      semester={semester}
+                      canManage={canManageCalendar}
+                      onSave={updateSemester}
+                    />
+                  ))}
+                </>
+              )}
+
+              {sessions.length === 0 && (
+                <p className="text-sm text-gray-600">No academic sessions have been set up.</p>
+              )}
+            </div>
+
+            {canManageCalendar && (
+              <>
+                <Separator />
+                <div className="space-y-3">
+                  <h3 className="font-semibold text-gray-900">New Session</h3>
+                  <div className="grid grid-cols-1 sm:grid-cols-4 gap-3 items-end">
+                    <div className="space-y-1">
+                      <Label htmlFor="new-session-name">Name</Label>
+                      <Input
+                        id="new-session-name"
+                        placeholder="e.g. 2026/2027"
+                        value={newSession.name}
+                        onChange={e => handleNewSessionName(e.target.value)}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="new-session-start">Starts</Label>
+                      <Input
+                        id="new-session-start"
+                        type="date"
+                        value={newSession.start_date}
+                        onChange={e => setNewSession(prev => ({ ...prev, start_date: e.target.value }))}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="new-session-end">Ends</Label>
+                      <Input
+                        id="new-session-end"
+                        type="date"
+                        value={newSession.end_date}
+                        onChange={e => setNewSession(prev => ({ ...prev, end_date: e.target.value }))}
+                      />
+                    </div>
+                    <Button
+                      onClick={handleCreateSession}
+                      disabled={!newSession.name.trim() || !newSession.start_date || !newSession.end_date || savingKey !== null}
+                    >
+                      {savingKey === 'create' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+                      Add Session
+                    </Button>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    The first and second semesters are created with the session; adjust their dates and windows afterwards.
+                  </p>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AcademicCalendarDialog;
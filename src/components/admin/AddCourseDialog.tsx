@@ -27,6 +27,8 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { supabase } from '@/integrations/supabase/client';
 import { TablesInsert } from '@/integrations/supabase/types';
 import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import { PERMISSIONS, permissionDeniedMessage } from '@/lib/permissions';
 
 interface Course {
   id: string;
@@ -44,6 +46,7 @@ interface AddStudentDialogProps {
 }
 
 const AddStudentDialog: React.FC<AddStudentDialogProps> = ({ onStudentAdded }) => {
+  const { can } = useAuth();
   const [open, setOpen] = useState(false);
   const [loading, setLoading] = useState(false);
   const [loadingCourses, setLoadingCourses] = useState(false);
@@ -187,6 +190,11 @@ const AddStudentDialog: React.FC<AddStudentDialogProps> = ({ onStudentAdded }) =
       return;
     }
 
+    if (!can(PERMISSIONS.MANAGE_STUDENTS)) {
+      toast.error(permissionDeniedMessage(PERMISSIONS.MANAGE_STUDENTS));
+      return;
+    }
+
     setLoading(true);
 
     try {
@@ -11,6 +11,12 @@ import {
 } from '@/components/ui/select';
 import { Plus, Loader2, Trash2, BookOpen } from 'lucide-react';
 import { Database } from '@/integrations/supabase/types';
+import { PERMISSIONS, requirePermission } from '@/lib/permissions';
+import { GradingScale, MAX_CA_SCORE, MAX_EXAM_SCORE, gradeForScore } from '@/lib/grading';
+import { GradingScaleService } from '@/services/gradingScaleService';
+import { CourseRegistrationService } from '@/services/courseRegistrationService';
+import { isResultEntryOpen, SEMESTER_NAMES } from '@/services/academicCalendarService';
+import { useAcademicCalendar } from '@/hooks/useAcademicCalendar';
 type Student = Database['public']['Tables']['students']['Row'];
 type Course = Database['public']['Tables']['courses']['Row'];
 
@@ -26,32 +32,11 @@ interface AddResultDialogProps {
   onResultAdded: () => void;
 }
 
-// Grading scale and helpers
-const gradeScale = [
-  { min: 70, letter: 'A', points: 5.0 },
-  { min: 60, letter: 'B', points: 4.0 },
-  { min: 50, letter: 'C', points: 3.0 },
-  { min: 45, letter: 'D', points: 2.0 },
-  { min: 40, letter: 'E', points: 1.0 },
-  { min: 0,  letter: 'F', points: 0.0 },
-] as const;
-
-function getGrade(total: number) {
-  return gradeScale.find(g => total >= g.min)!;
-}
-
-const thisYear = new Date().getFullYear();
-const academicYears = [
-  `${thisYear - 2}/${thisYear - 1}`,
-  `${thisYear - 1}/${thisYear}`,
-  `${thisYear}/${thisYear + 1}`,
-];
-const semesters = ['First Semester', 'Second Semester'];
-
 const AddResultDialog: React.FC<AddResultDialogProps> = ({
   students,
   onResultAdded
 }) => {
+  const { academicYears, findSemester } = useAcademicCalendar();
   const [open, setOpen] = useState(false);
   const [loading, setLoading] = useState(false);
   const [loadingCourses, setLoadingCourses] = useState(false);
@@ -64,6 +49,9 @@ const AddResultDialog: React.FC<AddResultDialogProps> = ({
     { id: '1', course_id: '', ca_score: '', exam_score: '' }
   ]);
   const [availableCourses, setAvailableCourses] = useState<Course[]>([]);
+  const [gradingScale, setGradingScale] = useState<GradingScale | null>(null);
+
+  const entrySemester = findSemester(formData.academic_year, formData.semester);
 
   const selectedStudent = useMemo(
     () => students.find(s => s.id === formData.student_id),
@@ -71,34 +59,53 @@ const AddResultDialog: React.FC<AddResultDialogProps> = ({
   );
 
   useEffect(() => {
-    if (formData.student_id && formData.semester) {
+    if (formData.student_id && formData.semester && formData.academic_year) {
       fetchCourses();
     }
-  }, [formData.student_id, formData.semester]);
+  }, [formData.student_id, formData.semester, formData.academic_year]);
+
+  // Preview grades with the same scale the database will apply to this student and session
+  useEffect(() => {
+    if (!selectedStudent) {
+      setGradingScale(null);
+      return;
+    }
+
+    let cancelled = false;
+    GradingScaleService.getScaleFor(selectedStudent.department, selectedStudent.level, formData.academic_year || null)
+      .then(scale => {
+        if (!cancelled) setGradingScale(scale);
+      })
+      .catch(() => {
+        if (!cancelled) setGradingScale(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedStudent, formData.academic_year]);
 
+  // Results can only be entered for courses the student registered that semester
   async function fetchCourses() {
     if (!selectedStudent) return;
     setLoadingCourses(true);
-    const { data, error } = await supabase
-      .from('courses')
-      .select('*')
-      .eq('department', selectedStudent.department)
-      .eq('level', selectedStudent.level)
-      .eq('semester', formData.semester)
-      .eq('is_active', true);
-
-    if (error) {
+    try {
+      const registrations = await CourseRegistrationService.getRegistrations(
+        selectedStudent.id,
+        formData.academic_year,
+        formData.semester
+      );
+      setAvailableCourses(registrations.map(r => r.course));
+    } catch (error) {
       console.error('Fetch courses error:', error);
       setAvailableCourses([]);
-    } else {
-      setAvailableCourses(data);
     }
     setLoadingCourses(false);
   }
 
   const handleFormChange = (field: keyof typeof formData, value: string) => {
     setFormData(prev => ({ ...prev, [field]: value }));
-    if (field === 'student_id' || field === 'semester') {
+    if (field === 'student_id' || field === 'semester' || field === 'academic_year') {
       setCourses([{ id: Date.now().toString(), course_id: '', ca_score: '', exam_score: '' }]);
     }
   };
@@ -135,11 +142,11 @@ const AddResultDialog: React.FC<AddResultDialogProps> = ({
       const ex = parseFloat(e.exam_score);
       const total = ca + ex;
       const course = availableCourses.find(c => c.id === e.course_id);
-      if (isNaN(ca) || ca < 0 || ca > 30) {
+      if (isNaN(ca) || ca < 0 || ca > MAX_CA_SCORE) {
         alert(`CA score invalid for ${course?.course_code}`);
         return false;
       }
-      if (isNaN(ex) || ex < 0 || ex > 70) {
+      if (isNaN(ex) || ex < 0 || ex > MAX_EXAM_SCORE) {
         alert(`Exam score invalid for ${course?.course_code}`);
         return false;
       }
@@ -157,20 +164,22 @@ const AddResultDialog: React.FC<AddResultDialogProps> = ({
 
     setLoading(true);
     try {
+      requirePermission(PERMISSIONS.ENTER_RESULTS);
+
       const entries = courses.filter(c => c.course_id && c.ca_score && c.exam_score);
       const payload = entries.map(e => {
         const ca = parseFloat(e.ca_score);
         const ex = parseFloat(e.exam_score);
         const total = ca + ex;
-        const { letter, points } = getGrade(total);
+        const band = gradeForScore(gradingScale, total);
         return {
           student_id: formData.student_id,
           course_id: e.course_id,
           ca_score: ca,
           exam_score: ex,
           total_score: total,
-          grade: letter,
-          grade_point: points,
+          grade: band?.letter ?? null,
+          grade_point: band?.grade_point ?? null,
           academic_year: formData.academic_year,
           semester: formData.semester,
         };
@@ -179,11 +188,6 @@ const AddResultDialog: React.FC<AddResultDialogProps> = ({
       const { error: insertErr } = await supabase.from('results').insert(payload);
       if (insertErr) throw insertErr;
 
-      const { error: rpcErr } = await supabase.rpc('calculate_student_cgpa', {
-        student_uuid: formData.student_id
-      });
-      if (rpcErr) console.warn('CGPA update failed:', rpcErr);
-
       alert(`Added ${payload.length} result(s)!`);
       onResultAdded();
       setOpen(false);
@@ -208,7 +212,10 @@ const AddResultDialog: React.FC<AddResultDialogProps> = ({
       <DialogContent className="max-w-5xl max-h-[90vh] overflow-auto">
         <DialogHeader>
           <DialogTitle>Add Semester Results</DialogTitle>
-          <DialogDescription>Enter CA/Exam marks for selected student & semester</DialogDescription>
+          <DialogDescription>
+            Enter CA/Exam marks for selected student & semester
+            {gradingScale && ` · graded on the ${gradingScale.name}`}
+          </DialogDescription>
         </DialogHeader>
         
         {/* Student / Semester / Year */}
@@ -229,7 +236,7 @@ const AddResultDialog: React.FC<AddResultDialogProps> = ({
             <Select value={formData.semester} onValueChange={v => handleFormChange('semester', v)}>
               <SelectTrigger><SelectValue placeholder="Pick semester" /></SelectTrigger>
               <SelectContent>
-                {semesters.map(s => <SelectItem key={s} value={s}>{s}</SelectItem>)}
+                {SEMESTER_NAMES.map(s => <SelectItem key={s} value={s}>{s}</SelectItem>)}
               </SelectContent>
             </Select>
           </div>
@@ -244,8 +251,14 @@ const AddResultDialog: React.FC<AddResultDialogProps> = ({
           </div>
         </div>
 
+        {entrySemester && !isResultEntryOpen(entrySemester) && (
+          <p className="text-sm text-amber-700 mb-4">
+            Result entry for {formData.academic_year} {formData.semester} is closed. Only staff who can amend results can still add them.
+          </p>
+        )}
+
         {/* Courses */}
-        {formData.student_id && formData.semester && (
+        {formData.student_id && formData.semester && formData.academic_year && (
           <div className="space-y-4 mb-4">
             <div className="flex justify-between items-center">
               <h3 className="flex items-center gap-2"><BookOpen /> Course Results</h3>
@@ -254,14 +267,16 @@ const AddResultDialog: React.FC<AddResultDialogProps> = ({
               </Button>
             </div>
             {loadingCourses && <Loader2 className="animate-spin" />}
-            {availableCourses.length === 0 && !loadingCourses && <p>No courses found.</p>}
+            {availableCourses.length === 0 && !loadingCourses && (
+              <p>No registered courses found. Register the student's courses for this semester first.</p>
+            )}
 
             {courses.map((row, i) => {
               const courseInfo = availableCourses.find(c => c.id === row.course_id);
               const caNum = parseFloat(row.ca_score) || 0;
               const exNum = parseFloat(row.exam_score) || 0;
               const total = caNum + exNum;
-              const gradeLetter = total ? getGrade(total).letter : '—';
+              const gradeLetter = total ? gradeForScore(gradingScale, total)?.letter ?? '—' : '—';
               return (
                 <div key={row.id} className="border p-4 rounded space-y-2">
                   <div className="flex justify-between items-center">
@@ -277,8 +292,8 @@ const AddResultDialog: React.FC<AddResultDialogProps> = ({
                           .map(c => <SelectItem key={c.id} value={c.id}>{c.course_code}</SelectItem>)}
                       </SelectContent>
                     </Select>
-                    <Input type="number" placeholder="CA" value={row.ca_score} onChange={e => handleCourseChange(row.id, 'ca_score', e.target.value)} min="0" max="30" />
-                    <Input type="number" placeholder="Exam" value={row.exam_score} onChange={e => handleCourseChange(row.id, 'exam_score', e.target.value)} min="0" max="70" />
+                    <Input type="number" placeholder="CA" value={row.ca_score} onChange={e => handleCourseChange(row.id, 'ca_score', e.target.value)} min="0" max={MAX_CA_SCORE} />
+                    <Input type="number" placeholder="Exam" value={row.exam_score} onChange={e => handleCourseChange(row.id, 'exam_score', e.target.value)} min="0" max={MAX_EXAM_SCORE} />
                     <div className="flex justify-center items-center">{total ? total.toFixed(1) : '—'}</div>
                     <div className="flex justify-center items-center">{gradeLetter}</div>
                   </div>
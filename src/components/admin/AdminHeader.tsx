@@ -1,7 +1,10 @@
 
 import React from 'react';
 import { Button } from '@/components/ui/button';
-import { GraduationCap, Settings, LogOut } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { GraduationCap, Settings, LogOut, ClipboardList } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { PERMISSIONS } from '@/lib/permissions';
 
 interface Admin {
   full_name: string;
@@ -13,6 +16,9 @@ interface AdminHeaderProps {
 }
 
 const AdminHeader: React.FC<AdminHeaderProps> = ({ admin, onLogout }) => {
+  const { can } = useAuth();
+  const navigate = useNavigate();
+
   return (
     <div className="bg-white shadow-sm border-b">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -27,6 +33,12 @@ const AdminHeader: React.FC<AdminHeaderProps> = ({ admin, onLogout }) => {
             </div>
           </div>
           <div className="flex items-center space-x-4">
+            {can(PERMISSIONS.ENTER_COURSE_SCORES) && (
+              <Button variant="outline" size="sm" onClick={() => navigate('/lecturer')}>
+                <ClipboardList className="h-4 w-4 mr-2" />
+                Score Entry
+              </Button>
+            )}
             <Button variant="outline" size="sm">
               <Settings className="h-4 w-4 mr-2" />
               Settings
@@ -0,0 +1,364 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { History, KeyRound, Loader2, ShieldCheck, UserPlus } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useAdminUsers } from '@/hooks/useAdminUsers';
+import { AdminAuditEntry, NewAdminData } from '@/services/adminService';
+import { AdminRole } from '@/lib/permissions';
+
+const ROLE_LABELS: Record<AdminRole, string> = {
+  super_admin: 'Super Admin',
+  admin: 'Admin',
+  registrar: 'Registrar',
+  hod: 'Head of Department',
+  exam_officer: 'Exam Officer',
+  lecturer: 'Lecturer'
+};
+
+const ACTION_LABELS: Record<string, string> = {
+  created: 'Created account',
+  role_changed: 'Changed role',
+  activated: 'Activated account',
+  deactivated: 'Deactivated account',
+  password_reset: 'Forced password reset',
+  password_changed: 'Changed own password',
+  renamed: 'Renamed account'
+};
+
+const INITIAL_ADMIN_FORM: NewAdminData = {
+  email: '',
+  full_name: '',
+  role: 'admin'
+};
+
+const formatDateTime = (value: string | null) =>
+  value ? new Date(value).toLocaleString() : 'Never';
+
+const describeAuditEntry = (entry: AdminAuditEntry) => {
+  const details = (entry.details ?? {}) as Record<string, string>;
+  if (entry.action === 'role_changed' && details.from && details.to) {
+    return `${ROLE_LABELS[details.from as AdminRole] ?? details.from} → ${ROLE_LABELS[details.to as AdminRole] ?? details.to}`;
+  }
+  if (entry.action === 'created' && details.role) {
+    return `as ${ROLE_LABELS[details.role as AdminRole] ?? details.role}`;
+  }
+  if (entry.action === 'renamed' && details.to) {
+    return `to ${details.to}`;
+  }
+  return '';
+};
+
+const AdminUsersTab: React.FC = () => {
+  const { admin: currentAdmin } = useAuth();
+  const { admins, auditLog, loading, error, createAdmin, updateAdmin, resetPassword } = useAdminUsers();
+
+  const [addOpen, setAddOpen] = useState(false);
+  const [form, setForm] = useState<NewAdminData>(INITIAL_ADMIN_FORM);
+  const [saving, setSaving] = useState(false);
+  const [busyAdminId, setBusyAdminId] = useState<string | null>(null);
+  const [issuedPassword, setIssuedPassword] = useState<{ email: string; password: string } | null>(null);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    const temporaryPassword = await createAdmin(form);
+    setSaving(false);
+
+    if (temporaryPassword) {
+      setIssuedPassword({ email: form.email.toLowerCase().trim(), password: temporaryPassword });
+      setAddOpen(false);
+      setForm(INITIAL_ADMIN_FORM);
+    }
+  };
+
+  const handleRoleChange = async (adminId: string, role: AdminRole) => {
+    setBusyAdminId(adminId);
+    await updateAdmin(adminId, { role });
+    setBusyAdminId(null);
+  };
+
+  const handleActiveChange = async (adminId: string, isActive: boolean) => {
+    setBusyAdminId(adminId);
+    await updateAdmin(adminId, { is_active: isActive });
+    setBusyAdminId(null);
+  };
+
+  const handleResetPassword = async (adminId: string, email: string) => {
+    setBusyAdminId(adminId);
+    const temporaryPassword = await resetPassword(adminId);
+    setBusyAdminId(null);
+
+    if (temporaryPassword) {
+      setIssuedPassword({ email, password: temporaryPassword });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-gray-500" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Admin Accounts</h2>
+          <p className="text-gray-600">Create administrators, assign roles and control access</p>
+        </div>
+        <Dialog open={addOpen} onOpenChange={setAddOpen}>
+          <DialogTrigger asChild>
+            <Button className="flex items-center gap-2">
+              <UserPlus className="h-4 w-4" />
+              Add Admin
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-md">
+            <form onSubmit={handleCreate}>
+              <DialogHeader>
+                <DialogTitle>Add Admin</DialogTitle>
+                <DialogDescription>
+                  A temporary password is generated. The new admin must change it at first sign-in.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4 py-4">
+                <div className="space-y-2">
+                  <Label htmlFor="adminFullName">Full Name</Label>
+                  <Input
+                    id="adminFullName"
+                    value={form.full_name}
+                    onChange={(e) => setForm(prev => ({ ...prev, full_name: e.target.value }))}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="adminEmail">Email</Label>
+                  <Input
+                    id="adminEmail"
+                    type="email"
+                    value={form.email}
+                    onChange={(e) => setForm(prev => ({ ...prev, email: e.target.value }))}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="adminRole">Role</Label>
+                  <Select
+                    value={form.role}
+                    onValueChange={(value: AdminRole) => setForm(prev => ({ ...prev, role: value }))}
+                  >
+                    <SelectTrigger id="adminRole">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(ROLE_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setAddOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saving}>
+                  {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Create Admin
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Administrators ({admins.length})
+          </CardTitle>
+          <CardDescription>Role changes and deactivations take effect immediately</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Last Login</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {admins.map(account => {
+                const isSelf = account.id === currentAdmin?.id;
+                const isBusy = busyAdminId === account.id;
+
+                return (
+                  <TableRow key={account.id}>
+                    <TableCell>
+                      <div className="font-medium">{account.full_name}</div>
+                      <div className="text-sm text-gray-500">{account.email}</div>
+                      <div className="flex gap-1 mt-1">
+                        {isSelf && <Badge variant="outline">You</Badge>}
+                        {account.must_reset_password && <Badge variant="secondary">Password change pending</Badge>}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={account.role}
+                        onValueChange={(value: AdminRole) => handleRoleChange(account.id, value)}
+                        disabled={isSelf || isBusy}
+                      >
+                        <SelectTrigger className="w-36">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(ROLE_LABELS).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-600">{formatDateTime(account.last_login)}</TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={account.is_active}
+                        onCheckedChange={(checked) => handleActiveChange(account.id, checked)}
+                        disabled={isSelf || isBusy}
+                        aria-label={`${account.is_active ? 'Deactivate' : 'Activate'} ${account.full_name}`}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="outline" size="sm" disabled={isBusy}>
+                            {isBusy ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <KeyRound className="h-4 w-4 mr-2" />}
+                            Reset Password
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Reset password for {account.full_name}?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Their current password stops working immediately. You will be shown a temporary
+                              password to pass on, and they must choose a new one when they next sign in.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => handleResetPassword(account.id, account.email)}>
+                              Reset Password
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Audit Trail
+          </CardTitle>
+          <CardDescription>Recent changes to admin accounts</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {auditLog.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-6">No admin account changes recorded yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>By</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Account</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {auditLog.map(entry => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="text-sm text-gray-600">{formatDateTime(entry.created_at)}</TableCell>
+                    <TableCell>{entry.actor?.full_name ?? 'Deleted admin'}</TableCell>
+                    <TableCell>
+                      {ACTION_LABELS[entry.action] ?? entry.action}
+                      {describeAuditEntry(entry) && (
+                        <span className="text-gray-500"> {describeAuditEntry(entry)}</span>
+                      )}
+                    </TableCell>
+                    <TableCell>{entry.target?.email ?? '—'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={issuedPassword !== null} onOpenChange={(open) => !open && setIssuedPassword(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Temporary Password</DialogTitle>
+            <DialogDescription>
+              Share this with {issuedPassword?.email} through a secure channel. It will not be shown again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="rounded-md bg-gray-100 px-4 py-3 font-mono text-lg text-center select-all">
+            {issuedPassword?.password}
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setIssuedPassword(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default AdminUsersTab;
@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Loader2, PencilLine } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { MAX_CA_SCORE, MAX_EXAM_SCORE } from '@/lib/grading';
+import { ResultAmendmentService } from '@/services/resultAmendmentService';
+
+interface AmendResultDialogProps {
+  result: {
+    id: string;
+    ca_score: number | null;
+    exam_score: number | null;
+    total_score: number | null;
+    grade: string | null;
+    status: string;
+  };
+  title: string;
+  onAmended?: () => void;
+}
+
+const AmendResultDialog: React.FC<AmendResultDialogProps> = ({ result, title, onAmended }) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [caScore, setCaScore] = useState('');
+  const [examScore, setExamScore] = useState('');
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const handleOpenChange = (value: boolean) => {
+    if (saving) return;
+    if (value) {
+      setCaScore(result.ca_score?.toString() ?? '');
+      setExamScore(result.exam_score?.toString() ?? '');
+      setReason('');
+    }
+    setOpen(value);
+  };
+
+  const ca = parseFloat(caScore);
+  const exam = parseFloat(examScore);
+  const newTotal = !isNaN(ca) && !isNaN(exam) ? ca + exam : null;
+  const unchanged = ca === result.ca_score && exam === result.exam_score;
+
+  const handleSubmit = async () => {
+    setSaving(true);
+    try {
+      const { amendment, studentNotified } = await ResultAmendmentService.amend(
+        result.id,
+        { ca_score: ca, exam_score: exam },
+        reason
+      );
+
+      toast({
+        title: 'Result amended',
+        description: `Total is now ${amendment.after_total_score}` +
+          (amendment.after_grade ? ` (${amendment.after_grade})` : '') +
+          (result.status === 'published'
+            ? studentNotified ? '. The student has been notified.' : '. The student could not be emailed.'
+            : '.'),
+      });
+
+      setOpen(false);
+      onAmended?.();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to amend result',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="text-gray-600">
+          <PencilLine className="w-4 h-4 mr-1" />
+          Amend
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Amend Result</DialogTitle>
+          <DialogDescription>
+            {title}. Grades and CGPA are recalculated and the change is kept in the result's history.
+            {result.status === 'published' && ' The student will be told about the correction.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="amend-ca">CA Score (0–{MAX_CA_SCORE})</Label>
+              <Input
+                id="amend-ca"
+                type="number"
+                min="0"
+                max={MAX_CA_SCORE}
+                value={caScore}
+                onChange={e => setCaScore(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="amend-exam">Exam Score (0–{MAX_EXAM_SCORE})</Label>
+              <Input
+                id="amend-exam"
+                type="number"
+                min="0"
+                max={MAX_EXAM_SCORE}
+                value={examScore}
+                onChange={e => setExamScore(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <p className="text-sm text-gray-600">
+            Total: {result.total_score ?? '—'}{result.grade && ` (${result.grade})`} → {newTotal ?? '—'}
+          </p>
+
+          <div className="space-y-2">
+            <Label htmlFor="amend-reason">Reason</Label>
+            <Textarea
+              id="amend-reason"
+              value={reason}
+              onChange={e => setReason(e.target.value)}
+              placeholder="e.g. CA score was transcribed wrongly from the score sheet"
+              rows={3}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={saving || newTotal === null || unchanged || !reason.trim()}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Amendment
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AmendResultDialog;
@@ -0,0 +1,178 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle, Download, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { downloadCsv } from '@/lib/spreadsheet';
+import { CarryOverReportRow, CarryOverService } from '@/services/carryOverService';
+
+interface CarryOverReportDialogProps {
+  departments: string[];
+  levels: string[];
+}
+
+const ALL = 'all';
+
+const CarryOverReportDialog: React.FC<CarryOverReportDialogProps> = ({ departments, levels }) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [department, setDepartment] = useState('');
+  const [level, setLevel] = useState(ALL);
+  const [loading, setLoading] = useState(false);
+  const [rows, setRows] = useState<CarryOverReportRow[] | null>(null);
+
+  // One group per course, most affected first
+  const byCourse = useMemo(() => {
+    const groups = new Map<string, CarryOverReportRow[]>();
+    (rows ?? []).forEach(row => groups.set(row.courseId, [...(groups.get(row.courseId) ?? []), row]));
+    return Array.from(groups.values()).sort((a, b) => b.length - a.length);
+  }, [rows]);
+
+  const studentCount = useMemo(() => new Set((rows ?? []).map(row => row.studentId)).size, [rows]);
+
+  const handleGenerate = async () => {
+    setLoading(true);
+    try {
+      setRows(await CarryOverService.getDepartmentReport(department, level === ALL ? undefined : level));
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to build the carry-over report',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleExport = () => {
+    if (!rows) return;
+    downloadCsv(
+      ['carry-overs', department, level === ALL ? '' : level].filter(Boolean).join('-').replace(/\s+/g, '-').toLowerCase() + '.csv',
+      ['Course Code', 'Course Title', 'Units', 'Matric Number', 'Student', 'Level', 'Attempts', 'Last Sitting', 'Last Score', 'Last Grade'],
+      rows.map(row => [
+        row.course?.course_code ?? '',
+        row.course?.course_title ?? '',
+        row.course?.credit_units ?? '',
+        row.student.student_id,
+        `${row.student.first_name} ${row.student.last_name}`,
+        row.student.level,
+        row.attempts,
+        `${row.lastAcademicYear} ${row.lastSemester}`,
+        row.lastTotalScore,
+        row.lastGrade,
+      ])
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2">
+          <AlertTriangle className="h-4 w-4" />
+          Carry-overs
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle>Carry-over Report</DialogTitle>
+          <DialogDescription>
+            Courses a department's students have failed and not yet passed, from published results.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 items-end">
+          <div className="space-y-2">
+            <Label>Department</Label>
+            <Select value={department} onValueChange={value => { setDepartment(value); setRows(null); }}>
+              <SelectTrigger><SelectValue placeholder="Pick department" /></SelectTrigger>
+              <SelectContent>
+                {departments.map(d => <SelectItem key={d} value={d}>{d}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Level</Label>
+            <Select value={level} onValueChange={value => { setLevel(value); setRows(null); }}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All levels</SelectItem>
+                {levels.map(l => <SelectItem key={l} value={l}>{l}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={handleGenerate} disabled={!department || loading}>
+            {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Generate
+          </Button>
+        </div>
+
+        {rows && (
+          rows.length === 0 ? (
+            <p className="text-center text-gray-600 py-8">No outstanding carry-overs.</p>
+          ) : (
+            <div className="space-y-2">
+              <p className="text-sm text-gray-600">
+                {rows.length} carry-over{rows.length !== 1 && 's'} across {byCourse.length} course{byCourse.length !== 1 && 's'},
+                {' '}affecting {studentCount} student{studentCount !== 1 && 's'}.
+              </p>
+              <ScrollArea className="h-80 border rounded-lg">
+                <div className="divide-y">
+                  {byCourse.map(group => {
+                    const course = group[0].course;
+                    return (
+                      <div key={group[0].courseId} className="p-3 space-y-2">
+                        <div className="flex items-center justify-between">
+                          <div>
+                            <span className="font-semibold text-gray-900">{course?.course_code ?? 'Unknown course'}</span>
+                            {course && <span className="text-sm text-gray-600"> · {course.course_title} · {course.level}</span>}
+                          </div>
+                          <Badge variant="outline" className="bg-red-100 text-red-800 border-red-200">
+                            {group.length} student{group.length !== 1 && 's'}
+                          </Badge>
+                        </div>
+                        <div className="text-sm text-gray-600 space-y-1">
+                          {group.map(row => (
+                            <div key={row.studentId} className="flex justify-between gap-2">
+                              <span>
+                                {row.student.student_id} — {row.student.first_name} {row.student.last_name} ({row.student.level})
+                              </span>
+                              <span className="text-xs text-gray-500">
+                                {row.attempts} attempt{row.attempts !== 1 && 's'} · last {row.lastAcademicYear} {row.lastSemester}
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </ScrollArea>
+            </div>
+          )
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleExport} disabled={!rows || rows.length === 0}>
+            <Download className="mr-2 h-4 w-4" />
+            Export CSV
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CarryOverReportDialog;
@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Copy, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { CourseService } from '@/services/courseService';
+
+interface CopyCatalogueDialogProps {
+  departments: string[];
+  // Sessions from the academic calendar, latest first
+  academicYears: string[];
+  currentSession?: string;
+  onCopied: () => void;
+}
+
+const CopyCatalogueDialog: React.FC<CopyCatalogueDialogProps> = ({
+  departments,
+  academicYears,
+  currentSession,
+  onCopied
+}) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [department, setDepartment] = useState('');
+  const [fromYear, setFromYear] = useState('');
+  const [toYear, setToYear] = useState('');
+  const [includeLecturers, setIncludeLecturers] = useState(false);
+  const [copying, setCopying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleOpenChange = (value: boolean) => {
+    if (copying) return;
+    if (value) {
+      // Default to copying the previous session into the current one
+      const to = currentSession ?? academicYears[0] ?? '';
+      setToYear(to);
+      setFromYear(academicYears[academicYears.indexOf(to) + 1] ?? '');
+      setError(null);
+    }
+    setOpen(value);
+  };
+
+  const handleCopy = async () => {
+    setCopying(true);
+    setError(null);
+    try {
+      const count = await CourseService.copyCatalogue(department, fromYear, toYear, includeLecturers);
+      toast({
+        title: 'Catalogue copied',
+        description: count === 0
+          ? `Every active ${department} course from ${fromYear} is already offered in ${toYear}.`
+          : `${count} ${department} course${count === 1 ? '' : 's'} now offered in ${toYear}.`
+      });
+      setOpen(false);
+      onCopied();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to copy the course catalogue');
+    } finally {
+      setCopying(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2">
+          <Copy className="h-4 w-4" />
+          Copy Catalogue
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Copy Course Catalogue</DialogTitle>
+          <DialogDescription>
+            Offer a department's active courses from one session in another. Courses already offered there are left as they are.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Department</Label>
+            <Select value={department} onValueChange={setDepartment}>
+              <SelectTrigger><SelectValue placeholder="Pick department" /></SelectTrigger>
+              <SelectContent>
+                {departments.map(d => <SelectItem key={d} value={d}>{d}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>From Session</Label>
+              <Select value={fromYear} onValueChange={setFromYear}>
+                <SelectTrigger><SelectValue placeholder="Pick session" /></SelectTrigger>
+                <SelectContent>
+                  {academicYears.map(year => <SelectItem key={year} value={year}>{year}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>To Session</Label>
+              <Select value={toYear} onValueChange={setToYear}>
+                <SelectTrigger><SelectValue placeholder="Pick session" /></SelectTrigger>
+                <SelectContent>
+                  {academicYears.map(year => <SelectItem key={year} value={year}>{year}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <label className="flex items-center gap-2 text-sm cursor-pointer">
+            <Checkbox checked={includeLecturers} onCheckedChange={checked => setIncludeLecturers(checked === true)} />
+            Keep the same lecturers
+          </label>
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={copying}>
+            Cancel
+          </Button>
+          <Button onClick={handleCopy} disabled={!department || !fromYear || !toYear || fromYear === toYear || copying}>
+            {copying && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Copy
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CopyCatalogueDialog;
@@ -0,0 +1,253 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Pencil, Plus } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { SEMESTER_NAMES } from '@/services/academicCalendarService';
+import { Course, CourseDetails, CourseService } from '@/services/courseService';
+import { STUDENT_LEVELS } from '@/services/studentImportService';
+
+interface CourseFormDialogProps {
+  course?: Course;
+  departments: string[];
+  // Sessions from the academic calendar, latest first
+  academicYears: string[];
+  currentSession?: string;
+  onSaved: () => void;
+}
+
+const EMPTY_FORM: CourseDetails & { is_active: boolean } = {
+  course_code: '',
+  course_title: '',
+  credit_units: 2,
+  department: '',
+  level: '',
+  semester: '',
+  description: '',
+  is_active: true,
+};
+
+const toForm = (course?: Course) => course
+  ? {
+    course_code: course.course_code,
+    course_title: course.course_title,
+    credit_units: course.credit_units,
+    department: course.department,
+    level: course.level,
+    semester: course.semester,
+    description: course.description ?? '',
+    is_active: course.is_active,
+  }
+  : EMPTY_FORM;
+
+const CourseFormDialog: React.FC<CourseFormDialogProps> = ({
+  course,
+  departments,
+  academicYears,
+  currentSession,
+  onSaved
+}) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState(() => toForm(course));
+  const [offeredIn, setOfferedIn] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isEdit = Boolean(course);
+  const canSave = form.course_code.trim() && form.course_title.trim() && form.department.trim() && form.level && form.semester &&
+    (isEdit || offeredIn);
+
+  const handleOpenChange = (value: boolean) => {
+    if (saving) return;
+    if (value) {
+      setForm(toForm(course));
+      setOfferedIn(currentSession ?? academicYears[0] ?? '');
+      setError(null);
+    }
+    setOpen(value);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const details = {
+        ...form,
+        department: form.department.trim(),
+        course_title: form.course_title.trim(),
+        description: form.description?.trim() || null,
+      };
+
+      if (course) {
+        await CourseService.updateCourse(course.id, details);
+      } else {
+        const created = await CourseService.createCourse(details);
+        await CourseService.setOffered(created.id, offeredIn, true);
+      }
+
+      toast({
+        title: isEdit ? 'Course updated' : 'Course added',
+        description: `${details.course_code.trim().toUpperCase()} has been saved.`
+      });
+      setOpen(false);
+      onSaved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save course');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {isEdit ? (
+          <Button variant="outline" size="sm" className="flex items-center gap-1">
+            <Pencil className="h-3 w-3" />
+            Edit
+          </Button>
+        ) : (
+          <Button className="flex items-center gap-2">
+            <Plus className="h-4 w-4" />
+            Add Course
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{isEdit ? `Edit ${course?.course_code}` : 'Add Course'}</DialogTitle>
+          <DialogDescription>
+            {isEdit
+              ? 'Changes apply to every session the course is offered in.'
+              : 'Add a course to the catalogue and offer it in a session.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="course_code">Course Code</Label>
+            <Input
+              id="course_code"
+              value={form.course_code}
+              onChange={e => setForm(prev => ({ ...prev, course_code: e.target.value }))}
+              placeholder="COM 101"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="credit_units">Credit Units</Label>
+            <Input
+              id="credit_units"
+              type="number"
+              min={1}
+              value={form.credit_units}
+              onChange={e => setForm(prev => ({ ...prev, credit_units: Number(e.target.value) }))}
+            />
+          </div>
+          <div className="col-span-2 space-y-2">
+            <Label htmlFor="course_title">Course Title</Label>
+            <Input
+              id="course_title"
+              value={form.course_title}
+              onChange={e => setForm(prev => ({ ...prev, course_title: e.target.value }))}
+            />
+          </div>
+          <div className="col-span-2 space-y-2">
+            <Label htmlFor="course_department">Department</Label>
+            <Input
+              id="course_department"
+              list="course-departments"
+              value={form.department}
+              onChange={e => setForm(prev => ({ ...prev, department: e.target.value }))}
+            />
+            <datalist id="course-departments">
+              {departments.map(d => <option key={d} value={d} />)}
+            </datalist>
+          </div>
+          <div className="space-y-2">
+            <Label>Level</Label>
+            <Select value={form.level} onValueChange={value => setForm(prev => ({ ...prev, level: value }))}>
+              <SelectTrigger><SelectValue placeholder="Pick level" /></SelectTrigger>
+              <SelectContent>
+                {STUDENT_LEVELS.map(l => <SelectItem key={l} value={l}>{l}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Semester</Label>
+            <Select value={form.semester} onValueChange={value => setForm(prev => ({ ...prev, semester: value }))}>
+              <SelectTrigger><SelectValue placeholder="Pick semester" /></SelectTrigger>
+              <SelectContent>
+                {SEMESTER_NAMES.map(s => <SelectItem key={s} value={s}>{s}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="col-span-2 space-y-2">
+            <Label htmlFor="course_description">Description</Label>
+            <Textarea
+              id="course_description"
+              rows={3}
+              value={form.description ?? ''}
+              onChange={e => setForm(prev => ({ ...prev, description: e.target.value }))}
+            />
+          </div>
+          {isEdit ? (
+            <div className="col-span-2 flex items-center justify-between rounded-lg border p-3">
+              <div>
+                <Label htmlFor="course_active">Active</Label>
+                <p className="text-xs text-gray-600">Inactive courses cannot be registered but keep their results.</p>
+              </div>
+              <Switch
+                id="course_active"
+                checked={form.is_active}
+                onCheckedChange={checked => setForm(prev => ({ ...prev, is_active: checked }))}
+              />
+            </div>
+          ) : (
+            <div className="col-span-2 space-y-2">
+              <Label>Offered In</Label>
+              <Select value={offeredIn} onValueChange={setOfferedIn}>
+                <SelectTrigger><SelectValue placeholder="Pick session" /></SelectTrigger>
+                <SelectContent>
+                  {academicYears.map(year => <SelectItem key={year} value={year}>{year}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave || saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CourseFormDialog;
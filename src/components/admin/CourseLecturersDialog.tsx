@@ -0,0 +1,166 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, UserCheck } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { AssignableStaff, Course, CourseService } from '@/services/courseService';
+
+interface CourseLecturersDialogProps {
+  course: Pick<Course, 'id' | 'course_code' | 'course_title'>;
+  // Sessions from the academic calendar, latest first
+  academicYears: string[];
+  currentSession?: string;
+}
+
+const CourseLecturersDialog: React.FC<CourseLecturersDialogProps> = ({ course, academicYears, currentSession }) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [academicYear, setAcademicYear] = useState('');
+  const [staff, setStaff] = useState<AssignableStaff[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [offered, setOffered] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open || !academicYear) return;
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    Promise.all([CourseService.getAssignableStaff(), CourseService.getOfferings(academicYear)])
+      .then(([staffList, offerings]) => {
+        if (cancelled) return;
+        const offering = offerings.find(o => o.course_id === course.id);
+        setStaff(staffList);
+        setOffered(Boolean(offering));
+        setSelected((offering?.assignments ?? []).map(a => a.admin_user_id));
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load lecturers');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, academicYear, course.id]);
+
+  const handleOpenChange = (value: boolean) => {
+    if (saving) return;
+    if (value) setAcademicYear(currentSession ?? academicYears[0] ?? '');
+    setOpen(value);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await CourseService.setLecturers(course.id, academicYear, selected);
+      toast({
+        title: 'Lecturers saved',
+        description: `${selected.length} lecturer${selected.length === 1 ? '' : 's'} assigned to ${course.course_code} for ${academicYear}.`
+      });
+      setOpen(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to assign lecturers');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center gap-1">
+          <UserCheck className="h-3 w-3" />
+          Lecturers
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{course.course_code} Lecturers</DialogTitle>
+          <DialogDescription>
+            Staff teaching {course.course_title} in the chosen session.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label>Session</Label>
+          <Select value={academicYear} onValueChange={setAcademicYear} disabled={saving}>
+            <SelectTrigger><SelectValue placeholder="Pick session" /></SelectTrigger>
+            <SelectContent>
+              {academicYears.map(year => <SelectItem key={year} value={year}>{year}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          {academicYear && !loading && !offered && (
+            <p className="text-xs text-amber-700">
+              {course.course_code} is not offered in {academicYear}; saving lecturers will offer it.
+            </p>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : staff.length === 0 ? (
+          <p className="text-sm text-gray-600">There are no active staff accounts.</p>
+        ) : (
+          <ScrollArea className="h-64 border rounded-lg">
+            <div className="divide-y">
+              {staff.map(member => (
+                <label key={member.id} className="flex items-center gap-3 p-2 cursor-pointer">
+                  <Checkbox
+                    checked={selected.includes(member.id)}
+                    onCheckedChange={checked => setSelected(prev =>
+                      checked === true ? [...prev, member.id] : prev.filter(id => id !== member.id)
+                    )}
+                  />
+                  <div className="text-sm">
+                    <span className="font-medium text-gray-900">{member.full_name}</span>
+                    <span className="text-gray-600"> · {member.email}</span>
+                  </div>
+                </label>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!academicYear || loading || saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CourseLecturersDialog;
@@ -1,10 +1,28 @@
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Search, Filter, BookOpen, Users, Clock, X } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Search, Filter, BookOpen, Users, Clock, X, Power, Trash2 } from 'lucide-react';
+import CourseFormDialog from '@/components/admin/CourseFormDialog';
+import CourseLecturersDialog from '@/components/admin/CourseLecturersDialog';
+import CoursePrerequisitesDialog from '@/components/admin/CoursePrerequisitesDialog';
+import { useToast } from '@/hooks/use-toast';
+import { SEMESTER_NAMES } from '@/services/academicCalendarService';
+import { CourseService } from '@/services/courseService';
+import { CoursePrerequisiteService, PrerequisiteWithCourse } from '@/services/coursePrerequisiteService';
 
 interface Course {
   id: string;
@@ -21,18 +39,86 @@ interface Course {
 
 interface CoursesListProps {
   courses: Course[];
+  // Sessions from the academic calendar, for the edit and lecturer dialogs
+  academicYears?: string[];
+  currentSession?: string;
+  canManageCourses?: boolean;
+  onCoursesChanged?: () => void;
 }
 
-const CoursesList: React.FC<CoursesListProps> = ({ courses = [] }) => {
+const CoursesList: React.FC<CoursesListProps> = ({
+  courses = [],
+  academicYears = [],
+  currentSession,
+  canManageCourses = false,
+  onCoursesChanged
+}) => {
+  const { toast } = useToast();
+  const [busyCourseId, setBusyCourseId] = useState<string | null>(null);
+  const [prerequisites, setPrerequisites] = useState<PrerequisiteWithCourse[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [filterDepartment, setFilterDepartment] = useState('');
   const [filterLevel, setFilterLevel] = useState('');
   const [filterSemester, setFilterSemester] = useState('');
 
+  const loadPrerequisites = useCallback(() => {
+    CoursePrerequisiteService.getPrerequisites()
+      .then(setPrerequisites)
+      .catch(() => setPrerequisites([]));
+  }, []);
+
+  useEffect(() => {
+    loadPrerequisites();
+  }, [loadPrerequisites]);
+
+  const prerequisitesByCourse = useMemo(() => {
+    const byCourse = new Map<string, PrerequisiteWithCourse[]>();
+    prerequisites.forEach(p => byCourse.set(p.course_id, [...(byCourse.get(p.course_id) ?? []), p]));
+    return byCourse;
+  }, [prerequisites]);
+
+  const handleToggleActive = async (course: Course) => {
+    setBusyCourseId(course.id);
+    try {
+      await CourseService.setActive(course.id, !course.is_active);
+      toast({
+        title: course.is_active ? 'Course deactivated' : 'Course activated',
+        description: course.is_active
+          ? `${course.course_code} can no longer be registered. Its results are kept.`
+          : `${course.course_code} can be registered again.`
+      });
+      onCoursesChanged?.();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update course',
+        variant: 'destructive'
+      });
+    } finally {
+      setBusyCourseId(null);
+    }
+  };
+
+  const handleDelete = async (course: Course) => {
+    setBusyCourseId(course.id);
+    try {
+      await CourseService.deleteCourse(course);
+      toast({ title: 'Course deleted', description: `${course.course_code} has been removed from the catalogue.` });
+      onCoursesChanged?.();
+    } catch (error) {
+      toast({
+        title: `Cannot delete ${course.course_code}`,
+        description: error instanceof Error ? error.message : 'Failed to delete course',
+        variant: 'destructive'
+      });
+    } finally {
+      setBusyCourseId(null);
+    }
+  };
+
   // Get unique values for filters
   const departments = [...new Set(courses.map(course => course.department))].sort();
   const levels = [...new Set(courses.map(course => course.level))].sort();
-  const semesters = [...new Set(courses.map(course => course.semester))].sort();
 
   // Filter courses based on search and filters
   const filteredCourses = courses.filter(course => {
@@ -165,7 +251,7 @@ const CoursesList: React.FC<CoursesListProps> = ({ courses = [] }) => {
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Semesters</SelectItem>
-                {semesters.map((semester) => (
+                {SEMESTER_NAMES.map((semester) => (
                   <SelectItem key={semester} value={semester}>
                     {semester}
                   </SelectItem>
@@ -268,6 +354,28 @@ const CoursesList: React.FC<CoursesListProps> = ({ courses = [] }) => {
                         </div>
                       </div>
 
+                      {/* Prerequisites */}
+                      {(prerequisitesByCourse.has(course.id) || canManageCourses) && (
+                        <div className="flex items-center justify-between gap-2 text-sm text-gray-600">
+                          <div>
+                            <span className="font-medium">Prerequisites:</span>
+                            <span className="ml-2">
+                              {prerequisitesByCourse.get(course.id)
+                                ?.map(p => p.prerequisite?.course_code ?? 'Unknown course')
+                                .join(', ') ?? 'None'}
+                            </span>
+                          </div>
+                          {canManageCourses && (
+                            <CoursePrerequisitesDialog
+                              course={course}
+                              courses={courses}
+                              prerequisiteIds={(prerequisitesByCourse.get(course.id) ?? []).map(p => p.prerequisite_id)}
+                              onSaved={loadPrerequisites}
+                            />
+                          )}
+                        </div>
+                      )}
+
                       {/* Description */}
                       {course.description && (
                         <div className="pt-2 border-t">
@@ -276,6 +384,56 @@ const CoursesList: React.FC<CoursesListProps> = ({ courses = [] }) => {
                           </p>
                         </div>
                       )}
+
+                      {/* Actions */}
+                      {canManageCourses && (
+                        <div className="flex flex-wrap justify-end gap-2 pt-2 border-t">
+                          <CourseFormDialog
+                            course={course}
+                            departments={departments}
+                            academicYears={academicYears}
+                            currentSession={currentSession}
+                            onSaved={() => onCoursesChanged?.()}
+                          />
+                          <CourseLecturersDialog course={course} academicYears={academicYears} currentSession={currentSession} />
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="flex items-center gap-1"
+                            onClick={() => handleToggleActive(course)}
+                            disabled={busyCourseId === course.id}
+                          >
+                            <Power className="h-3 w-3" />
+                            {course.is_active ? 'Deactivate' : 'Activate'}
+                          </Button>
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="flex items-center gap-1 text-red-600 hover:text-red-700"
+                                disabled={busyCourseId === course.id}
+                              >
+                                <Trash2 className="h-3 w-3" />
+                                Delete
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Delete {course.course_code}?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  This removes the course, its registrations and its session offerings. Courses that
+                                  already have results cannot be deleted; deactivate them instead.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => handleDelete(course)}>Delete</AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </div>
+                      )}
                     </div>
                   </CardContent>
                 </Card>
@@ -0,0 +1,137 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { GitBranch, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { CoursePrerequisiteService } from '@/services/coursePrerequisiteService';
+
+interface PrerequisiteCourse {
+  id: string;
+  course_code: string;
+  course_title: string;
+  department: string;
+  level: string;
+}
+
+interface CoursePrerequisitesDialogProps {
+  course: PrerequisiteCourse;
+  courses: PrerequisiteCourse[];
+  prerequisiteIds: string[];
+  onSaved: () => void;
+}
+
+const CoursePrerequisitesDialog: React.FC<CoursePrerequisitesDialogProps> = ({
+  course,
+  courses,
+  prerequisiteIds,
+  onSaved
+}) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [selected, setSelected] = useState<string[]>(prerequisiteIds);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Prerequisites normally come from the same department
+  const candidates = useMemo(
+    () => courses
+      .filter(c => c.id !== course.id && c.department === course.department)
+      .sort((a, b) => a.level.localeCompare(b.level) || a.course_code.localeCompare(b.course_code)),
+    [courses, course]
+  );
+
+  const handleOpenChange = (value: boolean) => {
+    if (saving) return;
+    if (value) {
+      setSelected(prerequisiteIds);
+      setError(null);
+    }
+    setOpen(value);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await CoursePrerequisiteService.setPrerequisites(course.id, selected);
+      toast({ title: 'Prerequisites saved', description: `${course.course_code} prerequisites updated.` });
+      setOpen(false);
+      onSaved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save prerequisites');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center gap-1">
+          <GitBranch className="h-3 w-3" />
+          Prerequisites
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{course.course_code} Prerequisites</DialogTitle>
+          <DialogDescription>
+            Students must pass every course ticked here before they can register {course.course_code}.
+          </DialogDescription>
+        </DialogHeader>
+
+        {candidates.length === 0 ? (
+          <p className="text-sm text-gray-600">There are no other {course.department} courses.</p>
+        ) : (
+          <ScrollArea className="h-72 border rounded-lg">
+            <div className="divide-y">
+              {candidates.map(c => (
+                <label key={c.id} className="flex items-center gap-3 p-2 cursor-pointer">
+                  <Checkbox
+                    checked={selected.includes(c.id)}
+                    onCheckedChange={checked => setSelected(prev =>
+                      checked === true ? [...prev, c.id] : prev.filter(id => id !== c.id)
+                    )}
+                  />
+                  <div className="text-sm">
+                    <span className="font-medium text-gray-900">{c.course_code}</span>
+                    <span className="text-gray-600"> · {c.course_title} · {c.level}</span>
+                  </div>
+                </label>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CoursePrerequisitesDialog;
@@ -0,0 +1,69 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ClipboardList } from 'lucide-react';
+import CourseRegistrationPanel from '@/components/student/CourseRegistrationPanel';
+import { RegistrationStudent } from '@/services/courseRegistrationService';
+
+interface CourseRegistrationDialogProps {
+  students: RegistrationStudent[];
+}
+
+const CourseRegistrationDialog: React.FC<CourseRegistrationDialogProps> = ({ students }) => {
+  const [open, setOpen] = useState(false);
+  const [studentId, setStudentId] = useState('');
+
+  const sortedStudents = useMemo(
+    () => [...students].sort((a, b) => a.student_id.localeCompare(b.student_id)),
+    [students]
+  );
+  const student = useMemo(() => students.find(s => s.id === studentId) ?? null, [students, studentId]);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2">
+          <ClipboardList className="h-4 w-4" />
+          Registration
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle>Course Registration</DialogTitle>
+          <DialogDescription>
+            Register a student's courses for a semester, including after the registration window has closed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Student</Label>
+            <Select value={studentId} onValueChange={setStudentId}>
+              <SelectTrigger><SelectValue placeholder="Pick student" /></SelectTrigger>
+              <SelectContent>
+                {sortedStudents.map(s => (
+                  <SelectItem key={s.id} value={s.id}>
+                    {s.student_id} — {s.first_name} {s.last_name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {student && <CourseRegistrationPanel key={student.id} student={student} lateRegistration />}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CourseRegistrationDialog;
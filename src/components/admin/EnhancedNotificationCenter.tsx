@@ -48,10 +48,13 @@ import {
   TabsList,
   TabsTrigger
 } from '@/components/ui/tabs';
-import { Progress } from '@/components/ui/progress';
 import { useSMSManagement } from '@/hooks/useSMSManagement';
 import { useToast } from '@/hooks/use-toast';
 import SMSManagement from './SMSManagement';
+import SMSMessageAnalysis, { SMSBudgetConfirmDialog } from './SMSMessageAnalysis';
+import { SMSService } from '@/services/smsService';
+import { useAuth } from '@/contexts/AuthContext';
+import { PERMISSIONS } from '@/lib/permissions';
 
 interface Student {
   id: string;
@@ -127,7 +130,12 @@ const EnhancedNotificationCenter: React.FC<EnhancedNotificationCenterProps> = ({
   const [customNotificationOpen, setCustomNotificationOpen] = useState(false);
   const [bulkForm, setBulkForm] = useState<BulkNotificationForm>(INITIAL_BULK_FORM);
   const [customForm, setCustomForm] = useState<CustomNotificationForm>(INITIAL_CUSTOM_FORM);
-  const [progress, setProgress] = useState<{ current: number; total: number; student: string } | null>(null);
+  const [overBudgetSend, setOverBudgetSend] = useState<'bulk' | 'custom' | null>(null);
+
+  const { can } = useAuth();
+  const canPublishResults = can(PERMISSIONS.PUBLISH_RESULTS);
+  const canSendNotifications = can(PERMISSIONS.SEND_NOTIFICATIONS);
+  const canManageSms = can(PERMISSIONS.MANAGE_SMS);
 
   const { 
     sendBulkSMS, 
@@ -140,7 +148,30 @@ const EnhancedNotificationCenter: React.FC<EnhancedNotificationCenterProps> = ({
   
   const { toast } = useToast();
 
-  const handleBulkNotification = async () => {
+  const bulkFilters: { department?: string; level?: string; status?: string } = { status: 'Active' };
+  if (bulkForm.targetType === 'department' && bulkForm.department) {
+    bulkFilters.department = bulkForm.department;
+  } else if (bulkForm.targetType === 'level' && bulkForm.level) {
+    bulkFilters.level = bulkForm.level;
+  } else if (bulkForm.targetType === 'custom' && bulkForm.department && bulkForm.level) {
+    bulkFilters.department = bulkForm.department;
+    bulkFilters.level = bulkForm.level;
+  }
+
+  // Filter students based on criteria
+  const bulkTargetStudents = students.filter(student => {
+    if (bulkFilters.department && student.department !== bulkFilters.department) return false;
+    if (bulkFilters.level && student.level !== bulkFilters.level) return false;
+    if (bulkFilters.status && student.status !== bulkFilters.status) return false;
+    return true;
+  });
+
+  const bulkSendsSMS = bulkForm.notificationType === 'sms' || bulkForm.notificationType === 'both';
+  const customSendsSMS = customForm.notificationType === 'sms' || customForm.notificationType === 'both';
+  const bulkEstimate = SMSService.estimateSMS(bulkForm.message, bulkTargetStudents.length);
+  const customEstimate = SMSService.estimateSMS(customForm.message, customForm.selectedStudents.length);
+
+  const handleBulkNotification = async (overBudgetConfirmed = false) => {
     if (!bulkForm.title.trim() || !bulkForm.message.trim()) {
       toast({
         title: "Missing Information",
@@ -150,27 +181,13 @@ const EnhancedNotificationCenter: React.FC<EnhancedNotificationCenterProps> = ({
       return;
     }
 
-    try {
-      const filters: { department?: string; level?: string; status?: string } = { status: 'Active' };
-      
-      if (bulkForm.targetType === 'department' && bulkForm.department) {
-        filters.department = bulkForm.department;
-      } else if (bulkForm.targetType === 'level' && bulkForm.level) {
-        filters.level = bulkForm.level;
-      } else if (bulkForm.targetType === 'custom' && bulkForm.department && bulkForm.level) {
-        filters.department = bulkForm.department;
-        filters.level = bulkForm.level;
-      }
-
-      // Filter students based on criteria
-      const targetStudents = students.filter(student => {
-        if (filters.department && student.department !== filters.department) return false;
-        if (filters.level && student.level !== filters.level) return false;
-        if (filters.status && student.status !== filters.status) return false;
-        return true;
-      });
+    if (bulkSendsSMS && bulkEstimate.overBudget && !overBudgetConfirmed) {
+      setOverBudgetSend('bulk');
+      return;
+    }
 
-      if (targetStudents.length === 0) {
+    try {
+      if (bulkTargetStudents.length === 0) {
         toast({
           title: "No Students Found",
           description: "No students match the specified criteria.",
@@ -181,17 +198,16 @@ const EnhancedNotificationCenter: React.FC<EnhancedNotificationCenterProps> = ({
 
       // Send notifications based on type
       if (bulkForm.notificationType === 'email' || bulkForm.notificationType === 'both') {
-        await onSendBulkNotification(bulkForm.title, bulkForm.message, filters);
+        await onSendBulkNotification(bulkForm.title, bulkForm.message, bulkFilters);
       }
 
       if (bulkForm.notificationType === 'sms' || bulkForm.notificationType === 'both') {
-        const studentIds = targetStudents.map(s => s.id);
-        await sendBulkSMS(studentIds, bulkForm.message, setProgress);
+        const studentIds = bulkTargetStudents.map(s => s.id);
+        await sendBulkSMS(studentIds, bulkForm.message);
       }
 
       setBulkNotificationOpen(false);
       setBulkForm(INITIAL_BULK_FORM);
-      setProgress(null);
     } catch (error) {
       console.error('Error sending bulk notification:', error);
       toast({
@@ -202,7 +218,7 @@ const EnhancedNotificationCenter: React.FC<EnhancedNotificationCenterProps> = ({
     }
   };
 
-  const handleCustomNotification = async () => {
+  const handleCustomNotification = async (overBudgetConfirmed = false) => {
     if (!customForm.title.trim() || !customForm.message.trim()) {
       toast({
         title: "Missing Information",
@@ -221,6 +237,11 @@ const EnhancedNotificationCenter: React.FC<EnhancedNotificationCenterProps> = ({
       return;
     }
 
+    if (customSendsSMS && customEstimate.overBudget && !overBudgetConfirmed) {
+      setOverBudgetSend('custom');
+      return;
+    }
+
     try {
       // Send notifications based on type
       if (customForm.notificationType === 'email' || customForm.notificationType === 'both') {
@@ -233,13 +254,12 @@ const EnhancedNotificationCenter: React.FC<EnhancedNotificationCenterProps> = ({
       }
 
       if (customForm.notificationType === 'sms' || customForm.notificationType === 'both') {
-        await sendBulkSMS(customForm.selectedStudents, customForm.message, setProgress);
+        await sendBulkSMS(customForm.selectedStudents, customForm.message);
       }
       
       setCustomNotificationOpen(false);
       setCustomForm(INITIAL_CUSTOM_FORM);
       setSelectedStudents([]);
-      setProgress(null);
     } catch (error) {
       console.error('Error sending custom notification:', error);
       toast({
@@ -338,7 +358,9 @@ const EnhancedNotificationCenter: React.FC<EnhancedNotificationCenterProps> = ({
       <Tabs defaultValue="send" className="space-y-6">
         <TabsList>
           <TabsTrigger value="send">Send Notifications</TabsTrigger>
-          <TabsTrigger value="sms">SMS Management</TabsTrigger>
+          {canManageSms && (
+            <TabsTrigger value="sms">SMS Management</TabsTrigger>
+          )}
         </TabsList>
 
         <TabsContent value="send" className="space-y-6">
@@ -350,310 +372,305 @@ const EnhancedNotificationCenter: React.FC<EnhancedNotificationCenterProps> = ({
             </CardHeader>
             <CardContent>
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-                <Button 
-                  onClick={onPublishResults}
-                  disabled={notificationLoading}
-                  className="flex items-center gap-2"
-                >
-                  <GraduationCap className="h-4 w-4" />
-                  Publish Results
-                </Button>
-
-                <Dialog open={bulkNotificationOpen} onOpenChange={setBulkNotificationOpen}>
-                  <DialogTrigger asChild>
-                    <Button variant="outline" className="flex items-center gap-2" disabled={bulkNotificationLoading}>
-                      <Users className="h-4 w-4" />
-                      Bulk Notification
-                    </Button>
-                  </DialogTrigger>
-                  <DialogContent className="max-w-md">
-                    <DialogHeader>
-                      <DialogTitle>Send Bulk Notification</DialogTitle>
-                      <DialogDescription>
-                        Send notifications to multiple students at once.
-                      </DialogDescription>
-                    </DialogHeader>
-                    <div className="space-y-4">
-                      <div>
-                        <Label htmlFor="title">Title</Label>
-                        <Input
-                          id="title"
-                          value={bulkForm.title}
-                          onChange={(e) => setBulkForm(prev => ({ ...prev, title: e.target.value }))}
-                          placeholder="Notification title"
-                        />
-                      </div>
+                {canPublishResults && (
+                  <Button 
+                    onClick={onPublishResults}
+                    disabled={notificationLoading}
+                    className="flex items-center gap-2"
+                  >
+                    <GraduationCap className="h-4 w-4" />
+                    Publish Results
+                  </Button>
+                )}
+
+                {canSendNotifications && (
+                  <>
+                    <Dialog open={bulkNotificationOpen} onOpenChange={setBulkNotificationOpen}>
+                      <DialogTrigger asChild>
+                        <Button variant="outline" className="flex items-center gap-2" disabled={bulkNotificationLoading}>
+                          <Users className="h-4 w-4" />
+                          Bulk Notification
+                        </Button>
+                      </DialogTrigger>
+                      <DialogContent className="max-w-md">
+                        <DialogHeader>
+                          <DialogTitle>Send Bulk Notification</DialogTitle>
+                          <DialogDescription>
+                            Send notifications to multiple students at once.
+                          </DialogDescription>
+                        </DialogHeader>
+                        <div className="space-y-4">
+                          <div>
+                            <Label htmlFor="title">Title</Label>
+                            <Input
+                              id="title"
+                              value={bulkForm.title}
+                              onChange={(e) => setBulkForm(prev => ({ ...prev, title: e.target.value }))}
+                              placeholder="Notification title"
+                            />
+                          </div>
                       
-                      <div>
-                        <Label htmlFor="message">Message</Label>
-                        <Textarea
-                          id="message"
-                          value={bulkForm.message}
-                          onChange={(e) => setBulkForm(prev => ({ ...prev, message: e.target.value }))}
-                          placeholder="Your message here..."
-                          rows={4}
-                        />
-                      </div>
-
-                      <div>
-                        <Label htmlFor="notificationType">Notification Type</Label>
-                        <Select 
-                          value={bulkForm.notificationType} 
-                          onValueChange={(value: 'email' | 'sms' | 'both') => 
-                            setBulkForm(prev => ({ ...prev, notificationType: value }))
-                          }
-                        >
-                          <SelectTrigger>
-                            <SelectValue />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="both">Email + SMS</SelectItem>
-                            <SelectItem value="email">Email Only</SelectItem>
-                            <SelectItem value="sms">SMS Only</SelectItem>
-                          </SelectContent>
-                        </Select>
-                      </div>
+                          <div>
+                            <Label htmlFor="message">Message</Label>
+                            <Textarea
+                              id="message"
+                              value={bulkForm.message}
+                              onChange={(e) => setBulkForm(prev => ({ ...prev, message: e.target.value }))}
+                              placeholder="Your message here..."
+                              rows={4}
+                            />
+                            {bulkSendsSMS && <SMSMessageAnalysis estimate={bulkEstimate} />}
+                          </div>
+
+                          <div>
+                            <Label htmlFor="notificationType">Notification Type</Label>
+                            <Select 
+                              value={bulkForm.notificationType} 
+                              onValueChange={(value: 'email' | 'sms' | 'both') => 
+                                setBulkForm(prev => ({ ...prev, notificationType: value }))
+                              }
+                            >
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="both">Email + SMS</SelectItem>
+                                <SelectItem value="email">Email Only</SelectItem>
+                                <SelectItem value="sms">SMS Only</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </div>
                       
-                      <div>
-                        <Label htmlFor="targetType">Target</Label>
-                        <Select 
-                          value={bulkForm.targetType} 
-                          onValueChange={(value: BulkNotificationForm['targetType']) => 
-                            setBulkForm(prev => ({ ...prev, targetType: value }))
-                          }
-                        >
-                          <SelectTrigger>
-                            <SelectValue />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="all">All Active Students</SelectItem>
-                            <SelectItem value="department">By Department</SelectItem>
-                            <SelectItem value="level">By Level</SelectItem>
-                            <SelectItem value="custom">Department + Level</SelectItem>
-                          </SelectContent>
-                        </Select>
-                      </div>
+                          <div>
+                            <Label htmlFor="targetType">Target</Label>
+                            <Select 
+                              value={bulkForm.targetType} 
+                              onValueChange={(value: BulkNotificationForm['targetType']) => 
+                                setBulkForm(prev => ({ ...prev, targetType: value }))
+                              }
+                            >
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="all">All Active Students</SelectItem>
+                                <SelectItem value="department">By Department</SelectItem>
+                                <SelectItem value="level">By Level</SelectItem>
+                                <SelectItem value="custom">Department + Level</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </div>
                       
-                      {(bulkForm.targetType === 'department' || bulkForm.targetType === 'custom') && (
-                        <div>
-                          <Label htmlFor="department">Department</Label>
-                          <Select 
-                            value={bulkForm.department} 
-                            onValueChange={(value) => 
-                              setBulkForm(prev => ({ ...prev, department: value }))
-                            }
-                          >
-                            <SelectTrigger>
-                              <SelectValue placeholder="Select department" />
-                            </SelectTrigger>
-                            <SelectContent>
-                              {departments.length > 0 ? departments.map(dept => (
-                                <SelectItem key={dept} value={dept}>{dept}</SelectItem>
-                              )) : (
-                                <SelectItem value="" disabled>No departments available</SelectItem>
-                              )}
-                            </SelectContent>
-                          </Select>
-                        </div>
-                      )}
+                          {(bulkForm.targetType === 'department' || bulkForm.targetType === 'custom') && (
+                            <div>
+                              <Label htmlFor="department">Department</Label>
+                              <Select 
+                                value={bulkForm.department} 
+                                onValueChange={(value) => 
+                                  setBulkForm(prev => ({ ...prev, department: value }))
+                                }
+                              >
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Select department" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {departments.length > 0 ? departments.map(dept => (
+                                    <SelectItem key={dept} value={dept}>{dept}</SelectItem>
+                                  )) : (
+                                    <SelectItem value="" disabled>No departments available</SelectItem>
+                                  )}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                          )}
                       
-                      {(bulkForm.targetType === 'level' || bulkForm.targetType === 'custom') && (
-                        <div>
-                          <Label htmlFor="level">Level</Label>
-                          <Select 
-                            value={bulkForm.level} 
-                            onValueChange={(value) => 
-                              setBulkForm(prev => ({ ...prev, level: value }))
-                            }
-                          >
-                            <SelectTrigger>
-                              <SelectValue placeholder="Select level" />
-                            </SelectTrigger>
-                            <SelectContent>
-                              {levels.length > 0 ? levels.map(level => (
-                                <SelectItem key={level} value={level}>{level}</SelectItem>
-                              )) : (
-                                <SelectItem value="" disabled>No levels available</SelectItem>
-                              )}
-                            </SelectContent>
-                          </Select>
-                        </div>
-                      )}
+                          {(bulkForm.targetType === 'level' || bulkForm.targetType === 'custom') && (
+                            <div>
+                              <Label htmlFor="level">Level</Label>
+                              <Select 
+                                value={bulkForm.level} 
+                                onValueChange={(value) => 
+                                  setBulkForm(prev => ({ ...prev, level: value }))
+                                }
+                              >
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Select level" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {levels.length > 0 ? levels.map(level => (
+                                    <SelectItem key={level} value={level}>{level}</SelectItem>
+                                  )) : (
+                                    <SelectItem value="" disabled>No levels available</SelectItem>
+                                  )}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                          )}
 
-                      {progress && (
-                        <div className="space-y-2">
-                          <div className="flex justify-between text-sm">
-                            <span>Sending notifications...</span>
-                            <span>{progress.current}/{progress.total}</span>
-                          </div>
-                          <Progress value={(progress.current / progress.total) * 100} />
-                          <p className="text-sm text-gray-600">
-                            Current: {progress.student}
-                          </p>
                         </div>
-                      )}
-                    </div>
-                    <DialogFooter>
-                      <Button variant="outline" onClick={() => setBulkNotificationOpen(false)}>
-                        Cancel
-                      </Button>
-                      <Button onClick={handleBulkNotification} disabled={bulkNotificationLoading || smsLoading}>
-                        {(bulkNotificationLoading || smsLoading) ? 'Sending...' : 'Send Notification'}
-                      </Button>
-                    </DialogFooter>
-                  </DialogContent>
-                </Dialog>
-
-                <Button
-                  variant="outline"
-                  onClick={handleTestSMS}
-                  disabled={notificationLoading || smsLoading}
-                  className="flex items-center gap-2"
-                >
-                  <Phone className="h-4 w-4" />
-                  Test SMS
-                </Button>
-
-                <Dialog open={customNotificationOpen} onOpenChange={setCustomNotificationOpen}>
-                  <DialogTrigger asChild>
-                    <Button variant="outline" className="flex items-center gap-2">
-                      <Send className="h-4 w-4" />
-                      Custom Notification
+                        <DialogFooter>
+                          <Button variant="outline" onClick={() => setBulkNotificationOpen(false)}>
+                            Cancel
+                          </Button>
+                          <Button onClick={() => handleBulkNotification()} disabled={bulkNotificationLoading || smsLoading}>
+                            {(bulkNotificationLoading || smsLoading) ? 'Sending...' : 'Send Notification'}
+                          </Button>
+                        </DialogFooter>
+                      </DialogContent>
+                    </Dialog>
+
+                    <Button
+                      variant="outline"
+                      onClick={handleTestSMS}
+                      disabled={notificationLoading || smsLoading}
+                      className="flex items-center gap-2"
+                    >
+                      <Phone className="h-4 w-4" />
+                      Test SMS
                     </Button>
-                  </DialogTrigger>
-                  <DialogContent className="max-w-2xl">
-                    <DialogHeader>
-                      <DialogTitle>Send Custom Notification</DialogTitle>
-                      <DialogDescription>
-                        Send notification to selected students.
-                      </DialogDescription>
-                    </DialogHeader>
-                    <div className="space-y-4">
-                      <div>
-                        <Label htmlFor="customTitle">Title</Label>
-                        <Input
-                          id="customTitle"
-                          value={customForm.title}
-                          onChange={(e) => setCustomForm(prev => ({ 
-                            ...prev, 
-                            title: e.target.value
-                          }))}
-                          placeholder="Notification title"
-                        />
-                      </div>
+
+                    <Dialog open={customNotificationOpen} onOpenChange={setCustomNotificationOpen}>
+                      <DialogTrigger asChild>
+                        <Button variant="outline" className="flex items-center gap-2">
+                          <Send className="h-4 w-4" />
+                          Custom Notification
+                        </Button>
+                      </DialogTrigger>
+                      <DialogContent className="max-w-2xl">
+                        <DialogHeader>
+                          <DialogTitle>Send Custom Notification</DialogTitle>
+                          <DialogDescription>
+                            Send notification to selected students.
+                          </DialogDescription>
+                        </DialogHeader>
+                        <div className="space-y-4">
+                          <div>
+                            <Label htmlFor="customTitle">Title</Label>
+                            <Input
+                              id="customTitle"
+                              value={customForm.title}
+                              onChange={(e) => setCustomForm(prev => ({ 
+                                ...prev, 
+                                title: e.target.value
+                              }))}
+                              placeholder="Notification title"
+                            />
+                          </div>
                       
-                      <div>
-                        <Label htmlFor="customMessage">Message</Label>
-                        <Textarea
-                          id="customMessage"
-                          value={customForm.message}
-                          onChange={(e) => setCustomForm(prev => ({ ...prev, message: e.target.value }))}
-                          placeholder="Your message here..."
-                          rows={4}
-                        />
-                      </div>
-
-                      <div className="grid grid-cols-2 gap-4">
-                        <div>
-                          <Label htmlFor="customNotificationType">Notification Type</Label>
-                          <Select 
-                            value={customForm.notificationType} 
-                            onValueChange={(value: 'email' | 'sms' | 'both') => 
-                              setCustomForm(prev => ({ ...prev, notificationType: value }))
-                            }
-                          >
-                            <SelectTrigger>
-                              <SelectValue />
-                            </SelectTrigger>
-                            <SelectContent>
-                              <SelectItem value="both">Email + SMS</SelectItem>
-                              <SelectItem value="email">Email Only</SelectItem>
-                              <SelectItem value="sms">SMS Only</SelectItem>
-                            </SelectContent>
-                          </Select>
-                        </div>
-                        
-                        <div>
-                          <Label htmlFor="messageType">Message Type</Label>
-                          <Select 
-                            value={customForm.messageType} 
-                            onValueChange={(value: CustomNotificationForm['messageType']) => 
-                              setCustomForm(prev => ({ ...prev, messageType: value }))
-                            }
-                          >
-                            <SelectTrigger>
-                              <SelectValue />
-                            </SelectTrigger>
-                            <SelectContent>
-                              <SelectItem value="general">General</SelectItem>
-                              <SelectItem value="announcement">Announcement</SelectItem>
-                              <SelectItem value="enrollment">Enrollment</SelectItem>
-                              <SelectItem value="result">Result</SelectItem>
-                            </SelectContent>
-                          </Select>
-                        </div>
-                      </div>
-
-                      <div>
-                        <Label>Select Students ({selectedStudents.length} selected)</Label>
-                        {students.length > 0 ? (
-                          <div className="max-h-40 overflow-y-auto border rounded p-2 space-y-2">
-                            {students.slice(0, 20).map(student => (
-                              <div key={student.id} className="flex items-center space-x-2">
-                                <Checkbox
-                                  id={student.id}
-                                  checked={selectedStudents.includes(student.id)}
-                                  onCheckedChange={(checked) => 
-                                    handleStudentSelection(student.id, checked as boolean)
-                                  }
-                                />
-                                <Label htmlFor={student.id} className="text-sm cursor-pointer">
-                                  {student.first_name} {student.last_name} ({student.student_id})
-                                </Label>
-                              </div>
-                            ))}
+                          <div>
+                            <Label htmlFor="customMessage">Message</Label>
+                            <Textarea
+                              id="customMessage"
+                              value={customForm.message}
+                              onChange={(e) => setCustomForm(prev => ({ ...prev, message: e.target.value }))}
+                              placeholder="Your message here..."
+                              rows={4}
+                            />
+                            {customSendsSMS && <SMSMessageAnalysis estimate={customEstimate} />}
                           </div>
-                        ) : (
-                          <div className="border rounded p-4 text-center text-gray-500">
-                            No students available
+
+                          <div className="grid grid-cols-2 gap-4">
+                            <div>
+                              <Label htmlFor="customNotificationType">Notification Type</Label>
+                              <Select 
+                                value={customForm.notificationType} 
+                                onValueChange={(value: 'email' | 'sms' | 'both') => 
+                                  setCustomForm(prev => ({ ...prev, notificationType: value }))
+                                }
+                              >
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="both">Email + SMS</SelectItem>
+                                  <SelectItem value="email">Email Only</SelectItem>
+                                  <SelectItem value="sms">SMS Only</SelectItem>
+                                </SelectContent>
+                              </Select>
+                            </div>
+                        
+                            <div>
+                              <Label htmlFor="messageType">Message Type</Label>
+                              <Select 
+                                value={customForm.messageType} 
+                                onValueChange={(value: CustomNotificationForm['messageType']) => 
+                                  setCustomForm(prev => ({ ...prev, messageType: value }))
+                                }
+                              >
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="general">General</SelectItem>
+                                  <SelectItem value="announcement">Announcement</SelectItem>
+                                  <SelectItem value="enrollment">Enrollment</SelectItem>
+                                  <SelectItem value="result">Result</SelectItem>
+                                </SelectContent>
+                              </Select>
+                            </div>
                           </div>
-                        )}
-                        <p className="text-xs text-gray-500 mt-1">
-                          {selectedStudents.length} students selected
-                        </p>
-                      </div>
-
-                      {progress && (
-                        <div className="space-y-2">
-                          <div className="flex justify-between text-sm">
-                            <span>Sending notifications...</span>
-                            <span>{progress.current}/{progress.total}</span>
+
+                          <div>
+                            <Label>Select Students ({selectedStudents.length} selected)</Label>
+                            {students.length > 0 ? (
+                              <div className="max-h-40 overflow-y-auto border rounded p-2 space-y-2">
+                                {students.slice(0, 20).map(student => (
+                                  <div key={student.id} className="flex items-center space-x-2">
+                                    <Checkbox
+                                      id={student.id}
+                                      checked={selectedStudents.includes(student.id)}
+                                      onCheckedChange={(checked) => 
+                                        handleStudentSelection(student.id, checked as boolean)
+                                      }
+                                    />
+                                    <Label htmlFor={student.id} className="text-sm cursor-pointer">
+                                      {student.first_name} {student.last_name} ({student.student_id})
+                                    </Label>
+                                  </div>
+                                ))}
+                              </div>
+                            ) : (
+                              <div className="border rounded p-4 text-center text-gray-500">
+                                No students available
+                              </div>
+                            )}
+                            <p className="text-xs text-gray-500 mt-1">
+                              {selectedStudents.length} students selected
+                            </p>
                           </div>
-                          <Progress value={(progress.current / progress.total) * 100} />
-                          <p className="text-sm text-gray-600">
-                            Current: {progress.student}
-                          </p>
+
                         </div>
-                      )}
-                    </div>
-                    <DialogFooter>
-                      <Button variant="outline" onClick={() => setCustomNotificationOpen(false)}>
-                        Cancel
-                      </Button>
-                      <Button onClick={handleCustomNotification} disabled={notificationLoading || smsLoading}>
-                        {(notificationLoading || smsLoading) ? 'Sending...' : 'Send Notification'}
-                      </Button>
-                    </DialogFooter>
-                  </DialogContent>
-                </Dialog>
+                        <DialogFooter>
+                          <Button variant="outline" onClick={() => setCustomNotificationOpen(false)}>
+                            Cancel
+                          </Button>
+                          <Button onClick={() => handleCustomNotification()} disabled={notificationLoading || smsLoading}>
+                            {(notificationLoading || smsLoading) ? 'Sending...' : 'Send Notification'}
+                          </Button>
+                        </DialogFooter>
+                      </DialogContent>
+                    </Dialog>
+
+                    <SMSBudgetConfirmDialog
+                      estimate={overBudgetSend === 'custom' ? customEstimate : bulkEstimate}
+                      open={overBudgetSend !== null}
+                      onOpenChange={(open) => !open && setOverBudgetSend(null)}
+                      onConfirm={() => overBudgetSend === 'custom'
+                        ? handleCustomNotification(true)
+                        : handleBulkNotification(true)}
+                    />
+                  </>
+                )}
               </div>
             </CardContent>
           </Card>
         </TabsContent>
 
-        <TabsContent value="sms" className="space-y-6">
-          <SMSManagement />
-        </TabsContent>
+        {canManageSms && (
+          <TabsContent value="sms" className="space-y-6">
+            <SMSManagement />
+          </TabsContent>
+        )}
       </Tabs>
     </div>
   );
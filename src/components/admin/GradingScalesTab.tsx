@@ -0,0 +1,590 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2, MapPin, Pencil, Plus, Scale, Star, Trash2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useGradingScales } from '@/hooks/useGradingScales';
+import { GradingScale, getGradeBadgeClass, sortBands, validateBands } from '@/lib/grading';
+import { PERMISSIONS } from '@/lib/permissions';
+
+interface GradingScalesTabProps {
+  departments: string[];
+  levels: string[];
+  academicYears: string[];
+}
+
+interface BandForm {
+  key: string;
+  min_score: string;
+  letter: string;
+  grade_point: string;
+  remark: string;
+}
+
+interface ScaleForm {
+  name: string;
+  description: string;
+  pass_mark: string;
+  max_grade_point: string;
+  is_default: boolean;
+  bands: BandForm[];
+}
+
+interface AssignmentForm {
+  scale_id: string;
+  department: string;
+  level: string;
+  academic_year: string;
+}
+
+// Select items cannot have an empty value, so "any" stands for a NULL scope column
+const ANY = 'any';
+
+const newBandKey = () => `${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+
+const INITIAL_SCALE_FORM: ScaleForm = {
+  name: '',
+  description: '',
+  pass_mark: '40',
+  max_grade_point: '5',
+  is_default: false,
+  bands: [{ key: 'initial', min_score: '0', letter: 'F', grade_point: '0', remark: 'Fail' }]
+};
+
+const INITIAL_ASSIGNMENT_FORM: AssignmentForm = {
+  scale_id: '',
+  department: ANY,
+  level: ANY,
+  academic_year: ANY
+};
+
+const toScaleForm = (scale: GradingScale): ScaleForm => ({
+  name: scale.name,
+  description: scale.description ?? '',
+  pass_mark: String(scale.pass_mark),
+  max_grade_point: String(scale.max_grade_point),
+  is_default: scale.is_default,
+  bands: scale.bands.map(band => ({
+    key: band.id,
+    min_score: String(band.min_score),
+    letter: band.letter,
+    grade_point: String(band.grade_point),
+    remark: band.remark ?? ''
+  }))
+});
+
+const GradingScalesTab: React.FC<GradingScalesTabProps> = ({ departments, levels, academicYears }) => {
+  const { can } = useAuth();
+  const canManageGrading = can(PERMISSIONS.MANAGE_GRADING);
+  const {
+    scales,
+    assignments,
+    loading,
+    error,
+    saveScale,
+    setDefaultScale,
+    deleteScale,
+    assignScale,
+    removeAssignment
+  } = useGradingScales();
+
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editingScaleId, setEditingScaleId] = useState<string | null>(null);
+  const [scaleForm, setScaleForm] = useState<ScaleForm>(INITIAL_SCALE_FORM);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [assignmentForm, setAssignmentForm] = useState<AssignmentForm>(INITIAL_ASSIGNMENT_FORM);
+  const [assigning, setAssigning] = useState(false);
+
+  const openEditor = (scale?: GradingScale) => {
+    setEditingScaleId(scale?.id ?? null);
+    setScaleForm(scale ? toScaleForm(scale) : INITIAL_SCALE_FORM);
+    setFormError(null);
+    setEditorOpen(true);
+  };
+
+  const updateBand = (key: string, field: keyof Omit<BandForm, 'key'>, value: string) => {
+    setScaleForm(prev => ({
+      ...prev,
+      bands: prev.bands.map(band => band.key === key ? { ...band, [field]: value } : band)
+    }));
+  };
+
+  const addBand = () => {
+    setScaleForm(prev => ({
+      ...prev,
+      bands: [{ key: newBandKey(), min_score: '', letter: '', grade_point: '', remark: '' }, ...prev.bands]
+    }));
+  };
+
+  const removeBand = (key: string) => {
+    setScaleForm(prev => ({
+      ...prev,
+      bands: prev.bands.length > 1 ? prev.bands.filter(band => band.key !== key) : prev.bands
+    }));
+  };
+
+  const handleSaveScale = async () => {
+    const passMark = parseFloat(scaleForm.pass_mark);
+    const maxGradePoint = parseFloat(scaleForm.max_grade_point);
+    const bands = scaleForm.bands.map(band => ({
+      min_score: parseFloat(band.min_score),
+      letter: band.letter.trim().toUpperCase(),
+      grade_point: parseFloat(band.grade_point),
+      remark: band.remark.trim() || null
+    }));
+
+    if (!scaleForm.name.trim()) {
+      setFormError('Give the scale a name');
+      return;
+    }
+    if (isNaN(passMark) || passMark < 0 || passMark > 100) {
+      setFormError('Pass mark must be between 0 and 100');
+      return;
+    }
+    if (isNaN(maxGradePoint) || maxGradePoint <= 0) {
+      setFormError('Maximum grade point must be greater than 0');
+      return;
+    }
+
+    const bandError = validateBands(bands, maxGradePoint);
+    if (bandError) {
+      setFormError(bandError);
+      return;
+    }
+
+    setFormError(null);
+    setSaving(true);
+    const saved = await saveScale({
+      name: scaleForm.name.trim(),
+      description: scaleForm.description.trim() || null,
+      pass_mark: passMark,
+      max_grade_point: maxGradePoint,
+      is_default: scaleForm.is_default,
+      bands: sortBands(bands)
+    }, editingScaleId ?? undefined);
+    setSaving(false);
+
+    if (saved) {
+      setEditorOpen(false);
+    }
+  };
+
+  const handleAssign = async () => {
+    setAssigning(true);
+    const assigned = await assignScale({
+      scale_id: assignmentForm.scale_id,
+      department: assignmentForm.department === ANY ? null : assignmentForm.department,
+      level: assignmentForm.level === ANY ? null : assignmentForm.level,
+      academic_year: assignmentForm.academic_year === ANY ? null : assignmentForm.academic_year
+    });
+    setAssigning(false);
+
+    if (assigned) {
+      setAssignmentForm(INITIAL_ASSIGNMENT_FORM);
+    }
+  };
+
+  const canAssign = !!assignmentForm.scale_id && (
+    assignmentForm.department !== ANY ||
+    assignmentForm.level !== ANY ||
+    assignmentForm.academic_year !== ANY
+  );
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Grading Scales</h2>
+          <p className="text-gray-600">
+            Grades and grade points are worked out from these scales whenever a result is saved
+          </p>
+        </div>
+        {canManageGrading && (
+          <Button className="flex items-center gap-2" onClick={() => openEditor()}>
+            <Plus className="h-4 w-4" />
+            New Scale
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {scales.map(scale => (
+          <Card key={scale.id}>
+            <CardHeader>
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <CardTitle className="flex items-center gap-2">
+                    <Scale className="h-5 w-5" />
+                    {scale.name}
+                    {scale.is_default && <Badge variant="secondary">Default</Badge>}
+                  </CardTitle>
+                  <CardDescription>
+                    {scale.description && `${scale.description} · `}
+                    Pass mark {scale.pass_mark} · Out of {Number(scale.max_grade_point).toFixed(2)}
+                  </CardDescription>
+                </div>
+                {canManageGrading && (
+                  <div className="flex gap-1">
+                    {!scale.is_default && (
+                      <Button variant="ghost" size="icon" title="Make default" onClick={() => setDefaultScale(scale)}>
+                        <Star className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button variant="ghost" size="icon" title="Edit" onClick={() => openEditor(scale)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    {!scale.is_default && (
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="icon" title="Delete">
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete {scale.name}?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Its assignments are removed too, and unpublished results fall back to the
+                              next matching scale. Published results keep the grades they were issued with.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => deleteScale(scale)}>Delete Scale</AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    )}
+                  </div>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Score</TableHead>
+                    <TableHead>Grade</TableHead>
+                    <TableHead>Points</TableHead>
+                    <TableHead>Remark</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {scale.bands.map((band, index) => {
+                    const upper = index === 0 ? 100 : scale.bands[index - 1].min_score;
+                    return (
+                      <TableRow key={band.id}>
+                        <TableCell className="text-sm text-gray-600">
+                          {index === 0 ? `${band.min_score}–${upper}` : `${band.min_score} to < ${upper}`}
+                        </TableCell>
+                        <TableCell>
+                          <Badge className={`${getGradeBadgeClass(band.letter)} border font-semibold`}>
+                            {band.letter}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>{Number(band.grade_point).toFixed(2)}</TableCell>
+                        <TableCell className="text-sm text-gray-600">{band.remark ?? '—'}</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <MapPin className="h-5 w-5" />
+            Scale Assignments
+          </CardTitle>
+          <CardDescription>
+            The most specific match wins: session, then level, then department. Anything unmatched uses the default scale.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {assignments.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-6">
+              No assignments yet. Every result uses the default scale.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Department</TableHead>
+                  <TableHead>Level</TableHead>
+                  <TableHead>Session</TableHead>
+                  <TableHead>Scale</TableHead>
+                  {canManageGrading && <TableHead className="text-right">Actions</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {assignments.map(assignment => (
+                  <TableRow key={assignment.id}>
+                    <TableCell>{assignment.department ?? 'Any'}</TableCell>
+                    <TableCell>{assignment.level ?? 'Any'}</TableCell>
+                    <TableCell>{assignment.academic_year ?? 'Any'}</TableCell>
+                    <TableCell className="font-medium">{assignment.scale?.name ?? '—'}</TableCell>
+                    {canManageGrading && (
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="icon" title="Remove" onClick={() => removeAssignment(assignment.id)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {canManageGrading && (
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end border-t pt-4">
+              <div className="space-y-2">
+                <Label>Department</Label>
+                <Select
+                  value={assignmentForm.department}
+                  onValueChange={value => setAssignmentForm(prev => ({ ...prev, department: value }))}
+                >
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any department</SelectItem>
+                    {departments.map(dept => (
+                      <SelectItem key={dept} value={dept}>{dept}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Level</Label>
+                <Select
+                  value={assignmentForm.level}
+                  onValueChange={value => setAssignmentForm(prev => ({ ...prev, level: value }))}
+                >
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any level</SelectItem>
+                    {levels.map(level => (
+                      <SelectItem key={level} value={level}>{level}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Session</Label>
+                <Select
+                  value={assignmentForm.academic_year}
+                  onValueChange={value => setAssignmentForm(prev => ({ ...prev, academic_year: value }))}
+                >
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any session</SelectItem>
+                    {academicYears.map(year => (
+                      <SelectItem key={year} value={year}>{year}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Scale</Label>
+                <Select
+                  value={assignmentForm.scale_id}
+                  onValueChange={value => setAssignmentForm(prev => ({ ...prev, scale_id: value }))}
+                >
+                  <SelectTrigger><SelectValue placeholder="Pick scale" /></SelectTrigger>
+                  <SelectContent>
+                    {scales.map(scale => (
+                      <SelectItem key={scale.id} value={scale.id}>{scale.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button onClick={handleAssign} disabled={!canAssign || assigning}>
+                {assigning && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Assign
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={editorOpen} onOpenChange={setEditorOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-auto">
+          <DialogHeader>
+            <DialogTitle>{editingScaleId ? 'Edit Grading Scale' : 'New Grading Scale'}</DialogTitle>
+            <DialogDescription>
+              Each band runs from its minimum score up to the next band's minimum. Saving re-grades
+              unpublished results; published results keep the grades they were issued with.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="scaleName">Name</Label>
+                <Input
+                  id="scaleName"
+                  value={scaleForm.name}
+                  onChange={e => setScaleForm(prev => ({ ...prev, name: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="scaleDescription">Description</Label>
+                <Input
+                  id="scaleDescription"
+                  value={scaleForm.description}
+                  onChange={e => setScaleForm(prev => ({ ...prev, description: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="scalePassMark">Pass Mark</Label>
+                <Input
+                  id="scalePassMark"
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={scaleForm.pass_mark}
+                  onChange={e => setScaleForm(prev => ({ ...prev, pass_mark: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="scaleMaxPoint">Maximum Grade Point</Label>
+                <Input
+                  id="scaleMaxPoint"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={scaleForm.max_grade_point}
+                  onChange={e => setScaleForm(prev => ({ ...prev, max_grade_point: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center gap-3">
+              <Switch
+                id="scaleDefault"
+                checked={scaleForm.is_default}
+                onCheckedChange={checked => setScaleForm(prev => ({ ...prev, is_default: checked }))}
+              />
+              <Label htmlFor="scaleDefault">Use wherever no other scale is assigned</Label>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Bands</Label>
+                <Button variant="outline" size="sm" onClick={addBand}>
+                  <Plus className="mr-1 h-4 w-4" /> Add Band
+                </Button>
+              </div>
+              <div className="grid grid-cols-12 gap-2 text-xs font-medium text-gray-500">
+                <span className="col-span-2">Min Score</span>
+                <span className="col-span-2">Grade</span>
+                <span className="col-span-2">Points</span>
+                <span className="col-span-5">Remark</span>
+              </div>
+              {scaleForm.bands.map(band => (
+                <div key={band.key} className="grid grid-cols-12 gap-2">
+                  <Input
+                    className="col-span-2"
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={band.min_score}
+                    onChange={e => updateBand(band.key, 'min_score', e.target.value)}
+                  />
+                  <Input
+                    className="col-span-2"
+                    value={band.letter}
+                    onChange={e => updateBand(band.key, 'letter', e.target.value)}
+                  />
+                  <Input
+                    className="col-span-2"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={band.grade_point}
+                    onChange={e => updateBand(band.key, 'grade_point', e.target.value)}
+                  />
+                  <Input
+                    className="col-span-5"
+                    value={band.remark}
+                    onChange={e => updateBand(band.key, 'remark', e.target.value)}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => removeBand(band.key)}
+                    disabled={scaleForm.bands.length === 1}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            {formError && (
+              <Alert variant="destructive">
+                <AlertDescription>{formError}</AlertDescription>
+              </Alert>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditorOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveScale} disabled={saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Scale
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default GradingScalesTab;
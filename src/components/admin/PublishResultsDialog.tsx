@@ -0,0 +1,239 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import { useAcademicCalendar } from '@/hooks/useAcademicCalendar';
+import { SEMESTER_NAMES } from '@/services/academicCalendarService';
+import { PublicationPreview, PublicationScope, ResultWorkflowService } from '@/services/resultWorkflowService';
+
+interface PublishableResult {
+  course_id: string;
+  academic_year: string;
+  semester: string;
+  status: string;
+  student: { department: string; level: string };
+  course: { course_code: string; course_title: string };
+}
+
+interface PublishResultsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  results: PublishableResult[];
+  publishing: boolean;
+  onPublish: (scope: PublicationScope) => void;
+}
+
+const unique = (values: string[]) => [...new Set(values)].sort();
+
+const PublishResultsDialog: React.FC<PublishResultsDialogProps> = ({
+  open,
+  onOpenChange,
+  results,
+  publishing,
+  onPublish
+}) => {
+  const { academicYears: calendarYears } = useAcademicCalendar();
+  const [academicYear, setAcademicYear] = useState('');
+  const [semester, setSemester] = useState('');
+  const [department, setDepartment] = useState('');
+  const [level, setLevel] = useState('');
+  const [courseIds, setCourseIds] = useState<string[]>([]);
+  const [preview, setPreview] = useState<PublicationPreview | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+
+  // Only sessions, departments and levels that have something approved are worth offering
+  const approved = useMemo(() => results.filter(r => r.status === 'approved'), [results]);
+  const academicYears = useMemo(
+    () => calendarYears.filter(year => approved.some(r => r.academic_year === year)),
+    [calendarYears, approved]
+  );
+  const departments = useMemo(() => unique(approved.map(r => r.student.department)), [approved]);
+  const levels = useMemo(() => unique(approved.map(r => r.student.level)), [approved]);
+
+  const cohortCourses = useMemo(() => {
+    const courses = new Map<string, PublishableResult['course']>();
+    approved
+      .filter(r =>
+        r.academic_year === academicYear &&
+        r.semester === semester &&
+        r.student.department === department &&
+        r.student.level === level
+      )
+      .forEach(r => courses.set(r.course_id, r.course));
+    return Array.from(courses.entries()).sort(([, a], [, b]) => a.course_code.localeCompare(b.course_code));
+  }, [approved, academicYear, semester, department, level]);
+
+  const scopeChosen = !!academicYear && !!semester && !!department && !!level;
+
+  // A course picked for one cohort means nothing in another
+  useEffect(() => {
+    setCourseIds([]);
+  }, [academicYear, semester, department, level]);
+
+  useEffect(() => {
+    if (!open || !scopeChosen) {
+      setPreview(null);
+      return;
+    }
+
+    let cancelled = false;
+    setPreviewLoading(true);
+    setPreviewError(null);
+    ResultWorkflowService.previewPublication({ academicYear, semester, department, level, courseIds })
+      .then(data => {
+        if (!cancelled) setPreview(data);
+      })
+      .catch(err => {
+        if (!cancelled) setPreviewError(err instanceof Error ? err.message : 'Failed to load preview');
+      })
+      .finally(() => {
+        if (!cancelled) setPreviewLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, scopeChosen, academicYear, semester, department, level, courseIds]);
+
+  const toggleCourse = (courseId: string, checked: boolean) => {
+    setCourseIds(prev => checked ? [...prev, courseId] : prev.filter(id => id !== courseId));
+  };
+
+  const resultCount = preview?.resultIds.length ?? 0;
+
+  return (
+    <Dialog open={open} onOpenChange={value => !publishing && onOpenChange(value)}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Publish Results</DialogTitle>
+          <DialogDescription>
+            Publish the approved results for one cohort and notify only those students.
+            Results that are still in draft or awaiting approval are left alone.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Academic Year</Label>
+              <Select value={academicYear} onValueChange={setAcademicYear}>
+                <SelectTrigger><SelectValue placeholder="Pick year" /></SelectTrigger>
+                <SelectContent>
+                  {academicYears.map(y => <SelectItem key={y} value={y}>{y}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Semester</Label>
+              <Select value={semester} onValueChange={setSemester}>
+                <SelectTrigger><SelectValue placeholder="Pick semester" /></SelectTrigger>
+                <SelectContent>
+                  {SEMESTER_NAMES.map(s => <SelectItem key={s} value={s}>{s}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Department</Label>
+              <Select value={department} onValueChange={setDepartment}>
+                <SelectTrigger><SelectValue placeholder="Pick department" /></SelectTrigger>
+                <SelectContent>
+                  {departments.map(d => <SelectItem key={d} value={d}>{d}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Level</Label>
+              <Select value={level} onValueChange={setLevel}>
+                <SelectTrigger><SelectValue placeholder="Pick level" /></SelectTrigger>
+                <SelectContent>
+                  {levels.map(l => <SelectItem key={l} value={l}>{l}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {scopeChosen && cohortCourses.length > 0 && (
+            <div className="space-y-2">
+              <Label>Courses <span className="font-normal text-gray-500">(leave unticked to publish all)</span></Label>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {cohortCourses.map(([courseId, course]) => (
+                  <div key={courseId} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`publish-${courseId}`}
+                      checked={courseIds.includes(courseId)}
+                      onCheckedChange={checked => toggleCourse(courseId, checked as boolean)}
+                    />
+                    <Label htmlFor={`publish-${courseId}`} className="text-sm font-normal cursor-pointer">
+                      {course.course_code} - {course.course_title}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {approved.length === 0 ? (
+            <p className="text-sm text-gray-600">There are no approved results waiting to be published.</p>
+          ) : !scopeChosen ? (
+            <p className="text-sm text-gray-600">Pick a cohort to see who will be notified.</p>
+          ) : previewLoading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+            </div>
+          ) : previewError ? (
+            <p className="text-sm text-red-600">{previewError}</p>
+          ) : preview && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-gray-900">
+                {resultCount} approved result{resultCount !== 1 && 's'} for {preview.students.length} student{preview.students.length !== 1 && 's'} will be published
+              </p>
+              {preview.students.length > 0 && (
+                <ScrollArea className="h-48 border rounded-lg">
+                  <ul className="divide-y">
+                    {preview.students.map(student => (
+                      <li key={student.id} className="flex justify-between px-3 py-2 text-sm">
+                        <span>
+                          {student.name} <span className="text-gray-500">({student.student_id})</span>
+                        </span>
+                        <span className="text-gray-600">
+                          {student.resultCount} result{student.resultCount !== 1 && 's'}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </ScrollArea>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={publishing}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => onPublish({ academicYear, semester, department, level, courseIds })}
+            disabled={publishing || previewLoading || !scopeChosen || resultCount === 0}
+          >
+            {publishing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Publish and Notify
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PublishResultsDialog;
@@ -3,6 +3,8 @@ import React from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Bell, Send, Users } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { PERMISSIONS } from '@/lib/permissions';
 
 interface QuickActionsProps {
   onPublishResults: () => void;
@@ -15,6 +17,8 @@ const QuickActions: React.FC<QuickActionsProps> = ({
   onSendTestNotification, 
   notificationLoading 
 }) => {
+  const { can } = useAuth();
+
   return (
     <Card>
       <CardHeader>
@@ -23,35 +27,41 @@ const QuickActions: React.FC<QuickActionsProps> = ({
       </CardHeader>
       <CardContent>
         <div className="flex gap-4 flex-wrap">
-          <Button 
-            onClick={onPublishResults} 
-            disabled={notificationLoading}
-            className="bg-green-600 hover:bg-green-700"
-          >
-            {notificationLoading ? (
-              <>
-                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-                Publishing...
-              </>
-            ) : (
-              <>
-                <Bell className="h-4 w-4 mr-2" />
-                Publish All Results & Notify
-              </>
-            )}
-          </Button>
-          <Button 
-            variant="outline" 
-            onClick={onSendTestNotification}
-            disabled={notificationLoading}
-          >
-            <Send className="h-4 w-4 mr-2" />
-            Send Test Notification
-          </Button>
-          <Button variant="outline">
-            <Users className="h-4 w-4 mr-2" />
-            Export Student Data
-          </Button>
+          {can(PERMISSIONS.PUBLISH_RESULTS) && (
+            <Button 
+              onClick={onPublishResults} 
+              disabled={notificationLoading}
+              className="bg-green-600 hover:bg-green-700"
+            >
+              {notificationLoading ? (
+                <>
+                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+                  Publishing...
+                </>
+              ) : (
+                <>
+                  <Bell className="h-4 w-4 mr-2" />
+                  Publish All Results & Notify
+                </>
+              )}
+            </Button>
+          )}
+          {can(PERMISSIONS.SEND_NOTIFICATIONS) && (
+            <Button 
+              variant="outline" 
+              onClick={onSendTestNotification}
+              disabled={notificationLoading}
+            >
+              <Send className="h-4 w-4 mr-2" />
+              Send Test Notification
+            </Button>
+          )}
+          {can(PERMISSIONS.MANAGE_STUDENTS) && (
+            <Button variant="outline">
+              <Users className="h-4 w-4 mr-2" />
+              Export Student Data
+            </Button>
+          )}
         </div>
       </CardContent>
     </Card>
@@ -0,0 +1,142 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { CalendarClock, Loader2, Save } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { CourseRegistrationService, CreditLimit } from '@/services/courseRegistrationService';
+
+interface RegistrationSettingsDialogProps {
+  canManageLimits: boolean;
+}
+
+const RegistrationSettingsDialog: React.FC<RegistrationSettingsDialogProps> = ({ canManageLimits }) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [limits, setLimits] = useState<CreditLimit[]>([]);
+  const [limitEdits, setLimitEdits] = useState<Record<string, { min: string; max: string }>>({});
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+
+  const showError = useCallback((error: unknown, fallback: string) => {
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : fallback,
+      variant: 'destructive'
+    });
+  }, [toast]);
+
+  const loadSettings = useCallback(async () => {
+    setLoading(true);
+    try {
+      const loadedLimits = await CourseRegistrationService.getCreditLimits();
+      setLimits(loadedLimits);
+      setLimitEdits(Object.fromEntries(
+        loadedLimits.map(limit => [limit.level, { min: String(limit.min_units), max: String(limit.max_units) }])
+      ));
+    } catch (error) {
+      showError(error, 'Failed to load registration settings');
+    } finally {
+      setLoading(false);
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    if (open) loadSettings();
+  }, [open, loadSettings]);
+
+  const handleSaveLimit = async (level: string) => {
+    const edit = limitEdits[level];
+    setSavingKey(level);
+    try {
+      await CourseRegistrationService.saveCreditLimit(level, parseInt(edit.min, 10), parseInt(edit.max, 10));
+      toast({ title: 'Limits saved', description: `${level} credit unit limits updated.` });
+      await loadSettings();
+    } catch (error) {
+      showError(error, 'Failed to save credit limits');
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2">
+          <CalendarClock className="h-4 w-4" />
+          Registration Settings
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle>Registration Settings</DialogTitle>
+          <DialogDescription>
+            How many credit units each level must take per semester. Registration windows are set on each semester in the academic calendar.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-10">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-3">
+              <h3 className="font-semibold text-gray-900">Credit Unit Limits</h3>
+              <div className="border rounded-lg divide-y">
+                {limits.map(limit => {
+                  const edit = limitEdits[limit.level] ?? { min: '', max: '' };
+                  const changed = edit.min !== String(limit.min_units) || edit.max !== String(limit.max_units);
+                  return (
+                    <div key={limit.level} className="grid grid-cols-4 items-center gap-3 p-3">
+                      <span className="font-medium text-gray-900">{limit.level}</span>
+                      <Input
+                        type="number"
+                        min="0"
+                        aria-label={`${limit.level} minimum units`}
+                        value={edit.min}
+                        disabled={!canManageLimits}
+                        onChange={e => setLimitEdits(prev => ({ ...prev, [limit.level]: { ...edit, min: e.target.value } }))}
+                      />
+                      <Input
+                        type="number"
+                        min="0"
+                        aria-label={`${limit.level} maximum units`}
+                        value={edit.max}
+                        disabled={!canManageLimits}
+                        onChange={e => setLimitEdits(prev => ({ ...prev, [limit.level]: { ...edit, max: e.target.value } }))}
+                      />
+                      {canManageLimits && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleSaveLimit(limit.level)}
+                          disabled={!changed || !edit.min || !edit.max || savingKey !== null}
+                        >
+                          {savingKey === limit.level
+                            ? <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                            : <Save className="mr-1 h-3 w-3" />}
+                          Save
+                        </Button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+              <p className="text-xs text-gray-500">Minimum and maximum credit units per semester.</p>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RegistrationSettingsDialog;
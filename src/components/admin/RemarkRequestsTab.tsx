@@ -0,0 +1,294 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, MessageSquareText, RefreshCw } from 'lucide-react';
+import { useRemarkRequests } from '@/hooks/useRemarkRequests';
+import { MAX_CA_SCORE, MAX_EXAM_SCORE } from '@/lib/grading';
+import {
+  isOpenRemarkStatus,
+  REMARK_STATUS_LABELS,
+  REMARK_STATUSES,
+  RemarkRequestWithDetails,
+  RemarkStatus,
+} from '@/services/remarkRequestService';
+
+interface RemarkRequestsTabProps {
+  onResultsChanged?: () => void;
+}
+
+type Outcome = 'upheld' | 'revised';
+
+const STATUS_BADGE_CLASSES: Record<RemarkStatus, string> = {
+  submitted: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  under_review: 'bg-blue-100 text-blue-800 border-blue-200',
+  upheld: 'bg-gray-100 text-gray-800 border-gray-200',
+  revised: 'bg-green-100 text-green-800 border-green-200',
+};
+
+const statusLabel = (status: string) => REMARK_STATUS_LABELS[status as RemarkStatus] ?? status;
+
+const formatDateTime = (value: string | null) => (value ? new Date(value).toLocaleString() : '—');
+
+const RemarkRequestsTab: React.FC<RemarkRequestsTabProps> = ({ onResultsChanged }) => {
+  const { requests, loading, error, refetch, startReview, uphold, revise } = useRemarkRequests(onResultsChanged);
+  const [statusFilter, setStatusFilter] = useState<'open' | 'all' | RemarkStatus>('open');
+  const [workingId, setWorkingId] = useState<string | null>(null);
+  const [resolving, setResolving] = useState<RemarkRequestWithDetails | null>(null);
+  const [outcome, setOutcome] = useState<Outcome>('upheld');
+  const [response, setResponse] = useState('');
+  const [caScore, setCaScore] = useState('');
+  const [examScore, setExamScore] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const filteredRequests = requests.filter(request =>
+    statusFilter === 'all' ||
+    (statusFilter === 'open' ? isOpenRemarkStatus(request.status) : request.status === statusFilter)
+  );
+  const openCount = requests.filter(request => isOpenRemarkStatus(request.status)).length;
+
+  const handleStartReview = async (request: RemarkRequestWithDetails) => {
+    setWorkingId(request.id);
+    await startReview(request);
+    setWorkingId(null);
+  };
+
+  const openResolveDialog = (request: RemarkRequestWithDetails) => {
+    setResolving(request);
+    setOutcome('upheld');
+    setResponse('');
+    setCaScore(request.result.ca_score?.toString() ?? '');
+    setExamScore(request.result.exam_score?.toString() ?? '');
+  };
+
+  const handleResolve = async () => {
+    if (!resolving) return;
+
+    setSaving(true);
+    const done = outcome === 'upheld'
+      ? await uphold(resolving, response)
+      : await revise(resolving, { ca_score: parseFloat(caScore), exam_score: parseFloat(examScore) }, response);
+    setSaving(false);
+
+    if (done) setResolving(null);
+  };
+
+  const scoresChanged = resolving !== null &&
+    (parseFloat(caScore) !== resolving.result.ca_score || parseFloat(examScore) !== resolving.result.exam_score);
+  const canSubmit = !!response.trim() && (outcome === 'upheld' || (caScore !== '' && examScore !== '' && scoresChanged));
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <MessageSquareText className="h-5 w-5" />
+              Remark Requests
+            </CardTitle>
+            <CardDescription>
+              Students querying a published result. {openCount} open request{openCount !== 1 && 's'}.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Select value={statusFilter} onValueChange={value => setStatusFilter(value as typeof statusFilter)}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="open">Open</SelectItem>
+                <SelectItem value="all">All</SelectItem>
+                {REMARK_STATUSES.map(status => (
+                  <SelectItem key={status} value={status}>{REMARK_STATUS_LABELS[status]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="icon" onClick={() => refetch()} disabled={loading}>
+              <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <Alert variant="destructive" className="mb-4">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-10">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : filteredRequests.length === 0 ? (
+          <p className="text-center text-gray-600 py-10">No remark requests to show.</p>
+        ) : (
+          <div className="space-y-4">
+            {filteredRequests.map(request => (
+              <div key={request.id} className="border rounded-lg p-4 space-y-3">
+                <div className="flex flex-col sm:flex-row justify-between gap-3">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <h4 className="font-semibold text-gray-900">
+                        {request.result.course.course_code} · {request.student.first_name} {request.student.last_name}
+                      </h4>
+                      <Badge variant="outline" className={`${STATUS_BADGE_CLASSES[request.status as RemarkStatus] ?? ''} border`}>
+                        {statusLabel(request.status)}
+                      </Badge>
+                    </div>
+                    <p className="text-sm text-gray-600">
+                      {request.student.student_id} · {request.student.department} · {request.student.level}
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      {request.result.course.course_title} · {request.result.academic_year} {request.result.semester}
+                    </p>
+                  </div>
+                  <div className="text-sm text-gray-600 sm:text-right">
+                    <div>
+                      Current score: <span className="font-semibold">{request.result.total_score ?? '—'}</span>
+                      {request.result.grade && ` (${request.result.grade})`}
+                    </div>
+                    <div className="text-xs text-gray-500">Submitted {formatDateTime(request.created_at)}</div>
+                  </div>
+                </div>
+
+                <p className="text-sm text-gray-700 bg-gray-50 rounded p-2 whitespace-pre-line">{request.reason}</p>
+
+                {request.admin_response && (
+                  <div className="text-sm text-gray-700">
+                    <span className="font-medium">Response: </span>
+                    {request.admin_response}
+                  </div>
+                )}
+                {request.amendment && (
+                  <div className="text-sm text-gray-700">
+                    <span className="font-medium">Amendment v{request.amendment.version}: </span>
+                    {request.amendment.before_total_score ?? '—'} ({request.amendment.before_grade ?? '—'}) →{' '}
+                    {request.amendment.after_total_score ?? '—'} ({request.amendment.after_grade ?? '—'})
+                  </div>
+                )}
+                {request.handled_by_name && (
+                  <div className="text-xs text-gray-500">
+                    Handled by {request.handled_by_name}
+                    {request.resolved_at && ` · resolved ${formatDateTime(request.resolved_at)}`}
+                  </div>
+                )}
+
+                {isOpenRemarkStatus(request.status) && (
+                  <div className="flex justify-end gap-2 pt-2 border-t">
+                    {request.status === 'submitted' && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleStartReview(request)}
+                        disabled={workingId !== null}
+                      >
+                        {workingId === request.id && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+                        Start Review
+                      </Button>
+                    )}
+                    <Button size="sm" onClick={() => openResolveDialog(request)} disabled={workingId !== null}>
+                      Resolve
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={resolving !== null} onOpenChange={open => !open && !saving && setResolving(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Resolve Remark Request</DialogTitle>
+            <DialogDescription>
+              {resolving && `${resolving.result.course.course_code} · ${resolving.student.first_name} ${resolving.student.last_name}. `}
+              The student is notified of the outcome.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Outcome</Label>
+              <Select value={outcome} onValueChange={value => setOutcome(value as Outcome)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="upheld">Uphold the original result</SelectItem>
+                  <SelectItem value="revised">Revise the scores</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {outcome === 'revised' && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="remark-ca">CA Score (0–{MAX_CA_SCORE})</Label>
+                  <Input
+                    id="remark-ca"
+                    type="number"
+                    min="0"
+                    max={MAX_CA_SCORE}
+                    value={caScore}
+                    onChange={e => setCaScore(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="remark-exam">Exam Score (0–{MAX_EXAM_SCORE})</Label>
+                  <Input
+                    id="remark-exam"
+                    type="number"
+                    min="0"
+                    max={MAX_EXAM_SCORE}
+                    value={examScore}
+                    onChange={e => setExamScore(e.target.value)}
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="remark-response">Response to the student</Label>
+              <Textarea
+                id="remark-response"
+                value={response}
+                onChange={e => setResponse(e.target.value)}
+                placeholder={outcome === 'upheld'
+                  ? 'e.g. The script was remarked and the scores were confirmed'
+                  : 'e.g. An unmarked answer on page 4 was found and marked'}
+                rows={3}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setResolving(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleResolve} disabled={saving || !canSubmit}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {outcome === 'upheld' ? 'Uphold Result' : 'Revise Result'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default RemarkRequestsTab;
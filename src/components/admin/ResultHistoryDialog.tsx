@@ -0,0 +1,160 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { History, Loader2 } from 'lucide-react';
+import { RESULT_STAGE_LABELS, ResultStage } from '@/lib/resultWorkflow';
+import { ResultStatusChange, ResultWorkflowService } from '@/services/resultWorkflowService';
+import { ResultAmendment, ResultAmendmentService } from '@/services/resultAmendmentService';
+
+interface ResultHistoryDialogProps {
+  resultId: string;
+  title: string;
+}
+
+const ACTION_LABELS: Record<string, string> = {
+  review: 'Reviewed',
+  approve: 'Approved',
+  publish: 'Published',
+  reject: 'Rejected',
+};
+
+const stageLabel = (stage: string) => RESULT_STAGE_LABELS[stage as ResultStage] ?? stage;
+
+const scoreLine = (ca: number | null, exam: number | null, total: number | null, grade: string | null) =>
+  `CA ${ca ?? '—'} + Exam ${exam ?? '—'} = ${total ?? '—'}${grade ? ` (${grade})` : ''}`;
+
+const ResultHistoryDialog: React.FC<ResultHistoryDialogProps> = ({ resultId, title }) => {
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [history, setHistory] = useState<ResultStatusChange[]>([]);
+  const [amendments, setAmendments] = useState<ResultAmendment[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    Promise.all([ResultWorkflowService.getHistory(resultId), ResultAmendmentService.getHistory(resultId)])
+      .then(([entries, changes]) => {
+        if (cancelled) return;
+        setHistory(entries);
+        setAmendments(changes);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load history');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, resultId]);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="text-gray-600">
+          <History className="w-4 h-4 mr-1" />
+          History
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Result History</DialogTitle>
+          <DialogDescription>{title}</DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : (
+          <div className="space-y-6 max-h-[60vh] overflow-y-auto">
+            <section className="space-y-3">
+              <h3 className="text-sm font-semibold text-gray-900">Score Amendments</h3>
+              {amendments.length === 0 ? (
+                <p className="text-sm text-gray-600">The scores have not been changed since entry.</p>
+              ) : (
+                <ol className="space-y-3">
+                  {amendments.map(amendment => (
+                    <li key={amendment.id} className="border rounded-lg p-3">
+                      <div className="flex justify-between items-start gap-3">
+                        <div>
+                          <div className="font-medium text-gray-900">
+                            Version {amendment.version}
+                            <span className="text-gray-500 font-normal"> ({stageLabel(amendment.result_status)})</span>
+                          </div>
+                          <div className="text-sm text-gray-600">by {amendment.amended_by_name ?? 'Unknown admin'}</div>
+                        </div>
+                        <div className="text-xs text-gray-500 whitespace-nowrap">
+                          {new Date(amendment.created_at).toLocaleString()}
+                        </div>
+                      </div>
+                      <div className="mt-2 text-sm text-gray-700 space-y-1">
+                        <div>
+                          <span className="text-gray-500">Before: </span>
+                          {scoreLine(amendment.before_ca_score, amendment.before_exam_score, amendment.before_total_score, amendment.before_grade)}
+                        </div>
+                        <div>
+                          <span className="text-gray-500">After: </span>
+                          {scoreLine(amendment.after_ca_score, amendment.after_exam_score, amendment.after_total_score, amendment.after_grade)}
+                        </div>
+                      </div>
+                      <p className="mt-2 text-sm text-gray-700 bg-gray-50 rounded p-2">{amendment.reason}</p>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </section>
+
+            <section className="space-y-3">
+              <h3 className="text-sm font-semibold text-gray-900">Approval Stages</h3>
+              {history.length === 0 ? (
+                <p className="text-sm text-gray-600">This result has not moved past draft yet.</p>
+              ) : (
+                <ol className="space-y-3">
+                  {history.map(entry => (
+                    <li key={entry.id} className="border rounded-lg p-3">
+                      <div className="flex justify-between items-start gap-3">
+                        <div>
+                          <div className="font-medium text-gray-900">
+                            {ACTION_LABELS[entry.action] ?? entry.action}
+                            <span className="text-gray-500 font-normal">
+                              {' '}({stageLabel(entry.from_status)} → {stageLabel(entry.to_status)})
+                            </span>
+                          </div>
+                          <div className="text-sm text-gray-600">by {entry.actor_name ?? 'Unknown admin'}</div>
+                        </div>
+                        <div className="text-xs text-gray-500 whitespace-nowrap">
+                          {new Date(entry.created_at).toLocaleString()}
+                        </div>
+                      </div>
+                      {entry.comment && (
+                        <p className="mt-2 text-sm text-gray-700 bg-gray-50 rounded p-2">{entry.comment}</p>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </section>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ResultHistoryDialog;
@@ -0,0 +1,313 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Download, FileUp, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAcademicCalendar } from '@/hooks/useAcademicCalendar';
+import { MAX_CA_SCORE, MAX_EXAM_SCORE } from '@/lib/grading';
+import { downloadCsv, findColumn, readSpreadsheet, SPREADSHEET_ACCEPT, SpreadsheetData } from '@/lib/spreadsheet';
+import {
+  RESULT_IMPORT_COLUMNS,
+  ResultImportMapping,
+  ResultImportService,
+  ResultImportValidation,
+} from '@/services/resultImportService';
+import { SEMESTER_NAMES } from '@/services/academicCalendarService';
+
+type ImportStep = 'upload' | 'map' | 'preview';
+
+interface ResultImportDialogProps {
+  onImported: () => void;
+}
+
+const NOT_IN_SHEET = 'none';
+const COURSE_SEMESTER = 'course';
+const PREVIEW_LIMIT = 100;
+
+const MAPPING_FIELDS: { field: keyof ResultImportMapping; label: string; required: boolean }[] = [
+  { field: 'matricNumber', label: 'Matric Number', required: true },
+  { field: 'courseCode', label: 'Course Code', required: true },
+  { field: 'caScore', label: `CA Score (0–${MAX_CA_SCORE})`, required: true },
+  { field: 'examScore', label: `Exam Score (0–${MAX_EXAM_SCORE})`, required: true },
+  { field: 'academicYear', label: 'Academic Session', required: false },
+  { field: 'semester', label: 'Semester', required: false },
+];
+
+const guessMapping = (headers: string[]) =>
+  Object.fromEntries(
+    MAPPING_FIELDS.map(({ field }) => [field, findColumn(headers, RESULT_IMPORT_COLUMNS[field])])
+  ) as unknown as ResultImportMapping;
+
+const ResultImportDialog: React.FC<ResultImportDialogProps> = ({ onImported }) => {
+  const { toast } = useToast();
+  const { academicYears } = useAcademicCalendar();
+  const [open, setOpen] = useState(false);
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [busy, setBusy] = useState(false);
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<SpreadsheetData | null>(null);
+  const [mapping, setMapping] = useState<ResultImportMapping | null>(null);
+  const [academicYear, setAcademicYear] = useState('');
+  const [semester, setSemester] = useState(COURSE_SEMESTER);
+  const [validation, setValidation] = useState<ResultImportValidation | null>(null);
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setSheet(null);
+    setMapping(null);
+    setValidation(null);
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    if (busy) return;
+    setOpen(value);
+    if (!value) reset();
+  };
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : fallback,
+      variant: 'destructive'
+    });
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setBusy(true);
+    try {
+      const data = await readSpreadsheet(file);
+      setFileName(file.name);
+      setSheet(data);
+      setMapping(guessMapping(data.headers));
+      setStep('map');
+    } catch (error) {
+      showError(error, 'Failed to read the file');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const mappingComplete = !!mapping && MAPPING_FIELDS.every(({ field, required }) => !required || mapping[field] >= 0);
+  const sessionResolved = !!mapping && (mapping.academicYear >= 0 || !!academicYear);
+
+  const handleValidate = async () => {
+    if (!sheet || !mapping) return;
+    setBusy(true);
+    try {
+      const result = await ResultImportService.validateSheet(sheet, mapping, {
+        academicYear,
+        semester: semester === COURSE_SEMESTER ? '' : semester,
+      });
+      setValidation(result);
+      setStep('preview');
+    } catch (error) {
+      showError(error, 'Failed to validate the sheet');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDownloadErrors = () => {
+    if (!validation) return;
+    const report = ResultImportService.errorReport(validation.invalid);
+    downloadCsv(`${fileName.replace(/\.[^.]+$/, '')}-errors.csv`, report.headers, report.rows);
+  };
+
+  const handleImport = async () => {
+    if (!validation) return;
+    setBusy(true);
+    try {
+      const count = await ResultImportService.importRows(validation.valid);
+      toast({
+        title: 'Results Imported',
+        description: `${count} result${count !== 1 ? 's' : ''} added as drafts.` +
+          (validation.invalid.length > 0 ? ` ${validation.invalid.length} row(s) were skipped.` : '')
+      });
+      onImported();
+      setOpen(false);
+      reset();
+    } catch (error) {
+      showError(error, 'Failed to import results');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2">
+          <FileUp className="h-4 w-4" />
+          Import Results
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle>Import Results</DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'Upload a CSV or Excel score sheet with one student and course per row.'}
+            {step === 'map' && `Match the columns in ${fileName} to result fields.`}
+            {step === 'preview' && 'Review the rows before importing. Only valid rows are imported, as draft results.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="space-y-2">
+            <Label htmlFor="resultImportFile">Score sheet</Label>
+            <Input
+              id="resultImportFile"
+              type="file"
+              accept={SPREADSHEET_ACCEPT}
+              disabled={busy}
+              onChange={e => handleFile(e.target.files?.[0])}
+            />
+            <p className="text-sm text-gray-500">
+              Expected columns: matric number, course code, CA score and exam score. Session and semester columns are optional.
+            </p>
+          </div>
+        )}
+
+        {step === 'map' && sheet && mapping && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {MAPPING_FIELDS.map(({ field, label, required }) => (
+                <div key={field} className="space-y-2">
+                  <Label>{label}{required && ' *'}</Label>
+                  <Select
+                    value={mapping[field] >= 0 ? String(mapping[field]) : NOT_IN_SHEET}
+                    onValueChange={value => setMapping({ ...mapping, [field]: value === NOT_IN_SHEET ? -1 : Number(value) })}
+                  >
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_IN_SHEET}>Not in sheet</SelectItem>
+                      {sheet.headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>{header}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            {(mapping.academicYear < 0 || mapping.semester < 0) && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 border-t pt-4">
+                {mapping.academicYear < 0 && (
+                  <div className="space-y-2">
+                    <Label>Academic session for all rows *</Label>
+                    <Select value={academicYear} onValueChange={setAcademicYear}>
+                      <SelectTrigger><SelectValue placeholder="Pick year" /></SelectTrigger>
+                      <SelectContent>
+                        {academicYears.map(y => <SelectItem key={y} value={y}>{y}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                {mapping.semester < 0 && (
+                  <div className="space-y-2">
+                    <Label>Semester for all rows</Label>
+                    <Select value={semester} onValueChange={setSemester}>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={COURSE_SEMESTER}>Each course's own semester</SelectItem>
+                        {SEMESTER_NAMES.map(s => <SelectItem key={s} value={s}>{s}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+            )}
+
+            <p className="text-sm text-gray-500">{sheet.rows.length} data row{sheet.rows.length !== 1 && 's'} found.</p>
+          </div>
+        )}
+
+        {step === 'preview' && validation && (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Badge className="bg-green-100 text-green-800">{validation.valid.length} valid</Badge>
+              <Badge className={validation.invalid.length > 0 ? 'bg-red-100 text-red-800' : 'bg-gray-100 text-gray-800'}>
+                {validation.invalid.length} with errors
+              </Badge>
+            </div>
+
+            {validation.invalid.length > 0 ? (
+              <div className="border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Row</TableHead>
+                      <TableHead>Matric No.</TableHead>
+                      <TableHead>Course</TableHead>
+                      <TableHead>Errors</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {validation.invalid.slice(0, PREVIEW_LIMIT).map(row => (
+                      <TableRow key={row.rowNumber}>
+                        <TableCell>{row.rowNumber}</TableCell>
+                        <TableCell>{row.matricNumber || '—'}</TableCell>
+                        <TableCell>{row.courseCode || '—'}</TableCell>
+                        <TableCell className="text-red-700">{row.errors.join('; ')}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                {validation.invalid.length > PREVIEW_LIMIT && (
+                  <p className="p-3 text-sm text-gray-500">
+                    Showing the first {PREVIEW_LIMIT} errors. Download the error report for the full list.
+                  </p>
+                )}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-600">Every row passed validation.</p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === 'map' && (
+            <>
+              <Button variant="outline" onClick={reset} disabled={busy}>Back</Button>
+              <Button onClick={handleValidate} disabled={busy || !mappingComplete || !sessionResolved}>
+                {busy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Validate
+              </Button>
+            </>
+          )}
+          {step === 'preview' && validation && (
+            <>
+              <Button variant="outline" onClick={() => setStep('map')} disabled={busy}>Back</Button>
+              {validation.invalid.length > 0 && (
+                <Button variant="outline" onClick={handleDownloadErrors} disabled={busy}>
+                  <Download className="mr-2 h-4 w-4" />
+                  Error Report
+                </Button>
+              )}
+              <Button onClick={handleImport} disabled={busy || validation.valid.length === 0}>
+                {busy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Import {validation.valid.length} Result{validation.valid.length !== 1 && 's'}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ResultImportDialog;
@@ -1,7 +1,38 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { GraduationCap, BookOpen, Clock, CheckCircle, AlertCircle, User, TrendingUp } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { GraduationCap, BookOpen, Clock, CheckCircle, AlertCircle, User, TrendingUp, Loader2, MessageSquareWarning } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { getGradeBadgeClass } from '@/lib/grading';
+import { summarizeResults } from '@/lib/gpa';
+import {
+  availableActions,
+  getStageBadgeClass,
+  RESULT_ACTIONS,
+  RESULT_STAGE_LABELS,
+  RESULT_STAGES,
+  ResultAction,
+  ResultStage,
+} from '@/lib/resultWorkflow';
+import { GradingScaleService } from '@/services/gradingScaleService';
+import { ResultWorkflowService } from '@/services/resultWorkflowService';
+import ResultHistoryDialog from '@/components/admin/ResultHistoryDialog';
+import AmendResultDialog from '@/components/admin/AmendResultDialog';
+import { PERMISSIONS } from '@/lib/permissions';
+import { SEMESTER_NAMES } from '@/services/academicCalendarService';
 
 interface Course {
   id: string;
@@ -24,10 +55,13 @@ interface Result {
   semester: string;
   status: string;
   published_at: string | null;
+  rejection_comment?: string | null;
   student: {
     first_name: string;
     last_name: string;
     student_id: string;
+    department: string;
+    level: string;
   };
   course: Course;
 }
@@ -37,6 +71,8 @@ interface StudentResults {
     first_name: string;
     last_name: string;
     student_id: string;
+    department: string;
+    level: string;
   };
   results: Result[];
   totalCourses: number;
@@ -45,24 +81,114 @@ interface StudentResults {
   averageScore: number;
   totalCreditUnits: number;
   gpa: number;
+  classOfDegree: string | null;
+  carryOverCount: number;
 }
 
-const GRADE_COLORS = {
-  'A': 'bg-emerald-100 text-emerald-800 border-emerald-200',
-  'B': 'bg-blue-100 text-blue-800 border-blue-200',
-  'C': 'bg-amber-100 text-amber-800 border-amber-200',
-  'D': 'bg-orange-100 text-orange-800 border-orange-200',
-  'E': 'bg-red-100 text-red-800 border-red-200',
-  'F': 'bg-red-200 text-red-900 border-red-300'
-};
+interface ResultsListProps {
+  results: Result[];
+  // Sessions from the academic calendar, latest first
+  academicYears?: string[];
+  onResultsChanged?: () => void;
+}
 
-const ResultsList: React.FC<{ results: Result[] }> = ({ results }) => {
-  const groupedResults = React.useMemo(() => {
-    if (!results || !Array.isArray(results)) {
-      return [];
+const ALL_STAGES = 'all';
+const ALL_TERMS = 'all';
+
+const stageLabel = (stage: string) => RESULT_STAGE_LABELS[stage as ResultStage] ?? stage;
+
+const cohortKey = (student: { department: string; level: string }) => `${student.department}|${student.level}`;
+
+const ResultsList: React.FC<ResultsListProps> = ({ results, academicYears = [], onResultsChanged }) => {
+  const { can } = useAuth();
+  const { toast } = useToast();
+  const [stageFilter, setStageFilter] = useState<string>(ALL_STAGES);
+  const [sessionFilter, setSessionFilter] = useState<string>(ALL_TERMS);
+  const [semesterFilter, setSemesterFilter] = useState<string>(ALL_TERMS);
+  const [workingIds, setWorkingIds] = useState<string[]>([]);
+  const [rejectIds, setRejectIds] = useState<string[]>([]);
+  const [rejectComment, setRejectComment] = useState('');
+  const [maxGradePoints, setMaxGradePoints] = useState<Record<string, number>>({});
+
+  // Classes of degree are named on each cohort's own grading scale
+  React.useEffect(() => {
+    const cohorts = new Map((results || []).map(r => [cohortKey(r.student), r.student]));
+    let cancelled = false;
+
+    Promise.all(
+      Array.from(cohorts, async ([key, { department, level }]) => {
+        const scale = await GradingScaleService.getScaleFor(department, level, null).catch(() => null);
+        return [key, scale?.max_grade_point] as const;
+      })
+    ).then(entries => {
+      if (!cancelled) setMaxGradePoints(Object.fromEntries(entries.filter(([, max]) => max !== undefined)));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [results]);
+
+  const inTerm = React.useCallback(
+    (r: Result) =>
+      (sessionFilter === ALL_TERMS || r.academic_year === sessionFilter) &&
+      (semesterFilter === ALL_TERMS || r.semester === semesterFilter),
+    [sessionFilter, semesterFilter]
+  );
+
+  const termResults = React.useMemo(() => (results || []).filter(inTerm), [results, inTerm]);
+
+  const visibleResults = React.useMemo(
+    () => termResults.filter(r => stageFilter === ALL_STAGES || r.status === stageFilter),
+    [termResults, stageFilter]
+  );
+
+  const stageCounts = React.useMemo(() => {
+    const counts = Object.fromEntries(RESULT_STAGES.map(stage => [stage, 0])) as Record<ResultStage, number>;
+    termResults.forEach(r => {
+      if (r.status in counts) counts[r.status as ResultStage]++;
+    });
+    return counts;
+  }, [termResults]);
+
+  // Publishing goes through the scoped publish dialog, so it is not offered in bulk here
+  const bulkActions = stageFilter === ALL_STAGES
+    ? []
+    : availableActions(stageFilter, can).filter(action => action !== 'reject' && action !== 'publish');
+
+  const runAction = async (resultIds: string[], action: ResultAction, comment?: string) => {
+    setWorkingIds(resultIds);
+    try {
+      const count = await ResultWorkflowService.transition(resultIds, action, comment);
+      toast({
+        title: action === 'reject' ? 'Results Rejected' : 'Results Updated',
+        description: action === 'reject'
+          ? `${count} result${count !== 1 ? 's' : ''} sent back to draft.`
+          : `${count} result${count !== 1 ? 's' : ''} moved to ${stageLabel(RESULT_ACTIONS[action].to).toLowerCase()}.`
+      });
+      onResultsChanged?.();
+      return true;
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update results',
+        variant: 'destructive'
+      });
+      return false;
+    } finally {
+      setWorkingIds([]);
+    }
+  };
+
+  const handleReject = async () => {
+    if (await runAction(rejectIds, 'reject', rejectComment)) {
+      setRejectIds([]);
+      setRejectComment('');
     }
-    
-    const grouped = results.reduce((acc, result) => {
+  };
+
+  const groupedResults = React.useMemo(() => {
+    const grouped = (results || []).reduce((acc, result) => {
       const key = result.student.student_id;
       
       if (!acc[key]) {
@@ -74,7 +200,9 @@ const ResultsList: React.FC<{ results: Result[] }> = ({ results }) => {
           pendingCount: 0,
           averageScore: 0,
           totalCreditUnits: 0,
-          gpa: 0
+          gpa: 0,
+          classOfDegree: null,
+          carryOverCount: 0
         };
       }
       
@@ -85,7 +213,7 @@ const ResultsList: React.FC<{ results: Result[] }> = ({ results }) => {
     // Calculate statistics
     Object.values(grouped).forEach(data => {
       data.totalCourses = data.results.length;
-      data.publishedCount = data.results.filter(r => r.published_at).length;
+      data.publishedCount = data.results.filter(r => r.status === 'published').length;
       data.pendingCount = data.totalCourses - data.publishedCount;
       
       const validScores = data.results
@@ -98,22 +226,17 @@ const ResultsList: React.FC<{ results: Result[] }> = ({ results }) => {
       
       data.totalCreditUnits = data.results.reduce((sum, r) => sum + r.course.credit_units, 0);
       
-      const validGrades = data.results.filter(r => r.grade_point !== null);
-      if (validGrades.length > 0) {
-        const totalWeighted = validGrades.reduce((sum, r) => sum + (r.grade_point! * r.course.credit_units), 0);
-        const totalCredits = validGrades.reduce((sum, r) => sum + r.course.credit_units, 0);
-        data.gpa = totalCredits > 0 ? totalWeighted / totalCredits : 0;
-      }
-    });
+      const summary = summarizeResults(data.results, { maxGradePoint: maxGradePoints[cohortKey(data.student)] });
+      data.gpa = summary.cgpa;
+      data.classOfDegree = summary.classOfDegree;
+      data.carryOverCount = summary.carryOvers.length;
 
-    return Object.values(grouped);
-  }, [results]);
-
-  const getGradeColor = (grade: string | null) => 
-    grade ? GRADE_COLORS[grade as keyof typeof GRADE_COLORS] || 'bg-gray-100 text-gray-800' : 'bg-gray-100 text-gray-800';
+      // Statistics cover every result; the course list only shows the selected stage and term
+      data.results = data.results.filter(r => inTerm(r) && (stageFilter === ALL_STAGES || r.status === stageFilter));
+    });
 
-  const getStatusColor = (published: boolean) => 
-    published ? 'bg-green-50 text-green-700 border-green-200' : 'bg-yellow-50 text-yellow-700 border-yellow-200';
+    return Object.values(grouped).filter(data => data.results.length > 0);
+  }, [results, stageFilter, inTerm, maxGradePoints]);
 
   const formatScore = (score: number | null) => score?.toFixed(1) || 'N/A';
 
@@ -133,8 +256,6 @@ const ResultsList: React.FC<{ results: Result[] }> = ({ results }) => {
     );
   }
 
-  const totalPublished = results?.filter(r => r.published_at).length || 0;
-  const totalPending = (results?.length || 0) - totalPublished;
 
   return (
     <div className="space-y-8 max-w-6xl mx-auto">
@@ -153,12 +274,14 @@ const ResultsList: React.FC<{ results: Result[] }> = ({ results }) => {
             </div>
           </div>
           
-          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-6">
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-4 mt-6">
             {[
               { icon: User, label: 'Students', value: groupedResults.length, color: 'blue' },
-              { icon: BookOpen, label: 'Total Results', value: results?.length || 0, color: 'green' },
-              { icon: CheckCircle, label: 'Published', value: totalPublished, color: 'emerald' },
-              { icon: Clock, label: 'Pending', value: totalPending, color: 'amber' }
+              { icon: BookOpen, label: 'Total Results', value: termResults.length, color: 'green' },
+              { icon: Clock, label: 'Draft', value: stageCounts.draft, color: 'amber' },
+              { icon: AlertCircle, label: 'Reviewed', value: stageCounts.reviewed, color: 'purple' },
+              { icon: CheckCircle, label: 'Approved', value: stageCounts.approved, color: 'blue' },
+              { icon: CheckCircle, label: 'Published', value: stageCounts.published, color: 'emerald' }
             ].map(({ icon: Icon, label, value, color }) => (
               <div key={label} className="bg-white/70 backdrop-blur-sm rounded-lg p-4 border border-white/50">
                 <div className="flex items-center gap-2 mb-1">
@@ -169,8 +292,52 @@ const ResultsList: React.FC<{ results: Result[] }> = ({ results }) => {
               </div>
             ))}
           </div>
+
+          <div className="flex flex-col md:flex-row md:items-center gap-3 mt-6">
+            <Select value={stageFilter} onValueChange={setStageFilter}>
+              <SelectTrigger className="md:w-56 bg-white"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_STAGES}>All stages</SelectItem>
+                {RESULT_STAGES.map(stage => (
+                  <SelectItem key={stage} value={stage}>
+                    {RESULT_STAGE_LABELS[stage]} ({stageCounts[stage]})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={sessionFilter} onValueChange={setSessionFilter}>
+              <SelectTrigger className="md:w-44 bg-white"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_TERMS}>All sessions</SelectItem>
+                {academicYears.map(year => <SelectItem key={year} value={year}>{year}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <Select value={semesterFilter} onValueChange={setSemesterFilter}>
+              <SelectTrigger className="md:w-44 bg-white"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_TERMS}>All semesters</SelectItem>
+                {SEMESTER_NAMES.map(s => <SelectItem key={s} value={s}>{s}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            {bulkActions.map(action => (
+              <Button
+                key={action}
+                onClick={() => runAction(visibleResults.map(r => r.id), action)}
+                disabled={workingIds.length > 0 || visibleResults.length === 0}
+              >
+                {workingIds.length > 1 && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {RESULT_ACTIONS[action].label} All ({visibleResults.length})
+              </Button>
+            ))}
+          </div>
         </CardHeader>
       </Card>
+
+      {groupedResults.length === 0 && (
+        <p className="text-center text-gray-600">
+          {stageFilter === ALL_STAGES ? 'No results match these filters.' : `No ${stageLabel(stageFilter).toLowerCase()} results.`}
+        </p>
+      )}
       
       {/* Student Results */}
       <div className="space-y-6">
@@ -205,7 +372,18 @@ const ResultsList: React.FC<{ results: Result[] }> = ({ results }) => {
                       <div className="text-2xl font-bold text-emerald-600">
                         {studentData.gpa.toFixed(2)}
                       </div>
-                      <div className="text-sm text-gray-600">GPA</div>
+                      <div className="text-sm text-gray-600">CGPA</div>
+                      {studentData.classOfDegree && (
+                        <div className="text-xs text-gray-500">{studentData.classOfDegree}</div>
+                      )}
+                    </div>
+                  )}
+                  {studentData.carryOverCount > 0 && (
+                    <div className="text-center">
+                      <div className="text-2xl font-bold text-red-600">
+                        {studentData.carryOverCount}
+                      </div>
+                      <div className="text-sm text-gray-600">Carry-overs</div>
                     </div>
                   )}
                 </div>
@@ -218,7 +396,7 @@ const ResultsList: React.FC<{ results: Result[] }> = ({ results }) => {
                 {[
                   { icon: BookOpen, label: 'Total Courses', value: studentData.totalCourses, color: 'gray' },
                   { icon: CheckCircle, label: 'Published', value: studentData.publishedCount, color: 'green' },
-                  { icon: AlertCircle, label: 'Pending', value: studentData.pendingCount, color: 'amber' }
+                  { icon: AlertCircle, label: 'Awaiting Publication', value: studentData.pendingCount, color: 'amber' }
                 ].map(({ icon: Icon, label, value, color }) => (
                   <div key={label} className="text-center">
                     <div className="flex items-center justify-center gap-2 mb-1">
@@ -289,28 +467,65 @@ const ResultsList: React.FC<{ results: Result[] }> = ({ results }) => {
                               </div>
                               <div className="text-xs text-gray-600">Total</div>
                             </div>
-                            <Badge className={`${getGradeColor(result.grade)} border font-semibold px-3 py-1`}>
+                            <Badge className={`${getGradeBadgeClass(result.grade)} border font-semibold px-3 py-1`}>
                               {result.grade || 'N/A'}
                             </Badge>
                           </div>
                         </div>
                       </div>
                       
-                      {/* Status */}
-                      <div className="flex justify-between items-center mt-4 pt-3 border-t">
-                        <Badge variant="outline" className={`${getStatusColor(!!result.published_at)} border`}>
-                          {result.published_at ? (
-                            <><CheckCircle className="w-3 h-3 mr-1" />Published</>
-                          ) : (
-                            <><Clock className="w-3 h-3 mr-1" />Pending</>
+                      {result.rejection_comment && (
+                        <div className="flex items-start gap-2 mt-4 text-sm text-red-700 bg-red-50 rounded-lg p-3">
+                          <MessageSquareWarning className="w-4 h-4 mt-0.5 shrink-0" />
+                          <span>Returned to draft: {result.rejection_comment}</span>
+                        </div>
+                      )}
+
+                      {/* Stage */}
+                      <div className="flex flex-wrap justify-between items-center gap-2 mt-4 pt-3 border-t">
+                        <div className="flex items-center gap-2">
+                          <Badge variant="outline" className={`${getStageBadgeClass(result.status)} border`}>
+                            {result.status === 'published'
+                              ? <CheckCircle className="w-3 h-3 mr-1" />
+                              : <Clock className="w-3 h-3 mr-1" />}
+                            {stageLabel(result.status)}
+                          </Badge>
+                          <ResultHistoryDialog
+                            resultId={result.id}
+                            title={`${result.course.course_code} · ${studentData.student.first_name} ${studentData.student.last_name}`}
+                          />
+                          {can(PERMISSIONS.AMEND_RESULTS) && (
+                            <AmendResultDialog
+                              result={result}
+                              title={`${result.course.course_code} · ${studentData.student.first_name} ${studentData.student.last_name}`}
+                              onAmended={onResultsChanged}
+                            />
                           )}
-                        </Badge>
-                        
-                        {result.grade_point !== null && (
-                          <div className="text-sm text-gray-600">
-                            Grade Point: <span className="font-semibold">{result.grade_point.toFixed(1)}</span>
-                          </div>
-                        )}
+                        </div>
+
+                        <div className="flex items-center gap-2">
+                          {result.grade_point !== null && (
+                            <div className="text-sm text-gray-600 mr-2">
+                              Grade Point: <span className="font-semibold">{result.grade_point.toFixed(1)}</span>
+                            </div>
+                          )}
+                          {availableActions(result.status, can).map(action => (
+                            <Button
+                              key={action}
+                              size="sm"
+                              variant={action === 'reject' ? 'outline' : 'default'}
+                              disabled={workingIds.length > 0}
+                              onClick={() => action === 'reject'
+                                ? setRejectIds([result.id])
+                                : runAction([result.id], action)}
+                            >
+                              {workingIds.includes(result.id) && action !== 'reject' && (
+                                <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                              )}
+                              {RESULT_ACTIONS[action].label}
+                            </Button>
+                          ))}
+                        </div>
                       </div>
                     </div>
                   ))}
@@ -319,6 +534,48 @@ const ResultsList: React.FC<{ results: Result[] }> = ({ results }) => {
           </Card>
         ))}
       </div>
+
+      <Dialog
+        open={rejectIds.length > 0}
+        onOpenChange={open => {
+          if (!open && workingIds.length === 0) {
+            setRejectIds([]);
+            setRejectComment('');
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject Result</DialogTitle>
+            <DialogDescription>
+              The result goes back to draft so the scores can be corrected. Your comment is shown to whoever entered them.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="rejectComment">Reason *</Label>
+            <Textarea
+              id="rejectComment"
+              value={rejectComment}
+              onChange={e => setRejectComment(e.target.value)}
+              placeholder="e.g. Exam score does not match the mark sheet"
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejectIds([])} disabled={workingIds.length > 0}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleReject}
+              disabled={workingIds.length > 0 || !rejectComment.trim()}
+            >
+              {workingIds.length > 0 && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Reject
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
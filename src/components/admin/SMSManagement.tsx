@@ -6,7 +6,6 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Progress } from '@/components/ui/progress';
 import {
   Dialog,
   DialogContent,
@@ -42,9 +41,12 @@ import {
   Users,
   BarChart3,
   Filter,
-  Search
+  Search,
+  History
 } from 'lucide-react';
-import { SMSService } from '@/services/smsService';
+import { SMSService, SMSStatusEvent } from '@/services/smsService';
+import { NotificationService } from '@/services/notificationService';
+import SMSMessageAnalysis, { SMSBudgetConfirmDialog } from './SMSMessageAnalysis';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 
@@ -65,11 +67,14 @@ interface SMSRecord {
   student_id: string;
   phone_number: string;
   message: string;
-  status: 'pending' | 'sent' | 'failed' | 'retry';
+  status: 'pending' | 'sending' | 'sent' | 'failed' | 'retry';
   attempts: number;
   last_attempt: string;
   error_message?: string;
   sid?: string;
+  provider?: string;
+  delivery_status?: string | null;
+  delivered_at?: string | null;
   created_at: string;
   students?: {
     first_name: string;
@@ -78,18 +83,11 @@ interface SMSRecord {
   };
 }
 
-interface SMSProgress {
-  current: number;
-  total: number;
-  student: string;
-}
-
 const SMSManagement: React.FC = () => {
   const [students, setStudents] = useState<Student[]>([]);
   const [smsRecords, setSmsRecords] = useState<SMSRecord[]>([]);
   const [selectedStudents, setSelectedStudents] = useState<string[]>([]);
   const [loading, setLoading] = useState(false);
-  const [progress, setProgress] = useState<SMSProgress | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [testSMSOpen, setTestSMSOpen] = useState(false);
@@ -98,14 +96,38 @@ const SMSManagement: React.FC = () => {
   const [testPhone, setTestPhone] = useState('');
   const [testMessage, setTestMessage] = useState('This is a test SMS from EduNotify system.');
   const [statistics, setStatistics] = useState<any>(null);
+  const [timelineRecord, setTimelineRecord] = useState<SMSRecord | null>(null);
+  const [timeline, setTimeline] = useState<SMSStatusEvent[]>([]);
+  const [timelineLoading, setTimelineLoading] = useState(false);
+  const [confirmOverBudget, setConfirmOverBudget] = useState(false);
+  const [maxAttempts, setMaxAttempts] = useState<number | null>(null);
 
   const { toast } = useToast();
 
-  // Load data on component mount
+  const bulkEstimate = SMSService.estimateSMS(smsMessage, selectedStudents.length);
+
+  // Load data on component mount, then follow the queue as the SMS worker sends messages
   useEffect(() => {
     loadStudents();
     loadSMSRecords();
     loadStatistics();
+    SMSService.getMaxAttempts().then(setMaxAttempts).catch(() => setMaxAttempts(null));
+
+    const subscription = supabase
+      .channel('sms_management_records')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'sms_records' },
+        () => {
+          loadSMSRecords();
+          loadStatistics();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(subscription);
+    };
   }, []);
 
   const loadStudents = async () => {
@@ -168,7 +190,7 @@ const SMSManagement: React.FC = () => {
 
     setLoading(true);
     try {
-      const result = await SMSService.sendSMS(
+      const result = await NotificationService.testSMS(
         SMSService.formatPhoneNumber(testPhone) || testPhone,
         testMessage
       );
@@ -199,7 +221,7 @@ const SMSManagement: React.FC = () => {
     }
   };
 
-  const handleBulkSMS = async () => {
+  const handleBulkSMS = async (overBudgetConfirmed = false) => {
     if (selectedStudents.length === 0) {
       toast({
         title: "No Students Selected",
@@ -218,21 +240,23 @@ const SMSManagement: React.FC = () => {
       return;
     }
 
+    if (bulkEstimate.overBudget && !overBudgetConfirmed) {
+      setConfirmOverBudget(true);
+      return;
+    }
+
     setLoading(true);
-    setProgress({ current: 0, total: selectedStudents.length, student: '' });
 
     try {
       const targetStudents = students.filter(s => selectedStudents.includes(s.id));
       
-      const result = await SMSService.sendBulkSMS(
-        targetStudents,
-        smsMessage,
-        (progressData) => setProgress(progressData)
-      );
+      const result = await SMSService.queueBulkSMS(targetStudents, smsMessage);
 
       toast({
-        title: "Bulk SMS Complete",
-        description: `Sent ${result.sent} SMS, ${result.failed} failed out of ${result.total} total`,
+        title: "Bulk SMS Queued",
+        description: result.failed > 0
+          ? `Queued ${result.queued} SMS; ${result.failed} skipped for invalid phone numbers`
+          : `Queued ${result.queued} SMS. They will be sent in the background.`,
         variant: result.failed > 0 ? "destructive" : "default"
       });
 
@@ -244,12 +268,11 @@ const SMSManagement: React.FC = () => {
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to send bulk SMS",
+        description: "Failed to queue bulk SMS",
         variant: "destructive"
       });
     } finally {
       setLoading(false);
-      setProgress(null);
     }
   };
 
@@ -260,8 +283,8 @@ const SMSManagement: React.FC = () => {
       
       if (result.success) {
         toast({
-          title: "SMS Retry Successful",
-          description: "SMS has been resent successfully",
+          title: "SMS Queued for Retry",
+          description: "The SMS will be resent shortly",
         });
         loadSMSRecords();
         loadStatistics();
@@ -286,9 +309,9 @@ const SMSManagement: React.FC = () => {
   const handleRetryAllFailed = async () => {
     setLoading(true);
     try {
-      const failedRecords = await SMSService.getFailedSMSRecords();
+      const result = await SMSService.retryFailedSMS();
       
-      if (failedRecords.length === 0) {
+      if (result.total === 0) {
         toast({
           title: "No Failed SMS",
           description: "No failed SMS records found to retry",
@@ -296,25 +319,10 @@ const SMSManagement: React.FC = () => {
         return;
       }
 
-      let successful = 0;
-      let failed = 0;
-
-      for (const record of failedRecords) {
-        const result = await SMSService.retrySMS(record.id);
-        if (result.success) {
-          successful++;
-        } else {
-          failed++;
-        }
-        
-        // Rate limiting
-        await new Promise(resolve => setTimeout(resolve, 1000));
-      }
-
       toast({
         title: "Retry Complete",
-        description: `Retried ${failedRecords.length} SMS: ${successful} successful, ${failed} failed`,
-        variant: failed > 0 ? "destructive" : "default"
+        description: `Queued ${result.successful} of ${result.total} failed SMS for retry${result.failed > 0 ? `, ${result.failed} could not be retried` : ''}`,
+        variant: result.failed > 0 ? "destructive" : "default"
       });
 
       loadSMSRecords();
@@ -330,6 +338,47 @@ const SMSManagement: React.FC = () => {
     }
   };
 
+  const openTimeline = async (record: SMSRecord) => {
+    setTimelineRecord(record);
+    setTimeline([]);
+    setTimelineLoading(true);
+    try {
+      setTimeline(await SMSService.getStatusTimeline(record.id));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to load the delivery timeline",
+        variant: "destructive"
+      });
+    } finally {
+      setTimelineLoading(false);
+    }
+  };
+
+  const getDeliveryColor = (status: string | null | undefined) => {
+    switch (status) {
+      case 'delivered':
+        return 'bg-green-100 text-green-800';
+      case 'sent':
+        return 'bg-blue-100 text-blue-800';
+      case 'undelivered':
+        return 'bg-orange-100 text-orange-800';
+      case 'failed':
+        return 'bg-red-100 text-red-800';
+      default:
+        return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  const formatDateTime = (value: string) =>
+    new Date(value).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'sent':
@@ -338,6 +387,8 @@ const SMSManagement: React.FC = () => {
         return <AlertCircle className="h-4 w-4 text-red-500" />;
       case 'pending':
         return <Clock className="h-4 w-4 text-yellow-500" />;
+      case 'sending':
+        return <Send className="h-4 w-4 text-purple-500" />;
       case 'retry':
         return <RefreshCw className="h-4 w-4 text-blue-500" />;
       default:
@@ -353,6 +404,8 @@ const SMSManagement: React.FC = () => {
         return 'bg-red-100 text-red-800';
       case 'pending':
         return 'bg-yellow-100 text-yellow-800';
+      case 'sending':
+        return 'bg-purple-100 text-purple-800';
       case 'retry':
         return 'bg-blue-100 text-blue-800';
       default:
@@ -450,9 +503,7 @@ const SMSManagement: React.FC = () => {
                     placeholder="Enter your message here..."
                     rows={4}
                   />
-                  <p className="text-sm text-gray-500 mt-1">
-                    {smsMessage.length}/160 characters
-                  </p>
+                  <SMSMessageAnalysis estimate={bulkEstimate} />
                 </div>
                 
                 <div>
@@ -497,30 +548,28 @@ const SMSManagement: React.FC = () => {
                   </div>
                 </div>
 
-                {progress && (
-                  <div className="space-y-2">
-                    <div className="flex justify-between text-sm">
-                      <span>Sending SMS...</span>
-                      <span>{progress.current}/{progress.total}</span>
-                    </div>
-                    <Progress value={(progress.current / progress.total) * 100} />
-                    <p className="text-sm text-gray-600">
-                      Current: {progress.student}
-                    </p>
-                  </div>
-                )}
+                <p className="text-sm text-gray-500">
+                  Messages are queued and sent in the background, so you can close this page once they are queued.
+                </p>
               </div>
               <DialogFooter>
                 <Button variant="outline" onClick={() => setBulkSMSOpen(false)} disabled={loading}>
                   Cancel
                 </Button>
-                <Button onClick={handleBulkSMS} disabled={loading || selectedStudents.length === 0}>
-                  {loading ? 'Sending...' : `Send to ${selectedStudents.length} Students`}
+                <Button onClick={() => handleBulkSMS()} disabled={loading || selectedStudents.length === 0}>
+                  {loading ? 'Queueing...' : `Send to ${selectedStudents.length} Students`}
                 </Button>
               </DialogFooter>
             </DialogContent>
           </Dialog>
 
+          <SMSBudgetConfirmDialog
+            estimate={bulkEstimate}
+            open={confirmOverBudget}
+            onOpenChange={setConfirmOverBudget}
+            onConfirm={() => handleBulkSMS(true)}
+          />
+
           <Button
             variant="outline"
             onClick={handleRetryAllFailed}
@@ -535,7 +584,7 @@ const SMSManagement: React.FC = () => {
 
       {/* Statistics Cards */}
       {statistics && (
-        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-6 gap-4">
           <Card>
             <CardContent className="p-4">
               <div className="flex items-center gap-2">
@@ -555,6 +604,9 @@ const SMSManagement: React.FC = () => {
                 <div>
                   <p className="text-sm font-medium text-gray-600">Sent</p>
                   <p className="text-2xl font-bold">{statistics.sent}</p>
+                  <p className="text-xs text-gray-500">
+                    {statistics.delivered} delivered, {statistics.undelivered} not delivered
+                  </p>
                 </div>
               </div>
             </CardContent>
@@ -583,6 +635,18 @@ const SMSManagement: React.FC = () => {
               </div>
             </CardContent>
           </Card>
+
+          <Card>
+            <CardContent className="p-4">
+              <div className="flex items-center gap-2">
+                <Send className="h-5 w-5 text-purple-500" />
+                <div>
+                  <p className="text-sm font-medium text-gray-600">Sending</p>
+                  <p className="text-2xl font-bold">{statistics.sending}</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
           
           <Card>
             <CardContent className="p-4">
@@ -627,6 +691,7 @@ const SMSManagement: React.FC = () => {
                 <SelectItem value="sent">Sent</SelectItem>
                 <SelectItem value="failed">Failed</SelectItem>
                 <SelectItem value="pending">Pending</SelectItem>
+                <SelectItem value="sending">Sending</SelectItem>
                 <SelectItem value="retry">Retry</SelectItem>
               </SelectContent>
             </Select>
@@ -645,6 +710,7 @@ const SMSManagement: React.FC = () => {
                   <TableHead>Phone</TableHead>
                   <TableHead>Message</TableHead>
                   <TableHead>Status</TableHead>
+                  <TableHead>Delivery</TableHead>
                   <TableHead>Attempts</TableHead>
                   <TableHead>Last Attempt</TableHead>
                   <TableHead>Actions</TableHead>
@@ -682,18 +748,34 @@ const SMSManagement: React.FC = () => {
                         </p>
                       )}
                     </TableCell>
-                    <TableCell>{record.attempts}</TableCell>
                     <TableCell>
-                      {new Date(record.last_attempt).toLocaleDateString('en-US', {
-                        year: 'numeric',
-                        month: 'short',
-                        day: 'numeric',
-                        hour: '2-digit',
-                        minute: '2-digit'
-                      })}
+                      {record.delivery_status ? (
+                        <Badge className={getDeliveryColor(record.delivery_status)} variant="secondary">
+                          {record.delivery_status}
+                        </Badge>
+                      ) : (
+                        <span className="text-sm text-gray-400">No report</span>
+                      )}
+                      {record.delivered_at && (
+                        <p className="text-xs text-gray-500 mt-1">{formatDateTime(record.delivered_at)}</p>
+                      )}
                     </TableCell>
+                    <TableCell>{record.attempts}</TableCell>
                     <TableCell>
-                      {record.status === 'failed' && record.attempts < 3 && (
+                      {formatDateTime(record.last_attempt)}
+                    </TableCell>
+                    <TableCell className="space-x-2">
+                      {record.sid && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => openTimeline(record)}
+                        >
+                          <History className="h-3 w-3 mr-1" />
+                          Timeline
+                        </Button>
+                      )}
+                      {record.status === 'failed' && (maxAttempts === null || record.attempts < maxAttempts) && (
                         <Button
                           variant="outline"
                           size="sm"
@@ -725,6 +807,45 @@ const SMSManagement: React.FC = () => {
           )}
         </CardContent>
       </Card>
+
+      {/* Delivery Timeline */}
+      <Dialog open={!!timelineRecord} onOpenChange={(open) => !open && setTimelineRecord(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Delivery Timeline</DialogTitle>
+            <DialogDescription>
+              {timelineRecord?.students
+                ? `${timelineRecord.students.first_name} ${timelineRecord.students.last_name} (${timelineRecord.phone_number})`
+                : timelineRecord?.phone_number}
+              {timelineRecord?.provider && ` via ${timelineRecord.provider}`}
+            </DialogDescription>
+          </DialogHeader>
+          {timelineLoading ? (
+            <p className="text-sm text-gray-500">Loading delivery reports...</p>
+          ) : timeline.length === 0 ? (
+            <p className="text-sm text-gray-500">The provider has not reported on this message yet.</p>
+          ) : (
+            <ol className="space-y-3">
+              {timeline.map(event => (
+                <li key={event.id} className="flex items-start justify-between gap-4 border-l-2 pl-3">
+                  <div>
+                    <Badge className={getDeliveryColor(event.status)} variant="secondary">
+                      {event.status}
+                    </Badge>
+                    {event.provider_status && (
+                      <span className="text-xs text-gray-500 ml-2">{event.provider} status: {event.provider_status}</span>
+                    )}
+                    {event.error_code && (
+                      <p className="text-xs text-red-600 mt-1">Error code {event.error_code}</p>
+                    )}
+                  </div>
+                  <span className="text-xs text-gray-500 whitespace-nowrap">{formatDateTime(event.occurred_at)}</span>
+                </li>
+              ))}
+            </ol>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
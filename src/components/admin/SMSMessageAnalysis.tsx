@@ -0,0 +1,83 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { SmsEstimate } from '@/lib/smsAnalysis';
+
+const formatCost = (amount: number, currency: string) =>
+  new Intl.NumberFormat('en-NG', { style: 'currency', currency, maximumFractionDigits: 2 }).format(amount);
+
+interface SMSMessageAnalysisProps {
+  estimate: SmsEstimate;
+}
+
+// Length, encoding and estimated cost of the message being composed, with anything worth a second look
+const SMSMessageAnalysis: React.FC<SMSMessageAnalysisProps> = ({ estimate }) => {
+  const warnings = [
+    estimate.unicodeCharacters.length > 0 &&
+      `${estimate.unicodeCharacters.join(' ')} ${estimate.unicodeCharacters.length === 1 ? 'is' : 'are'} not in the GSM character set, so each segment holds ${estimate.perSegment} characters instead of ${estimate.segments > 1 ? 153 : 160}`,
+    estimate.tooLong &&
+      `${estimate.segments} segments is longer than networks reliably deliver; shorten the message`,
+    estimate.overBudget &&
+      `${formatCost(estimate.total, estimate.currency)} is over the budget for a single send`,
+    estimate.senderIdError,
+  ].filter(Boolean);
+
+  return (
+    <div className="text-sm mt-1 space-y-1">
+      <p className="text-gray-500">
+        {estimate.units} characters · {estimate.encoding} · {estimate.segments} {estimate.segments === 1 ? 'segment' : 'segments'}
+        {' '}({estimate.remaining} left in this segment)
+      </p>
+      {estimate.segments > 0 && (
+        <p className="text-gray-500">
+          Estimated cost: {formatCost(estimate.perRecipient, estimate.currency)} per student
+          {estimate.recipients > 0 && `, ${formatCost(estimate.total, estimate.currency)} for ${estimate.recipients} students`}
+        </p>
+      )}
+      {warnings.map(warning => (
+        <p key={warning as string} className="flex items-start gap-1 text-amber-700">
+          <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+          {warning}
+        </p>
+      ))}
+    </div>
+  );
+};
+
+interface SMSBudgetConfirmDialogProps {
+  estimate: SmsEstimate;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: () => void;
+}
+
+// Asks before queueing a send that costs more than the batch budget
+export const SMSBudgetConfirmDialog: React.FC<SMSBudgetConfirmDialogProps> = ({ estimate, open, onOpenChange, onConfirm }) => (
+  <AlertDialog open={open} onOpenChange={onOpenChange}>
+    <AlertDialogContent>
+      <AlertDialogHeader>
+        <AlertDialogTitle>Send over budget?</AlertDialogTitle>
+        <AlertDialogDescription>
+          This message is {estimate.segments} {estimate.segments === 1 ? 'segment' : 'segments'} ({estimate.encoding}) to{' '}
+          {estimate.recipients} students, an estimated {formatCost(estimate.total, estimate.currency)}. That is more than
+          the budget for a single send.
+        </AlertDialogDescription>
+      </AlertDialogHeader>
+      <AlertDialogFooter>
+        <AlertDialogCancel>Cancel</AlertDialogCancel>
+        <AlertDialogAction onClick={onConfirm}>Send Anyway</AlertDialogAction>
+      </AlertDialogFooter>
+    </AlertDialogContent>
+  </AlertDialog>
+);
+
+export default SMSMessageAnalysis;
@@ -0,0 +1,292 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Download, Loader2, Upload } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { downloadCsv, findColumn, readSpreadsheet, SPREADSHEET_ACCEPT, SpreadsheetData } from '@/lib/spreadsheet';
+import {
+  STUDENT_IMPORT_COLUMNS,
+  StudentImportMapping,
+  StudentImportService,
+  StudentImportValidation,
+} from '@/services/studentImportService';
+
+type ImportStep = 'upload' | 'map' | 'preview';
+
+interface StudentImportDialogProps {
+  onImported: () => void;
+}
+
+const NOT_IN_SHEET = 'none';
+const PREVIEW_LIMIT = 100;
+
+const MAPPING_FIELDS: { field: keyof StudentImportMapping; label: string; required: boolean }[] = [
+  { field: 'studentId', label: 'Matric Number', required: true },
+  { field: 'firstName', label: 'First Name', required: true },
+  { field: 'lastName', label: 'Last Name', required: true },
+  { field: 'email', label: 'Email', required: true },
+  { field: 'phone', label: 'Phone Number', required: true },
+  { field: 'department', label: 'Department', required: true },
+  { field: 'level', label: 'Level', required: true },
+  { field: 'status', label: 'Status', required: false },
+];
+
+const guessMapping = (headers: string[]) =>
+  Object.fromEntries(
+    MAPPING_FIELDS.map(({ field }) => [field, findColumn(headers, STUDENT_IMPORT_COLUMNS[field])])
+  ) as unknown as StudentImportMapping;
+
+const StudentImportDialog: React.FC<StudentImportDialogProps> = ({ onImported }) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [busy, setBusy] = useState(false);
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<SpreadsheetData | null>(null);
+  const [mapping, setMapping] = useState<StudentImportMapping | null>(null);
+  const [dryRun, setDryRun] = useState(true);
+  const [validation, setValidation] = useState<StudentImportValidation | null>(null);
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setSheet(null);
+    setMapping(null);
+    setDryRun(true);
+    setValidation(null);
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    if (busy) return;
+    setOpen(value);
+    if (!value) reset();
+  };
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : fallback,
+      variant: 'destructive'
+    });
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setBusy(true);
+    try {
+      const data = await readSpreadsheet(file);
+      setFileName(file.name);
+      setSheet(data);
+      setMapping(guessMapping(data.headers));
+      setStep('map');
+    } catch (error) {
+      showError(error, 'Failed to read the file');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const mappingComplete = !!mapping && MAPPING_FIELDS.every(({ field, required }) => !required || mapping[field] >= 0);
+
+  const handleValidate = async () => {
+    if (!sheet || !mapping) return;
+    setBusy(true);
+    try {
+      setValidation(await StudentImportService.validateSheet(sheet, mapping));
+      setStep('preview');
+    } catch (error) {
+      showError(error, 'Failed to validate the sheet');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDownloadErrors = () => {
+    if (!validation) return;
+    const report = StudentImportService.errorReport(validation.invalid);
+    downloadCsv(`${fileName.replace(/\.[^.]+$/, '')}-errors.csv`, report.headers, report.rows);
+  };
+
+  const handleImport = async () => {
+    if (!validation) return;
+    setBusy(true);
+    try {
+      const count = await StudentImportService.importRows(validation.valid);
+      toast({
+        title: 'Students Imported',
+        description: `${count} student${count !== 1 ? 's' : ''} added.` +
+          (validation.invalid.length > 0 ? ` ${validation.invalid.length} row(s) were skipped.` : '')
+      });
+      onImported();
+      setOpen(false);
+      reset();
+    } catch (error) {
+      showError(error, 'Failed to import students');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2">
+          <Upload className="h-4 w-4" />
+          Import Students
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle>Import Students</DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'Upload a CSV or Excel sheet with one student per row.'}
+            {step === 'map' && `Match the columns in ${fileName} to student fields.`}
+            {step === 'preview' && (dryRun
+              ? 'Dry run: the sheet was checked against existing students, but nothing has been saved.'
+              : 'Review the rows before importing. Only valid rows are imported.')}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="space-y-2">
+            <Label htmlFor="studentImportFile">Student sheet</Label>
+            <Input
+              id="studentImportFile"
+              type="file"
+              accept={SPREADSHEET_ACCEPT}
+              disabled={busy}
+              onChange={e => handleFile(e.target.files?.[0])}
+            />
+            <p className="text-sm text-gray-500">
+              Expected columns: matric number, first name, last name, email, phone, department and level.
+              A sheet exported from the student list can be imported as is.
+            </p>
+          </div>
+        )}
+
+        {step === 'map' && sheet && mapping && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {MAPPING_FIELDS.map(({ field, label, required }) => (
+                <div key={field} className="space-y-2">
+                  <Label>{label}{required && ' *'}</Label>
+                  <Select
+                    value={mapping[field] >= 0 ? String(mapping[field]) : NOT_IN_SHEET}
+                    onValueChange={value => setMapping({ ...mapping, [field]: value === NOT_IN_SHEET ? -1 : Number(value) })}
+                  >
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_IN_SHEET}>Not in sheet</SelectItem>
+                      {sheet.headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>{header}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-center gap-3 border-t pt-4">
+              <Switch id="studentImportDryRun" checked={dryRun} onCheckedChange={setDryRun} />
+              <Label htmlFor="studentImportDryRun">Dry run (check the sheet without saving anything)</Label>
+            </div>
+
+            <p className="text-sm text-gray-500">{sheet.rows.length} data row{sheet.rows.length !== 1 && 's'} found.</p>
+          </div>
+        )}
+
+        {step === 'preview' && validation && (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Badge className="bg-green-100 text-green-800">{validation.valid.length} valid</Badge>
+              <Badge className={validation.invalid.length > 0 ? 'bg-red-100 text-red-800' : 'bg-gray-100 text-gray-800'}>
+                {validation.invalid.length} with errors
+              </Badge>
+            </div>
+
+            {validation.invalid.length > 0 ? (
+              <div className="border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Row</TableHead>
+                      <TableHead>Matric No.</TableHead>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Errors</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {validation.invalid.slice(0, PREVIEW_LIMIT).map(({ rowNumber, student, errors }) => (
+                      <TableRow key={rowNumber}>
+                        <TableCell>{rowNumber}</TableCell>
+                        <TableCell>{student.student_id || '—'}</TableCell>
+                        <TableCell>{`${student.first_name} ${student.last_name}`.trim() || '—'}</TableCell>
+                        <TableCell className="text-red-700">{errors.join('; ')}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                {validation.invalid.length > PREVIEW_LIMIT && (
+                  <p className="p-3 text-sm text-gray-500">
+                    Showing the first {PREVIEW_LIMIT} errors. Download the error report for the full list.
+                  </p>
+                )}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-600">Every row passed validation.</p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === 'map' && (
+            <>
+              <Button variant="outline" onClick={reset} disabled={busy}>Back</Button>
+              <Button onClick={handleValidate} disabled={busy || !mappingComplete}>
+                {busy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {dryRun ? 'Run Dry Run' : 'Validate'}
+              </Button>
+            </>
+          )}
+          {step === 'preview' && validation && (
+            <>
+              <Button variant="outline" onClick={() => setStep('map')} disabled={busy}>Back</Button>
+              {validation.invalid.length > 0 && (
+                <Button variant="outline" onClick={handleDownloadErrors} disabled={busy}>
+                  <Download className="mr-2 h-4 w-4" />
+                  Error Report
+                </Button>
+              )}
+              {dryRun ? (
+                <Button onClick={() => setDryRun(false)} disabled={validation.valid.length === 0}>
+                  Continue to Import
+                </Button>
+              ) : (
+                <Button onClick={handleImport} disabled={busy || validation.valid.length === 0}>
+                  {busy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Import {validation.valid.length} Student{validation.valid.length !== 1 && 's'}
+                </Button>
+              )}
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default StudentImportDialog;
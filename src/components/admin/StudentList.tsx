@@ -18,8 +18,11 @@ import {
 } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Search, Filter, Users, GraduationCap } from 'lucide-react';
-import { Tables } from '@/types/database';
+import { Search, Filter, Users, GraduationCap, Download } from 'lucide-react';
+import { Tables } from '@/integrations/supabase/types';
+import { useToast } from '@/hooks/use-toast';
+import { downloadSpreadsheet, SpreadsheetFormat } from '@/lib/spreadsheet';
+import { StudentImportService } from '@/services/studentImportService';
 
 interface EnhancedStudentListProps {
   students: Tables<'students'>[];
@@ -34,6 +37,7 @@ const EnhancedStudentList: React.FC<EnhancedStudentListProps> = ({
   const [departmentFilter, setDepartmentFilter] = useState('all');
   const [levelFilter, setLevelFilter] = useState('all');
   const [statusFilter, setStatusFilter] = useState('all');
+  const { toast } = useToast();
 
   // Get unique departments and levels from students
   const { departments, levels } = useMemo(() => {
@@ -71,6 +75,24 @@ const EnhancedStudentList: React.FC<EnhancedStudentListProps> = ({
     setStatusFilter('all');
   };
 
+  // Export exactly what the filters currently show
+  const handleExport = async (format: SpreadsheetFormat) => {
+    const { headers, rows } = StudentImportService.exportRows(filteredStudents);
+    const scope = [departmentFilter, levelFilter, statusFilter]
+      .filter(value => value !== 'all')
+      .map(value => value.toLowerCase().replace(/\s+/g, '-'));
+
+    try {
+      await downloadSpreadsheet(format, ['students', ...scope].join('-'), headers, rows);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to export students',
+        variant: 'destructive'
+      });
+    }
+  };
+
   const getStatusBadgeVariant = (status: string) => {
     switch (status.toLowerCase()) {
       case 'active':
@@ -108,8 +130,18 @@ const EnhancedStudentList: React.FC<EnhancedStudentListProps> = ({
             <Users className="h-5 w-5 text-green-600" />
             <CardTitle>Students ({filteredStudents.length})</CardTitle>
           </div>
-          <div className="text-sm text-gray-500">
-            Total: {students.length} students
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-gray-500 mr-2">
+              Total: {students.length} students
+            </span>
+            <Button variant="outline" size="sm" onClick={() => handleExport('csv')} disabled={filteredStudents.length === 0}>
+              <Download className="h-4 w-4 mr-1" />
+              CSV
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => handleExport('xlsx')} disabled={filteredStudents.length === 0}>
+              <Download className="h-4 w-4 mr-1" />
+              Excel
+            </Button>
           </div>
         </div>
       </CardHeader>
@@ -0,0 +1,186 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FileDown, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { TranscriptStudent } from '@/lib/transcript';
+import { downloadTranscriptPdf } from '@/lib/transcriptPdf';
+import { TranscriptService } from '@/services/transcriptService';
+
+type ExportScope = 'student' | 'group' | 'selected';
+
+interface TranscriptExportDialogProps {
+  students: TranscriptStudent[];
+  selectedStudentIds?: string[];
+}
+
+const ALL = 'all';
+
+const TranscriptExportDialog: React.FC<TranscriptExportDialogProps> = ({
+  students,
+  selectedStudentIds = []
+}) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [scope, setScope] = useState<ExportScope>('student');
+  const [studentId, setStudentId] = useState('');
+  const [department, setDepartment] = useState(ALL);
+  const [level, setLevel] = useState(ALL);
+  const [publishedOnly, setPublishedOnly] = useState(true);
+
+  const departments = useMemo(() => [...new Set(students.map(s => s.department))].sort(), [students]);
+  const levels = useMemo(() => [...new Set(students.map(s => s.level))].sort(), [students]);
+
+  const sortedStudents = useMemo(
+    () => [...students].sort((a, b) => a.student_id.localeCompare(b.student_id)),
+    [students]
+  );
+
+  const targetIds = useMemo(() => {
+    if (scope === 'student') return studentId ? [studentId] : [];
+    if (scope === 'selected') return selectedStudentIds;
+    return sortedStudents
+      .filter(s => (department === ALL || s.department === department) && (level === ALL || s.level === level))
+      .map(s => s.id);
+  }, [scope, studentId, selectedStudentIds, sortedStudents, department, level]);
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const transcripts = await TranscriptService.getTranscripts(targetIds, { publishedOnly });
+
+      if (transcripts.length === 0) {
+        toast({
+          title: 'Nothing to Export',
+          description: 'No matching students were found.',
+          variant: 'destructive'
+        });
+        return;
+      }
+
+      downloadTranscriptPdf(transcripts);
+      toast({
+        title: 'Transcripts Exported',
+        description: `Downloaded ${transcripts.length} transcript${transcripts.length !== 1 ? 's' : ''}.`
+      });
+      setOpen(false);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to export transcripts',
+        variant: 'destructive'
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2">
+          <FileDown className="h-4 w-4" />
+          Transcripts
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Export Transcripts</DialogTitle>
+          <DialogDescription>
+            Download a PDF transcript for one student or a whole group. Each student starts on a new page.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Students</Label>
+            <Select value={scope} onValueChange={(value: ExportScope) => setScope(value)}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="student">A single student</SelectItem>
+                <SelectItem value="group">By department and level</SelectItem>
+                {selectedStudentIds.length > 0 && (
+                  <SelectItem value="selected">Selected students ({selectedStudentIds.length})</SelectItem>
+                )}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {scope === 'student' && (
+            <div className="space-y-2">
+              <Label>Student</Label>
+              <Select value={studentId} onValueChange={setStudentId}>
+                <SelectTrigger><SelectValue placeholder="Pick student" /></SelectTrigger>
+                <SelectContent>
+                  {sortedStudents.map(s => (
+                    <SelectItem key={s.id} value={s.id}>
+                      {s.student_id} — {s.first_name} {s.last_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {scope === 'group' && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Department</Label>
+                <Select value={department} onValueChange={setDepartment}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All departments</SelectItem>
+                    {departments.map(dept => (
+                      <SelectItem key={dept} value={dept}>{dept}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Level</Label>
+                <Select value={level} onValueChange={setLevel}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All levels</SelectItem>
+                    {levels.map(lvl => (
+                      <SelectItem key={lvl} value={lvl}>{lvl}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+
+          <div className="flex items-center gap-3">
+            <Switch id="transcriptPublishedOnly" checked={publishedOnly} onCheckedChange={setPublishedOnly} />
+            <Label htmlFor="transcriptPublishedOnly">Published results only</Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)} disabled={exporting}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={exporting || targetIds.length === 0}>
+            {exporting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Export {targetIds.length} Transcript{targetIds.length !== 1 && 's'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TranscriptExportDialog;
@@ -0,0 +1,456 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Check, CloudOff, Loader2, Save, Send } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useScoreSheet } from '@/hooks/useScoreSheet';
+import { getGradeBadgeClass, gradeForScore, MAX_CA_SCORE, MAX_EXAM_SCORE, resolveGradingScale } from '@/lib/grading';
+import { getStageBadgeClass, RESULT_STAGE_LABELS, ResultStage } from '@/lib/resultWorkflow';
+import { parseClipboardTable } from '@/lib/spreadsheet';
+import {
+  isRowLocked,
+  LecturerCourse,
+  ScoreEntry,
+  ScoreSheetRow,
+  validateScoreEntry,
+} from '@/services/scoreSheetService';
+
+interface ScoreSheetGridProps {
+  course: LecturerCourse;
+  onStatusChanged: () => void;
+}
+
+interface RowScores {
+  ca: string;
+  exam: string;
+}
+
+type ScoreColumn = keyof RowScores;
+
+const COLUMNS: ScoreColumn[] = ['ca', 'exam'];
+
+// Wait for a pause in typing before saving the draft
+const AUTOSAVE_DELAY_MS = 1500;
+
+const toInput = (value: number | null) => (value === null ? '' : String(value));
+const toScore = (value: string) => (value.trim() === '' ? null : Number(value));
+
+const toEntry = (studentId: string, scores: RowScores): ScoreEntry => ({
+  student_id: studentId,
+  ca_score: toScore(scores.ca),
+  exam_score: toScore(scores.exam),
+});
+
+const fromRows = (rows: ScoreSheetRow[]): Record<string, RowScores> =>
+  Object.fromEntries(rows.map(row => [row.student_id, { ca: toInput(row.ca_score), exam: toInput(row.exam_score) }]));
+
+const cellKey = (rowIndex: number, column: ScoreColumn) => `${rowIndex}:${column}`;
+
+const ScoreSheetGrid: React.FC<ScoreSheetGridProps> = ({ course, onStatusChanged }) => {
+  const { toast } = useToast();
+  const { rows, scales, scaleAssignments, loading, error, saving, submitting, saveDraft, submit } =
+    useScoreSheet(course.offering_id);
+  const [scores, setScores] = useState<Record<string, RowScores>>({});
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+  const [autosaveFailed, setAutosaveFailed] = useState(false);
+  const cells = useRef(new Map<string, HTMLInputElement>());
+
+  // Keep what is being typed; only students not yet on screen take the loaded scores
+  useEffect(() => {
+    setScores(prev => ({ ...fromRows(rows), ...prev }));
+  }, [rows]);
+
+  const isDraft = course.sheet_status === 'draft';
+  const saved = useMemo(() => fromRows(rows), [rows]);
+  const editableRows = useMemo(() => (isDraft ? rows.filter(row => !isRowLocked(row)) : []), [rows, isDraft]);
+
+  const entries = useMemo(
+    () => new Map(rows.map(row => [row.student_id, toEntry(row.student_id, scores[row.student_id] ?? saved[row.student_id])])),
+    [rows, scores, saved]
+  );
+
+  const rowErrors = useMemo(() => new Map(
+    editableRows
+      .map(row => [row.student_id, validateScoreEntry(entries.get(row.student_id))] as const)
+      .filter(([, message]) => message)
+  ), [editableRows, entries]);
+
+  const changedEntries = useMemo(() => editableRows
+    .filter(row => {
+      const current = scores[row.student_id];
+      return current && (current.ca !== saved[row.student_id].ca || current.exam !== saved[row.student_id].exam);
+    })
+    .map(row => entries.get(row.student_id)), [editableRows, scores, saved, entries]);
+
+  // Invalid cells stay on screen, flagged, until they are fixed; everything else can be saved
+  const savableEntries = useMemo(
+    () => changedEntries.filter(entry => !rowErrors.has(entry.student_id)),
+    [changedEntries, rowErrors]
+  );
+
+  const grades = useMemo(() => new Map(rows.map(row => {
+    const entry = entries.get(row.student_id);
+    if (entry.ca_score === null || entry.exam_score === null || validateScoreEntry(entry)) {
+      return [row.student_id, null] as const;
+    }
+    const total = entry.ca_score + entry.exam_score;
+    const scale = resolveGradingScale(scales, scaleAssignments, {
+      department: row.department,
+      level: row.level,
+      academicYear: course.academic_year,
+    });
+    return [row.student_id, { total, band: gradeForScore(scale, total) }] as const;
+  })), [rows, entries, scales, scaleAssignments, course.academic_year]);
+
+  const completeCount = editableRows.filter(row => grades.get(row.student_id)).length;
+  const gradedRows = rows.map(row => grades.get(row.student_id)).filter(Boolean);
+  const failCount = gradedRows.filter(grade => grade.band && grade.band.grade_point <= 0).length;
+  const average = gradedRows.length > 0
+    ? gradedRows.reduce((sum, grade) => sum + grade.total, 0) / gradedRows.length
+    : null;
+
+  const busy = saving || submitting;
+
+  const persist = useCallback(async (silent: boolean) => {
+    if (savableEntries.length === 0) return true;
+    const ok = await saveDraft(savableEntries, { silent });
+    setAutosaveFailed(!ok);
+    if (ok) setLastSavedAt(new Date());
+    return ok;
+  }, [savableEntries, saveDraft]);
+
+  // Autosave a little after the last keystroke
+  useEffect(() => {
+    if (!isDraft || busy || autosaveFailed || savableEntries.length === 0) return;
+    const timeoutId = setTimeout(() => persist(true), AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timeoutId);
+  }, [isDraft, busy, autosaveFailed, savableEntries, persist]);
+
+  // Warn before leaving with changes that have not reached the server
+  useEffect(() => {
+    if (changedEntries.length === 0) return;
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => event.preventDefault();
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [changedEntries.length]);
+
+  const setScore = (studentId: string, column: ScoreColumn, value: string) => {
+    setAutosaveFailed(false);
+    setScores(prev => ({ ...prev, [studentId]: { ...(prev[studentId] ?? saved[studentId]), [column]: value } }));
+  };
+
+  const focusCell = (rowIndex: number, column: ScoreColumn) => {
+    const cell = cells.current.get(cellKey(rowIndex, column));
+    if (cell) {
+      cell.focus();
+      cell.select();
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>, rowIndex: number, column: ScoreColumn) => {
+    const input = event.currentTarget;
+    const columnIndex = COLUMNS.indexOf(column);
+    const atStart = input.selectionStart === 0 && input.selectionEnd === 0;
+    const atEnd = input.selectionStart === input.value.length;
+
+    switch (event.key) {
+      case 'ArrowDown':
+      case 'Enter':
+        event.preventDefault();
+        focusCell(event.key === 'Enter' && event.shiftKey ? rowIndex - 1 : rowIndex + 1, column);
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        focusCell(rowIndex - 1, column);
+        break;
+      case 'ArrowRight':
+        if (atEnd && columnIndex < COLUMNS.length - 1) {
+          event.preventDefault();
+          focusCell(rowIndex, COLUMNS[columnIndex + 1]);
+        }
+        break;
+      case 'ArrowLeft':
+        if (atStart && columnIndex > 0) {
+          event.preventDefault();
+          focusCell(rowIndex, COLUMNS[columnIndex - 1]);
+        }
+        break;
+    }
+  };
+
+  // A block copied from Excel fills down and across from the cell it is pasted into.
+  // When its first column holds matric numbers, rows are matched by matric number instead,
+  // taking the last two columns as CA and exam.
+  const handlePaste = (event: React.ClipboardEvent<HTMLInputElement>, rowIndex: number, column: ScoreColumn) => {
+    const table = parseClipboardTable(event.clipboardData.getData('text/plain'));
+    if (table.length <= 1 && (table[0]?.length ?? 0) <= 1) return;
+
+    event.preventDefault();
+
+    const rowIndexByMatric = new Map(editableRows.map((row, index) => [row.matric_number.trim().toUpperCase(), index]));
+    const byMatric = table.some(line => rowIndexByMatric.has(line[0]?.toUpperCase()));
+    const updates: Record<string, RowScores> = {};
+    let unmatched = 0;
+
+    table.forEach((line, lineIndex) => {
+      let targetIndex: number | undefined;
+      let values: Partial<RowScores>;
+
+      if (byMatric) {
+        targetIndex = rowIndexByMatric.get(line[0]?.toUpperCase());
+        values = line.length >= 3 ? { ca: line[line.length - 2], exam: line[line.length - 1] } : {};
+      } else {
+        targetIndex = rowIndex + lineIndex;
+        values = Object.fromEntries(
+          line
+            .slice(0, COLUMNS.length - COLUMNS.indexOf(column))
+            .map((value, offset) => [COLUMNS[COLUMNS.indexOf(column) + offset], value])
+        );
+      }
+
+      const row = targetIndex === undefined ? undefined : editableRows[targetIndex];
+      if (!row) {
+        if (line.some(Boolean)) unmatched += 1;
+        return;
+      }
+      updates[row.student_id] = { ...(updates[row.student_id] ?? scores[row.student_id] ?? saved[row.student_id]), ...values };
+    });
+
+    setAutosaveFailed(false);
+    setScores(prev => ({ ...prev, ...updates }));
+
+    const pasted = Object.keys(updates).length;
+    toast({
+      title: `Pasted ${pasted} row${pasted === 1 ? '' : 's'}`,
+      description: unmatched > 0
+        ? `${unmatched} row${unmatched === 1 ? '' : 's'} did not match a student on this sheet and were skipped.`
+        : 'Check the highlighted cells before submitting.'
+    });
+  };
+
+  const handleSave = () => persist(false);
+
+  const handleSubmit = async () => {
+    if (changedEntries.length > savableEntries.length) return;
+    if (!(await persist(true))) return;
+    if (await submit()) onStatusChanged();
+  };
+
+  const renderSaveStatus = () => {
+    if (saving) {
+      return <span className="flex items-center gap-1"><Loader2 className="h-3 w-3 animate-spin" /> Saving…</span>;
+    }
+    if (autosaveFailed) {
+      return <span className="flex items-center gap-1 text-red-600"><CloudOff className="h-3 w-3" /> Not saved</span>;
+    }
+    if (changedEntries.length > 0) {
+      return <span>{changedEntries.length} unsaved change{changedEntries.length !== 1 && 's'}</span>;
+    }
+    if (lastSavedAt) {
+      return <span className="flex items-center gap-1 text-green-700"><Check className="h-3 w-3" /> Saved at {lastSavedAt.toLocaleTimeString()}</span>;
+    }
+    return null;
+  };
+
+  let editableIndex = -1;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+          <div>
+            <CardTitle>{course.course_code} · {course.course_title}</CardTitle>
+            <CardDescription>
+              {course.academic_year} {course.semester} · {course.level} · {course.credit_units} unit{course.credit_units !== 1 && 's'}
+            </CardDescription>
+          </div>
+          <Badge
+            variant="outline"
+            className={isDraft ? 'bg-yellow-50 text-yellow-700 border-yellow-200' : 'bg-purple-50 text-purple-700 border-purple-200'}
+          >
+            {isDraft ? 'Draft' : 'Submitted for review'}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!isDraft && (
+          <Alert>
+            <AlertDescription>
+              This sheet is with the HOD for review
+              {course.submitted_at && ` since ${new Date(course.submitted_at).toLocaleString()}`}.
+              It comes back here if any result is rejected.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : rows.length === 0 ? (
+          <p className="text-center text-gray-600 py-12">No students have registered for this course yet.</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-gray-600">
+              <span>
+                {rows.length} student{rows.length !== 1 && 's'}
+                {average !== null && ` · average ${average.toFixed(1)}`}
+                {gradedRows.length > 0 && ` · ${failCount} failing`}
+              </span>
+              {isDraft && (
+                <span className="text-xs text-gray-500">
+                  Enter and the arrow keys move between cells. Paste a block from Excel into any cell.
+                </span>
+              )}
+            </div>
+
+            <div className="border rounded-lg overflow-auto max-h-[65vh]">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-12">#</TableHead>
+                    <TableHead>Matric Number</TableHead>
+                    <TableHead>Student</TableHead>
+                    <TableHead className="w-24">CA (/{MAX_CA_SCORE})</TableHead>
+                    <TableHead className="w-24">Exam (/{MAX_EXAM_SCORE})</TableHead>
+                    <TableHead className="w-16 text-right">Total</TableHead>
+                    <TableHead className="w-16">Grade</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row, index) => {
+                    const rowScores = scores[row.student_id] ?? saved[row.student_id];
+                    const locked = !isDraft || isRowLocked(row);
+                    const rowIndex = locked ? -1 : ++editableIndex;
+                    const rowError = rowErrors.get(row.student_id);
+                    const grade = grades.get(row.student_id);
+                    const failing = grade?.band && grade.band.grade_point <= 0;
+                    const entry = entries.get(row.student_id);
+                    const caInvalid = !!rowError && !!validateScoreEntry({ ca_score: entry.ca_score, exam_score: null });
+                    const examInvalid = !!rowError && !!validateScoreEntry({ ca_score: null, exam_score: entry.exam_score });
+
+                    const renderCell = (column: ScoreColumn, max: number, invalid: boolean) => (
+                      <Input
+                        ref={element => {
+                          if (rowIndex < 0) return;
+                          if (element) cells.current.set(cellKey(rowIndex, column), element);
+                          else cells.current.delete(cellKey(rowIndex, column));
+                        }}
+                        inputMode="decimal"
+                        value={rowScores[column]}
+                        onChange={e => setScore(row.student_id, column, e.target.value)}
+                        onKeyDown={e => handleKeyDown(e, rowIndex, column)}
+                        onPaste={e => handlePaste(e, rowIndex, column)}
+                        onFocus={e => e.currentTarget.select()}
+                        disabled={locked}
+                        className={`h-8 ${invalid ? 'border-red-500 bg-red-50 focus-visible:ring-red-500' : ''}`}
+                        aria-label={`${column === 'ca' ? 'CA' : 'Exam'} score for ${row.matric_number}, out of ${max}`}
+                        aria-invalid={invalid}
+                      />
+                    );
+
+                    return (
+                      <TableRow key={row.student_id} className={failing ? 'bg-red-50/50' : undefined}>
+                        <TableCell className="text-gray-500">{index + 1}</TableCell>
+                        <TableCell className="font-medium">{row.matric_number}</TableCell>
+                        <TableCell>
+                          <div>{row.first_name} {row.last_name}</div>
+                          {row.rejection_comment && (
+                            <div className="text-xs text-red-600">Returned: {row.rejection_comment}</div>
+                          )}
+                          {rowError && <div className="text-xs text-red-600">{rowError}</div>}
+                        </TableCell>
+                        <TableCell>{renderCell('ca', MAX_CA_SCORE, caInvalid)}</TableCell>
+                        <TableCell>{renderCell('exam', MAX_EXAM_SCORE, examInvalid)}</TableCell>
+                        <TableCell className="text-right font-medium">{grade ? grade.total : '—'}</TableCell>
+                        <TableCell>
+                          {grade?.band ? (
+                            <Badge variant="outline" className={getGradeBadgeClass(grade.band.letter)}>
+                              {grade.band.letter}
+                            </Badge>
+                          ) : '—'}
+                        </TableCell>
+                        <TableCell>
+                          {row.result_status ? (
+                            <Badge variant="outline" className={getStageBadgeClass(row.result_status)}>
+                              {RESULT_STAGE_LABELS[row.result_status as ResultStage] ?? row.result_status}
+                            </Badge>
+                          ) : (
+                            <span className="text-xs text-gray-500">Not submitted</span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+
+        {isDraft && rows.length > 0 && (
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <div className="text-sm text-gray-600 space-y-1">
+              <p>
+                {completeCount} of {editableRows.length} student{editableRows.length !== 1 && 's'} scored
+                {rowErrors.size > 0 && ` · ${rowErrors.size} with errors`}
+              </p>
+              <div className="text-xs text-gray-500">{renderSaveStatus()}</div>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={handleSave} disabled={savableEntries.length === 0 || busy}>
+                {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                Save Draft
+              </Button>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button disabled={completeCount < editableRows.length || rowErrors.size > 0 || busy}>
+                    {submitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+                    Submit for Review
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Submit {course.course_code} scores?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      The scores for {editableRows.length} student{editableRows.length !== 1 && 's'} go to the HOD for
+                      review and can no longer be edited here unless a result is sent back.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={handleSubmit}>Submit</AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ScoreSheetGrid;
@@ -0,0 +1,204 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FileDown, Loader2, Save } from "lucide-react";
+import { useAcademicCalendar } from "@/hooks/useAcademicCalendar";
+import { useCourseRegistration } from "@/hooks/useCourseRegistration";
+import { downloadCourseFormPdf } from "@/lib/courseFormPdf";
+import { isRegistrationOpen, SEMESTER_NAMES } from "@/services/academicCalendarService";
+import { EligibleCourse, RegistrationStudent, totalCreditUnits } from "@/services/courseRegistrationService";
+
+interface CourseRegistrationPanelProps {
+  student: RegistrationStudent;
+  // Admins may register a student outside the registration window
+  lateRegistration?: boolean;
+}
+
+const formatDate = (value: string) => new Date(value).toLocaleString();
+
+const CourseRegistrationPanel = ({ student, lateRegistration = false }: CourseRegistrationPanelProps) => {
+  const { academicYears, currentSession, currentSemester, findSemester } = useAcademicCalendar();
+  const [academicYear, setAcademicYear] = useState("");
+  const [semester, setSemester] = useState("");
+  const [selected, setSelected] = useState<string[]>([]);
+  const { eligibleCourses, registrations, creditLimit, loading, error, saving, register } =
+    useCourseRegistration(student, academicYear, semester);
+
+  // Open on the semester that is running now
+  useEffect(() => {
+    if (!academicYear && currentSession) {
+      setAcademicYear(currentSession.name);
+      setSemester(currentSemester?.name ?? SEMESTER_NAMES[0]);
+    }
+  }, [academicYear, currentSession, currentSemester]);
+
+  // Start from what is already registered whenever the semester or saved registration changes
+  useEffect(() => {
+    setSelected(registrations.map(registration => registration.course_id));
+  }, [registrations]);
+
+  const registrationWindow = findSemester(academicYear, semester);
+  const windowOpen = isRegistrationOpen(registrationWindow);
+  const canEdit = lateRegistration || windowOpen;
+
+  // Registered courses stay listed even if they are no longer offered, so they can be dropped
+  const courses = useMemo(() => {
+    const listed = new Map<string, EligibleCourse>(eligibleCourses.map(course => [course.id, course]));
+    registrations.forEach(registration => {
+      if (!listed.has(registration.course_id)) {
+        listed.set(registration.course_id, { ...registration.course, carryOver: false, unmetPrerequisites: [] });
+      }
+    });
+    return Array.from(listed.values()).sort((a, b) => a.course_code.localeCompare(b.course_code));
+  }, [eligibleCourses, registrations]);
+
+  const registeredIds = useMemo(() => new Set(registrations.map(registration => registration.course_id)), [registrations]);
+
+  const selectedUnits = totalCreditUnits(courses.filter(course => selected.includes(course.id)));
+  const withinLimits = !creditLimit || (selectedUnits >= creditLimit.min_units && selectedUnits <= creditLimit.max_units);
+  const unchanged =
+    selected.length === registrations.length &&
+    registrations.every(registration => selected.includes(registration.course_id));
+
+  const toggleCourse = (courseId: string, checked: boolean) => {
+    setSelected(prev => (checked ? [...prev, courseId] : prev.filter(id => id !== courseId)));
+  };
+
+  const handlePrint = () => {
+    downloadCourseFormPdf({
+      student,
+      academicYear,
+      semester,
+      courses: registrations.map(registration => registration.course),
+      printedAt: new Date(),
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Academic Session</Label>
+          <Select value={academicYear} onValueChange={setAcademicYear}>
+            <SelectTrigger>
+              <SelectValue placeholder="Pick session" />
+            </SelectTrigger>
+            <SelectContent>
+              {academicYears.map(year => (
+                <SelectItem key={year} value={year}>{year}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Semester</Label>
+          <Select value={semester} onValueChange={setSemester}>
+            <SelectTrigger>
+              <SelectValue placeholder="Pick semester" />
+            </SelectTrigger>
+            <SelectContent>
+              {SEMESTER_NAMES.map(s => (
+                <SelectItem key={s} value={s}>{s}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        {registrationWindow?.registration_opens_at ? (
+          <Badge variant="outline" className={windowOpen ? "bg-green-100 text-green-800 border-green-200" : "bg-gray-100 text-gray-800 border-gray-200"}>
+            {windowOpen ? "Registration open" : "Registration closed"}
+          </Badge>
+        ) : (
+          <Badge variant="outline" className="bg-gray-100 text-gray-800 border-gray-200">No registration window</Badge>
+        )}
+        {registrationWindow?.registration_opens_at && (
+          <span className="text-gray-600">
+            {formatDate(registrationWindow.registration_opens_at)} – {formatDate(registrationWindow.registration_closes_at)}
+          </span>
+        )}
+      </div>
+
+      {!windowOpen && lateRegistration && (
+        <Alert>
+          <AlertDescription>
+            Registration is closed to students for this semester. Changes saved here are recorded as late registration.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+        </div>
+      ) : courses.length === 0 ? (
+        <p className="text-center text-gray-600 py-8">
+          No {student.department} {student.level} courses are offered in the {semester}.
+        </p>
+      ) : (
+        <div className="border rounded-lg divide-y">
+          {courses.map(course => {
+            // Prerequisites only block adding a course, not keeping one already registered
+            const blocked = course.unmetPrerequisites.length > 0 && !registeredIds.has(course.id);
+            return (
+              <label key={course.id} className={`flex items-center gap-3 p-3 ${blocked ? "opacity-60" : "cursor-pointer"}`}>
+                <Checkbox
+                  checked={selected.includes(course.id)}
+                  onCheckedChange={checked => toggleCourse(course.id, checked === true)}
+                  disabled={!canEdit || saving || blocked}
+                />
+                <div className="flex-1">
+                  <div className="flex items-center gap-2 font-medium text-gray-900">
+                    {course.course_code}
+                    {course.carryOver && (
+                      <Badge variant="outline" className="bg-red-100 text-red-800 border-red-200">Carry-over</Badge>
+                    )}
+                  </div>
+                  <div className="text-sm text-gray-600">{course.course_title}</div>
+                  {course.unmetPrerequisites.length > 0 && (
+                    <div className="text-xs text-red-600">Requires {course.unmetPrerequisites.join(", ")}</div>
+                  )}
+                </div>
+                <span className="text-sm text-gray-600">
+                  {course.credit_units} unit{course.credit_units === 1 ? "" : "s"}
+                </span>
+              </label>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div className={`text-sm ${withinLimits ? "text-gray-600" : "text-red-600"}`}>
+          {selectedUnits} credit unit{selectedUnits === 1 ? "" : "s"} selected
+          {creditLimit && ` · ${student.level} students need ${creditLimit.min_units}–${creditLimit.max_units}`}
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handlePrint} disabled={registrations.length === 0 || !unchanged}>
+            <FileDown className="h-4 w-4 mr-2" />
+            Print Course Form
+          </Button>
+          {canEdit && (
+            <Button onClick={() => register(selected)} disabled={saving || loading || unchanged || !withinLimits}>
+              {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+              Save Registration
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CourseRegistrationPanel;
@@ -0,0 +1,106 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Loader2, MessageSquareText } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { RemarkRequestService } from "@/services/remarkRequestService";
+
+interface RemarkRequestDialogProps {
+  resultId: string;
+  courseLabel: string;
+  onSubmitted?: () => void;
+}
+
+const RemarkRequestDialog = ({ resultId, courseLabel, onSubmitted }: RemarkRequestDialogProps) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleOpenChange = (value: boolean) => {
+    if (submitting) return;
+    if (value) {
+      setReason("");
+      setError(null);
+    }
+    setOpen(value);
+  };
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      await RemarkRequestService.submit(resultId, reason);
+      toast({
+        title: "Request submitted",
+        description: "The Academic Affairs Office will review it. You will be notified of each step.",
+      });
+      setOpen(false);
+      onSubmitted?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to submit your request");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <MessageSquareText className="h-4 w-4 mr-2" />
+          Request Remark
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Request a Remark</DialogTitle>
+          <DialogDescription>
+            {courseLabel}. Explain why you think this result should be checked again.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="remark-reason">Reason</Label>
+          <Textarea
+            id="remark-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="e.g. I answered five questions but my exam score suggests only four were marked"
+            rows={4}
+          />
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={submitting || !reason.trim()}>
+            {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Submit Request
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RemarkRequestDialog;
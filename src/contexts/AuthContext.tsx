@@ -1,25 +1,41 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import { FunctionsHttpError } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
-import bcrypt from 'bcryptjs';
+import {
+  decodeAdminToken,
+  getStoredAdminToken,
+  setAdminToken
+} from '@/integrations/supabase/adminSession';
+import { AdminRole, Permission, roleHasPermission } from '@/lib/permissions';
 
 interface Admin {
   id: string;
   email: string;
   full_name: string;
-  role: 'admin' | 'super_admin' | 'registrar';
+  role: AdminRole;
   is_active: boolean;
   last_login: string | null;
   created_at: string;
+  must_reset_password: boolean;
 }
 
 interface AuthContextType {
   admin: Admin | null;
   login: (email: string, password: string) => Promise<{ success: boolean; error?: string }>;
   logout: () => void;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<{ success: boolean; error?: string }>;
   loading: boolean;
   isAuthenticated: boolean;
   hasRole: (role: string | string[]) => boolean;
-  updateLastLogin: () => Promise<void>;
+  can: (permission: Permission) => boolean;
+}
+
+interface AdminAuthResponse {
+  success: boolean;
+  token?: string;
+  expiresAt?: string;
+  admin?: Admin;
+  error?: string;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -32,41 +48,85 @@ export const useAuth = () => {
   return context;
 };
 
+const invokeAdminAuth = async (body: Record<string, string>): Promise<AdminAuthResponse> => {
+  const { data, error } = await supabase.functions.invoke<AdminAuthResponse>('admin-auth', { body });
+
+  if (error) {
+    // Non-2xx responses still carry a JSON body with the reason
+    if (error instanceof FunctionsHttpError) {
+      try {
+        return await error.context.json();
+      } catch {
+        return { success: false, error: 'Authentication service error' };
+      }
+    }
+    throw error;
+  }
+
+  return data ?? { success: false, error: 'Empty response from authentication service' };
+};
+
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [admin, setAdmin] = useState<Admin | null>(null);
+  const [expiresAt, setExpiresAt] = useState<number | null>(null);
   const [loading, setLoading] = useState(true);
 
+  const clearSession = useCallback(() => {
+    setAdmin(null);
+    setExpiresAt(null);
+    setAdminToken(null);
+    supabase.realtime.setAuth(null);
+  }, []);
+
+  const applySession = useCallback((token: string, response: AdminAuthResponse) => {
+    setAdminToken(token);
+    supabase.realtime.setAuth(token);
+    setAdmin(response.admin as Admin);
+    setExpiresAt(new Date(response.expiresAt as string).getTime());
+  }, []);
+
   useEffect(() => {
-    // Check if admin is logged in from localStorage
-    const checkStoredAuth = () => {
+    // Restore a stored token only after the server confirms it is still valid
+    const restoreSession = async () => {
+      // Sessions from before server-side login stored the admin object itself
+      localStorage.removeItem('admin');
+      localStorage.removeItem('authExpiry');
+
+      const storedToken = getStoredAdminToken();
+      const claims = storedToken ? decodeAdminToken(storedToken) : null;
+
+      if (!storedToken || !claims || claims.exp * 1000 <= Date.now()) {
+        clearSession();
+        setLoading(false);
+        return;
+      }
+
       try {
-        const savedAdmin = localStorage.getItem('admin');
-        const authExpiry = localStorage.getItem('authExpiry');
-        
-        if (savedAdmin && authExpiry) {
-          const expiryTime = parseInt(authExpiry);
-          const currentTime = Date.now();
-          
-          // Check if auth has expired (24 hours)
-          if (currentTime < expiryTime) {
-            const adminData = JSON.parse(savedAdmin);
-            setAdmin(adminData);
-          } else {
-            // Auth expired, clear storage
-            localStorage.removeItem('admin');
-            localStorage.removeItem('authExpiry');
-          }
+        setAdminToken(storedToken);
+        const response = await invokeAdminAuth({ action: 'session' });
+
+        if (response.success && response.admin) {
+          applySession(storedToken, response);
+        } else {
+          clearSession();
         }
       } catch (error) {
-        console.error('Error checking stored auth:', error);
-        localStorage.removeItem('admin');
-        localStorage.removeItem('authExpiry');
+        console.error('Error restoring admin session:', error);
+        clearSession();
       }
       setLoading(false);
     };
 
-    checkStoredAuth();
-  }, []);
+    restoreSession();
+  }, [applySession, clearSession]);
+
+  // Sign out as soon as the token expires
+  useEffect(() => {
+    if (!expiresAt) return;
+
+    const timeoutId = setTimeout(clearSession, Math.max(expiresAt - Date.now(), 0));
+    return () => clearTimeout(timeoutId);
+  }, [expiresAt, clearSession]);
 
   const login = async (email: string, password: string) => {
     try {
@@ -77,72 +137,13 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         return { success: false, error: 'Email and password are required' };
       }
 
-      // Query admin user from database
-      const { data: adminData, error } = await supabase
-        .from('admin_users')
-        .select('*')
-        .eq('email', email.toLowerCase().trim())
-        .eq('is_active', true)
-        .single();
-
-      if (error) {
-        console.error('Database error:', error);
-        return { success: false, error: 'Invalid credentials' };
-      }
+      const response = await invokeAdminAuth({ action: 'login', email, password });
 
-      if (!adminData) {
-        return { success: false, error: 'Invalid credentials' };
+      if (!response.success || !response.token || !response.admin) {
+        return { success: false, error: response.error || 'Invalid credentials' };
       }
 
-      // Check if account is active
-      if (!adminData.is_active) {
-        return { success: false, error: 'Account is inactive. Please contact administrator.' };
-      }
-
-      // Verify password
-      let isPasswordValid = false;
-      
-      // Check if the stored hash is the placeholder hash
-      if (adminData.password_hash === '$2b$10$example_hash') {
-        // For development/demo purposes, accept any password for the demo account
-        // In production, you should replace this with proper password validation
-        console.warn('Using placeholder password hash - this should not be used in production');
-        isPasswordValid = true;
-      } else {
-        // Verify password against stored hash using bcrypt
-        try {
-          isPasswordValid = await bcrypt.compare(password, adminData.password_hash);
-        } catch (bcryptError) {
-          console.error('Bcrypt comparison error:', bcryptError);
-          return { success: false, error: 'Password verification failed' };
-        }
-      }
-      
-      if (!isPasswordValid) {
-        return { success: false, error: 'Invalid credentials' };
-      }
-
-      // Create admin object
-      const admin: Admin = {
-        id: adminData.id,
-        email: adminData.email,
-        full_name: adminData.full_name,
-        role: adminData.role as 'admin' | 'super_admin' | 'registrar',
-        is_active: adminData.is_active,
-        last_login: adminData.last_login,
-        created_at: adminData.created_at
-      };
-
-      // Set authentication state
-      setAdmin(admin);
-      
-      // Store in localStorage with expiry (24 hours)
-      const expiryTime = Date.now() + (24 * 60 * 60 * 1000);
-      localStorage.setItem('admin', JSON.stringify(admin));
-      localStorage.setItem('authExpiry', expiryTime.toString());
-
-      // Update last login timestamp
-      await updateLastLoginInDB(adminData.id);
+      applySession(response.token, response);
 
       return { success: true };
     } catch (error) {
@@ -153,40 +154,30 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
-  const updateLastLoginInDB = async (adminId: string) => {
-    try {
-      const { error } = await supabase
-        .from('admin_users')
-        .update({ last_login: new Date().toISOString() })
-        .eq('id', adminId);
+  const logout = () => {
+    clearSession();
+  };
 
-      if (error) {
-        console.error('Error updating last login:', error);
+  const changePassword = async (currentPassword: string, newPassword: string) => {
+    try {
+      const response = await invokeAdminAuth({
+        action: 'change_password',
+        password: currentPassword,
+        newPassword
+      });
+
+      if (!response.success || !response.admin) {
+        return { success: false, error: response.error || 'Failed to change password' };
       }
-    } catch (error) {
-      console.error('Error updating last login:', error);
-    }
-  };
 
-  const updateLastLogin = async () => {
-    if (admin) {
-      await updateLastLoginInDB(admin.id);
-      // Update the admin state with new last_login
-      const updatedAdmin = {
-        ...admin,
-        last_login: new Date().toISOString()
-      };
-      setAdmin(updatedAdmin);
-      localStorage.setItem('admin', JSON.stringify(updatedAdmin));
+      setAdmin(response.admin);
+      return { success: true };
+    } catch (error) {
+      console.error('Change password error:', error);
+      return { success: false, error: 'An error occurred while changing your password. Please try again.' };
     }
   };
 
-  const logout = () => {
-    setAdmin(null);
-    localStorage.removeItem('admin');
-    localStorage.removeItem('authExpiry');
-  };
-
   const hasRole = (role: string | string[]): boolean => {
     if (!admin) return false;
     
@@ -197,6 +188,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     return role.includes(admin.role);
   };
 
+  const can = (permission: Permission): boolean => roleHasPermission(admin?.role, permission);
+
   const isAuthenticated = admin !== null;
 
   return (
@@ -204,96 +197,39 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       admin, 
       login, 
       logout, 
+      changePassword,
       loading, 
       isAuthenticated,
       hasRole,
-      updateLastLogin
+      can
     }}>
       {children}
     </AuthContext.Provider>
   );
 };
 
-// Utility function to create admin users (for seeding)
-export const createAdminUser = async (
-  email: string, 
-  password: string, 
-  fullName: string, 
-  role: 'admin' | 'super_admin' | 'registrar' = 'admin'
-) => {
-  try {
-    // Hash password
-    const saltRounds = 10;
-    const passwordHash = await bcrypt.hash(password, saltRounds);
-
-    // Insert into database
-    const { data, error } = await supabase
-      .from('admin_users')
-      .insert([
-        {
-          email: email.toLowerCase().trim(),
-          full_name: fullName,
-          password_hash: passwordHash,
-          role: role,
-          is_active: true
-        }
-      ])
-      .select()
-      .single();
-
-    if (error) {
-      console.error('Error creating admin user:', error);
-      return { success: false, error: error.message };
-    }
-
-    return { success: true, data };
-  } catch (error) {
-    console.error('Error creating admin user:', error);
-    return { success: false, error: 'Failed to create admin user' };
-  }
-};
-
-// Helper function to update placeholder password with real hash
-export const updateAdminPassword = async (email: string, newPassword: string) => {
-  try {
-    const saltRounds = 10;
-    const passwordHash = await bcrypt.hash(newPassword, saltRounds);
-
-    const { data, error } = await supabase
-      .from('admin_users')
-      .update({ password_hash: passwordHash })
-      .eq('email', email.toLowerCase().trim())
-      .select()
-      .single();
-
-    if (error) {
-      console.error('Error updating password:', error);
-      return { success: false, error: error.message };
-    }
-
-    return { success: true, data };
-  } catch (error) {
-    console.error('Error updating password:', error);
-    return { success: false, error: 'Failed to update password' };
-  }
-};
-
 // Role-based access control helper
 export const ROLES = {
   SUPER_ADMIN: 'super_admin',
   ADMIN: 'admin',
-  REGISTRAR: 'registrar'
+  REGISTRAR: 'registrar',
+  HOD: 'hod',
+  EXAM_OFFICER: 'exam_officer',
+  LECTURER: 'lecturer'
 } as const;
 
 // Role hierarchy for permission checking
 export const ROLE_HIERARCHY = {
-  [ROLES.SUPER_ADMIN]: [ROLES.SUPER_ADMIN, ROLES.ADMIN, ROLES.REGISTRAR],
+  [ROLES.SUPER_ADMIN]: [ROLES.SUPER_ADMIN, ROLES.ADMIN, ROLES.REGISTRAR, ROLES.HOD, ROLES.EXAM_OFFICER, ROLES.LECTURER],
   [ROLES.ADMIN]: [ROLES.ADMIN, ROLES.REGISTRAR],
-  [ROLES.REGISTRAR]: [ROLES.REGISTRAR]
+  [ROLES.REGISTRAR]: [ROLES.REGISTRAR],
+  [ROLES.HOD]: [ROLES.HOD],
+  [ROLES.EXAM_OFFICER]: [ROLES.EXAM_OFFICER],
+  [ROLES.LECTURER]: [ROLES.LECTURER]
 } as const;
 
 // Check if user has permission based on role hierarchy
 export const hasPermission = (userRole: string, requiredRole: string): boolean => {
-  const allowedRoles = ROLE_HIERARCHY[userRole as keyof typeof ROLE_HIERARCHY];
-  return allowedRoles ? allowedRoles.includes(requiredRole as any) : false;
+  const allowedRoles: readonly string[] | undefined = ROLE_HIERARCHY[userRole as keyof typeof ROLE_HIERARCHY];
+  return allowedRoles ? allowedRoles.includes(requiredRole) : false;
 };
\ No newline at end of file
@@ -0,0 +1,220 @@
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import type { Session, User } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+
+interface AuthResult {
+  success: boolean;
+  error?: string;
+}
+
+interface StudentSignUpData {
+  studentId: string;
+  email: string;
+  password: string;
+}
+
+interface StudentAuthContextType {
+  session: Session | null;
+  user: User | null;
+  loading: boolean;
+  isAuthenticated: boolean;
+  sessionExpired: boolean;
+  signUp: (data: StudentSignUpData) => Promise<AuthResult & { needsConfirmation?: boolean }>;
+  login: (email: string, password: string) => Promise<AuthResult>;
+  logout: () => Promise<void>;
+  requestPasswordReset: (email: string) => Promise<AuthResult>;
+  updatePassword: (newPassword: string) => Promise<AuthResult>;
+}
+
+// Students are signed out this long after their last sign-in, even if the token keeps refreshing
+const SESSION_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+const SESSION_CHECK_INTERVAL_MS = 60 * 1000;
+
+const StudentAuthContext = createContext<StudentAuthContextType | undefined>(undefined);
+
+export const useStudentAuth = () => {
+  const context = useContext(StudentAuthContext);
+  if (context === undefined) {
+    throw new Error('useStudentAuth must be used within a StudentAuthProvider');
+  }
+  return context;
+};
+
+const isStudentSession = (session: Session | null) =>
+  session?.user?.user_metadata?.account_type === 'student';
+
+const hasExceededMaxAge = (session: Session) => {
+  const signedInAt = session.user.last_sign_in_at;
+  if (!signedInAt) return false;
+  return Date.now() - new Date(signedInAt).getTime() > SESSION_MAX_AGE_MS;
+};
+
+export const StudentAuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [session, setSession] = useState<Session | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [sessionExpired, setSessionExpired] = useState(false);
+
+  const expireSession = useCallback(async () => {
+    setSessionExpired(true);
+    setSession(null);
+    await supabase.auth.signOut();
+  }, []);
+
+  useEffect(() => {
+    const applySession = (nextSession: Session | null) => {
+      if (nextSession && isStudentSession(nextSession) && hasExceededMaxAge(nextSession)) {
+        expireSession();
+        return;
+      }
+      setSession(isStudentSession(nextSession) ? nextSession : null);
+    };
+
+    supabase.auth.getSession().then(({ data: { session: currentSession } }) => {
+      applySession(currentSession);
+      setLoading(false);
+    });
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, nextSession) => {
+      if (event === 'SIGNED_OUT') {
+        setSession(null);
+        return;
+      }
+      if (event === 'SIGNED_IN') {
+        setSessionExpired(false);
+      }
+      applySession(nextSession);
+    });
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [expireSession]);
+
+  // Periodically enforce the maximum session age while the portal is open
+  useEffect(() => {
+    if (!session) return;
+
+    const intervalId = setInterval(() => {
+      if (hasExceededMaxAge(session)) {
+        expireSession();
+      }
+    }, SESSION_CHECK_INTERVAL_MS);
+
+    return () => clearInterval(intervalId);
+  }, [session, expireSession]);
+
+  const signUp = async ({ studentId, email, password }: StudentSignUpData) => {
+    try {
+      const normalizedEmail = email.toLowerCase().trim();
+      const normalizedStudentId = studentId.trim();
+
+      // The account is linked to the matching student record once its email is confirmed,
+      // so sign-up never says whether a matric number and email pair exists
+      const { data, error } = await supabase.auth.signUp({
+        email: normalizedEmail,
+        password,
+        options: {
+          emailRedirectTo: `${window.location.origin}/student/login`,
+          data: {
+            account_type: 'student',
+            student_id: normalizedStudentId
+          }
+        }
+      });
+
+      if (error) {
+        console.error('Student sign-up error:', error);
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, needsConfirmation: !data.session };
+    } catch (error) {
+      console.error('Student sign-up error:', error);
+      return { success: false, error: 'An error occurred during registration. Please try again.' };
+    }
+  };
+
+  const login = async (email: string, password: string) => {
+    try {
+      if (!email || !password) {
+        return { success: false, error: 'Email and password are required' };
+      }
+
+      const { data, error } = await supabase.auth.signInWithPassword({
+        email: email.toLowerCase().trim(),
+        password
+      });
+
+      if (error) {
+        return { success: false, error: 'Invalid credentials' };
+      }
+
+      if (!isStudentSession(data.session)) {
+        await supabase.auth.signOut();
+        return { success: false, error: 'This account is not a student account' };
+      }
+
+      setSessionExpired(false);
+      return { success: true };
+    } catch (error) {
+      console.error('Student login error:', error);
+      return { success: false, error: 'An error occurred during login. Please try again.' };
+    }
+  };
+
+  const logout = async () => {
+    setSession(null);
+    await supabase.auth.signOut();
+  };
+
+  const requestPasswordReset = async (email: string) => {
+    try {
+      const { error } = await supabase.auth.resetPasswordForEmail(email.toLowerCase().trim(), {
+        redirectTo: `${window.location.origin}/student/reset-password`
+      });
+
+      if (error) {
+        console.error('Password reset request error:', error);
+        return { success: false, error: error.message };
+      }
+
+      return { success: true };
+    } catch (error) {
+      console.error('Password reset request error:', error);
+      return { success: false, error: 'Failed to send password reset email' };
+    }
+  };
+
+  const updatePassword = async (newPassword: string) => {
+    try {
+      const { error } = await supabase.auth.updateUser({ password: newPassword });
+
+      if (error) {
+        console.error('Password update error:', error);
+        return { success: false, error: error.message };
+      }
+
+      return { success: true };
+    } catch (error) {
+      console.error('Password update error:', error);
+      return { success: false, error: 'Failed to update password' };
+    }
+  };
+
+  return (
+    <StudentAuthContext.Provider value={{
+      session,
+      user: session?.user ?? null,
+      loading,
+      isAuthenticated: session !== null,
+      sessionExpired,
+      signUp,
+      login,
+      logout,
+      requestPasswordReset,
+      updatePassword
+    }}>
+      {children}
+    </StudentAuthContext.Provider>
+  );
+};
@@ -0,0 +1,143 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  AcademicCalendarService,
+  AcademicSession,
+  AcademicSessionWithSemesters,
+  Semester,
+  SemesterUpdate,
+  semesterOn
+} from '@/services/academicCalendarService';
+
+interface AcademicCalendarState {
+  sessions: AcademicSessionWithSemesters[];
+  loading: boolean;
+  error: string | null;
+}
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+// Academic sessions and semesters, the source for every session and semester picker
+export const useAcademicCalendar = () => {
+  const [state, setState] = useState<AcademicCalendarState>({ sessions: [], loading: true, error: null });
+
+  const { toast } = useToast();
+
+  const fetchData = useCallback(async (showLoading = true) => {
+    if (showLoading) {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+    }
+
+    try {
+      const sessions = await AcademicCalendarService.getCalendar();
+      setState({ sessions, loading: false, error: null });
+    } catch (error) {
+      const message = getErrorMessage(error, 'Failed to load the academic calendar');
+      setState(prev => ({ ...prev, loading: false, error: message }));
+      toast({
+        title: 'Error',
+        description: message,
+        variant: 'destructive'
+      });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const academicYears = useMemo(() => state.sessions.map(session => session.name), [state.sessions]);
+
+  // Falls back to the latest session until one is flagged current
+  const currentSession = useMemo(
+    () => state.sessions.find(session => session.is_current) ?? state.sessions[0] ?? null,
+    [state.sessions]
+  );
+
+  const currentSemester = useMemo(() => semesterOn(currentSession), [currentSession]);
+
+  const findSemester = useCallback((academicYear: string, semester: string): Semester | null =>
+    state.sessions
+      .find(session => session.name === academicYear)
+      ?.semesters.find(s => s.name === semester) ?? null,
+  [state.sessions]);
+
+  const runAction = useCallback(async (
+    action: () => Promise<unknown>,
+    successTitle: string,
+    successDescription: string,
+    errorFallback: string
+  ): Promise<boolean> => {
+    try {
+      await action();
+      toast({
+        title: successTitle,
+        description: successDescription
+      });
+      await fetchData(false);
+      return true;
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: getErrorMessage(error, errorFallback),
+        variant: 'destructive'
+      });
+      return false;
+    }
+  }, [fetchData, toast]);
+
+  const createSession = useCallback((session: { name: string; start_date: string; end_date: string }) =>
+    runAction(
+      () => AcademicCalendarService.createSession(session),
+      'Session Created',
+      `${session.name} has been added with its first and second semesters.`,
+      'Failed to create academic session'
+    ), [runAction]);
+
+  const updateSession = useCallback((session: AcademicSession, updates: { start_date: string; end_date: string }) =>
+    runAction(
+      () => AcademicCalendarService.updateSession(session.id, updates),
+      'Session Updated',
+      `${session.name} dates have been saved.`,
+      'Failed to update academic session'
+    ), [runAction]);
+
+  const deleteSession = useCallback((session: AcademicSession) =>
+    runAction(
+      () => AcademicCalendarService.deleteSession(session),
+      'Session Deleted',
+      `${session.name} has been removed from the calendar.`,
+      'Failed to delete academic session'
+    ), [runAction]);
+
+  const setCurrentSession = useCallback((session: AcademicSession) =>
+    runAction(
+      () => AcademicCalendarService.setCurrentSession(session.name),
+      'Current Session Changed',
+      `${session.name} is now the current session.`,
+      'Failed to change the current session'
+    ), [runAction]);
+
+  const updateSemester = useCallback((semester: Semester, updates: SemesterUpdate) =>
+    runAction(
+      () => AcademicCalendarService.updateSemester(semester.id, updates),
+      'Semester Updated',
+      `${semester.academic_year} ${semester.name} dates and windows have been saved.`,
+      'Failed to update semester'
+    ), [runAction]);
+
+  return {
+    ...state,
+    academicYears,
+    currentSession,
+    currentSemester,
+    findSemester,
+    createSession,
+    updateSession,
+    deleteSession,
+    setCurrentSession,
+    updateSemester,
+    refetch: fetchData
+  };
+};
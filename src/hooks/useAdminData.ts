@@ -1,5 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import { RESULT_STAGES, ResultStage } from '@/lib/resultWorkflow';
+import { PublicationScope, ResultWorkflowService } from '@/services/resultWorkflowService';
 import { useToast } from '@/hooks/use-toast';
 import { Tables } from '@/integrations/supabase/types';
 
@@ -13,11 +15,15 @@ interface ResultWithDetails extends Result {
     last_name: string;
     student_id: string;
     department: string;
+    level: string;
   };
   course: {
     course_code: string;
     course_title: string;
     credit_units: number;
+    department: string;
+    level: string;
+    semester: string;
   };
 }
 
@@ -38,7 +44,7 @@ interface AdminStats {
   activeCourses: number;
   publishedResults: number;
   pendingResults: number;
-  confirmedResults: number;
+  stageCounts: Record<ResultStage, number>;
   averageCGPA: number;
   departmentCounts: Record<string, number>;
   levelCounts: Record<string, number>;
@@ -81,12 +87,16 @@ export const useAdminData = () => {
             first_name,
             last_name,
             student_id,
-            department
+            department,
+            level
           ),
           course:courses!results_course_id_fkey(
             course_code,
             course_title,
-            credit_units
+            credit_units,
+            department,
+            level,
+            semester
           )
         `)
         .order('created_at', { ascending: false });
@@ -213,12 +223,16 @@ export const useAdminData = () => {
             first_name,
             last_name,
             student_id,
-            department
+            department,
+            level
           ),
           course:courses!results_course_id_fkey(
             course_code,
             course_title,
-            credit_units
+            credit_units,
+            department,
+            level,
+            semester
           )
         `)
         .eq('id', newResult.id)
@@ -243,28 +257,11 @@ export const useAdminData = () => {
     }
   }, [fetchData]);
 
-  // Publish result function
+  // Publish a single approved result
   const publishResult = useCallback(async (resultId: string) => {
     try {
-      const { error } = await supabase
-        .from('results')
-        .update({ 
-          status: 'published',
-          published_at: new Date().toISOString()
-        })
-        .eq('id', resultId);
-      
-      if (error) throw error;
-      
-      // Update local state
-      setState(prev => ({
-        ...prev,
-        results: prev.results.map(result =>
-          result.id === resultId
-            ? { ...result, status: 'published', published_at: new Date().toISOString() }
-            : result
-        )
-      }));
+      await ResultWorkflowService.transition([resultId], 'publish');
+      await fetchData(false);
       
       toast({
         title: 'Success',
@@ -274,36 +271,31 @@ export const useAdminData = () => {
       console.error('Failed to publish result:', error);
       toast({
         title: 'Error',
-        description: 'Failed to publish result',
+        description: error?.message || 'Failed to publish result',
         variant: 'destructive'
       });
     }
-  }, [toast]);
+  }, [fetchData, toast]);
 
-  // Bulk publish results
-  const publishAllResults = useCallback(async () => {
+  // Publish every approved result for one cohort
+  const publishAllResults = useCallback(async (scope: PublicationScope) => {
     try {
-      const { error } = await supabase
-        .from('results')
-        .update({ 
-          status: 'published',
-          published_at: new Date().toISOString()
-        })
-        .eq('status', 'pending');
-      
-      if (error) throw error;
+      const { resultIds } = await ResultWorkflowService.previewPublication(scope);
+      if (resultIds.length > 0) {
+        await ResultWorkflowService.transition(resultIds, 'publish');
+      }
       
       await fetchData(false);
       
       toast({
         title: 'Success',
-        description: 'All pending results published successfully'
+        description: `${resultIds.length} approved result${resultIds.length !== 1 ? 's' : ''} published`
       });
     } catch (error: any) {
       console.error('Failed to publish all results:', error);
       toast({
         title: 'Error',
-        description: 'Failed to publish results',
+        description: error?.message || 'Failed to publish results',
         variant: 'destructive'
       });
     }
@@ -317,8 +309,11 @@ export const useAdminData = () => {
     totalCourses: state.courses.length,
     activeCourses: state.courses.filter(c => c.is_active).length,
     publishedResults: state.results.filter(r => r.status === 'published').length,
-    pendingResults: state.results.filter(r => r.status === 'pending').length,
-    confirmedResults: state.results.filter(r => r.status === 'confirmed').length,
+    pendingResults: state.results.filter(r => r.status !== 'published').length,
+    stageCounts: RESULT_STAGES.reduce((acc, stage) => {
+      acc[stage] = state.results.filter(r => r.status === stage).length;
+      return acc;
+    }, {} as Record<ResultStage, number>),
     averageCGPA: state.students.reduce((sum, student) => sum + (student.cgpa || 0), 0) / (state.students.length || 1),
     departmentCounts: state.students.reduce((acc, student) => {
       acc[student.department] = (acc[student.department] || 0) + 1;
@@ -0,0 +1,123 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  AdminAccount,
+  AdminAuditEntry,
+  AdminService,
+  AdminUpdates,
+  NewAdminData
+} from '@/services/adminService';
+
+interface AdminUsersState {
+  admins: AdminAccount[];
+  auditLog: AdminAuditEntry[];
+  loading: boolean;
+  error: string | null;
+}
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+export const useAdminUsers = () => {
+  const [state, setState] = useState<AdminUsersState>({
+    admins: [],
+    auditLog: [],
+    loading: true,
+    error: null
+  });
+
+  const { toast } = useToast();
+
+  const fetchData = useCallback(async (showLoading = true) => {
+    if (showLoading) {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+    }
+
+    try {
+      const [admins, auditLog] = await Promise.all([
+        AdminService.getAdmins(),
+        AdminService.getAuditLog()
+      ]);
+
+      setState({ admins, auditLog, loading: false, error: null });
+    } catch (error) {
+      const message = getErrorMessage(error, 'Failed to load admin accounts');
+      setState(prev => ({ ...prev, loading: false, error: message }));
+      toast({
+        title: 'Error',
+        description: message,
+        variant: 'destructive'
+      });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  // Each action returns the temporary password (if any) so the screen can show it once
+  const createAdmin = useCallback(async (adminData: NewAdminData): Promise<string | null> => {
+    try {
+      const { admin, temporaryPassword } = await AdminService.createAdmin(adminData);
+      toast({
+        title: 'Admin Created',
+        description: `${admin.full_name} can now sign in with the temporary password.`
+      });
+      await fetchData(false);
+      return temporaryPassword;
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: getErrorMessage(error, 'Failed to create admin'),
+        variant: 'destructive'
+      });
+      return null;
+    }
+  }, [fetchData, toast]);
+
+  const updateAdmin = useCallback(async (adminId: string, updates: AdminUpdates): Promise<boolean> => {
+    try {
+      const admin = await AdminService.updateAdmin(adminId, updates);
+      toast({
+        title: 'Admin Updated',
+        description: `${admin.full_name}'s account has been updated.`
+      });
+      await fetchData(false);
+      return true;
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: getErrorMessage(error, 'Failed to update admin'),
+        variant: 'destructive'
+      });
+      return false;
+    }
+  }, [fetchData, toast]);
+
+  const resetPassword = useCallback(async (adminId: string): Promise<string | null> => {
+    try {
+      const temporaryPassword = await AdminService.resetPassword(adminId);
+      toast({
+        title: 'Password Reset',
+        description: 'The admin must choose a new password at their next sign-in.'
+      });
+      await fetchData(false);
+      return temporaryPassword;
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: getErrorMessage(error, 'Failed to reset password'),
+        variant: 'destructive'
+      });
+      return null;
+    }
+  }, [fetchData, toast]);
+
+  return {
+    ...state,
+    createAdmin,
+    updateAdmin,
+    resetPassword,
+    refetch: fetchData
+  };
+};
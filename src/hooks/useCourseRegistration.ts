@@ -0,0 +1,110 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  CourseRegistrationService,
+  CreditLimit,
+  EligibleCourse,
+  RegisteredCourse,
+  RegistrationStudent,
+} from '@/services/courseRegistrationService';
+
+interface CourseRegistrationState {
+  eligibleCourses: EligibleCourse[];
+  registrations: RegisteredCourse[];
+  creditLimit: CreditLimit | null;
+  loading: boolean;
+  error: string | null;
+}
+
+const EMPTY_STATE: CourseRegistrationState = {
+  eligibleCourses: [],
+  registrations: [],
+  creditLimit: null,
+  loading: false,
+  error: null
+};
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+// One student's registration for one semester, with what they may register and within which limits
+export const useCourseRegistration = (
+  student: RegistrationStudent | null,
+  academicYear: string,
+  semester: string
+) => {
+  const [state, setState] = useState<CourseRegistrationState>({ ...EMPTY_STATE, loading: true });
+  const [saving, setSaving] = useState(false);
+
+  const { toast } = useToast();
+
+  const fetchData = useCallback(async (showLoading = true) => {
+    if (!student || !academicYear || !semester) {
+      setState(EMPTY_STATE);
+      return;
+    }
+
+    if (showLoading) {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+    }
+
+    try {
+      const [eligibleCourses, registrations, creditLimits] = await Promise.all([
+        CourseRegistrationService.getEligibleCourses(student, academicYear, semester),
+        CourseRegistrationService.getRegistrations(student.id, academicYear, semester),
+        CourseRegistrationService.getCreditLimits()
+      ]);
+
+      setState({
+        eligibleCourses,
+        registrations,
+        creditLimit: creditLimits.find(limit => limit.level === student.level) ?? null,
+        loading: false,
+        error: null
+      });
+    } catch (error) {
+      const message = getErrorMessage(error, 'Failed to load course registration');
+      setState(prev => ({ ...prev, loading: false, error: message }));
+      toast({
+        title: 'Error',
+        description: message,
+        variant: 'destructive'
+      });
+    }
+  }, [student, academicYear, semester, toast]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const register = useCallback(async (courseIds: string[]) => {
+    if (!student) return false;
+
+    setSaving(true);
+    try {
+      const count = await CourseRegistrationService.register(student.id, academicYear, semester, courseIds);
+      toast({
+        title: 'Registration saved',
+        description: `${count} course${count === 1 ? '' : 's'} registered for ${academicYear} ${semester}.`
+      });
+      await fetchData(false);
+      return true;
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: getErrorMessage(error, 'Failed to save registration'),
+        variant: 'destructive'
+      });
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  }, [student, academicYear, semester, fetchData, toast]);
+
+  return {
+    ...state,
+    saving,
+    refetch: fetchData,
+    register
+  };
+};
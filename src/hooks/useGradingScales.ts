@@ -0,0 +1,138 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { GradingScale } from '@/lib/grading';
+import {
+  GradingScaleAssignmentWithScale,
+  GradingScaleInput,
+  GradingScaleService
+} from '@/services/gradingScaleService';
+
+interface GradingScalesState {
+  scales: GradingScale[];
+  assignments: GradingScaleAssignmentWithScale[];
+  loading: boolean;
+  error: string | null;
+}
+
+interface ScaleAssignmentData {
+  scale_id: string;
+  department: string | null;
+  level: string | null;
+  academic_year: string | null;
+}
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+export const useGradingScales = () => {
+  const [state, setState] = useState<GradingScalesState>({
+    scales: [],
+    assignments: [],
+    loading: true,
+    error: null
+  });
+
+  const { toast } = useToast();
+
+  const fetchData = useCallback(async (showLoading = true) => {
+    if (showLoading) {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+    }
+
+    try {
+      const [scales, assignments] = await Promise.all([
+        GradingScaleService.getScales(),
+        GradingScaleService.getAssignments()
+      ]);
+
+      setState({ scales, assignments, loading: false, error: null });
+    } catch (error) {
+      const message = getErrorMessage(error, 'Failed to load grading scales');
+      setState(prev => ({ ...prev, loading: false, error: message }));
+      toast({
+        title: 'Error',
+        description: message,
+        variant: 'destructive'
+      });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  // Every change re-grades unpublished results, so each action reports success and refreshes
+  const runAction = useCallback(async (
+    action: () => Promise<unknown>,
+    successTitle: string,
+    successDescription: string,
+    errorFallback: string
+  ): Promise<boolean> => {
+    try {
+      await action();
+      toast({
+        title: successTitle,
+        description: successDescription
+      });
+      await fetchData(false);
+      return true;
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: getErrorMessage(error, errorFallback),
+        variant: 'destructive'
+      });
+      return false;
+    }
+  }, [fetchData, toast]);
+
+  const saveScale = useCallback((scaleInput: GradingScaleInput, scaleId?: string) =>
+    runAction(
+      () => GradingScaleService.saveScale(scaleInput, scaleId),
+      scaleId ? 'Scale Updated' : 'Scale Created',
+      `${scaleInput.name} has been saved and unpublished results re-graded.`,
+      'Failed to save grading scale'
+    ), [runAction]);
+
+  const setDefaultScale = useCallback((scale: GradingScale) =>
+    runAction(
+      () => GradingScaleService.setDefaultScale(scale.id),
+      'Default Scale Changed',
+      `${scale.name} now applies wherever no other scale is assigned.`,
+      'Failed to change the default scale'
+    ), [runAction]);
+
+  const deleteScale = useCallback((scale: GradingScale) =>
+    runAction(
+      () => GradingScaleService.deleteScale(scale.id),
+      'Scale Deleted',
+      `${scale.name} has been deleted.`,
+      'Failed to delete grading scale'
+    ), [runAction]);
+
+  const assignScale = useCallback((assignment: ScaleAssignmentData) =>
+    runAction(
+      () => GradingScaleService.assignScale(assignment),
+      'Scale Assigned',
+      'Unpublished results in that scope have been re-graded.',
+      'Failed to assign grading scale'
+    ), [runAction]);
+
+  const removeAssignment = useCallback((assignmentId: string) =>
+    runAction(
+      () => GradingScaleService.removeAssignment(assignmentId),
+      'Assignment Removed',
+      'Affected results now use the next matching scale.',
+      'Failed to remove assignment'
+    ), [runAction]);
+
+  return {
+    ...state,
+    saveScale,
+    setDefaultScale,
+    deleteScale,
+    assignScale,
+    removeAssignment,
+    refetch: fetchData
+  };
+};
@@ -0,0 +1,47 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { LecturerCourse, ScoreSheetService } from '@/services/scoreSheetService';
+
+interface LecturerCoursesState {
+  courses: LecturerCourse[];
+  loading: boolean;
+  error: string | null;
+}
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+// The signed-in lecturer's assigned courses
+export const useLecturerCourses = () => {
+  const [state, setState] = useState<LecturerCoursesState>({ courses: [], loading: true, error: null });
+
+  const { toast } = useToast();
+
+  const fetchData = useCallback(async (showLoading = true) => {
+    if (showLoading) {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+    }
+
+    try {
+      const courses = await ScoreSheetService.getMyCourses();
+      setState({ courses, loading: false, error: null });
+    } catch (error) {
+      const message = getErrorMessage(error, 'Failed to load your courses');
+      setState(prev => ({ ...prev, loading: false, error: message }));
+      toast({
+        title: 'Error',
+        description: message,
+        variant: 'destructive'
+      });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  return {
+    ...state,
+    refetch: fetchData
+  };
+};
@@ -1,6 +1,7 @@
 import { useState, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { PERMISSIONS, requirePermission } from '@/lib/permissions';
 import emailjs from '@emailjs/browser';
 
 // EmailJS configuration
@@ -213,6 +214,8 @@ export const useNotifications = (students: Student[], refetchData: () => void) =
     setBulkNotificationLoading(true);
     
     try {
+      requirePermission(PERMISSIONS.SEND_NOTIFICATIONS);
+
       const targetStudents = filterStudents(filters);
       
       if (targetStudents.length === 0) {
@@ -264,7 +267,7 @@ export const useNotifications = (students: Student[], refetchData: () => void) =
       console.error('Bulk notification error:', error);
       toast({
         title: "Error",
-        description: "Failed to send bulk notifications",
+        description: error instanceof Error ? error.message : "Failed to send bulk notifications",
         variant: "destructive"
       });
     } finally {
@@ -282,6 +285,8 @@ export const useNotifications = (students: Student[], refetchData: () => void) =
     setNotificationLoading(true);
     
     try {
+      requirePermission(PERMISSIONS.SEND_NOTIFICATIONS);
+
       const targetStudents = students.filter(student => studentIds.includes(student.id));
       
       if (targetStudents.length === 0) {
@@ -331,7 +336,7 @@ export const useNotifications = (students: Student[], refetchData: () => void) =
       console.error('Custom notification error:', error);
       toast({
         title: "Error",
-        description: "Failed to send custom notifications",
+        description: error instanceof Error ? error.message : "Failed to send custom notifications",
         variant: "destructive"
       });
     } finally {
@@ -344,6 +349,8 @@ export const useNotifications = (students: Student[], refetchData: () => void) =
     setNotificationLoading(true);
     
     try {
+      requirePermission(PERMISSIONS.SEND_NOTIFICATIONS);
+
       const activeStudents = students.filter(s => s.status === 'Active');
       const testStudents = activeStudents.slice(0, count);
       
@@ -384,7 +391,7 @@ export const useNotifications = (students: Student[], refetchData: () => void) =
       console.error('Test notification error:', error);
       toast({
         title: "Error",
-        description: "Failed to send test notification",
+        description: error instanceof Error ? error.message : "Failed to send test notification",
         variant: "destructive"
       });
     } finally {
@@ -397,6 +404,8 @@ export const useNotifications = (students: Student[], refetchData: () => void) =
     setNotificationLoading(true);
     
     try {
+      requirePermission(PERMISSIONS.SEND_NOTIFICATIONS);
+
       const targetStudents = students.filter(student => studentIds.includes(student.id));
       
       if (targetStudents.length === 0) {
@@ -442,7 +451,7 @@ export const useNotifications = (students: Student[], refetchData: () => void) =
       console.error('Enrollment confirmation error:', error);
       toast({
         title: "Error",
-        description: "Failed to send enrollment confirmations",
+        description: error instanceof Error ? error.message : "Failed to send enrollment confirmations",
         variant: "destructive"
       });
     } finally {
@@ -450,130 +459,6 @@ export const useNotifications = (students: Student[], refetchData: () => void) =
     }
   }, [students, toast]);
 
-  // Publish all results with notifications
-  const publishAllResults = useCallback(async (filters: NotificationFilters = {}): Promise<void> => {
-    setNotificationLoading(true);
-    
-    try {
-      // Get unpublished results
-      let query = supabase
-        .from('results')
-        .select(`
-          *,
-          students!inner(id, student_id, first_name, last_name, email, phone, department, level),
-          courses!inner(course_code, course_title)
-        `)
-        .eq('status', 'draft');
-
-      // Apply filters
-      if (filters.semester) {
-        query = query.eq('semester', filters.semester);
-      }
-      if (filters.academicYear) {
-        query = query.eq('academic_year', filters.academicYear);
-      }
-      if (filters.department) {
-        query = query.eq('students.department', filters.department);
-      }
-      if (filters.level) {
-        query = query.eq('students.level', filters.level);
-      }
-
-      const { data: results, error } = await query;
-      
-      if (error) throw error;
-      
-      if (!results || results.length === 0) {
-        toast({
-          title: "No Results to Publish",
-          description: "No unpublished results found matching the criteria.",
-          variant: "destructive"
-        });
-        return;
-      }
-
-      // Update results status to published
-      const resultIds = results.map(r => r.id);
-      const { error: updateError } = await supabase
-        .from('results')
-        .update({ 
-          status: 'published',
-          published_at: new Date().toISOString() 
-        })
-        .in('id', resultIds);
-
-      if (updateError) throw updateError;
-
-      // Send notifications to students using the new NotificationService pattern
-      const { data: smsResult, error: smsError } = await supabase.functions.invoke('send-notifications', {
-        body: {
-          type: 'result_published'
-        }
-      });
-
-      if (smsError) {
-        console.error('SMS notification error:', smsError);
-      }
-
-      // Get unique students
-      const uniqueStudents = new Map();
-      results.forEach(result => {
-        if (!uniqueStudents.has(result.students.id)) {
-          uniqueStudents.set(result.students.id, result.students);
-        }
-      });
-
-      const studentsArray = Array.from(uniqueStudents.values());
-      
-      // Send email notifications
-      let emailsSent = 0;
-      const emailErrors: string[] = [];
-
-      const emailResults = await Promise.allSettled(
-        studentsArray.map(student => {
-          const message = `Dear ${student.first_name} ${student.last_name},\n\nYour academic results have been published and are now available for viewing.\n\nPlease log in to the student portal to check your results.\n\nBest regards,\nAcademic Office`;
-          return sendEmail(student, "Results Published", message);
-        })
-      );
-
-      emailResults.forEach((result, index) => {
-        if (result.status === 'fulfilled' && result.value) {
-          emailsSent++;
-        } else {
-          emailErrors.push(`Email failed for ${studentsArray[index].first_name} ${studentsArray[index].last_name}`);
-        }
-      });
-
-      // Create notification records
-      await Promise.all(
-        studentsArray.map(student => createNotification(student.id, "Results Published", 
-          `Dear ${student.first_name} ${student.last_name},\n\nYour academic results have been published and are now available for viewing.\n\nPlease log in to the student portal to check your results.\n\nBest regards,\nAcademic Office`, 'result'))
-      );
-
-      const smsSent = smsResult?.results?.smsSent || 0;
-      const totalSent = emailsSent + smsSent;
-      const totalErrors = emailErrors.length + (smsResult?.results?.errors?.length || 0);
-
-      toast({
-        title: "Results Published",
-        description: `Published ${results.length} results. Sent ${totalSent} notifications (${emailsSent} emails, ${smsSent} SMS). ${totalErrors > 0 ? `${totalErrors} notifications failed.` : ''}`,
-        variant: totalErrors > 0 ? "destructive" : "default"
-      });
-
-      refetchData();
-
-    } catch (error) {
-      console.error('Publish results error:', error);
-      toast({
-        title: "Error",
-        description: "Failed to publish results",
-        variant: "destructive"
-      });
-    } finally {
-      setNotificationLoading(false);
-    }
-  }, [refetchData, toast]);
-
   // Get notifications for a student
   const getStudentNotifications = useCallback(async (studentId: string): Promise<NotificationData[]> => {
     try {
@@ -610,7 +495,6 @@ export const useNotifications = (students: Student[], refetchData: () => void) =
     sendCustomNotification,
     sendTestNotification,
     sendEnrollmentConfirmations,
-    publishAllResults,
     getStudentNotifications,
     markNotificationsAsRead,
   };
@@ -0,0 +1,95 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { AmendedScores } from '@/services/resultAmendmentService';
+import { RemarkRequestService, RemarkRequestWithDetails } from '@/services/remarkRequestService';
+
+interface RemarkRequestsState {
+  requests: RemarkRequestWithDetails[];
+  loading: boolean;
+  error: string | null;
+}
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+export const useRemarkRequests = (onResultsChanged?: () => void) => {
+  const [state, setState] = useState<RemarkRequestsState>({
+    requests: [],
+    loading: true,
+    error: null
+  });
+
+  const { toast } = useToast();
+
+  const fetchData = useCallback(async (showLoading = true) => {
+    if (showLoading) {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+    }
+
+    try {
+      const requests = await RemarkRequestService.getQueue();
+      setState({ requests, loading: false, error: null });
+    } catch (error) {
+      const message = getErrorMessage(error, 'Failed to load remark requests');
+      setState(prev => ({ ...prev, loading: false, error: message }));
+      toast({
+        title: 'Error',
+        description: message,
+        variant: 'destructive'
+      });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  // Each action reports success so the screen can close its dialog
+  const runAction = useCallback(async (action: () => Promise<unknown>, success: string, failure: string) => {
+    try {
+      await action();
+      toast({ title: 'Success', description: success });
+      await fetchData(false);
+      return true;
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: getErrorMessage(error, failure),
+        variant: 'destructive'
+      });
+      return false;
+    }
+  }, [fetchData, toast]);
+
+  const startReview = useCallback((request: RemarkRequestWithDetails) =>
+    runAction(
+      () => RemarkRequestService.startReview(request),
+      'The request is now under review and the student has been told.',
+      'Failed to start review'
+    ), [runAction]);
+
+  const uphold = useCallback((request: RemarkRequestWithDetails, response: string) =>
+    runAction(
+      () => RemarkRequestService.uphold(request, response),
+      'The original result stands and the student has been told.',
+      'Failed to close the request'
+    ), [runAction]);
+
+  const revise = useCallback(async (request: RemarkRequestWithDetails, scores: AmendedScores, response: string) => {
+    const revised = await runAction(
+      () => RemarkRequestService.revise(request, scores, response),
+      'The result was amended and the student has been told.',
+      'Failed to revise the result'
+    );
+    if (revised) onResultsChanged?.();
+    return revised;
+  }, [runAction, onResultsChanged]);
+
+  return {
+    ...state,
+    refetch: fetchData,
+    startReview,
+    uphold,
+    revise
+  };
+};
@@ -1,5 +1,6 @@
 import { useState, useCallback, useEffect } from 'react';
 import { SMSService } from '@/services/smsService';
+import { NotificationService } from '@/services/notificationService';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 
@@ -20,11 +21,14 @@ interface SMSRecord {
   student_id: string;
   phone_number: string;
   message: string;
-  status: 'pending' | 'sent' | 'failed' | 'retry';
+  status: 'pending' | 'sending' | 'sent' | 'failed' | 'retry';
   attempts: number;
   last_attempt: string;
   error_message?: string;
   sid?: string;
+  provider?: string;
+  delivery_status?: string | null;
+  delivered_at?: string | null;
   created_at: string;
   students?: {
     first_name: string;
@@ -38,7 +42,10 @@ interface SMSStatistics {
   sent: number;
   failed: number;
   pending: number;
+  sending: number;
   retry: number;
+  delivered: number;
+  undelivered: number;
   successRate: number;
 }
 
@@ -104,7 +111,7 @@ export const useSMSManagement = () => {
     }
   }, []);
 
-  // Send SMS to single student
+  // Queue an SMS to a single student
   const sendSMSToStudent = useCallback(async (
     studentId: string,
     message: string
@@ -118,7 +125,7 @@ export const useSMSManagement = () => {
         throw new Error('Student not found');
       }
 
-      const result = await SMSService.sendSMSToStudent(
+      const result = await SMSService.queueSMS(
         studentId,
         student.phone,
         message
@@ -126,15 +133,15 @@ export const useSMSManagement = () => {
 
       if (result.success) {
         toast({
-          title: "SMS Sent",
-          description: `SMS sent successfully to ${student.first_name} ${student.last_name}`,
+          title: "SMS Queued",
+          description: `SMS to ${student.first_name} ${student.last_name} will be sent shortly`,
         });
         await loadSMSRecords();
         await loadStatistics();
       } else {
         toast({
           title: "SMS Failed",
-          description: result.error || "Failed to send SMS",
+          description: result.error || "Failed to queue SMS",
           variant: "destructive"
         });
       }
@@ -154,11 +161,10 @@ export const useSMSManagement = () => {
     }
   }, [students, toast, loadSMSRecords, loadStatistics]);
 
-  // Send bulk SMS
+  // Queue bulk SMS
   const sendBulkSMS = useCallback(async (
     studentIds: string[],
-    message: string,
-    onProgress?: (progress: { current: number; total: number; student: string }) => void
+    message: string
   ) => {
     setLoading(true);
     setError(null);
@@ -170,15 +176,13 @@ export const useSMSManagement = () => {
         throw new Error('No valid students selected');
       }
 
-      const result = await SMSService.sendBulkSMS(
-        targetStudents,
-        message,
-        onProgress
-      );
+      const result = await SMSService.queueBulkSMS(targetStudents, message);
 
       toast({
-        title: "Bulk SMS Complete",
-        description: `Sent ${result.sent} SMS, ${result.failed} failed out of ${result.total} total`,
+        title: "Bulk SMS Queued",
+        description: result.failed > 0
+          ? `Queued ${result.queued} SMS; ${result.failed} skipped for invalid phone numbers`
+          : `Queued ${result.queued} SMS. They will be sent in the background.`,
         variant: result.failed > 0 ? "destructive" : "default"
       });
 
@@ -210,8 +214,8 @@ export const useSMSManagement = () => {
       
       if (result.success) {
         toast({
-          title: "SMS Retry Successful",
-          description: "SMS has been resent successfully",
+          title: "SMS Queued for Retry",
+          description: "The SMS will be resent shortly",
         });
         await loadSMSRecords();
         await loadStatistics();
@@ -244,45 +248,26 @@ export const useSMSManagement = () => {
     setError(null);
 
     try {
-      const failedRecords = await SMSService.getFailedSMSRecords();
+      const result = await SMSService.retryFailedSMS();
       
-      if (failedRecords.length === 0) {
+      if (result.total === 0) {
         toast({
           title: "No Failed SMS",
           description: "No failed SMS records found to retry",
         });
-        return { total: 0, successful: 0, failed: 0, errors: [] };
-      }
-
-      let successful = 0;
-      let failed = 0;
-      const errors: string[] = [];
-
-      for (const record of failedRecords) {
-        const result = await SMSService.retrySMS(record.id);
-        if (result.success) {
-          successful++;
-        } else {
-          failed++;
-          if (result.error) {
-            errors.push(result.error);
-          }
-        }
-        
-        // Rate limiting
-        await new Promise(resolve => setTimeout(resolve, 1000));
+        return result;
       }
 
       toast({
         title: "Retry Complete",
-        description: `Retried ${failedRecords.length} SMS: ${successful} successful, ${failed} failed`,
-        variant: failed > 0 ? "destructive" : "default"
+        description: `Queued ${result.successful} of ${result.total} failed SMS for retry${result.failed > 0 ? `, ${result.failed} could not be retried` : ''}`,
+        variant: result.failed > 0 ? "destructive" : "default"
       });
 
       await loadSMSRecords();
       await loadStatistics();
 
-      return { total: failedRecords.length, successful, failed, errors };
+      return result;
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Unknown error';
       setError(errorMessage);
@@ -308,7 +293,7 @@ export const useSMSManagement = () => {
         throw new Error('Invalid phone number format');
       }
 
-      const result = await SMSService.sendSMS(formattedPhone, message);
+      const result = await NotificationService.testSMS(formattedPhone, message);
       
       if (result.success) {
         toast({
@@ -0,0 +1,132 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { GradingScaleService } from '@/services/gradingScaleService';
+import { ScoreEntry, ScoreSheetRow, ScoreSheetService } from '@/services/scoreSheetService';
+import { GradingScale, GradingScaleAssignment } from '@/lib/grading';
+
+interface ScoreSheetState {
+  rows: ScoreSheetRow[];
+  scales: GradingScale[];
+  scaleAssignments: GradingScaleAssignment[];
+  loading: boolean;
+  error: string | null;
+}
+
+const EMPTY_STATE: ScoreSheetState = {
+  rows: [],
+  scales: [],
+  scaleAssignments: [],
+  loading: false,
+  error: null
+};
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+// One offering's score sheet: the registered students, the lecturer's draft or submitted scores
+// and the grading scales used to preview grades
+export const useScoreSheet = (offeringId: string | null) => {
+  const [state, setState] = useState<ScoreSheetState>({ ...EMPTY_STATE, loading: true });
+  const [saving, setSaving] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  const { toast } = useToast();
+
+  const fetchData = useCallback(async (showLoading = true) => {
+    if (!offeringId) {
+      setState(EMPTY_STATE);
+      return;
+    }
+
+    if (showLoading) {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+    }
+
+    try {
+      // Grades are only a preview, so the sheet still opens if the scales cannot be read
+      const [rows, scales, scaleAssignments] = await Promise.all([
+        ScoreSheetService.getSheet(offeringId),
+        GradingScaleService.getScales().catch(() => []),
+        GradingScaleService.getAssignments().catch(() => [])
+      ]);
+      setState({ rows, scales, scaleAssignments, loading: false, error: null });
+    } catch (error) {
+      const message = getErrorMessage(error, 'Failed to load the score sheet');
+      setState(prev => ({ ...prev, loading: false, error: message }));
+      toast({
+        title: 'Error',
+        description: message,
+        variant: 'destructive'
+      });
+    }
+  }, [offeringId, toast]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const saveDraft = useCallback(async (entries: ScoreEntry[], { silent = false } = {}) => {
+    if (!offeringId) return false;
+
+    setSaving(true);
+    try {
+      await ScoreSheetService.saveDraft(offeringId, entries);
+      if (!silent) {
+        toast({ title: 'Draft saved', description: 'Your scores are saved. Submit the sheet when it is complete.' });
+      }
+
+      // The saved scores become the new baseline without reloading the sheet mid-typing
+      const saved = new Map(entries.map(entry => [entry.student_id, entry]));
+      setState(prev => ({
+        ...prev,
+        rows: prev.rows.map(row => {
+          const entry = saved.get(row.student_id);
+          return entry ? { ...row, ca_score: entry.ca_score, exam_score: entry.exam_score } : row;
+        })
+      }));
+      return true;
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: getErrorMessage(error, 'Failed to save scores'),
+        variant: 'destructive'
+      });
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  }, [offeringId, toast]);
+
+  const submit = useCallback(async () => {
+    if (!offeringId) return false;
+
+    setSubmitting(true);
+    try {
+      const count = await ScoreSheetService.submit(offeringId);
+      toast({
+        title: 'Sheet submitted',
+        description: `${count} result${count === 1 ? '' : 's'} sent for HOD review.`
+      });
+      await fetchData(false);
+      return true;
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: getErrorMessage(error, 'Failed to submit the score sheet'),
+        variant: 'destructive'
+      });
+      return false;
+    } finally {
+      setSubmitting(false);
+    }
+  }, [offeringId, fetchData, toast]);
+
+  return {
+    ...state,
+    saving,
+    submitting,
+    refetch: fetchData,
+    saveDraft,
+    submit
+  };
+};
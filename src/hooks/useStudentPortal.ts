@@ -0,0 +1,148 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { StudentService, StudentResultWithCourse } from '@/services/studentService';
+import { useStudentAuth } from '@/contexts/StudentAuthContext';
+import { Tables } from '@/integrations/supabase/types';
+import { GradingScaleService } from '@/services/gradingScaleService';
+import { RemarkRequest, RemarkRequestService } from '@/services/remarkRequestService';
+import { CarryOver, CarryOverService } from '@/services/carryOverService';
+import { GradingScale } from '@/lib/grading';
+import { semesterRank, summarizeResults } from '@/lib/gpa';
+
+type Student = Tables<'students'>;
+type Notification = Tables<'notifications'>;
+
+interface StudentPortalState {
+  student: Student | null;
+  results: StudentResultWithCourse[];
+  notifications: Notification[];
+  remarkRequests: RemarkRequest[];
+  carryOvers: CarryOver[];
+  gradingScale: GradingScale | null;
+  loading: boolean;
+  error: string | null;
+}
+
+interface SemesterPerformance {
+  key: string;
+  label: string;
+  academicYear: string;
+  semester: string;
+  gpa: number;
+  cgpa: number;
+  creditUnits: number;
+}
+
+// Shorten "2023/2024" + "First Semester" to "2023/2024 1st" for chart labels
+const shortSemesterLabel = (academicYear: string, semester: string) => {
+  const rank = semesterRank(semester);
+  return `${academicYear} ${rank === 1 ? '1st' : rank === 2 ? '2nd' : semester}`;
+};
+
+export const useStudentPortal = () => {
+  const { user } = useStudentAuth();
+  const authUserId = user?.id;
+  const [state, setState] = useState<StudentPortalState>({
+    student: null,
+    results: [],
+    notifications: [],
+    remarkRequests: [],
+    carryOvers: [],
+    gradingScale: null,
+    loading: true,
+    error: null,
+  });
+
+  const fetchData = useCallback(async (showLoading = true) => {
+    if (showLoading) {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+    }
+
+    try {
+      if (!authUserId) {
+        setState({ student: null, results: [], notifications: [], remarkRequests: [], carryOvers: [], gradingScale: null, loading: false, error: null });
+        return;
+      }
+
+      const student = await StudentService.getStudentByAuthUserId(authUserId);
+
+      if (!student) {
+        setState({ student: null, results: [], notifications: [], remarkRequests: [], carryOvers: [], gradingScale: null, loading: false, error: null });
+        return;
+      }
+
+      const [results, notifications, remarkRequests, carryOvers, gradingScale] = await Promise.all([
+        StudentService.getPublishedResults(student.id),
+        StudentService.getStudentNotifications(student.id),
+        RemarkRequestService.getForStudent(student.id),
+        CarryOverService.getForStudent(student.id),
+        // Only needed for the class of degree, so a missing scale should not block the portal
+        GradingScaleService.getScaleFor(student.department, student.level, null).catch(() => null),
+      ]);
+
+      setState({ student, results, notifications, remarkRequests, carryOvers, gradingScale, loading: false, error: null });
+    } catch (error) {
+      console.error('Failed to load student portal data:', error);
+      setState(prev => ({
+        ...prev,
+        loading: false,
+        error: error instanceof Error ? error.message : 'Failed to load your records',
+      }));
+    }
+  }, [authUserId]);
+
+  // Semester GPAs, running CGPA, carry-overs and class of degree from the shared GPA engine
+  const summary = useMemo(
+    () => summarizeResults(state.results, { maxGradePoint: state.gradingScale?.max_grade_point }),
+    [state.results, state.gradingScale]
+  );
+
+  const performance = useMemo<SemesterPerformance[]>(() =>
+    summary.semesters.map(semester => ({
+      key: semester.key,
+      label: shortSemesterLabel(semester.academicYear, semester.semester),
+      academicYear: semester.academicYear,
+      semester: semester.semester,
+      gpa: semester.gpa,
+      cgpa: semester.cgpa,
+      creditUnits: semester.creditUnitsAttempted,
+    })),
+    [summary]
+  );
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const studentUuid = state.student?.id;
+
+  // Refresh when a new notification or result lands for this student
+  useEffect(() => {
+    if (!studentUuid) return;
+
+    const channel = supabase
+      .channel(`student_portal_${studentUuid}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'notifications', filter: `student_id=eq.${studentUuid}` },
+        () => fetchData(false)
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'results', filter: `student_id=eq.${studentUuid}` },
+        () => fetchData(false)
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [studentUuid, fetchData]);
+
+  return {
+    ...state,
+    summary,
+    performance,
+    refetch: fetchData,
+  };
+};
@@ -0,0 +1,43 @@
+// Holds the signed admin session token issued by the `admin-auth` edge function.
+// While set, database and edge function requests are sent with it instead of the
+// anon key, so RLS policies see the admin's id and role.
+
+const ADMIN_TOKEN_KEY = 'adminToken';
+
+let adminToken: string | null = null;
+
+export const getAdminToken = () => adminToken;
+
+export const setAdminToken = (token: string | null) => {
+  adminToken = token;
+  if (token) {
+    localStorage.setItem(ADMIN_TOKEN_KEY, token);
+  } else {
+    localStorage.removeItem(ADMIN_TOKEN_KEY);
+  }
+};
+
+export const getStoredAdminToken = () => localStorage.getItem(ADMIN_TOKEN_KEY);
+
+// Read the claims of a token without verifying it; the server re-verifies on every request
+export const decodeAdminToken = (token: string): { sub: string; admin_role: string; exp: number } | null => {
+  try {
+    const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    return JSON.parse(atob(payload));
+  } catch {
+    return null;
+  }
+};
+
+export const adminAwareFetch: typeof fetch = (input, init) => {
+  const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+
+  // Supabase Auth endpoints keep their own session handling for student accounts
+  if (!adminToken || url.includes('/auth/v1/')) {
+    return fetch(input, init);
+  }
+
+  const headers = new Headers(init?.headers);
+  headers.set('Authorization', `Bearer ${adminToken}`);
+  return fetch(input, { ...init, headers });
+};
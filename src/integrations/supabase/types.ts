@@ -9,6 +9,78 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      academic_sessions: {
+        Row: {
+          created_at: string
+          end_date: string
+          id: string
+          is_current: boolean
+          name: string
+          start_date: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          end_date: string
+          id?: string
+          is_current?: boolean
+          name: string
+          start_date: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          end_date?: string
+          id?: string
+          is_current?: boolean
+          name?: string
+          start_date?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      admin_audit_log: {
+        Row: {
+          action: string
+          actor_id: string | null
+          created_at: string
+          details: Json
+          id: string
+          target_admin_id: string | null
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          created_at?: string
+          details?: Json
+          id?: string
+          target_admin_id?: string | null
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          created_at?: string
+          details?: Json
+          id?: string
+          target_admin_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "admin_audit_log_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "admin_users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "admin_audit_log_target_admin_id_fkey"
+            columns: ["target_admin_id"]
+            isOneToOne: false
+            referencedRelation: "admin_users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       admin_users: {
         Row: {
           created_at: string
@@ -17,6 +89,7 @@ export type Database = {
           id: string
           is_active: boolean
           last_login: string | null
+          must_reset_password: boolean
           password_hash: string
           role: string
         }
@@ -27,6 +100,7 @@ export type Database = {
           id?: string
           is_active?: boolean
           last_login?: string | null
+          must_reset_password?: boolean
           password_hash: string
           role?: string
         }
@@ -37,11 +111,141 @@ export type Database = {
           id?: string
           is_active?: boolean
           last_login?: string | null
+          must_reset_password?: boolean
           password_hash?: string
           role?: string
         }
         Relationships: []
       }
+      course_assignments: {
+        Row: {
+          admin_user_id: string
+          assigned_by: string | null
+          created_at: string
+          id: string
+          offering_id: string
+        }
+        Insert: {
+          admin_user_id: string
+          assigned_by?: string | null
+          created_at?: string
+          id?: string
+          offering_id: string
+        }
+        Update: {
+          admin_user_id?: string
+          assigned_by?: string | null
+          created_at?: string
+          id?: string
+          offering_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "course_assignments_offering_id_fkey"
+            columns: ["offering_id"]
+            isOneToOne: false
+            referencedRelation: "course_offerings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "course_assignments_admin_user_id_fkey"
+            columns: ["admin_user_id"]
+            isOneToOne: false
+            referencedRelation: "admin_users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "course_assignments_assigned_by_fkey"
+            columns: ["assigned_by"]
+            isOneToOne: false
+            referencedRelation: "admin_users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      course_credit_limits: {
+        Row: {
+          level: string
+          max_units: number
+          min_units: number
+          updated_at: string
+        }
+        Insert: {
+          level: string
+          max_units: number
+          min_units: number
+          updated_at?: string
+        }
+        Update: {
+          level?: string
+          max_units?: number
+          min_units?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      course_offerings: {
+        Row: {
+          academic_year: string
+          course_id: string
+          created_at: string
+          id: string
+        }
+        Insert: {
+          academic_year: string
+          course_id: string
+          created_at?: string
+          id?: string
+        }
+        Update: {
+          academic_year?: string
+          course_id?: string
+          created_at?: string
+          id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "course_offerings_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      course_prerequisites: {
+        Row: {
+          course_id: string
+          created_at: string
+          prerequisite_id: string
+        }
+        Insert: {
+          course_id: string
+          created_at?: string
+          prerequisite_id: string
+        }
+        Update: {
+          course_id?: string
+          created_at?: string
+          prerequisite_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "course_prerequisites_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "course_prerequisites_prerequisite_id_fkey"
+            columns: ["prerequisite_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       courses: {
         Row: {
           course_code: string
@@ -81,6 +285,109 @@ export type Database = {
         }
         Relationships: []
       }
+      grading_scale_assignments: {
+        Row: {
+          academic_year: string | null
+          created_at: string
+          department: string | null
+          id: string
+          level: string | null
+          scale_id: string
+        }
+        Insert: {
+          academic_year?: string | null
+          created_at?: string
+          department?: string | null
+          id?: string
+          level?: string | null
+          scale_id: string
+        }
+        Update: {
+          academic_year?: string | null
+          created_at?: string
+          department?: string | null
+          id?: string
+          level?: string | null
+          scale_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "grading_scale_assignments_scale_id_fkey"
+            columns: ["scale_id"]
+            isOneToOne: false
+            referencedRelation: "grading_scales"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      grading_scale_bands: {
+        Row: {
+          grade_point: number
+          id: string
+          letter: string
+          min_score: number
+          remark: string | null
+          scale_id: string
+        }
+        Insert: {
+          grade_point: number
+          id?: string
+          letter: string
+          min_score: number
+          remark?: string | null
+          scale_id: string
+        }
+        Update: {
+          grade_point?: number
+          id?: string
+          letter?: string
+          min_score?: number
+          remark?: string | null
+          scale_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "grading_scale_bands_scale_id_fkey"
+            columns: ["scale_id"]
+            isOneToOne: false
+            referencedRelation: "grading_scales"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      grading_scales: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          is_default: boolean
+          max_grade_point: number
+          name: string
+          pass_mark: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_default?: boolean
+          max_grade_point?: number
+          name: string
+          pass_mark?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_default?: boolean
+          max_grade_point?: number
+          name?: string
+          pass_mark?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
       notifications: {
         Row: {
           created_at: string
@@ -122,118 +429,616 @@ export type Database = {
           },
         ]
       }
-      results: {
+      remark_requests: {
         Row: {
-          academic_year: string
-          ca_score: number | null
-          course_id: string
+          admin_response: string | null
+          amendment_id: string | null
           created_at: string
-          exam_score: number | null
-          grade: string | null
-          grade_point: number | null
+          handled_by: string | null
+          handled_by_name: string | null
           id: string
-          published_at: string | null
-          semester: string
+          reason: string
+          resolved_at: string | null
+          result_id: string
           status: string
           student_id: string
-          total_score: number | null
           updated_at: string
         }
         Insert: {
-          academic_year: string
-          ca_score?: number | null
-          course_id: string
+          admin_response?: string | null
+          amendment_id?: string | null
           created_at?: string
-          exam_score?: number | null
-          grade?: string | null
-          grade_point?: number | null
+          handled_by?: string | null
+          handled_by_name?: string | null
           id?: string
-          published_at?: string | null
-          semester: string
+          reason: string
+          resolved_at?: string | null
+          result_id: string
           status?: string
           student_id: string
-          total_score?: number | null
           updated_at?: string
         }
         Update: {
-          academic_year?: string
-          ca_score?: number | null
-          course_id?: string
+          admin_response?: string | null
+          amendment_id?: string | null
           created_at?: string
-          exam_score?: number | null
-          grade?: string | null
-          grade_point?: number | null
+          handled_by?: string | null
+          handled_by_name?: string | null
           id?: string
-          published_at?: string | null
-          semester?: string
+          reason?: string
+          resolved_at?: string | null
+          result_id?: string
           status?: string
           student_id?: string
-          total_score?: number | null
           updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "results_student_id_fkey"
+            foreignKeyName: "remark_requests_result_id_fkey"
+            columns: ["result_id"]
+            isOneToOne: false
+            referencedRelation: "results"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "remark_requests_student_id_fkey"
             columns: ["student_id"]
             isOneToOne: false
             referencedRelation: "students"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "results_course_id_fkey"
-            columns: ["course_id"]
+            foreignKeyName: "remark_requests_amendment_id_fkey"
+            columns: ["amendment_id"]
             isOneToOne: false
-            referencedRelation: "courses"
+            referencedRelation: "result_amendments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "remark_requests_handled_by_fkey"
+            columns: ["handled_by"]
+            isOneToOne: false
+            referencedRelation: "admin_users"
             referencedColumns: ["id"]
           },
         ]
       }
-      student_courses: {
+      result_amendments: {
         Row: {
-          course_id: string
-          enrollment_date: string
+          after_ca_score: number | null
+          after_exam_score: number | null
+          after_grade: string | null
+          after_grade_point: number | null
+          after_total_score: number | null
+          amended_by: string | null
+          amended_by_name: string | null
+          before_ca_score: number | null
+          before_exam_score: number | null
+          before_grade: string | null
+          before_grade_point: number | null
+          before_total_score: number | null
+          created_at: string
           id: string
-          status: string
-          student_id: string
+          reason: string
+          result_id: string
+          result_status: string
+          version: number
         }
         Insert: {
-          course_id: string
-          enrollment_date?: string
+          after_ca_score?: number | null
+          after_exam_score?: number | null
+          after_grade?: string | null
+          after_grade_point?: number | null
+          after_total_score?: number | null
+          amended_by?: string | null
+          amended_by_name?: string | null
+          before_ca_score?: number | null
+          before_exam_score?: number | null
+          before_grade?: string | null
+          before_grade_point?: number | null
+          before_total_score?: number | null
+          created_at?: string
           id?: string
-          status?: string
-          student_id: string
+          reason: string
+          result_id: string
+          result_status: string
+          version: number
         }
         Update: {
-          course_id?: string
-          enrollment_date?: string
+          after_ca_score?: number | null
+          after_exam_score?: number | null
+          after_grade?: string | null
+          after_grade_point?: number | null
+          after_total_score?: number | null
+          amended_by?: string | null
+          amended_by_name?: string | null
+          before_ca_score?: number | null
+          before_exam_score?: number | null
+          before_grade?: string | null
+          before_grade_point?: number | null
+          before_total_score?: number | null
+          created_at?: string
           id?: string
-          status?: string
-          student_id?: string
+          reason?: string
+          result_id?: string
+          result_status?: string
+          version?: number
         }
         Relationships: [
           {
-            foreignKeyName: "student_courses_student_id_fkey"
-            columns: ["student_id"]
+            foreignKeyName: "result_amendments_result_id_fkey"
+            columns: ["result_id"]
             isOneToOne: false
-            referencedRelation: "students"
+            referencedRelation: "results"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "student_courses_course_id_fkey"
-            columns: ["course_id"]
+            foreignKeyName: "result_amendments_amended_by_fkey"
+            columns: ["amended_by"]
             isOneToOne: false
-            referencedRelation: "courses"
+            referencedRelation: "admin_users"
             referencedColumns: ["id"]
           },
         ]
       }
-      students: {
+      result_status_history: {
         Row: {
-          cgpa: number | null
+          action: string
+          actor_id: string | null
+          actor_name: string | null
+          comment: string | null
           created_at: string
-          department: string
-          email: string
-          first_name: string
+          from_status: string
+          id: string
+          result_id: string
+          to_status: string
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          actor_name?: string | null
+          comment?: string | null
+          created_at?: string
+          from_status: string
+          id?: string
+          result_id: string
+          to_status: string
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          actor_name?: string | null
+          comment?: string | null
+          created_at?: string
+          from_status?: string
+          id?: string
+          result_id?: string
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "result_status_history_result_id_fkey"
+            columns: ["result_id"]
+            isOneToOne: false
+            referencedRelation: "results"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "result_status_history_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "admin_users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      results: {
+        Row: {
+          academic_year: string
+          approved_at: string | null
+          approved_by: string | null
+          ca_score: number | null
+          course_id: string
+          created_at: string
+          exam_score: number | null
+          grade: string | null
+          grade_point: number | null
+          id: string
+          published_at: string | null
+          published_by: string | null
+          rejection_comment: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          semester: string
+          status: string
+          student_id: string
+          total_score: number | null
+          updated_at: string
+        }
+        Insert: {
+          academic_year: string
+          approved_at?: string | null
+          approved_by?: string | null
+          ca_score?: number | null
+          course_id: string
+          created_at?: string
+          exam_score?: number | null
+          grade?: string | null
+          grade_point?: number | null
+          id?: string
+          published_at?: string | null
+          published_by?: string | null
+          rejection_comment?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          semester: string
+          status?: string
+          student_id: string
+          total_score?: number | null
+          updated_at?: string
+        }
+        Update: {
+          academic_year?: string
+          approved_at?: string | null
+          approved_by?: string | null
+          ca_score?: number | null
+          course_id?: string
+          created_at?: string
+          exam_score?: number | null
+          grade?: string | null
+          grade_point?: number | null
+          id?: string
+          published_at?: string | null
+          published_by?: string | null
+          rejection_comment?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          semester?: string
+          status?: string
+          student_id?: string
+          total_score?: number | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "results_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "results_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      role_permissions: {
+        Row: {
+          created_at: string
+          permission: string
+          role: string
+        }
+        Insert: {
+          created_at?: string
+          permission: string
+          role: string
+        }
+        Update: {
+          created_at?: string
+          permission?: string
+          role?: string
+        }
+        Relationships: []
+      }
+      score_sheet_entries: {
+        Row: {
+          ca_score: number | null
+          exam_score: number | null
+          sheet_id: string
+          student_id: string
+          updated_at: string
+        }
+        Insert: {
+          ca_score?: number | null
+          exam_score?: number | null
+          sheet_id: string
+          student_id: string
+          updated_at?: string
+        }
+        Update: {
+          ca_score?: number | null
+          exam_score?: number | null
+          sheet_id?: string
+          student_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "score_sheet_entries_sheet_id_fkey"
+            columns: ["sheet_id"]
+            isOneToOne: false
+            referencedRelation: "score_sheets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "score_sheet_entries_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      score_sheets: {
+        Row: {
+          created_at: string
+          id: string
+          offering_id: string
+          status: string
+          submitted_at: string | null
+          submitted_by: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          offering_id: string
+          status?: string
+          submitted_at?: string | null
+          submitted_by?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          offering_id?: string
+          status?: string
+          submitted_at?: string | null
+          submitted_by?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "score_sheets_offering_id_fkey"
+            columns: ["offering_id"]
+            isOneToOne: true
+            referencedRelation: "course_offerings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "score_sheets_submitted_by_fkey"
+            columns: ["submitted_by"]
+            isOneToOne: false
+            referencedRelation: "admin_users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      semesters: {
+        Row: {
+          academic_year: string
+          created_at: string
+          end_date: string
+          id: string
+          name: string
+          registration_closes_at: string | null
+          registration_opens_at: string | null
+          result_entry_closes_at: string | null
+          result_entry_opens_at: string | null
+          start_date: string
+          updated_at: string
+        }
+        Insert: {
+          academic_year: string
+          created_at?: string
+          end_date: string
+          id?: string
+          name: string
+          registration_closes_at?: string | null
+          registration_opens_at?: string | null
+          result_entry_closes_at?: string | null
+          result_entry_opens_at?: string | null
+          start_date: string
+          updated_at?: string
+        }
+        Update: {
+          academic_year?: string
+          created_at?: string
+          end_date?: string
+          id?: string
+          name?: string
+          registration_closes_at?: string | null
+          registration_opens_at?: string | null
+          result_entry_closes_at?: string | null
+          result_entry_opens_at?: string | null
+          start_date?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "semesters_academic_year_fkey"
+            columns: ["academic_year"]
+            isOneToOne: false
+            referencedRelation: "academic_sessions"
+            referencedColumns: ["name"]
+          },
+        ]
+      }
+      sms_records: {
+        Row: {
+          attempts: number
+          created_at: string | null
+          delivered_at: string | null
+          delivery_status: string | null
+          delivery_updated_at: string | null
+          error_message: string | null
+          id: string
+          last_attempt: string | null
+          locked_at: string | null
+          locked_by: string | null
+          message: string
+          next_attempt_at: string
+          phone_number: string
+          provider: string | null
+          sid: string | null
+          status: string
+          student_id: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string | null
+          delivered_at?: string | null
+          delivery_status?: string | null
+          delivery_updated_at?: string | null
+          error_message?: string | null
+          id?: string
+          last_attempt?: string | null
+          locked_at?: string | null
+          locked_by?: string | null
+          message: string
+          next_attempt_at?: string
+          phone_number: string
+          provider?: string | null
+          sid?: string | null
+          status?: string
+          student_id?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          attempts?: number
+          created_at?: string | null
+          delivered_at?: string | null
+          delivery_status?: string | null
+          delivery_updated_at?: string | null
+          error_message?: string | null
+          id?: string
+          last_attempt?: string | null
+          locked_at?: string | null
+          locked_by?: string | null
+          message?: string
+          next_attempt_at?: string
+          phone_number?: string
+          provider?: string | null
+          sid?: string | null
+          status?: string
+          student_id?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sms_records_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sms_status_events: {
+        Row: {
+          error_code: string | null
+          id: string
+          occurred_at: string
+          payload: Json | null
+          provider: string
+          provider_status: string | null
+          received_at: string
+          sms_record_id: string
+          status: string
+        }
+        Insert: {
+          error_code?: string | null
+          id?: string
+          occurred_at?: string
+          payload?: Json | null
+          provider: string
+          provider_status?: string | null
+          received_at?: string
+          sms_record_id: string
+          status: string
+        }
+        Update: {
+          error_code?: string | null
+          id?: string
+          occurred_at?: string
+          payload?: Json | null
+          provider?: string
+          provider_status?: string | null
+          received_at?: string
+          sms_record_id?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sms_status_events_sms_record_id_fkey"
+            columns: ["sms_record_id"]
+            isOneToOne: false
+            referencedRelation: "sms_records"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      student_courses: {
+        Row: {
+          academic_year: string
+          course_id: string
+          enrollment_date: string
+          id: string
+          registered_by: string | null
+          semester: string
+          status: string
+          student_id: string
+        }
+        Insert: {
+          academic_year: string
+          course_id: string
+          enrollment_date?: string
+          id?: string
+          registered_by?: string | null
+          semester: string
+          status?: string
+          student_id: string
+        }
+        Update: {
+          academic_year?: string
+          course_id?: string
+          enrollment_date?: string
+          id?: string
+          registered_by?: string | null
+          semester?: string
+          status?: string
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "student_courses_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "student_courses_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      students: {
+        Row: {
+          auth_user_id: string | null
+          cgpa: number | null
+          created_at: string
+          department: string
+          email: string
+          first_name: string
           id: string
           last_name: string
           level: string
@@ -242,6 +1047,7 @@ export type Database = {
           student_id: string
         }
         Insert: {
+          auth_user_id?: string | null
           cgpa?: number | null
           created_at?: string
           department: string
@@ -255,6 +1061,7 @@ export type Database = {
           student_id: string
         }
         Update: {
+          auth_user_id?: string | null
           cgpa?: number | null
           created_at?: string
           department?: string
@@ -271,12 +1078,303 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      carry_overs: {
+        Row: {
+          attempts: number | null
+          course_id: string | null
+          last_academic_year: string | null
+          last_grade: string | null
+          last_semester: string | null
+          last_total_score: number | null
+          student_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "results_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "results_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
-      calculate_student_cgpa: {
+      admin_has_permission: {
+        Args: {
+          p_permission: string
+        }
+        Returns: boolean
+      }
+      amend_result: {
+        Args: {
+          p_result_id: string
+          p_ca_score: number
+          p_exam_score: number
+          p_reason: string
+        }
+        Returns: Database["public"]["Tables"]["result_amendments"]["Row"]
+      }
+      claim_sms_records: {
+        Args: {
+          p_worker: string
+          p_limit?: number
+          p_stale_after?: unknown
+        }
+        Returns: {
+          attempts: number
+          created_at: string | null
+          delivered_at: string | null
+          delivery_status: string | null
+          delivery_updated_at: string | null
+          error_message: string | null
+          id: string
+          last_attempt: string | null
+          locked_at: string | null
+          locked_by: string | null
+          message: string
+          next_attempt_at: string
+          phone_number: string
+          provider: string | null
+          sid: string | null
+          status: string
+          student_id: string | null
+          updated_at: string | null
+        }[]
+      }
+      copy_course_catalogue: {
+        Args: {
+          p_department: string
+          p_from_year: string
+          p_to_year: string
+          p_include_lecturers?: boolean
+        }
+        Returns: number
+      }
+      find_student_conflicts: {
+        Args: {
+          p_student_ids: string[]
+          p_emails: string[]
+        }
+        Returns: {
+          student_id: string
+          email: string
+        }[]
+      }
+      get_assignable_staff: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          id: string
+          full_name: string
+          email: string
+          role: string
+        }[]
+      }
+      get_lecturer_courses: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          offering_id: string
+          course_id: string
+          academic_year: string
+          course_code: string
+          course_title: string
+          credit_units: number
+          department: string
+          level: string
+          semester: string
+          sheet_status: string
+          submitted_at: string | null
+          student_count: number
+        }[]
+      }
+      get_score_sheet: {
+        Args: {
+          p_offering_id: string
+        }
+        Returns: {
+          student_id: string
+          matric_number: string
+          first_name: string
+          last_name: string
+          department: string
+          level: string
+          ca_score: number | null
+          exam_score: number | null
+          result_status: string | null
+          rejection_comment: string | null
+        }[]
+      }
+      grade_for_score: {
+        Args: {
+          p_scale_id: string
+          p_score: number
+        }
+        Returns: {
+          grade_point: number
+          id: string
+          letter: string
+          min_score: number
+          remark: string | null
+          scale_id: string
+        }
+      }
+      import_results: {
+        Args: {
+          p_rows: Json
+        }
+        Returns: number
+      }
+      is_offering_lecturer: {
+        Args: {
+          p_offering_id: string
+        }
+        Returns: boolean
+      }
+      record_sms_attempt: {
+        Args: {
+          p_record_id: string
+          p_worker: string
+          p_status: string
+          p_error?: string
+          p_sid?: string
+          p_provider?: string
+          p_retry_at?: string
+        }
+        Returns: {
+          attempts: number
+          created_at: string | null
+          delivered_at: string | null
+          delivery_status: string | null
+          delivery_updated_at: string | null
+          error_message: string | null
+          id: string
+          last_attempt: string | null
+          locked_at: string | null
+          locked_by: string | null
+          message: string
+          next_attempt_at: string
+          phone_number: string
+          provider: string | null
+          sid: string | null
+          status: string
+          student_id: string | null
+          updated_at: string | null
+        }
+      }
+      record_sms_delivery_status: {
+        Args: {
+          p_provider: string
+          p_sid: string
+          p_status: string
+          p_provider_status?: string
+          p_error_code?: string
+          p_occurred_at?: string
+          p_payload?: Json
+        }
+        Returns: string
+      }
+      regrade_unpublished_results: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      register_courses: {
+        Args: {
+          p_student_id: string
+          p_academic_year: string
+          p_semester: string
+          p_course_ids: string[]
+        }
+        Returns: number
+      }
+      registration_window_open: {
+        Args: {
+          p_academic_year: string
+          p_semester: string
+        }
+        Returns: boolean
+      }
+      resolve_grading_scale: {
+        Args: {
+          p_academic_year: string
+          p_department: string
+          p_level: string
+        }
+        Returns: string
+      }
+      result_entry_open: {
+        Args: {
+          p_academic_year: string
+          p_semester: string
+        }
+        Returns: boolean
+      }
+      retry_sms_records: {
+        Args: {
+          p_record_ids?: string[]
+        }
+        Returns: {
+          id: string
+          queued: boolean
+          reason: string
+        }[]
+      }
+      save_score_sheet: {
+        Args: {
+          p_offering_id: string
+          p_rows: Json
+        }
+        Returns: number
+      }
+      set_current_session: {
+        Args: {
+          p_name: string
+        }
+        Returns: undefined
+      }
+      set_remark_request_status: {
+        Args: {
+          p_request_id: string
+          p_status: string
+          p_response?: string
+          p_amendment_id?: string
+        }
+        Returns: Database["public"]["Tables"]["remark_requests"]["Row"]
+      }
+      sms_delivery_rank: {
+        Args: {
+          p_status: string
+        }
+        Returns: number
+      }
+      sms_max_attempts: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      submit_remark_request: {
+        Args: {
+          p_result_id: string
+          p_reason: string
+        }
+        Returns: Database["public"]["Tables"]["remark_requests"]["Row"]
+      }
+      submit_score_sheet: {
+        Args: {
+          p_offering_id: string
+        }
+        Returns: number
+      }
+      transition_results: {
         Args: {
-          student_uuid: string
+          p_result_ids: string[]
+          p_action: string
+          p_comment?: string
         }
         Returns: number
       }
@@ -0,0 +1,115 @@
+import { jsPDF } from 'jspdf';
+import { autoTable } from 'jspdf-autotable';
+import { Tables } from '@/integrations/supabase/types';
+import { INSTITUTION_NAME } from '@/lib/transcript';
+
+type CourseFormDocument = jsPDF & { lastAutoTable?: { finalY: number } };
+
+export interface CourseForm {
+  student: Pick<Tables<'students'>, 'student_id' | 'first_name' | 'last_name' | 'department' | 'level'>;
+  academicYear: string;
+  semester: string;
+  courses: Pick<Tables<'courses'>, 'course_code' | 'course_title' | 'credit_units'>[];
+  printedAt: Date;
+}
+
+const MARGIN = 14;
+const HEADER_COLOR: [number, number, number] = [22, 101, 52];
+
+export const courseFormFileName = (form: CourseForm) =>
+  `course-form-${form.student.student_id}-${form.academicYear}-${form.semester}`
+    .replace(/[^A-Za-z0-9-]+/g, '-')
+    .toLowerCase() + '.pdf';
+
+const drawHeader = (doc: CourseFormDocument, form: CourseForm) => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const { student } = form;
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  doc.text(INSTITUTION_NAME, pageWidth / 2, 18, { align: 'center' });
+  doc.setFontSize(12);
+  doc.text('COURSE REGISTRATION FORM', pageWidth / 2, 25, { align: 'center' });
+
+  doc.setDrawColor(...HEADER_COLOR);
+  doc.line(MARGIN, 29, pageWidth - MARGIN, 29);
+
+  doc.setFontSize(10);
+  const details: [string, string][] = [
+    ['Name', `${student.last_name.toUpperCase()}, ${student.first_name}`],
+    ['Matric No', student.student_id],
+    ['Department', student.department],
+    ['Level', student.level],
+    ['Session', `${form.academicYear} — ${form.semester}`],
+  ];
+  details.forEach(([label, value], index) => {
+    const y = 36 + index * 6;
+    doc.setFont('helvetica', 'bold');
+    doc.text(`${label}:`, MARGIN, y);
+    doc.setFont('helvetica', 'normal');
+    doc.text(value, MARGIN + 26, y);
+  });
+
+  doc.setFontSize(9);
+  doc.text(`Printed: ${form.printedAt.toLocaleDateString('en-GB')}`, pageWidth - MARGIN, 36, { align: 'right' });
+
+  return 70;
+};
+
+// Student, HOD and registry sign off the printed form
+const drawSignatures = (doc: CourseFormDocument, startY: number) => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const columnWidth = (pageWidth - MARGIN * 2) / 3;
+  let y = startY + 24;
+
+  if (y > doc.internal.pageSize.getHeight() - 30) {
+    doc.addPage();
+    y = MARGIN + 24;
+  }
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  ['Student', 'Head of Department', 'Registry'].forEach((label, index) => {
+    const x = MARGIN + index * columnWidth;
+    doc.line(x, y, x + columnWidth - 8, y);
+    doc.text(`${label} (signature & date)`, x, y + 5);
+  });
+};
+
+export const createCourseFormPdf = (form: CourseForm): jsPDF => {
+  const doc: CourseFormDocument = new jsPDF({ unit: 'mm', format: 'a4' });
+  const totalUnits = form.courses.reduce((sum, course) => sum + course.credit_units, 0);
+
+  autoTable(doc, {
+    startY: drawHeader(doc, form),
+    margin: { left: MARGIN, right: MARGIN },
+    theme: 'grid',
+    headStyles: { fillColor: HEADER_COLOR, fontSize: 9 },
+    footStyles: { fillColor: [240, 253, 244], textColor: 20, fontSize: 9 },
+    styles: { fontSize: 9, cellPadding: 2 },
+    columnStyles: {
+      0: { halign: 'center', cellWidth: 10 },
+      1: { cellWidth: 26 },
+      3: { halign: 'center', cellWidth: 16 },
+    },
+    head: [['S/N', 'Code', 'Course Title', 'Units']],
+    body: form.courses.map((course, index) => [
+      String(index + 1),
+      course.course_code,
+      course.course_title,
+      String(course.credit_units),
+    ]),
+    foot: [[
+      { content: `${form.courses.length} course${form.courses.length === 1 ? '' : 's'}`, colSpan: 3 },
+      { content: String(totalUnits), styles: { halign: 'center' } },
+    ]],
+    showFoot: 'lastPage',
+  });
+
+  drawSignatures(doc, doc.lastAutoTable?.finalY ?? 70);
+  return doc;
+};
+
+export const downloadCourseFormPdf = (form: CourseForm) => {
+  createCourseFormPdf(form).save(courseFormFileName(form));
+};
@@ -0,0 +1,86 @@
+export type RepeatPolicy = 'all' | 'latest' | 'best';
+
+export interface DegreeClass {
+  name: string;
+  minCgpa: number;
+}
+
+export interface GpaPolicy {
+  repeatPolicy: RepeatPolicy;
+  maxGradePoint: number;
+  decimals: number;
+  degreeClasses: DegreeClass[] | null;
+}
+
+// Any of the shapes results are loaded in: flattened, or joined as `course` or `courses`
+export interface GpaResultInput {
+  course_id?: string | null;
+  course_code?: string | null;
+  academic_year: string;
+  semester: string;
+  grade_point: number | null;
+  total_score?: number | null;
+  credit_units?: number | null;
+  course?: { id?: string; course_code?: string; credit_units?: number | null } | null;
+  courses?: { id?: string; course_code?: string; credit_units?: number | null } | null;
+}
+
+export interface GpaEntry {
+  courseId: string | null;
+  courseCode: string | null;
+  academicYear: string;
+  semester: string;
+  creditUnits: number;
+  gradePoint: number | null;
+  totalScore: number | null;
+}
+
+export interface SemesterSummary {
+  key: string;
+  academicYear: string;
+  semester: string;
+  courseCount: number;
+  creditUnitsAttempted: number;
+  creditUnitsPassed: number;
+  gradePoints: number;
+  gpa: number;
+  cgpa: number;
+}
+
+export interface CarryOver {
+  courseId: string | null;
+  courseCode: string | null;
+  creditUnits: number;
+  attempts: number;
+  lastAcademicYear: string;
+  lastSemester: string;
+}
+
+export interface AcademicSummary {
+  policy: GpaPolicy;
+  semesters: SemesterSummary[];
+  gpa: number;
+  cgpa: number;
+  totalGradePoints: number;
+  creditUnitsAttempted: number;
+  creditUnitsPassed: number;
+  courseCount: number;
+  carryOvers: CarryOver[];
+  repeatedCourseIds: (string | null)[];
+  classOfDegree: string | null;
+}
+
+export const REPEAT_POLICIES: RepeatPolicy[];
+export const DEFAULT_GPA_POLICY: Readonly<GpaPolicy>;
+export const DEGREE_CLASSES: Readonly<Record<4 | 5, DegreeClass[]>>;
+
+export function semesterRank(semester: string): number;
+export function compareTerms(
+  a: { academicYear: string; semester: string },
+  b: { academicYear: string; semester: string }
+): number;
+export function roundTo(value: number, decimals?: number): number;
+export function toGpaEntry(result: GpaResultInput): GpaEntry;
+export function resolveGpaPolicy(overrides?: Partial<GpaPolicy>): GpaPolicy;
+export function classOfDegree(cgpa: number, maxGradePoint?: number, degreeClasses?: DegreeClass[] | null): string;
+export function summarizeResults(results: GpaResultInput[], policyOverrides?: Partial<GpaPolicy>): AcademicSummary;
@@ -0,0 +1,199 @@
+// GPA/CGPA engine shared by the app and the Express SMS server.
+
+export const REPEAT_POLICIES = ['all', 'latest', 'best'];
+
+export const DEFAULT_GPA_POLICY = Object.freeze({
+  // 'all' counts every attempt, 'latest' only the most recent, 'best' the highest grade point
+  repeatPolicy: 'all',
+  maxGradePoint: 5,
+  decimals: 2,
+  degreeClasses: null,
+});
+
+// Lowest CGPA for each class, highest first
+export const DEGREE_CLASSES = Object.freeze({
+  5: [
+    { name: 'First Class Honours', minCgpa: 4.5 },
+    { name: 'Second Class Honours (Upper Division)', minCgpa: 3.5 },
+    { name: 'Second Class Honours (Lower Division)', minCgpa: 2.4 },
+    { name: 'Third Class Honours', minCgpa: 1.5 },
+    { name: 'Pass', minCgpa: 1.0 },
+  ],
+  4: [
+    { name: 'Distinction', minCgpa: 3.5 },
+    { name: 'Upper Credit', minCgpa: 3.0 },
+    { name: 'Lower Credit', minCgpa: 2.5 },
+    { name: 'Pass', minCgpa: 2.0 },
+  ],
+});
+
+const SEMESTER_ORDER = {
+  'First Semester': 1,
+  'Second Semester': 2,
+};
+
+export const semesterRank = (semester) => SEMESTER_ORDER[semester] ?? 99;
+
+// Oldest session first, then first semester before second
+export const compareTerms = (a, b) => {
+  const yearCompare = (a.academicYear || '').localeCompare(b.academicYear || '');
+  return yearCompare !== 0 ? yearCompare : semesterRank(a.semester) - semesterRank(b.semester);
+};
+
+const termKey = (entry) => `${entry.academicYear}|${entry.semester}`;
+
+const toNumber = (value) => {
+  if (value === null || value === undefined || value === '') return null;
+  const number = Number(value);
+  return isNaN(number) ? null : number;
+};
+
+export const roundTo = (value, decimals = DEFAULT_GPA_POLICY.decimals) => {
+  const factor = 10 ** decimals;
+  return Math.round((value + Number.EPSILON) * factor) / factor;
+};
+
+// Accepts result rows as the app and server load them: flattened, or with `course`/`courses` joined
+export const toGpaEntry = (result) => {
+  const course = result.course || result.courses || {};
+  return {
+    courseId: result.course_id ?? course.id ?? result.course_code ?? course.course_code ?? null,
+    courseCode: result.course_code ?? course.course_code ?? null,
+    academicYear: result.academic_year,
+    semester: result.semester,
+    creditUnits: toNumber(result.credit_units ?? course.credit_units) ?? 0,
+    gradePoint: toNumber(result.grade_point),
+    totalScore: toNumber(result.total_score),
+  };
+};
+
+export const resolveGpaPolicy = (overrides = {}) => {
+  const policy = { ...DEFAULT_GPA_POLICY };
+  Object.keys(overrides || {}).forEach(key => {
+    if (overrides[key] !== undefined) policy[key] = overrides[key];
+  });
+
+  if (!REPEAT_POLICIES.includes(policy.repeatPolicy)) {
+    throw new Error(`Unknown repeat policy "${policy.repeatPolicy}"`);
+  }
+
+  return policy;
+};
+
+// Every grading scale gives its fail band zero points, so any positive grade point is a pass
+const isPassed = (entry) => entry.gradePoint > 0;
+
+// Attempts that count towards CGPA under the repeat policy
+const countedAttempts = (entries, policy) => {
+  if (policy.repeatPolicy === 'all') return entries;
+
+  const chosen = new Map();
+  entries.forEach(entry => {
+    const current = chosen.get(entry.courseId);
+    // Entries are oldest first, so ties in 'best' go to the later attempt
+    const replace = !current
+      || policy.repeatPolicy === 'latest'
+      || entry.gradePoint >= current.gradePoint;
+    if (replace) chosen.set(entry.courseId, entry);
+  });
+
+  return entries.filter(entry => chosen.get(entry.courseId) === entry);
+};
+
+const weightedAverage = (entries) => {
+  const units = entries.reduce((sum, e) => sum + e.creditUnits, 0);
+  const points = entries.reduce((sum, e) => sum + e.gradePoint * e.creditUnits, 0);
+  return { units, points, average: units > 0 ? points / units : 0 };
+};
+
+export const classOfDegree = (cgpa, maxGradePoint = DEFAULT_GPA_POLICY.maxGradePoint, degreeClasses = null) => {
+  const classes = degreeClasses || (maxGradePoint <= 4 ? DEGREE_CLASSES[4] : DEGREE_CLASSES[5]);
+  return classes.find(c => cgpa >= c.minCgpa)?.name ?? 'Fail';
+};
+
+export const summarizeResults = (results, policyOverrides = {}) => {
+  const policy = resolveGpaPolicy(policyOverrides);
+
+  // Results without a grade point have not been graded yet and do not count
+  const entries = (results || [])
+    .map(toGpaEntry)
+    .filter(entry => entry.gradePoint !== null)
+    .sort(compareTerms);
+
+  const attemptsByCourse = new Map();
+  const attempts = entries.map(entry => {
+    const attempt = (attemptsByCourse.get(entry.courseId) || 0) + 1;
+    attemptsByCourse.set(entry.courseId, attempt);
+    return { ...entry, attempt, passed: isPassed(entry) };
+  });
+
+  const terms = [];
+  attempts.forEach(entry => {
+    const key = termKey(entry);
+    if (terms.length === 0 || terms[terms.length - 1].key !== key) {
+      terms.push({ key, academicYear: entry.academicYear, semester: entry.semester, entries: [] });
+    }
+    terms[terms.length - 1].entries.push(entry);
+  });
+
+  const semesters = terms.map((term, index) => {
+    const semester = weightedAverage(term.entries);
+    const toDate = terms.slice(0, index + 1).flatMap(t => t.entries);
+    const cumulative = weightedAverage(countedAttempts(toDate, policy));
+
+    return {
+      key: term.key,
+      academicYear: term.academicYear,
+      semester: term.semester,
+      courseCount: term.entries.length,
+      creditUnitsAttempted: semester.units,
+      creditUnitsPassed: term.entries.filter(e => e.passed).reduce((sum, e) => sum + e.creditUnits, 0),
+      gradePoints: roundTo(semester.points, policy.decimals),
+      gpa: roundTo(semester.average, policy.decimals),
+      cgpa: roundTo(cumulative.average, policy.decimals),
+    };
+  });
+
+  const cumulative = weightedAverage(countedAttempts(attempts, policy));
+
+  const latestAttempt = new Map();
+  attempts.forEach(entry => latestAttempt.set(entry.courseId, entry));
+  const passedCourseIds = new Set(attempts.filter(e => e.passed).map(e => e.courseId));
+  const courses = Array.from(latestAttempt.values());
+
+  // A course stays a carry-over until one of its attempts is passed
+  const carryOvers = courses
+    .filter(entry => !passedCourseIds.has(entry.courseId))
+    .map(entry => ({
+      courseId: entry.courseId,
+      courseCode: entry.courseCode,
+      creditUnits: entry.creditUnits,
+      attempts: entry.attempt,
+      lastAcademicYear: entry.academicYear,
+      lastSemester: entry.semester,
+    }));
+
+  const repeatedCourseIds = Array.from(attemptsByCourse.entries())
+    .filter(([, count]) => count > 1)
+    .map(([courseId]) => courseId);
+
+  const cgpa = roundTo(cumulative.average, policy.decimals);
+
+  return {
+    policy,
+    semesters,
+    gpa: semesters.length > 0 ? semesters[semesters.length - 1].gpa : 0,
+    cgpa,
+    totalGradePoints: roundTo(cumulative.points, policy.decimals),
+    creditUnitsAttempted: attempts.reduce((sum, e) => sum + e.creditUnits, 0),
+    creditUnitsPassed: courses
+      .filter(entry => passedCourseIds.has(entry.courseId))
+      .reduce((sum, e) => sum + e.creditUnits, 0),
+    courseCount: latestAttempt.size,
+    carryOvers,
+    repeatedCourseIds,
+    classOfDegree: attempts.length > 0
+      ? classOfDegree(cgpa, policy.maxGradePoint, policy.degreeClasses)
+      : null,
+  };
+};
@@ -0,0 +1,160 @@
+import { describe, expect, it } from 'vitest';
+import { classOfDegree, summarizeResults, GpaResultInput } from './gpa';
+
+const result = (
+  courseId: string,
+  academicYear: string,
+  semester: string,
+  gradePoint: number | null,
+  creditUnits: number
+): GpaResultInput => ({
+  course_id: courseId,
+  academic_year: academicYear,
+  semester,
+  grade_point: gradePoint,
+  courses: { id: courseId, course_code: courseId.toUpperCase(), credit_units: creditUnits },
+});
+
+// A course failed then passed (x), a pass with fewer points on the repeat (y), and one attempt (z)
+const repeated = [
+  result('x', '2023/2024', 'First Semester', 0, 3),
+  result('y', '2023/2024', 'First Semester', 2, 3),
+  result('z', '2023/2024', 'First Semester', 4, 2),
+  result('x', '2023/2024', 'Second Semester', 3, 3),
+  result('y', '2023/2024', 'Second Semester', 1, 3),
+];
+
+describe('summarizeResults', () => {
+  it('weights semester GPA and CGPA by credit units', () => {
+    const summary = summarizeResults([
+      result('a', '2023/2024', 'First Semester', 5, 3),
+      result('b', '2023/2024', 'First Semester', 3, 2),
+      result('c', '2023/2024', 'Second Semester', 4, 4),
+    ]);
+
+    expect(summary.semesters.map(s => s.gpa)).toEqual([4.2, 4]);
+    expect(summary.semesters.map(s => s.cgpa)).toEqual([4.2, 4.11]);
+    expect(summary.gpa).toBe(4);
+    expect(summary.cgpa).toBe(4.11);
+    expect(summary.creditUnitsAttempted).toBe(9);
+  });
+
+  it('orders semesters by session, first semester first', () => {
+    const summary = summarizeResults([
+      result('c', '2024/2025', 'First Semester', 4, 2),
+      result('b', '2023/2024', 'Second Semester', 3, 2),
+      result('a', '2023/2024', 'First Semester', 5, 2),
+    ]);
+
+    expect(summary.semesters.map(s => s.key)).toEqual([
+      '2023/2024|First Semester',
+      '2023/2024|Second Semester',
+      '2024/2025|First Semester',
+    ]);
+  });
+
+  it('counts every attempt under the all policy', () => {
+    const summary = summarizeResults(repeated, { repeatPolicy: 'all' });
+
+    // (0×3 + 2×3 + 4×2 + 3×3 + 1×3) / 14
+    expect(summary.cgpa).toBe(1.86);
+    expect(summary.creditUnitsAttempted).toBe(14);
+  });
+
+  it('counts only the most recent attempt under the latest policy', () => {
+    const summary = summarizeResults(repeated, { repeatPolicy: 'latest' });
+
+    // x: 3, y: 1, z: 4
+    expect(summary.cgpa).toBe(2.5);
+  });
+
+  it('counts only the highest attempt under the best policy', () => {
+    const summary = summarizeResults(repeated, { repeatPolicy: 'best' });
+
+    // x: 3, y: 2, z: 4
+    expect(summary.cgpa).toBe(2.88);
+  });
+
+  it('rejects an unknown repeat policy', () => {
+    expect(() => summarizeResults(repeated, { repeatPolicy: 'worst' as never })).toThrow(/Unknown repeat policy/);
+  });
+
+  it('keeps a failed course as a carry-over until it is passed', () => {
+    const failed = summarizeResults(repeated.slice(0, 3));
+    expect(failed.carryOvers).toEqual([
+      expect.objectContaining({ courseId: 'x', courseCode: 'X', creditUnits: 3, attempts: 1 }),
+    ]);
+
+    const passed = summarizeResults(repeated);
+    expect(passed.carryOvers).toEqual([]);
+    expect(passed.repeatedCourseIds).toEqual(['x', 'y']);
+    expect(passed.creditUnitsPassed).toBe(8);
+    expect(passed.courseCount).toBe(3);
+  });
+
+  it('ignores results that have not been graded', () => {
+    const graded = [result('a', '2023/2024', 'First Semester', 4, 3)];
+    const summary = summarizeResults([
+      ...graded,
+      result('b', '2023/2024', 'First Semester', null, 3),
+      result('c', '2023/2024', 'Second Semester', null, 2),
+    ]);
+
+    expect(summary).toEqual(summarizeResults(graded));
+    expect(summary.semesters).toHaveLength(1);
+    expect(summary.carryOvers).toEqual([]);
+  });
+
+  it('returns no class of degree without graded results', () => {
+    const summary = summarizeResults([result('a', '2023/2024', 'First Semester', null, 3)]);
+
+    expect(summary.cgpa).toBe(0);
+    expect(summary.classOfDegree).toBeNull();
+  });
+
+  it('names the class on the scale it is given', () => {
+    const results = [result('a', '2023/2024', 'First Semester', 3.5, 2)];
+
+    expect(summarizeResults(results).classOfDegree).toBe('Second Class Honours (Upper Division)');
+    expect(summarizeResults(results, { maxGradePoint: 4 }).classOfDegree).toBe('Distinction');
+  });
+});
+
+describe('classOfDegree', () => {
+  it.each([
+    [5, 'First Class Honours'],
+    [4.5, 'First Class Honours'],
+    [4.49, 'Second Class Honours (Upper Division)'],
+    [3.5, 'Second Class Honours (Upper Division)'],
+    [3.49, 'Second Class Honours (Lower Division)'],
+    [2.4, 'Second Class Honours (Lower Division)'],
+    [2.39, 'Third Class Honours'],
+    [1.5, 'Third Class Honours'],
+    [1.49, 'Pass'],
+    [1.0, 'Pass'],
+    [0.99, 'Fail'],
+  ])('puts %s on the 5-point scale in %s', (cgpa, name) => {
+    expect(classOfDegree(cgpa, 5)).toBe(name);
+  });
+
+  it.each([
+    [4, 'Distinction'],
+    [3.5, 'Distinction'],
+    [3.49, 'Upper Credit'],
+    [3.0, 'Upper Credit'],
+    [2.99, 'Lower Credit'],
+    [2.5, 'Lower Credit'],
+    [2.49, 'Pass'],
+    [2.0, 'Pass'],
+    [1.99, 'Fail'],
+  ])('puts %s on the 4-point scale in %s', (cgpa, name) => {
+    expect(classOfDegree(cgpa, 4)).toBe(name);
+  });
+
+  it('uses custom classes when given', () => {
+    const classes = [{ name: 'Merit', minCgpa: 3 }];
+
+    expect(classOfDegree(3.2, 5, classes)).toBe('Merit');
+    expect(classOfDegree(2.9, 5, classes)).toBe('Fail');
+  });
+});
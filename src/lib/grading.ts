@@ -0,0 +1,89 @@
+import { Tables } from '@/integrations/supabase/types';
+
+export type GradeBand = Tables<'grading_scale_bands'>;
+export type GradingScaleAssignment = Tables<'grading_scale_assignments'>;
+
+export interface GradingScale extends Tables<'grading_scales'> {
+  bands: GradeBand[];
+}
+
+// Maximum marks for each part of a course score
+export const MAX_CA_SCORE = 30;
+export const MAX_EXAM_SCORE = 70;
+
+export interface GradingScope {
+  department?: string | null;
+  level?: string | null;
+  academicYear?: string | null;
+}
+
+// Highest band first, so the first band whose minimum the score reaches is the grade
+export const sortBands = <T extends { min_score: number }>(bands: T[]): T[] =>
+  [...bands].sort((a, b) => b.min_score - a.min_score);
+
+// Same rule as the `grade_for_score` SQL function used by the results trigger
+export const gradeForScore = (scale: GradingScale | null | undefined, score: number | null | undefined) => {
+  if (!scale || score === null || score === undefined || isNaN(score)) return null;
+  return sortBands(scale.bands).find(band => score >= band.min_score) ?? null;
+};
+
+export const isPassingScore = (scale: GradingScale | null | undefined, score: number | null | undefined) =>
+  !!scale && score !== null && score !== undefined && score >= scale.pass_mark;
+
+// Same precedence as `resolve_grading_scale`: session beats level beats department, then the default
+export const resolveGradingScale = (
+  scales: GradingScale[],
+  assignments: GradingScaleAssignment[],
+  { department, level, academicYear }: GradingScope
+): GradingScale | null => {
+  const specificity = (a: GradingScaleAssignment) =>
+    (a.academic_year ? 4 : 0) + (a.level ? 2 : 0) + (a.department ? 1 : 0);
+
+  const match = assignments
+    .filter(a =>
+      (!a.department || a.department === department) &&
+      (!a.level || a.level === level) &&
+      (!a.academic_year || a.academic_year === academicYear)
+    )
+    .sort((a, b) => specificity(b) - specificity(a))[0];
+
+  const scaleId = match?.scale_id ?? scales.find(s => s.is_default)?.id;
+  return scales.find(s => s.id === scaleId) ?? null;
+};
+
+// Problems that would make a scale ambiguous or leave scores ungraded
+export const validateBands = (
+  bands: Pick<GradeBand, 'min_score' | 'letter' | 'grade_point'>[],
+  maxGradePoint: number
+): string | null => {
+  if (bands.length === 0) return 'Add at least one grade band';
+  if (bands.some(b => !b.letter.trim())) return 'Every band needs a letter';
+  if (bands.some(b => isNaN(b.min_score) || b.min_score < 0 || b.min_score > 100)) {
+    return 'Minimum scores must be between 0 and 100';
+  }
+  if (bands.some(b => isNaN(b.grade_point) || b.grade_point < 0 || b.grade_point > maxGradePoint)) {
+    return `Grade points must be between 0 and ${maxGradePoint}`;
+  }
+  if (!bands.some(b => b.min_score === 0)) return 'The lowest band must start at 0';
+
+  const letters = bands.map(b => b.letter.trim().toUpperCase());
+  if (new Set(letters).size !== letters.length) return 'Letters must be unique';
+
+  const minimums = bands.map(b => b.min_score);
+  if (new Set(minimums).size !== minimums.length) return 'Minimum scores must be unique';
+
+  return null;
+};
+
+// Colour by the grade's leading letter so both the AA-F and A-F scales read the same way
+export const getGradeBadgeClass = (grade: string | null | undefined) => {
+  switch (grade?.charAt(0).toUpperCase()) {
+    case 'A': return 'bg-emerald-100 text-emerald-800 border-emerald-200';
+    case 'B': return 'bg-blue-100 text-blue-800 border-blue-200';
+    case 'C': return 'bg-amber-100 text-amber-800 border-amber-200';
+    case 'D': return 'bg-orange-100 text-orange-800 border-orange-200';
+    case 'E': return 'bg-red-100 text-red-800 border-red-200';
+    case 'F': return 'bg-red-200 text-red-900 border-red-300';
+    default: return 'bg-gray-100 text-gray-800';
+  }
+};
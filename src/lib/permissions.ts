@@ -0,0 +1,103 @@
+import { decodeAdminToken, getAdminToken } from '@/integrations/supabase/adminSession';
+
+export type AdminRole = 'admin' | 'super_admin' | 'registrar' | 'hod' | 'exam_officer' | 'lecturer';
+
+export const PERMISSIONS = {
+  VIEW_DASHBOARD: 'dashboard:view',
+  MANAGE_STUDENTS: 'students:manage',
+  MANAGE_COURSES: 'courses:manage',
+  ENTER_RESULTS: 'results:enter',
+  ENTER_COURSE_SCORES: 'scores:enter',
+  REVIEW_RESULTS: 'results:review',
+  APPROVE_RESULTS: 'results:approve',
+  PUBLISH_RESULTS: 'results:publish',
+  AMEND_RESULTS: 'results:amend',
+  MANAGE_GRADING: 'grading:manage',
+  MANAGE_CALENDAR: 'calendar:manage',
+  SEND_NOTIFICATIONS: 'notifications:send',
+  MANAGE_SMS: 'sms:manage',
+  MANAGE_ADMINS: 'admins:manage'
+} as const;
+
+export type Permission = typeof PERMISSIONS[keyof typeof PERMISSIONS];
+
+// Mirrors the `role_permissions` table, which RLS policies and the servers check.
+// Keep both in sync when changing who can do what.
+export const ROLE_PERMISSIONS: Record<AdminRole, readonly Permission[]> = {
+  super_admin: Object.values(PERMISSIONS),
+  registrar: [
+    PERMISSIONS.VIEW_DASHBOARD,
+    PERMISSIONS.MANAGE_STUDENTS,
+    PERMISSIONS.ENTER_RESULTS,
+    PERMISSIONS.APPROVE_RESULTS,
+    PERMISSIONS.PUBLISH_RESULTS,
+    PERMISSIONS.AMEND_RESULTS,
+    PERMISSIONS.MANAGE_GRADING,
+    PERMISSIONS.MANAGE_CALENDAR,
+    PERMISSIONS.SEND_NOTIFICATIONS
+  ],
+  hod: [
+    PERMISSIONS.VIEW_DASHBOARD,
+    PERMISSIONS.REVIEW_RESULTS
+  ],
+  exam_officer: [
+    PERMISSIONS.VIEW_DASHBOARD,
+    PERMISSIONS.APPROVE_RESULTS,
+    PERMISSIONS.AMEND_RESULTS
+  ],
+  // Lecturers only see the courses they are assigned to, never the admin dashboard
+  lecturer: [
+    PERMISSIONS.ENTER_COURSE_SCORES
+  ],
+  admin: [
+    PERMISSIONS.VIEW_DASHBOARD,
+    PERMISSIONS.MANAGE_STUDENTS,
+    PERMISSIONS.MANAGE_COURSES,
+    PERMISSIONS.MANAGE_CALENDAR,
+    PERMISSIONS.SEND_NOTIFICATIONS,
+    PERMISSIONS.MANAGE_SMS
+  ]
+};
+
+const PERMISSION_LABELS: Record<Permission, string> = {
+  [PERMISSIONS.VIEW_DASHBOARD]: 'view the dashboard',
+  [PERMISSIONS.MANAGE_STUDENTS]: 'manage students',
+  [PERMISSIONS.MANAGE_COURSES]: 'manage courses',
+  [PERMISSIONS.ENTER_RESULTS]: 'enter or edit results',
+  [PERMISSIONS.ENTER_COURSE_SCORES]: 'enter scores for assigned courses',
+  [PERMISSIONS.REVIEW_RESULTS]: 'review results',
+  [PERMISSIONS.APPROVE_RESULTS]: 'approve results',
+  [PERMISSIONS.PUBLISH_RESULTS]: 'publish results',
+  [PERMISSIONS.AMEND_RESULTS]: 'amend result scores',
+  [PERMISSIONS.MANAGE_GRADING]: 'manage grading scales',
+  [PERMISSIONS.MANAGE_CALENDAR]: 'manage the academic calendar',
+  [PERMISSIONS.SEND_NOTIFICATIONS]: 'send notifications',
+  [PERMISSIONS.MANAGE_SMS]: 'manage SMS delivery',
+  [PERMISSIONS.MANAGE_ADMINS]: 'manage admin accounts'
+};
+
+export const roleHasPermission = (role: string | null | undefined, permission: Permission): boolean => {
+  if (!role) return false;
+  const permissions = ROLE_PERMISSIONS[role as AdminRole];
+  return permissions ? permissions.includes(permission) : false;
+};
+
+// Where an admin lands after signing in
+export const adminHomePath = (role: string | null | undefined) =>
+  !roleHasPermission(role, PERMISSIONS.VIEW_DASHBOARD) && roleHasPermission(role, PERMISSIONS.ENTER_COURSE_SCORES)
+    ? '/lecturer'
+    : '/admin';
+
+export const permissionDeniedMessage = (permission: Permission) =>
+  `You do not have permission to ${PERMISSION_LABELS[permission]}`;
+
+// Guard for service calls made on behalf of the signed-in admin. The database
+// enforces the same rules through RLS; this fails fast with a readable message.
+export const requirePermission = (permission: Permission) => {
+  const token = getAdminToken();
+  const claims = token ? decodeAdminToken(token) : null;
+
+  if (!roleHasPermission(claims?.admin_role, permission)) {
+    throw new Error(permissionDeniedMessage(permission));
+  }
+};
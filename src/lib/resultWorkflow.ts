@@ -0,0 +1,52 @@
+import { Permission, PERMISSIONS } from '@/lib/permissions';
+
+// Stages a result moves through, in order. Mirrors the `results_status_check` constraint.
+export const RESULT_STAGES = ['draft', 'reviewed', 'approved', 'published'] as const;
+
+export type ResultStage = typeof RESULT_STAGES[number];
+
+export type ResultAction = 'review' | 'approve' | 'publish' | 'reject';
+
+interface ResultActionRule {
+  label: string;
+  from: readonly ResultStage[];
+  to: ResultStage;
+  permission: Permission;
+}
+
+// Mirrors `transition_results`, which enforces the same rules in the database
+export const RESULT_ACTIONS: Record<ResultAction, ResultActionRule> = {
+  review: { label: 'Mark Reviewed', from: ['draft'], to: 'reviewed', permission: PERMISSIONS.REVIEW_RESULTS },
+  approve: { label: 'Approve', from: ['reviewed'], to: 'approved', permission: PERMISSIONS.APPROVE_RESULTS },
+  publish: { label: 'Publish', from: ['approved'], to: 'published', permission: PERMISSIONS.PUBLISH_RESULTS },
+  reject: { label: 'Reject', from: ['draft', 'reviewed', 'approved'], to: 'draft', permission: PERMISSIONS.REVIEW_RESULTS },
+};
+
+export const RESULT_STAGE_LABELS: Record<ResultStage, string> = {
+  draft: 'Draft',
+  reviewed: 'Reviewed',
+  approved: 'Approved',
+  published: 'Published',
+};
+
+export const getStageBadgeClass = (stage: string) => {
+  switch (stage) {
+    case 'published': return 'bg-green-50 text-green-700 border-green-200';
+    case 'approved': return 'bg-blue-50 text-blue-700 border-blue-200';
+    case 'reviewed': return 'bg-purple-50 text-purple-700 border-purple-200';
+    default: return 'bg-yellow-50 text-yellow-700 border-yellow-200';
+  }
+};
+
+// Reviewers can send back drafts and reviewed results; approvers can also send back approved ones
+export const canRejectStage = (stage: string, can: (permission: Permission) => boolean) =>
+  (can(PERMISSIONS.APPROVE_RESULTS) && ['draft', 'reviewed', 'approved'].includes(stage)) ||
+  (can(PERMISSIONS.REVIEW_RESULTS) && ['draft', 'reviewed'].includes(stage));
+
+// Actions the signed-in admin may take on a result at the given stage
+export const availableActions = (stage: string, can: (permission: Permission) => boolean): ResultAction[] =>
+  (Object.keys(RESULT_ACTIONS) as ResultAction[]).filter(action => {
+    if (action === 'reject') return canRejectStage(stage, can);
+    const rule = RESULT_ACTIONS[action];
+    return can(rule.permission) && rule.from.includes(stage as ResultStage);
+  });
@@ -0,0 +1,46 @@
+export type SmsEncoding = 'GSM-7' | 'UCS-2';
+
+export const DEFAULT_SMS_RATES: Record<string, number>;
+export const DEFAULT_MAX_SEGMENTS: number;
+
+export interface SmsAnalysis {
+  encoding: SmsEncoding;
+  // Length in encoding units: GSM extension characters count two, UCS-2 counts UTF-16 code units
+  units: number;
+  segments: number;
+  // Units that fit in each segment at the current length
+  perSegment: number;
+  // Units left before the message needs another segment
+  remaining: number;
+  // Characters that forced UCS-2
+  unicodeCharacters: string[];
+}
+
+export interface SmsPricing {
+  provider: string;
+  senderName: string;
+  currency: string;
+  // Price of one segment with the active provider
+  rate: number;
+  // Most a single send may cost before it needs confirming; null for no limit
+  batchBudget: number | null;
+  maxSegments: number;
+}
+
+export interface SmsEstimate extends SmsAnalysis {
+  recipients: number;
+  currency: string;
+  perRecipient: number;
+  total: number;
+  overBudget: boolean;
+  tooLong: boolean;
+  senderIdError: string | null;
+}
+
+export function analyzeSms(message: string | null | undefined): SmsAnalysis;
+
+export function checkSenderId(provider: string, senderName: string | null | undefined): string | null;
+
+export function smsPricingFromEnv(getEnv: (name: string) => string | undefined): SmsPricing;
+
+export function estimateSms(message: string | null | undefined, recipients: number, pricing: SmsPricing): SmsEstimate;
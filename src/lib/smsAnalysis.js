@@ -0,0 +1,105 @@
+// SMS length and cost analysis shared by the dashboard and the Express SMS servers.
+
+import { DEFAULT_SENDER_NAME, DEFAULT_SMS_PROVIDER } from './smsProviders.js';
+
+// GSM 03.38 basic character set (one unit each) and its extension table (two units each: escape + character)
+const GSM_BASIC = '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?'
+  + '¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà';
+const GSM_EXTENSION = '\f^{}\\[~]|€';
+
+// Units per segment: a single message, or each part of a multipart one (the rest carries the part header)
+const SEGMENT_LIMITS = {
+  'GSM-7': { single: 160, multi: 153 },
+  'UCS-2': { single: 70, multi: 67 },
+};
+
+// Rough price of one segment to a Nigerian number, in naira. Set SMS_RATE_<PROVIDER> to your own rate.
+export const DEFAULT_SMS_RATES = { sendchamp: 4, twilio: 250, termii: 4, stub: 0 };
+
+// Longest message we send, in segments. Networks drop or split longer ones unpredictably.
+export const DEFAULT_MAX_SEGMENTS = 6;
+
+// Providers that send from SMS_SENDER_NAME; Twilio sends from TWILIO_PHONE_NUMBER
+const SENDER_NAME_PROVIDERS = ['sendchamp', 'termii'];
+
+// Encoding, length in units and segment count of a message. One character outside the GSM set
+// turns the whole message into UCS-2, which fits less than half as much per segment.
+export const analyzeSms = (message) => {
+  const characters = Array.from(String(message || ''));
+  const unicodeCharacters = [...new Set(characters.filter(c => !GSM_BASIC.includes(c) && !GSM_EXTENSION.includes(c)))];
+  const encoding = unicodeCharacters.length > 0 ? 'UCS-2' : 'GSM-7';
+  const limits = SEGMENT_LIMITS[encoding];
+
+  const unitsOf = (c) => (encoding === 'UCS-2' ? c.length : GSM_EXTENSION.includes(c) ? 2 : 1);
+  const units = characters.reduce((total, c) => total + unitsOf(c), 0);
+
+  if (units <= limits.single) {
+    return { encoding, units, segments: units > 0 ? 1 : 0, perSegment: limits.single, remaining: limits.single - units, unicodeCharacters };
+  }
+
+  // A character is never split across parts, so a part can end a unit short
+  let segments = 1;
+  let used = 0;
+  characters.forEach((c) => {
+    if (used + unitsOf(c) > limits.multi) {
+      segments += 1;
+      used = 0;
+    }
+    used += unitsOf(c);
+  });
+
+  return { encoding, units, segments, perSegment: limits.multi, remaining: limits.multi - used, unicodeCharacters };
+};
+
+// Why networks would reject the sender name, or null when it is fine or the provider does not use it.
+// Alphanumeric sender IDs are at most 11 letters, digits and spaces.
+export const checkSenderId = (provider, senderName) => {
+  if (!SENDER_NAME_PROVIDERS.includes(provider)) return null;
+
+  const name = String(senderName || '');
+  if (!/^[A-Za-z0-9 ]+$/.test(name) || !/[A-Za-z]/.test(name)) {
+    return `Sender ID "${name}" must be letters, digits and spaces, with at least one letter`;
+  }
+  if (name.length > 11) {
+    return `Sender ID "${name}" is ${name.length} characters; networks reject more than 11`;
+  }
+  return null;
+};
+
+// Pricing settings from environment variables, looked up like smsConfigFromEnv's
+export const smsPricingFromEnv = (getEnv) => {
+  const read = (name) => getEnv(name) || undefined;
+  const number = (name) => {
+    const value = Number(read(name));
+    return read(name) !== undefined && Number.isFinite(value) ? value : undefined;
+  };
+
+  const provider = (read('SMS_PROVIDER') || DEFAULT_SMS_PROVIDER).trim().toLowerCase();
+
+  return {
+    provider,
+    senderName: read('SMS_SENDER_NAME') || DEFAULT_SENDER_NAME,
+    currency: read('SMS_CURRENCY') || 'NGN',
+    rate: number(`SMS_RATE_${provider.toUpperCase()}`) ?? DEFAULT_SMS_RATES[provider] ?? 0,
+    batchBudget: number('SMS_BATCH_BUDGET') ?? null,
+    maxSegments: number('SMS_MAX_SEGMENTS') ?? DEFAULT_MAX_SEGMENTS,
+  };
+};
+
+// What sending `message` to `recipients` people will take and cost
+export const estimateSms = (message, recipients, pricing) => {
+  const analysis = analyzeSms(message);
+  const perRecipient = analysis.segments * pricing.rate;
+  const total = perRecipient * recipients;
+
+  return {
+    ...analysis,
+    recipients,
+    currency: pricing.currency,
+    perRecipient,
+    total,
+    overBudget: pricing.batchBudget !== null && total > pricing.batchBudget,
+    tooLong: analysis.segments > pricing.maxSegments,
+    senderIdError: checkSenderId(pricing.provider, pricing.senderName),
+  };
+};
@@ -0,0 +1,56 @@
+export type SmsProviderName = 'sendchamp' | 'twilio' | 'termii' | 'stub';
+
+export const SMS_PROVIDERS: SmsProviderName[];
+export const DEFAULT_SMS_PROVIDER: SmsProviderName;
+export const DEFAULT_SENDER_NAME: string;
+
+export type DeliveryStatus = 'queued' | 'sent' | 'delivered' | 'undelivered' | 'failed';
+
+export const DELIVERY_STATUSES: DeliveryStatus[];
+
+export interface SmsConfig {
+  provider: string;
+  senderName: string;
+  sendchamp: { apiKey?: string; route: string };
+  twilio: { accountSid?: string; authToken?: string; from?: string; statusCallback?: string };
+  termii: { apiKey?: string; channel: string; baseUrl: string };
+}
+
+export type SmsSendResult =
+  | { success: true; provider: SmsProviderName; sid?: string; status: string }
+  | { success: false; provider: SmsProviderName; error: string };
+
+export interface SmsProvider {
+  name: SmsProviderName;
+  // Whether the provider's credentials are set
+  configured: boolean;
+  // `to` is an international number without the plus, as returned by formatNigerianPhone.
+  // Never throws; failures come back with `success: false`.
+  send(to: string, message: string): Promise<SmsSendResult>;
+}
+
+export interface StubSmsEntry {
+  sid: string;
+  to: string;
+  message: string;
+  sentAt: string;
+}
+
+export interface StubSmsProvider extends SmsProvider {
+  outbox: StubSmsEntry[];
+}
+
+export interface SmsProviderOptions {
+  fetch?: typeof fetch;
+  // Where the stub provider writes each message
+  log?: (entry: StubSmsEntry) => void | Promise<void>;
+}
+
+export function formatNigerianPhone(phone: string | null | undefined): string | null;
+
+// Our delivery status for a provider's status, or null when the status is not one we know
+export function mapDeliveryStatus(provider: string, providerStatus: string | null | undefined): DeliveryStatus | null;
+
+export function smsConfigFromEnv(getEnv: (name: string) => string | undefined): SmsConfig;
+
+export function createSmsProvider(config: SmsConfig, options?: SmsProviderOptions): SmsProvider;
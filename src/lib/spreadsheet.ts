@@ -0,0 +1,101 @@
+import Papa from 'papaparse';
+import readXlsxFile from 'read-excel-file';
+import writeXlsxFile from 'write-excel-file';
+
+export interface SpreadsheetData {
+  headers: string[];
+  rows: string[][];
+}
+
+export const SPREADSHEET_ACCEPT = '.csv,.xlsx';
+
+export type SpreadsheetFormat = 'csv' | 'xlsx';
+
+type SpreadsheetCell = string | number | null | undefined;
+
+const cellToString = (value: unknown) => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  return String(value).trim();
+};
+
+// Read the first sheet of a CSV or XLSX file; the first non-empty row is the header
+export const readSpreadsheet = async (file: File): Promise<SpreadsheetData> => {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  let table: unknown[][];
+
+  if (extension === 'csv') {
+    const parsed = Papa.parse<string[]>(await file.text(), { skipEmptyLines: 'greedy' });
+    if (parsed.errors.length > 0 && parsed.data.length === 0) {
+      throw new Error(`Could not read ${file.name}: ${parsed.errors[0].message}`);
+    }
+    table = parsed.data;
+  } else if (extension === 'xlsx') {
+    table = await readXlsxFile(file);
+  } else {
+    throw new Error('Upload a .csv or .xlsx file');
+  }
+
+  const rows = table
+    .map(row => row.map(cellToString))
+    .filter(row => row.some(cell => cell !== ''));
+
+  if (rows.length < 2) {
+    throw new Error(`${file.name} needs a header row and at least one data row`);
+  }
+
+  const [headers, ...data] = rows;
+  return {
+    headers: headers.map((header, index) => header || `Column ${index + 1}`),
+    rows: data.map(row => headers.map((_, index) => row[index] ?? '')),
+  };
+};
+
+// Cells copied from Excel or Google Sheets arrive tab-separated, one line per row
+export const parseClipboardTable = (text: string): string[][] =>
+  Papa.parse<string[]>(text.replace(/\r?\n$/, ''), { delimiter: '\t', skipEmptyLines: false }).data
+    .map(row => row.map(cellToString));
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Index of the first header matching one of the aliases, ignoring case and punctuation
+export const findColumn = (headers: string[], aliases: string[]) => {
+  const wanted = aliases.map(normalizeHeader);
+  return headers.findIndex(header => wanted.includes(normalizeHeader(header)));
+};
+
+export const toCsv = (headers: string[], rows: SpreadsheetCell[][]) =>
+  Papa.unparse({ fields: headers, data: rows.map(row => row.map(cell => cell ?? '')) });
+
+const downloadBlob = (fileName: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+export const downloadCsv = (fileName: string, headers: string[], rows: SpreadsheetCell[][]) => {
+  downloadBlob(fileName, new Blob([toCsv(headers, rows)], { type: 'text/csv;charset=utf-8;' }));
+};
+
+// Numbers stay numeric so the sheet can be sorted and summed in Excel
+export const downloadXlsx = async (fileName: string, headers: string[], rows: SpreadsheetCell[][]) => {
+  const toCell = (value: SpreadsheetCell) => {
+    if (value === null || value === undefined || value === '') return null;
+    return typeof value === 'number' ? { type: Number, value } : { type: String, value };
+  };
+
+  await writeXlsxFile(
+    [headers.map(header => ({ type: String, value: header, fontWeight: 'bold' as const })), ...rows.map(row => row.map(toCell))],
+    { fileName, stickyRowsCount: 1 }
+  );
+};
+
+export const downloadSpreadsheet = (format: SpreadsheetFormat, fileName: string, headers: string[], rows: SpreadsheetCell[][]) =>
+  format === 'xlsx'
+    ? downloadXlsx(`${fileName}.xlsx`, headers, rows)
+    : Promise.resolve(downloadCsv(`${fileName}.csv`, headers, rows));
@@ -0,0 +1,123 @@
+import { Tables } from '@/integrations/supabase/types';
+import { AcademicSummary, compareTerms, summarizeResults } from '@/lib/gpa';
+import { GradingScale } from '@/lib/grading';
+
+export const INSTITUTION_NAME = 'Moshood Abiola Polytechnic';
+
+export type TranscriptStudent = Pick<
+  Tables<'students'>,
+  'id' | 'student_id' | 'first_name' | 'last_name' | 'department' | 'level'
+>;
+
+export interface TranscriptResult extends Pick<
+  Tables<'results'>,
+  'course_id' | 'academic_year' | 'semester' | 'ca_score' | 'exam_score' | 'total_score' | 'grade' | 'grade_point'
+> {
+  course: Pick<Tables<'courses'>, 'course_code' | 'course_title' | 'credit_units'>;
+}
+
+export interface TranscriptRow {
+  courseCode: string;
+  courseTitle: string;
+  creditUnits: number;
+  caScore: number | null;
+  examScore: number | null;
+  totalScore: number | null;
+  grade: string | null;
+  gradePoint: number | null;
+}
+
+export interface TranscriptSemester {
+  academicYear: string;
+  semester: string;
+  rows: TranscriptRow[];
+  creditUnitsAttempted: number;
+  creditUnitsPassed: number;
+  gpa: number;
+  cgpa: number;
+}
+
+export interface TranscriptSession {
+  academicYear: string;
+  semesters: TranscriptSemester[];
+}
+
+export interface Transcript {
+  student: TranscriptStudent;
+  sessions: TranscriptSession[];
+  summary: AcademicSummary;
+  scaleName: string | null;
+  generatedAt: Date;
+}
+
+const toRow = (result: TranscriptResult): TranscriptRow => ({
+  courseCode: result.course.course_code,
+  courseTitle: result.course.course_title,
+  creditUnits: result.course.credit_units,
+  caScore: result.ca_score,
+  examScore: result.exam_score,
+  totalScore: result.total_score,
+  grade: result.grade,
+  gradePoint: result.grade_point,
+});
+
+// Group a student's results by session and semester, with GPAs from the shared GPA engine
+export const buildTranscript = (
+  student: TranscriptStudent,
+  results: TranscriptResult[],
+  scale: GradingScale | null = null
+): Transcript => {
+  const summary = summarizeResults(results, { maxGradePoint: scale?.max_grade_point });
+  const semesterSummaries = new Map(summary.semesters.map(s => [s.key, s]));
+
+  const terms = new Map<string, { academicYear: string; semester: string; results: TranscriptResult[] }>();
+  results.forEach(result => {
+    const key = `${result.academic_year}|${result.semester}`;
+    if (!terms.has(key)) {
+      terms.set(key, { academicYear: result.academic_year, semester: result.semester, results: [] });
+    }
+    terms.get(key)!.results.push(result);
+  });
+
+  const sessions: TranscriptSession[] = [];
+  Array.from(terms.entries())
+    .sort(([, a], [, b]) => compareTerms(a, b))
+    .forEach(([key, term]) => {
+      const termSummary = semesterSummaries.get(key);
+      const semester: TranscriptSemester = {
+        academicYear: term.academicYear,
+        semester: term.semester,
+        rows: term.results
+          .map(toRow)
+          .sort((a, b) => a.courseCode.localeCompare(b.courseCode)),
+        creditUnitsAttempted: termSummary?.creditUnitsAttempted ?? 0,
+        creditUnitsPassed: termSummary?.creditUnitsPassed ?? 0,
+        gpa: termSummary?.gpa ?? 0,
+        cgpa: termSummary?.cgpa ?? 0,
+      };
+
+      const session = sessions[sessions.length - 1];
+      if (session && session.academicYear === term.academicYear) {
+        session.semesters.push(semester);
+      } else {
+        sessions.push({ academicYear: term.academicYear, semesters: [semester] });
+      }
+    });
+
+  return {
+    student,
+    sessions,
+    summary,
+    scaleName: scale?.name ?? null,
+    generatedAt: new Date(),
+  };
+};
+
+export const transcriptFileName = (transcripts: Transcript[]) => {
+  const date = new Date().toISOString().slice(0, 10);
+  if (transcripts.length === 1) {
+    const matric = transcripts[0].student.student_id.replace(/[^A-Za-z0-9-]+/g, '-');
+    return `transcript-${matric}-${date}.pdf`;
+  }
+  return `transcripts-${transcripts.length}-students-${date}.pdf`;
+};
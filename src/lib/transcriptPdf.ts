@@ -0,0 +1,192 @@
+import { jsPDF } from 'jspdf';
+import { autoTable } from 'jspdf-autotable';
+import { INSTITUTION_NAME, Transcript, transcriptFileName } from '@/lib/transcript';
+
+type TranscriptDocument = jsPDF & { lastAutoTable?: { finalY: number } };
+
+const MARGIN = 14;
+const HEADER_COLOR: [number, number, number] = [22, 101, 52];
+
+const formatScore = (value: number | null) => (value === null || value === undefined ? '—' : String(value));
+const formatPoint = (value: number | null) => (value === null || value === undefined ? '—' : Number(value).toFixed(2));
+
+// Start a new page when the next block would not fit above the footer
+const ensureSpace = (doc: TranscriptDocument, y: number, needed: number) => {
+  if (y + needed > doc.internal.pageSize.getHeight() - 20) {
+    doc.addPage();
+    return MARGIN + 6;
+  }
+  return y;
+};
+
+const drawHeader = (doc: TranscriptDocument, transcript: Transcript) => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const { student } = transcript;
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  doc.text(INSTITUTION_NAME, pageWidth / 2, 18, { align: 'center' });
+  doc.setFontSize(12);
+  doc.text('ACADEMIC TRANSCRIPT', pageWidth / 2, 25, { align: 'center' });
+
+  doc.setDrawColor(...HEADER_COLOR);
+  doc.line(MARGIN, 29, pageWidth - MARGIN, 29);
+
+  doc.setFontSize(10);
+  const details: [string, string][] = [
+    ['Name', `${student.last_name.toUpperCase()}, ${student.first_name}`],
+    ['Matric No', student.student_id],
+    ['Department', student.department],
+    ['Level', student.level],
+  ];
+  details.forEach(([label, value], index) => {
+    const y = 36 + index * 6;
+    doc.setFont('helvetica', 'bold');
+    doc.text(`${label}:`, MARGIN, y);
+    doc.setFont('helvetica', 'normal');
+    doc.text(value, MARGIN + 26, y);
+  });
+
+  doc.setFontSize(9);
+  doc.text(`Issued: ${transcript.generatedAt.toLocaleDateString('en-GB')}`, pageWidth - MARGIN, 36, { align: 'right' });
+  if (transcript.scaleName) {
+    doc.text(`Grading: ${transcript.scaleName}`, pageWidth - MARGIN, 42, { align: 'right' });
+  }
+
+  return 62;
+};
+
+const drawSemesters = (doc: TranscriptDocument, transcript: Transcript, startY: number) => {
+  let y = startY;
+
+  if (transcript.sessions.length === 0) {
+    doc.setFont('helvetica', 'italic');
+    doc.setFontSize(10);
+    doc.text('No results have been recorded for this student.', MARGIN, y);
+    return y + 8;
+  }
+
+  transcript.sessions.forEach(session => {
+    session.semesters.forEach(semester => {
+      y = ensureSpace(doc, y, 30);
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(11);
+      doc.text(`${session.academicYear} Session — ${semester.semester}`, MARGIN, y);
+
+      autoTable(doc, {
+        startY: y + 2,
+        margin: { left: MARGIN, right: MARGIN },
+        theme: 'grid',
+        headStyles: { fillColor: HEADER_COLOR, fontSize: 8 },
+        footStyles: { fillColor: [240, 253, 244], textColor: 20, fontSize: 8 },
+        styles: { fontSize: 8, cellPadding: 1.5 },
+        columnStyles: {
+          0: { cellWidth: 20 },
+          2: { halign: 'center', cellWidth: 12 },
+          3: { halign: 'center', cellWidth: 12 },
+          4: { halign: 'center', cellWidth: 12 },
+          5: { halign: 'center', cellWidth: 12 },
+          6: { halign: 'center', cellWidth: 13 },
+          7: { halign: 'center', cellWidth: 12 },
+        },
+        head: [['Code', 'Course Title', 'Units', 'CA', 'Exam', 'Total', 'Grade', 'GP']],
+        body: semester.rows.map(row => [
+          row.courseCode,
+          row.courseTitle,
+          String(row.creditUnits),
+          formatScore(row.caScore),
+          formatScore(row.examScore),
+          formatScore(row.totalScore),
+          row.grade ?? '—',
+          formatPoint(row.gradePoint),
+        ]),
+        foot: [[
+          {
+            content: `Units: ${semester.creditUnitsAttempted} attempted, ${semester.creditUnitsPassed} passed`,
+            colSpan: 4,
+          },
+          { content: `GPA: ${semester.gpa.toFixed(2)}`, colSpan: 2 },
+          { content: `CGPA: ${semester.cgpa.toFixed(2)}`, colSpan: 2 },
+        ]],
+        showFoot: 'lastPage',
+      });
+
+      y = (doc.lastAutoTable?.finalY ?? y) + 10;
+    });
+  });
+
+  return y;
+};
+
+const drawSummary = (doc: TranscriptDocument, transcript: Transcript, startY: number) => {
+  const { summary } = transcript;
+  let y = ensureSpace(doc, startY, 36);
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(11);
+  doc.text('Summary', MARGIN, y);
+
+  const lines: [string, string][] = [
+    ['Cumulative GPA', summary.cgpa.toFixed(2)],
+    ['Credit Units', `${summary.creditUnitsPassed} passed of ${summary.creditUnitsAttempted} attempted`],
+  ];
+  if (summary.classOfDegree) {
+    lines.push(['Class of Degree', summary.classOfDegree]);
+  }
+  if (summary.carryOvers.length > 0) {
+    lines.push(['Carry-overs', summary.carryOvers.map(c => c.courseCode).join(', ')]);
+  }
+
+  doc.setFontSize(10);
+  lines.forEach(([label, value]) => {
+    y += 6;
+    doc.setFont('helvetica', 'bold');
+    doc.text(`${label}:`, MARGIN, y);
+    doc.setFont('helvetica', 'normal');
+    doc.text(value, MARGIN + 34, y);
+  });
+
+  return y;
+};
+
+// Footer on every page, added last so page counts are known
+const drawFooters = (doc: TranscriptDocument, pageOwners: string[]) => {
+  const pageCount = doc.getNumberOfPages();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(120);
+    doc.text(`${INSTITUTION_NAME} · ${pageOwners[page - 1] ?? ''}`, MARGIN, pageHeight - 10);
+    doc.text(`Page ${page} of ${pageCount}`, pageWidth - MARGIN, pageHeight - 10, { align: 'right' });
+    doc.setTextColor(0);
+  }
+};
+
+// One or more transcripts in a single A4 document, each starting on a new page
+export const createTranscriptPdf = (transcripts: Transcript[]): jsPDF => {
+  const doc: TranscriptDocument = new jsPDF({ unit: 'mm', format: 'a4' });
+  const pageOwners: string[] = [];
+
+  transcripts.forEach((transcript, index) => {
+    if (index > 0) doc.addPage();
+    const firstPage = doc.getNumberOfPages();
+
+    const y = drawSemesters(doc, transcript, drawHeader(doc, transcript));
+    drawSummary(doc, transcript, y);
+
+    for (let page = firstPage; page <= doc.getNumberOfPages(); page++) {
+      pageOwners[page - 1] = `Transcript of ${transcript.student.student_id}`;
+    }
+  });
+
+  drawFooters(doc, pageOwners);
+  return doc;
+};
+
+export const downloadTranscriptPdf = (transcripts: Transcript[]) => {
+  createTranscriptPdf(transcripts).save(transcriptFileName(transcripts));
+};
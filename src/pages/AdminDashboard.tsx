@@ -28,20 +28,34 @@ import {
 } from '@/components/ui/select';
 import AddStudentDialog from '@/components/admin/AddCourseDialog';
 import AddResultDialog from '@/components/admin/AddResultDialog';
-import AddCourseDialog from '@/components/admin/AddCourseDialog';
+import ResultImportDialog from '@/components/admin/ResultImportDialog';
 import AdminHeader from '@/components/admin/AdminHeader';
 import QuickStats from '@/components/admin/QuickStats';
 import DepartmentChart from '@/components/admin/DepartmentChart';
 import StudentList from '@/components/admin/StudentList';
+import StudentImportDialog from '@/components/admin/StudentImportDialog';
 import ResultsList from '@/components/admin/ResultsList';
+import PublishResultsDialog from '@/components/admin/PublishResultsDialog';
 import CoursesList from '@/components/admin/CourseList';
+import CourseFormDialog from '@/components/admin/CourseFormDialog';
+import CopyCatalogueDialog from '@/components/admin/CopyCatalogueDialog';
 import EnhancedNotificationCenter from '@/components/admin/EnhancedNotificationCenter';
 import FeedbackTab from '@/components/admin/FeedbackTab';
+import RemarkRequestsTab from '@/components/admin/RemarkRequestsTab';
+import AdminUsersTab from '@/components/admin/AdminUsersTab';
+import GradingScalesTab from '@/components/admin/GradingScalesTab';
+import TranscriptExportDialog from '@/components/admin/TranscriptExportDialog';
+import CourseRegistrationDialog from '@/components/admin/CourseRegistrationDialog';
+import RegistrationSettingsDialog from '@/components/admin/RegistrationSettingsDialog';
+import AcademicCalendarDialog from '@/components/admin/AcademicCalendarDialog';
+import CarryOverReportDialog from '@/components/admin/CarryOverReportDialog';
 import { NotificationService } from '@/services/notificationService';
 import { useAdminData } from '@/hooks/useAdminData';
+import { useAcademicCalendar } from '@/hooks/useAcademicCalendar';
 import { useNotifications } from '@/hooks/useNotifications';
 import { useToast } from '@/hooks/use-toast';
-import { supabase } from '@/integrations/supabase/client';
+import { PERMISSIONS } from '@/lib/permissions';
+import { PublicationScope } from '@/services/resultWorkflowService';
 import { Send, MessageSquare, Users, BookOpen, GraduationCap } from 'lucide-react';
 
 interface StudentFull {
@@ -88,15 +102,36 @@ const INITIAL_CUSTOM_FORM: CustomNotificationForm = {
   notificationType: 'general'
 };
 
+// Full class names so Tailwind keeps them in the build
+const TAB_GRID_COLUMNS: Record<number, string> = {
+  6: 'grid-cols-6',
+  7: 'grid-cols-7',
+  8: 'grid-cols-8',
+  9: 'grid-cols-9'
+};
+
 const AdminDashboard: React.FC = () => {
-  const { admin, logout } = useAuth();
+  const { admin, logout, can } = useAuth();
   const { toast } = useToast();
+
+  const canManageStudents = can(PERMISSIONS.MANAGE_STUDENTS);
+  const canManageCourses = can(PERMISSIONS.MANAGE_COURSES);
+  const canManageCalendar = can(PERMISSIONS.MANAGE_CALENDAR);
+  const canEnterResults = can(PERMISSIONS.ENTER_RESULTS);
+  const canPublishResults = can(PERMISSIONS.PUBLISH_RESULTS);
+  const canSendNotifications = can(PERMISSIONS.SEND_NOTIFICATIONS);
+  const canUseNotificationCenter = canSendNotifications || canPublishResults || can(PERMISSIONS.MANAGE_SMS);
+  const canManageAdmins = can(PERMISSIONS.MANAGE_ADMINS);
+  const canHandleRemarks = can(PERMISSIONS.AMEND_RESULTS);
+  const tabCount = 6 + Number(canHandleRemarks) + Number(canUseNotificationCenter) + Number(canManageAdmins);
   
   const [selectedStudents, setSelectedStudents] = useState<string[]>([]);
   const [bulkNotificationOpen, setBulkNotificationOpen] = useState(false);
   const [customNotificationOpen, setCustomNotificationOpen] = useState(false);
   const [bulkForm, setBulkForm] = useState<BulkNotificationForm>(INITIAL_BULK_FORM);
   const [customForm, setCustomForm] = useState<CustomNotificationForm>(INITIAL_CUSTOM_FORM);
+  const [publishDialogOpen, setPublishDialogOpen] = useState(false);
+  const [publishing, setPublishing] = useState(false);
 
   const {
     students,
@@ -106,6 +141,8 @@ const AdminDashboard: React.FC = () => {
     refetchData
   } = useAdminData();
 
+  const { academicYears, currentSession } = useAcademicCalendar();
+
   const fullStudents = useMemo(() => students as StudentFull[], [students]);
   
   const departments = useMemo(() => 
@@ -113,6 +150,11 @@ const AdminDashboard: React.FC = () => {
     [students]
   );
   
+  const courseDepartments = useMemo(() =>
+    [...new Set([...courses.map(c => c.department), ...departments])].sort(),
+    [courses, departments]
+  );
+
   const levels = useMemo(() => 
     [...new Set(students.map(s => s.level))].sort(), 
     [students]
@@ -121,7 +163,6 @@ const AdminDashboard: React.FC = () => {
   const {
     notificationLoading,
     bulkNotificationLoading,
-    publishAllResults,
     sendTestNotification,
     sendCustomNotification,
     sendBulkNotification,
@@ -140,40 +181,36 @@ const AdminDashboard: React.FC = () => {
     return true;
   }, [toast]);
 
-  // Simplified publish results - direct action
-  const handlePublishResults = useCallback(async () => {
+  // Publishing always goes through the scope dialog
+  const handlePublishResults = useCallback(() => setPublishDialogOpen(true), []);
+
+  const handlePublishScope = useCallback(async (scope: PublicationScope) => {
+    setPublishing(true);
     try {
-      // Show loading toast
-      toast({
-        title: "Publishing Results",
-        description: "Publishing results and sending notifications...",
-      });
-  
-      // Call the correct method from NotificationService
-      const result = await NotificationService.publishAndNotifyResults();
+      const result = await NotificationService.publishAndNotifyResults(scope);
       
       if (!result.success) {
-        throw new Error('Failed to publish results and send notifications');
+        throw new Error(result.errors[0] || 'Failed to publish results and send notifications');
       }
   
-      // Show success toast
       toast({
         title: "Success",
-        description: `Results published! Notifications sent to ${result.studentsNotified} students (${result.emailsSent} emails sent)`,
+        description: result.resultsPublished > 0
+          ? `Published ${result.resultsPublished} results. Notifications sent to ${result.studentsNotified} students (${result.emailsSent} emails sent)`
+          : result.message || 'No approved results to publish',
       });
   
-      // Refresh data
+      setPublishDialogOpen(false);
       refetchData();
-  
     } catch (err) {
       console.error("Error during result publishing:", err);
-      
-      // Show error toast
       toast({
         title: "Error",
         description: err instanceof Error ? err.message : "An unexpected error occurred during result publishing.",
         variant: "destructive",
       });
+    } finally {
+      setPublishing(false);
     }
   }, [toast, refetchData]);
 
@@ -253,34 +290,6 @@ const AdminDashboard: React.FC = () => {
     }
   }, [customForm, sendCustomNotification, validateNotificationForm, toast]);
 
-  const handlePublishResult = useCallback(async (resultId: string) => {
-    try {
-      const { error } = await supabase
-        .from('results')
-        .update({ 
-          status: 'published',
-          published_at: new Date().toISOString() 
-        })
-        .eq('id', resultId);
-
-      if (error) throw error;
-
-      toast({
-        title: "Success",
-        description: "Result published successfully"
-      });
-      
-      refetchData();
-    } catch (error) {
-      console.error('Error publishing result:', error);
-      toast({
-        title: "Error",
-        description: "Failed to publish result",
-        variant: "destructive"
-      });
-    }
-  }, [refetchData, toast]);
-
   const handleStudentSelection = useCallback((studentId: string, checked: boolean) => {
     setSelectedStudents(prev => {
       if (checked) {
@@ -343,164 +352,180 @@ const AdminDashboard: React.FC = () => {
 
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <Tabs defaultValue="overview" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-6">
+          <TabsList className={`grid w-full ${TAB_GRID_COLUMNS[tabCount]}`}>
             <TabsTrigger value="overview">Overview</TabsTrigger>
             <TabsTrigger value="students">Students</TabsTrigger>
             <TabsTrigger value="courses">Courses</TabsTrigger>
             <TabsTrigger value="results">Results</TabsTrigger>
-            <TabsTrigger value="notifications">Notifications</TabsTrigger>
+            {canHandleRemarks && (
+              <TabsTrigger value="remarks">Remarks</TabsTrigger>
+            )}
+            <TabsTrigger value="grading">Grading</TabsTrigger>
+            {canUseNotificationCenter && (
+              <TabsTrigger value="notifications">Notifications</TabsTrigger>
+            )}
             <TabsTrigger value="feedback">Feedback</TabsTrigger>
+            {canManageAdmins && (
+              <TabsTrigger value="admins">Admins</TabsTrigger>
+            )}
           </TabsList>
 
           <TabsContent value="overview" className="space-y-6">
             <QuickStats students={fullStudents} results={results} courses={courses} />
             <DepartmentChart students={students} />
             
-            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-              <h3 className="text-lg font-semibold text-gray-900 mb-4">Quick Actions</h3>
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-                
-                {/* Direct Publish Results Button */}
-                <Button 
-                  onClick={handlePublishResults}
-                  disabled={notificationLoading}
-                  className="flex items-center gap-2"
-                >
-                  <GraduationCap className="h-4 w-4" />
-                  {notificationLoading ? 'Publishing...' : 'Publish Results'}
-                </Button>
-
-                {/* Bulk Notification Dialog */}
-                <Dialog open={bulkNotificationOpen} onOpenChange={setBulkNotificationOpen}>
-                  <DialogTrigger asChild>
-                    <Button variant="outline" className="flex items-center gap-2" disabled={bulkNotificationLoading}>
-                      <Users className="h-4 w-4" />
-                      Bulk Notification
+            {(canPublishResults || canSendNotifications) && (
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <h3 className="text-lg font-semibold text-gray-900 mb-4">Quick Actions</h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+                  {/* Direct Publish Results Button */}
+                  {canPublishResults && (
+                    <Button 
+                      onClick={handlePublishResults}
+                      disabled={publishing}
+                      className="flex items-center gap-2"
+                    >
+                      <GraduationCap className="h-4 w-4" />
+                      {publishing ? 'Publishing...' : 'Publish Results'}
                     </Button>
-                  </DialogTrigger>
-                  <DialogContent className="max-w-md">
-                    <DialogHeader>
-                      <DialogTitle>Send Bulk Notification</DialogTitle>
-                      <DialogDescription>
-                        Send notifications to multiple students at once.
-                      </DialogDescription>
-                    </DialogHeader>
-                    <div className="space-y-4">
-                      <div>
-                        <Label htmlFor="title">Title</Label>
-                        <Input
-                          id="title"
-                          value={bulkForm.title}
-                          onChange={(e) => setBulkForm(prev => ({ ...prev, title: e.target.value }))}
-                          placeholder="Notification title"
-                        />
-                      </div>
+                  )}
+
+                  {canSendNotifications && (
+                    <>
+                      {/* Bulk Notification Dialog */}
+                      <Dialog open={bulkNotificationOpen} onOpenChange={setBulkNotificationOpen}>
+                        <DialogTrigger asChild>
+                          <Button variant="outline" className="flex items-center gap-2" disabled={bulkNotificationLoading}>
+                            <Users className="h-4 w-4" />
+                            Bulk Notification
+                          </Button>
+                        </DialogTrigger>
+                        <DialogContent className="max-w-md">
+                          <DialogHeader>
+                            <DialogTitle>Send Bulk Notification</DialogTitle>
+                            <DialogDescription>
+                              Send notifications to multiple students at once.
+                            </DialogDescription>
+                          </DialogHeader>
+                          <div className="space-y-4">
+                            <div>
+                              <Label htmlFor="title">Title</Label>
+                              <Input
+                                id="title"
+                                value={bulkForm.title}
+                                onChange={(e) => setBulkForm(prev => ({ ...prev, title: e.target.value }))}
+                                placeholder="Notification title"
+                              />
+                            </div>
                       
-                      <div>
-                        <Label htmlFor="message">Message</Label>
-                        <Textarea
-                          id="message"
-                          value={bulkForm.message}
-                          onChange={(e) => setBulkForm(prev => ({ ...prev, message: e.target.value }))}
-                          placeholder="Your message here..."
-                          rows={4}
-                        />
-                      </div>
+                            <div>
+                              <Label htmlFor="message">Message</Label>
+                              <Textarea
+                                id="message"
+                                value={bulkForm.message}
+                                onChange={(e) => setBulkForm(prev => ({ ...prev, message: e.target.value }))}
+                                placeholder="Your message here..."
+                                rows={4}
+                              />
+                            </div>
                       
-                      <div>
-                        <Label htmlFor="targetType">Target</Label>
-                        <Select 
-                          value={bulkForm.targetType} 
-                          onValueChange={(value: BulkNotificationForm['targetType']) => 
-                            setBulkForm(prev => ({ ...prev, targetType: value }))
-                          }
-                        >
-                          <SelectTrigger>
-                            <SelectValue />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="all">All Active Students</SelectItem>
-                            <SelectItem value="department">By Department</SelectItem>
-                            <SelectItem value="level">By Level</SelectItem>
-                            <SelectItem value="custom">Department + Level</SelectItem>
-                          </SelectContent>
-                        </Select>
-                      </div>
+                            <div>
+                              <Label htmlFor="targetType">Target</Label>
+                              <Select 
+                                value={bulkForm.targetType} 
+                                onValueChange={(value: BulkNotificationForm['targetType']) => 
+                                  setBulkForm(prev => ({ ...prev, targetType: value }))
+                                }
+                              >
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="all">All Active Students</SelectItem>
+                                  <SelectItem value="department">By Department</SelectItem>
+                                  <SelectItem value="level">By Level</SelectItem>
+                                  <SelectItem value="custom">Department + Level</SelectItem>
+                                </SelectContent>
+                              </Select>
+                            </div>
                       
-                      {(bulkForm.targetType === 'department' || bulkForm.targetType === 'custom') && (
-                        <div>
-                          <Label htmlFor="department">Department</Label>
-                          <Select 
-                            value={bulkForm.department} 
-                            onValueChange={(value) => 
-                              setBulkForm(prev => ({ ...prev, department: value }))
-                            }
-                          >
-                            <SelectTrigger>
-                              <SelectValue placeholder="Select department" />
-                            </SelectTrigger>
-                            <SelectContent>
-                              {departments.map(dept => (
-                                <SelectItem key={dept} value={dept}>{dept}</SelectItem>
-                              ))}
-                            </SelectContent>
-                          </Select>
-                        </div>
-                      )}
+                            {(bulkForm.targetType === 'department' || bulkForm.targetType === 'custom') && (
+                              <div>
+                                <Label htmlFor="department">Department</Label>
+                                <Select 
+                                  value={bulkForm.department} 
+                                  onValueChange={(value) => 
+                                    setBulkForm(prev => ({ ...prev, department: value }))
+                                  }
+                                >
+                                  <SelectTrigger>
+                                    <SelectValue placeholder="Select department" />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {departments.map(dept => (
+                                      <SelectItem key={dept} value={dept}>{dept}</SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              </div>
+                            )}
                       
-                      {(bulkForm.targetType === 'level' || bulkForm.targetType === 'custom') && (
-                        <div>
-                          <Label htmlFor="level">Level</Label>
-                          <Select 
-                            value={bulkForm.level} 
-                            onValueChange={(value) => 
-                              setBulkForm(prev => ({ ...prev, level: value }))
-                            }
-                          >
-                            <SelectTrigger>
-                              <SelectValue placeholder="Select level" />
-                            </SelectTrigger>
-                            <SelectContent>
-                              {levels.map(level => (
-                                <SelectItem key={level} value={level}>{level}</SelectItem>
-                              ))}
-                            </SelectContent>
-                          </Select>
-                        </div>
-                      )}
-                    </div>
-                    <DialogFooter>
-                      <Button variant="outline" onClick={() => setBulkNotificationOpen(false)}>
-                        Cancel
+                            {(bulkForm.targetType === 'level' || bulkForm.targetType === 'custom') && (
+                              <div>
+                                <Label htmlFor="level">Level</Label>
+                                <Select 
+                                  value={bulkForm.level} 
+                                  onValueChange={(value) => 
+                                    setBulkForm(prev => ({ ...prev, level: value }))
+                                  }
+                                >
+                                  <SelectTrigger>
+                                    <SelectValue placeholder="Select level" />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {levels.map(level => (
+                                      <SelectItem key={level} value={level}>{level}</SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              </div>
+                            )}
+                          </div>
+                          <DialogFooter>
+                            <Button variant="outline" onClick={() => setBulkNotificationOpen(false)}>
+                              Cancel
+                            </Button>
+                            <Button onClick={handleBulkNotification} disabled={bulkNotificationLoading}>
+                              {bulkNotificationLoading ? 'Sending...' : 'Send Notification'}
+                            </Button>
+                          </DialogFooter>
+                        </DialogContent>
+                      </Dialog>
+
+                      <Button
+                        variant="outline"
+                        onClick={() => sendTestNotification(3)}
+                        disabled={notificationLoading}
+                        className="flex items-center gap-2"
+                      >
+                        <MessageSquare className="h-4 w-4" />
+                        Test Notification
                       </Button>
-                      <Button onClick={handleBulkNotification} disabled={bulkNotificationLoading}>
-                        {bulkNotificationLoading ? 'Sending...' : 'Send Notification'}
+
+                      <Button
+                        variant="outline"
+                        onClick={handleSendEnrollmentConfirmations}
+                        disabled={notificationLoading || selectedStudents.length === 0}
+                        className="flex items-center gap-2"
+                      >
+                        <BookOpen className="h-4 w-4" />
+                        Send Enrollments ({selectedStudents.length})
                       </Button>
-                    </DialogFooter>
-                  </DialogContent>
-                </Dialog>
-
-                <Button
-                  variant="outline"
-                  onClick={() => sendTestNotification(3)}
-                  disabled={notificationLoading}
-                  className="flex items-center gap-2"
-                >
-                  <MessageSquare className="h-4 w-4" />
-                  Test Notification
-                </Button>
-
-                <Button
-                  variant="outline"
-                  onClick={handleSendEnrollmentConfirmations}
-                  disabled={notificationLoading || selectedStudents.length === 0}
-                  className="flex items-center gap-2"
-                >
-                  <BookOpen className="h-4 w-4" />
-                  Send Enrollments ({selectedStudents.length})
-                </Button>
+                    </>
+                  )}
+                </div>
               </div>
-            </div>
+            )}
           </TabsContent>
 
           <TabsContent value="students" className="space-y-6">
@@ -510,8 +535,11 @@ const AdminDashboard: React.FC = () => {
                 <p className="text-gray-600">Manage student records and information</p>
               </div>
               <div className="flex gap-2">
-                <AddStudentDialog onStudentAdded={refetchData} />
-                {selectedStudents.length > 0 && (
+                <TranscriptExportDialog students={fullStudents} selectedStudentIds={selectedStudents} />
+                {canManageStudents && <CourseRegistrationDialog students={fullStudents} />}
+                {canManageStudents && <StudentImportDialog onImported={refetchData} />}
+                {canManageStudents && <AddStudentDialog onStudentAdded={refetchData} />}
+                {canSendNotifications && selectedStudents.length > 0 && (
                   <Dialog open={customNotificationOpen} onOpenChange={setCustomNotificationOpen}>
                     <DialogTrigger asChild>
                       <Button variant="outline" className="flex items-center gap-2">
@@ -588,7 +616,7 @@ const AdminDashboard: React.FC = () => {
               students={students} 
               selectedStudents={selectedStudents}
               onStudentSelect={handleStudentSelection}
-              allowSelection={true}
+              allowSelection={canSendNotifications}
             />
           </TabsContent>
 
@@ -598,9 +626,36 @@ const AdminDashboard: React.FC = () => {
                 <h2 className="text-2xl font-bold text-gray-900">Courses Management</h2>
                 <p className="text-gray-600">Manage course catalog and curriculum</p>
               </div>
-              <AddCourseDialog onCourseAdded={refetchData} />
+              <div className="flex gap-2">
+                <AcademicCalendarDialog canManageCalendar={canManageCalendar} />
+                {(canManageCourses || canManageStudents) && (
+                  <RegistrationSettingsDialog canManageLimits={canManageCourses} />
+                )}
+                {canManageCourses && (
+                  <>
+                    <CopyCatalogueDialog
+                      departments={courseDepartments}
+                      academicYears={academicYears}
+                      currentSession={currentSession?.name}
+                      onCopied={refetchData}
+                    />
+                    <CourseFormDialog
+                      departments={courseDepartments}
+                      academicYears={academicYears}
+                      currentSession={currentSession?.name}
+                      onSaved={refetchData}
+                    />
+                  </>
+                )}
+              </div>
             </div>
-            <CoursesList courses={courses} />
+            <CoursesList
+              courses={courses}
+              academicYears={academicYears}
+              currentSession={currentSession?.name}
+              canManageCourses={canManageCourses}
+              onCoursesChanged={refetchData}
+            />
           </TabsContent>
 
           <TabsContent value="results" className="space-y-6">
@@ -609,40 +664,61 @@ const AdminDashboard: React.FC = () => {
                 <h2 className="text-2xl font-bold text-gray-900">Results Management</h2>
                 <p className="text-gray-600">Add, manage and publish student results</p>
               </div>
-              <AddResultDialog students={students} onResultAdded={refetchData} />
+              <div className="flex gap-2">
+                <CarryOverReportDialog departments={departments} levels={levels} />
+                {canEnterResults && <ResultImportDialog onImported={refetchData} />}
+                {canEnterResults && <AddResultDialog students={students} onResultAdded={refetchData} />}
+              </div>
             </div>
-            <ResultsList 
-              results={results} 
-              students={students}
-              courses={courses}
-              onViewResult={(resultId) => {
-                console.log('View result:', resultId);
-              }}
-              onEditResult={(resultId) => {
-                console.log('Edit result:', resultId);
-              }}
-              onPublishResult={handlePublishResult}
-            />
+            <ResultsList results={results} academicYears={academicYears} onResultsChanged={refetchData} />
           </TabsContent>
 
-          <TabsContent value="notifications" className="space-y-6">
-            <EnhancedNotificationCenter
-              students={students}
-              onPublishResults={handlePublishResults}
-              onSendTestNotification={() => sendTestNotification(5)}
-              onSendBulkNotification={sendBulkNotification}
-              onSendCustomNotification={sendCustomNotification}
-              notificationLoading={notificationLoading}
-              bulkNotificationLoading={bulkNotificationLoading}
-              departments={departments}
-              levels={levels}
-            />
+          {canHandleRemarks && (
+            <TabsContent value="remarks" className="space-y-6">
+              <RemarkRequestsTab onResultsChanged={refetchData} />
+            </TabsContent>
+          )}
+
+          <TabsContent value="grading" className="space-y-6">
+            <GradingScalesTab departments={departments} levels={levels} academicYears={academicYears} />
           </TabsContent>
 
+          {canUseNotificationCenter && (
+            <TabsContent value="notifications" className="space-y-6">
+              <EnhancedNotificationCenter
+                students={students}
+                onPublishResults={handlePublishResults}
+                onSendTestNotification={() => sendTestNotification(5)}
+                onSendBulkNotification={sendBulkNotification}
+                onSendCustomNotification={sendCustomNotification}
+                notificationLoading={notificationLoading}
+                bulkNotificationLoading={bulkNotificationLoading}
+                departments={departments}
+                levels={levels}
+              />
+            </TabsContent>
+          )}
+
           <TabsContent value="feedback" className="space-y-6">
             <FeedbackTab />
           </TabsContent>
+
+          {canManageAdmins && (
+            <TabsContent value="admins" className="space-y-6">
+              <AdminUsersTab />
+            </TabsContent>
+          )}
         </Tabs>
+
+        {canPublishResults && (
+          <PublishResultsDialog
+            open={publishDialogOpen}
+            onOpenChange={setPublishDialogOpen}
+            results={results}
+            publishing={publishing}
+            onPublish={handlePublishScope}
+          />
+        )}
       </div>
     </div>
   );
@@ -9,6 +9,7 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Loader2, GraduationCap } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { useEffect } from 'react';
+import { adminHomePath } from '@/lib/permissions';
 
 const AdminLogin = () => {
   const [email, setEmail] = useState('');
@@ -21,7 +22,7 @@ const AdminLogin = () => {
   useEffect(() => {
     // Redirect if already logged in
     if (admin) {
-      navigate('/admin');
+      navigate(adminHomePath(admin.role));
     }
   }, [admin, navigate]);
 
@@ -32,9 +33,8 @@ const AdminLogin = () => {
 
     const result = await login(email, password);
     
-    if (result.success) {
-      navigate('/admin');
-    } else {
+    // On success the effect above sends the admin to their home page
+    if (!result.success) {
       setError(result.error || 'Login failed');
     }
     
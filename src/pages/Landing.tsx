@@ -58,12 +58,19 @@ const Landing = () => {
               <span className="text-xl font-bold text-gray-900">EduNotify</span>
             </div>
             <div className="flex items-center space-x-4">
+            <Button 
+              variant="ghost" 
+              onClick={() => navigate('/student/login')}
+              className="text-gray-700 hover:text-green-600"
+            >
+              Student Login
+            </Button>
             <Button 
               variant="ghost" 
               onClick={() => navigate('/admin/login')}
               className="text-gray-700 hover:text-green-600"
             >
-              Login
+              Admin Login
             </Button>
               {/* <Link to="/register">
                 <Button className="bg-green-600 hover:bg-green-700 text-white">
@@ -0,0 +1,158 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BookOpen, GraduationCap, Loader2, LogOut, Users } from 'lucide-react';
+import ScoreSheetGrid from '@/components/lecturer/ScoreSheetGrid';
+import { useAuth } from '@/contexts/AuthContext';
+import { useAcademicCalendar } from '@/hooks/useAcademicCalendar';
+import { useLecturerCourses } from '@/hooks/useLecturerCourses';
+import { PERMISSIONS } from '@/lib/permissions';
+import { isResultEntryOpen } from '@/services/academicCalendarService';
+
+const LecturerPortal = () => {
+  const { admin, logout, can } = useAuth();
+  const navigate = useNavigate();
+  const { courses, loading, refetch } = useLecturerCourses();
+  const { currentSession, findSemester, loading: calendarLoading } = useAcademicCalendar();
+  const [academicYear, setAcademicYear] = useState('');
+  const [selectedOfferingId, setSelectedOfferingId] = useState<string | null>(null);
+
+  const academicYears = useMemo(() => [...new Set(courses.map(c => c.academic_year))], [courses]);
+  const sessionCourses = useMemo(() => courses.filter(c => c.academic_year === academicYear), [courses, academicYear]);
+  const selectedCourse = courses.find(c => c.offering_id === selectedOfferingId) ?? null;
+  const selectedSemester = selectedCourse ? findSemester(selectedCourse.academic_year, selectedCourse.semester) : null;
+
+  // Open on the current session, or the newest one the lecturer teaches in
+  useEffect(() => {
+    if (!academicYear && !calendarLoading && academicYears.length > 0) {
+      setAcademicYear(currentSession && academicYears.includes(currentSession.name) ? currentSession.name : academicYears[0]);
+    }
+  }, [academicYear, academicYears, calendarLoading, currentSession]);
+
+  const handleLogout = () => {
+    logout();
+    navigate('/admin/login');
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center py-4">
+            <div className="flex items-center space-x-3">
+              <div className="w-10 h-10 bg-gradient-to-r from-green-600 to-blue-600 rounded-lg flex items-center justify-center">
+                <GraduationCap className="h-6 w-6 text-white" />
+              </div>
+              <div>
+                <h1 className="text-xl font-bold text-gray-900">EduNotify Score Entry</h1>
+                <p className="text-sm text-gray-600">Welcome back, {admin?.full_name}</p>
+              </div>
+            </div>
+            <div className="flex items-center space-x-4">
+              {can(PERMISSIONS.VIEW_DASHBOARD) && (
+                <Button variant="outline" size="sm" onClick={() => navigate('/admin')}>
+                  Admin Dashboard
+                </Button>
+              )}
+              <Button variant="outline" size="sm" onClick={handleLogout}>
+                <LogOut className="h-4 w-4 mr-2" />
+                Logout
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {loading ? (
+          <div className="flex justify-center py-24">
+            <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+          </div>
+        ) : courses.length === 0 ? (
+          <div className="text-center py-24">
+            <BookOpen className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h2 className="text-lg font-medium text-gray-900">No assigned courses</h2>
+            <p className="text-gray-600 mt-2">Ask the course administrator to assign you to the courses you teach.</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <Card className="lg:col-span-1 h-fit">
+              <CardHeader>
+                <CardTitle>My Courses</CardTitle>
+                <CardDescription>Pick a course to enter its scores.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <Select value={academicYear} onValueChange={value => { setAcademicYear(value); setSelectedOfferingId(null); }}>
+                  <SelectTrigger><SelectValue placeholder="Session" /></SelectTrigger>
+                  <SelectContent>
+                    {academicYears.map(year => <SelectItem key={year} value={year}>{year}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+                <div className="space-y-2">
+                  {sessionCourses.map(course => (
+                    <button
+                      key={course.offering_id}
+                      type="button"
+                      onClick={() => setSelectedOfferingId(course.offering_id)}
+                      className={`w-full text-left p-3 rounded-lg border transition-colors ${
+                        course.offering_id === selectedOfferingId ? 'border-blue-500 bg-blue-50' : 'hover:bg-gray-50'
+                      }`}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-semibold text-gray-900">{course.course_code}</span>
+                        <Badge
+                          variant="outline"
+                          className={course.sheet_status === 'submitted'
+                            ? 'bg-purple-50 text-purple-700 border-purple-200'
+                            : 'bg-yellow-50 text-yellow-700 border-yellow-200'}
+                        >
+                          {course.sheet_status === 'submitted' ? 'Submitted' : 'Draft'}
+                        </Badge>
+                      </div>
+                      <p className="text-sm text-gray-600">{course.course_title}</p>
+                      <p className="text-xs text-gray-500 flex items-center gap-1 mt-1">
+                        <Users className="h-3 w-3" />
+                        {course.student_count} student{course.student_count !== 1 && 's'} · {course.semester}
+                      </p>
+                    </button>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+
+            <div className="lg:col-span-2 space-y-4">
+              {selectedSemester && !isResultEntryOpen(selectedSemester) && (
+                <Alert variant="destructive">
+                  <AlertDescription>
+                    Result entry for {selectedSemester.academic_year} {selectedSemester.name} is open from{' '}
+                    {new Date(selectedSemester.result_entry_opens_at).toLocaleString()} to{' '}
+                    {new Date(selectedSemester.result_entry_closes_at).toLocaleString()}. Scores cannot be saved or submitted outside it.
+                  </AlertDescription>
+                </Alert>
+              )}
+              {selectedCourse ? (
+                <ScoreSheetGrid
+                  key={selectedCourse.offering_id}
+                  course={selectedCourse}
+                  onStatusChanged={() => refetch(false)}
+                />
+              ) : (
+                <Card>
+                  <CardContent className="text-center py-24 text-gray-600">
+                    Select a course to open its score sheet.
+                  </CardContent>
+                </Card>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LecturerPortal;
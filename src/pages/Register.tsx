@@ -1,50 +1,38 @@
 
 import { useState } from "react";
-import { Link } from "react-router-dom";
+import { Link, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { toast } from "@/hooks/use-toast";
-import { ArrowLeft, Bell, Eye, EyeOff } from "lucide-react";
+import { ArrowLeft, Bell, Eye, EyeOff, Loader2 } from "lucide-react";
+import { useStudentAuth } from "@/contexts/StudentAuthContext";
+
+const INITIAL_FORM = {
+  email: "",
+  studentId: "",
+  password: "",
+  confirmPassword: ""
+};
 
 const Register = () => {
   const [showPassword, setShowPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
-  const [formData, setFormData] = useState({
-    firstName: "",
-    lastName: "",
-    email: "",
-    studentId: "",
-    phoneNumber: "",
-    department: "",
-    level: "",
-    password: "",
-    confirmPassword: "" 
-  });
-
-  const nigeriaCodes = ["+234"];
-  
-  const levels = ["ND1", "ND2", "HND1", "HND2"];
-
-  const validateNigerianPhone = (phone: string) => {
-    const cleanPhone = phone.replace(/\s+/g, '');
-    const nigerianPhoneRegex = /^(\+234|234|0)[789][01]\d{8}$/;
-    return nigerianPhoneRegex.test(cleanPhone);
-  };
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { signUp } = useStudentAuth();
+  const navigate = useNavigate();
+  const [formData, setFormData] = useState(INITIAL_FORM);
 
   const handleInputChange = (field: string, value: string) => {
     setFormData(prev => ({ ...prev, [field]: value }));
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
     // Validation
-    if (!formData.firstName || !formData.lastName || !formData.email || 
-        !formData.studentId || !formData.phoneNumber ||
-        !formData.department || !formData.level || !formData.password) {
+    if (!formData.email || !formData.studentId || !formData.password) {
       toast({
         title: "Error",
         description: "Please fill in all required fields",
@@ -53,15 +41,6 @@ const Register = () => {
       return;
     }
 
-    if (!validateNigerianPhone(formData.phoneNumber)) {
-      toast({
-        title: "Invalid Phone Number",
-        description: "Please enter a valid Nigerian phone number (e.g., +234 XXX XXX XXXX)",
-        variant: "destructive"
-      });
-      return;
-    }
-
     if (formData.password !== formData.confirmPassword) {
       toast({
         title: "Password Mismatch",
@@ -80,29 +59,38 @@ const Register = () => {
       return;
     }
 
-    // Here you would typically call your registration API
-    console.log("Registration data:", {
-      ...formData,
-      institution: "Moshood Abiola Polytechnic"
-    });
-    
-    toast({
-      title: "Registration Successful!",
-      description: "Your account has been created. You can now login.",
+    setIsSubmitting(true);
+    const result = await signUp({
+      studentId: formData.studentId,
+      email: formData.email,
+      password: formData.password
     });
+    setIsSubmitting(false);
 
-    // Reset form
-    setFormData({
-      firstName: "",
-      lastName: "",
-      email: "",
-      studentId: "",
-      phoneNumber: "",
-      department: "",
-      level: "",
-      password: "",
-      confirmPassword: ""
-    });
+    if (!result.success) {
+      toast({
+        title: "Registration Failed",
+        description: result.error,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setFormData(INITIAL_FORM);
+
+    if (result.needsConfirmation) {
+      toast({
+        title: "Check Your Email",
+        description: "We've sent a confirmation link to your email. Confirming it links your account to the student record with this matric number and email.",
+      });
+      navigate('/student/login');
+    } else {
+      toast({
+        title: "Registration Successful!",
+        description: "Your account has been created.",
+      });
+      navigate('/student');
+    }
   };
 
   return (
@@ -139,83 +127,15 @@ const Register = () => {
             </CardHeader>
             <CardContent>
               <form onSubmit={handleSubmit} className="space-y-6">
-                {/* Personal Information */}
+                {/* Student Record */}
                 <div className="space-y-4">
                   <h3 className="text-lg font-semibold text-gray-900 border-b pb-2">
-                    Personal Information
+                    Student Record - Moshood Abiola Polytechnic
                   </h3>
-                  <div className="grid md:grid-cols-2 gap-4">
-                    <div className="space-y-2">
-                      <Label htmlFor="firstName">First Name *</Label>
-                      <Input
-                        id="firstName"
-                        type="text"
-                        value={formData.firstName}
-                        onChange={(e) => handleInputChange("firstName", e.target.value)}
-                        placeholder="Enter your first name"
-                        required
-                      />
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="lastName">Last Name *</Label>
-                      <Input
-                        id="lastName"
-                        type="text"
-                        value={formData.lastName}
-                        onChange={(e) => handleInputChange("lastName", e.target.value)}
-                        placeholder="Enter your last name"
-                        required
-                      />
-                    </div>
-                  </div>
-                  
-                  <div className="space-y-2">
-                    <Label htmlFor="email">Email Address *</Label>
-                    <Input
-                      id="email"
-                      type="email"
-                      value={formData.email}
-                      onChange={(e) => handleInputChange("email", e.target.value)}
-                      placeholder="your.email@example.com"
-                      required
-                    />
-                  </div>
+                  <p className="text-sm text-gray-500">
+                    Use the matric number and email address the school has on file for you.
+                  </p>
 
-                  <div className="space-y-2">
-                    <Label htmlFor="phoneNumber">Phone Number *</Label>
-                    <div className="flex">
-                      <Select defaultValue="+234">
-                        <SelectTrigger className="w-20">
-                          <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent>
-                          {nigeriaCodes.map(code => (
-                            <SelectItem key={code} value={code}>{code}</SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
-                      <Input
-                        id="phoneNumber"
-                        type="tel"
-                        value={formData.phoneNumber}
-                        onChange={(e) => handleInputChange("phoneNumber", e.target.value)}
-                        placeholder="801 234 5678"
-                        className="flex-1 ml-2"
-                        required
-                      />
-                    </div>
-                    <p className="text-sm text-gray-500">
-                      Enter your Nigerian phone number for SMS notifications
-                    </p>
-                  </div>
-                </div>
-
-                {/* Academic Information */}
-                <div className="space-y-4">
-                  <h3 className="text-lg font-semibold text-gray-900 border-b pb-2">
-                    Academic Information - Moshood Abiola Polytechnic
-                  </h3>
-                  
                   <div className="space-y-2">
                     <Label htmlFor="studentId">Student ID/Matric Number *</Label>
                     <Input
@@ -228,33 +148,16 @@ const Register = () => {
                     />
                   </div>
 
-                  <div className="grid md:grid-cols-2 gap-4">
-                    <div className="space-y-2">
-                      <Label htmlFor="department">Department/Program *</Label>
-                      <Input
-                        id="department"
-                        type="text"
-                        value={formData.department}
-                        onChange={(e) => handleInputChange("department", e.target.value)}
-                        placeholder="e.g., Computer Science"
-                        required
-                      />
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="level">Current Level *</Label>
-                      <Select onValueChange={(value) => handleInputChange("level", value)}>
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select level" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          {levels.map(level => (
-                            <SelectItem key={level} value={level}>
-                              {level}
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
-                    </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="email">Email Address *</Label>
+                    <Input
+                      id="email"
+                      type="email"
+                      value={formData.email}
+                      onChange={(e) => handleInputChange("email", e.target.value)}
+                      placeholder="your.email@example.com"
+                      required
+                    />
                   </div>
                 </div>
 
@@ -317,13 +220,15 @@ const Register = () => {
                     type="submit"
                     className="w-full bg-green-600 hover:bg-green-700 text-white py-3"
                     size="lg"
+                    disabled={isSubmitting}
                   >
+                    {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
                     Create Account
                   </Button>
                   
                   <div className="text-center">
                     <span className="text-gray-600">Already have an account? </span>
-                    <Link to="/" className="text-blue-600 hover:underline font-medium">
+                    <Link to="/student/login" className="text-blue-600 hover:underline font-medium">
                       Login here
                     </Link>
                   </div>
@@ -1,114 +1,159 @@
-
 import { useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line } from "recharts";
-import { Bell, User, BookOpen, TrendingUp, Search, Filter, Download, Eye } from "lucide-react";
+import { XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line } from "recharts";
+import { Bell, User, BookOpen, TrendingUp, Search, Loader2, GraduationCap, RefreshCw, LogOut, FileDown } from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { useStudentPortal } from "@/hooks/useStudentPortal";
+import { useStudentAuth } from "@/contexts/StudentAuthContext";
+import { getGradeBadgeClass } from "@/lib/grading";
+import { buildTranscript } from "@/lib/transcript";
+import { downloadTranscriptPdf } from "@/lib/transcriptPdf";
+import { isOpenRemarkStatus, REMARK_STATUS_LABELS, RemarkRequest, RemarkStatus } from "@/services/remarkRequestService";
+import RemarkRequestDialog from "@/components/student/RemarkRequestDialog";
+import CourseRegistrationPanel from "@/components/student/CourseRegistrationPanel";
+
+const INSTITUTION = "Moshood Abiola Polytechnic";
+
+const formatDate = (value: string | null) =>
+  value
+    ? new Date(value).toLocaleDateString('en-GB', { year: 'numeric', month: 'short', day: 'numeric' })
+    : '—';
+
+const EmptyState = ({ icon: Icon, title, description }: { icon: typeof Bell; title: string; description: string }) => (
+  <div className="text-center py-10">
+    <div className="mx-auto w-12 h-12 bg-gray-100 rounded-full flex items-center justify-center mb-3">
+      <Icon className="w-6 h-6 text-gray-400" />
+    </div>
+    <p className="font-medium text-gray-900">{title}</p>
+    <p className="text-sm text-gray-500 mt-1">{description}</p>
+  </div>
+);
+
+// Either the latest request's status or, when nothing is open, a way to ask for a remark
+const RemarkRequestStatus = ({
+  request,
+  resultId,
+  courseLabel,
+  onSubmitted,
+}: {
+  request: RemarkRequest | undefined;
+  resultId: string;
+  courseLabel: string;
+  onSubmitted: () => void;
+}) => (
+  <div className="flex flex-wrap items-center gap-2 mt-3">
+    {request && (
+      <Badge variant="secondary">
+        Remark {REMARK_STATUS_LABELS[request.status as RemarkStatus]?.toLowerCase() ?? request.status}
+        {!isOpenRemarkStatus(request.status) && ` • ${formatDate(request.resolved_at)}`}
+      </Badge>
+    )}
+    {request?.admin_response && !isOpenRemarkStatus(request.status) && (
+      <span className="text-sm text-gray-600">{request.admin_response}</span>
+    )}
+    {!(request && isOpenRemarkStatus(request.status)) && (
+      <RemarkRequestDialog resultId={resultId} courseLabel={courseLabel} onSubmitted={onSubmitted} />
+    )}
+  </div>
+);
 
 const StudentDashboard = () => {
   const [searchTerm, setSearchTerm] = useState("");
+  const [activeTab, setActiveTab] = useState("dashboard");
+  const { student, results, notifications, remarkRequests, carryOvers, gradingScale, summary, performance, loading, error, refetch } = useStudentPortal();
+  const { logout } = useStudentAuth();
+  const navigate = useNavigate();
 
-  // Mock data
-  const studentInfo = {
-    name: "John Doe",
-    studentId: "2021/1/12345",
-    department: "Computer Science",
-    level: "300 Level",
-    cgpa: 3.75,
-    institution: "University of Lagos"
+  const handleDownloadTranscript = () => {
+    if (!student) return;
+    downloadTranscriptPdf([buildTranscript(student, results, gradingScale)]);
   };
 
-  const results = [
-    {
-      id: 1,
-      semester: "2023/2024 First Semester",
-      course: "CSC 301",
-      title: "Data Structures & Algorithms",
-      score: 85,
-      grade: "A",
-      units: 3,
-      date: "2024-01-15",
-      status: "Published"
-    },
-    {
-      id: 2,
-      semester: "2023/2024 First Semester", 
-      course: "CSC 302",
-      title: "Operating Systems",
-      score: 78,
-      grade: "B+",
-      units: 3,
-      date: "2024-01-15",
-      status: "Published"
-    },
-    {
-      id: 3,
-      semester: "2023/2024 First Semester",
-      course: "CSC 303", 
-      title: "Database Systems",
-      score: 92,
-      grade: "A",
-      units: 3,
-      date: "2024-01-15",
-      status: "Published"
-    },
-    {
-      id: 4,
-      semester: "2023/2024 Second Semester",
-      course: "CSC 304",
-      title: "Software Engineering",
-      score: 0,
-      grade: "Pending",
-      units: 3,
-      date: "Pending",
-      status: "Pending"
-    }
-  ];
+  const handleLogout = async () => {
+    await logout();
+    navigate('/student/login', { replace: true });
+  };
 
-  const performanceData = [
-    { semester: "2021/2022 1st", gpa: 3.2, cgpa: 3.2 },
-    { semester: "2021/2022 2nd", gpa: 3.5, cgpa: 3.35 },
-    { semester: "2022/2023 1st", gpa: 3.8, cgpa: 3.5 },
-    { semester: "2022/2023 2nd", gpa: 3.6, cgpa: 3.53 },
-    { semester: "2023/2024 1st", gpa: 3.9, cgpa: 3.6 }
-  ];
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <Loader2 className="h-8 w-8 animate-spin mx-auto text-green-600" />
+          <p className="mt-4 text-gray-600">Loading your records...</p>
+        </div>
+      </div>
+    );
+  }
 
-  const notifications = [
-    {
-      id: 1,
-      title: "New Results Published",
-      message: "Your CSC 301 result has been published",
-      date: "2024-01-15",
-      type: "result",
-      read: false
-    },
-    {
-      id: 2,
-      title: "CGPA Update",
-      message: "Your CGPA has been updated to 3.75",
-      date: "2024-01-14",
-      type: "update",
-      read: true
-    }
-  ];
+  if (error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle>Unable to load your records</CardTitle>
+            <CardDescription>Something went wrong while fetching your data.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+            <Button onClick={() => refetch()} className="w-full">
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Try Again
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
 
-  const getGradeColor = (grade: string) => {
-    switch (grade) {
-      case "A": return "bg-green-100 text-green-800";
-      case "B+": return "bg-blue-100 text-blue-800";
-      case "B": return "bg-yellow-100 text-yellow-800";
-      case "C": return "bg-orange-100 text-orange-800";
-      case "F": return "bg-red-100 text-red-800";
-      default: return "bg-gray-100 text-gray-800";
-    }
-  };
+  if (!student) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardContent className="pt-6">
+            <EmptyState
+              icon={User}
+              title="No student record found"
+              description="Your account is not linked to a student record yet. Please contact the Academic Affairs Office."
+            />
+            <Button variant="outline" onClick={handleLogout} className="w-full">
+              <LogOut className="h-4 w-4 mr-2" />
+              Sign Out
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const fullName = `${student.first_name} ${student.last_name}`;
+  const cgpa = summary.semesters.length > 0
+    ? summary.cgpa.toFixed(2)
+    : student.cgpa !== null ? student.cgpa.toFixed(2) : 'N/A';
+  const latestSemester = performance[performance.length - 1];
+  const previousSemester = performance[performance.length - 2];
+  const cgpaChange = latestSemester && previousSemester
+    ? latestSemester.cgpa - previousSemester.cgpa
+    : null;
+  const latestSemesterResults = latestSemester
+    ? results.filter(r => r.academic_year === latestSemester.academicYear && r.semester === latestSemester.semester)
+    : [];
+  const recentResults = [...results]
+    .sort((a, b) => (b.published_at || '').localeCompare(a.published_at || ''))
+    .slice(0, 3);
+
+  // remarkRequests is newest first, so the first match is the latest request for a result
+  const latestRemarkRequest = (resultId: string) => remarkRequests.find(request => request.result_id === resultId);
 
   const filteredResults = results.filter(result =>
-    result.course.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    result.title.toLowerCase().includes(searchTerm.toLowerCase())
+    result.course.course_code.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    result.course.course_title.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
   return (
@@ -123,28 +168,33 @@ const StudentDashboard = () => {
               </div>
               <div>
                 <h1 className="text-xl font-bold text-gray-900">Student Portal</h1>
-                <p className="text-sm text-gray-600">Welcome back, {studentInfo.name}</p>
+                <p className="text-sm text-gray-600">Welcome back, {fullName}</p>
               </div>
             </div>
             <div className="flex items-center space-x-4">
-              <Button variant="outline" size="sm">
+              <Button variant="outline" size="sm" onClick={() => setActiveTab("notifications")}>
                 <Bell className="h-4 w-4 mr-2" />
                 Notifications
               </Button>
-              <Button variant="outline" size="sm">
+              <Button variant="outline" size="sm" onClick={() => setActiveTab("profile")}>
                 <User className="h-4 w-4 mr-2" />
                 Profile
               </Button>
+              <Button variant="outline" size="sm" onClick={handleLogout}>
+                <LogOut className="h-4 w-4 mr-2" />
+                Logout
+              </Button>
             </div>
           </div>
         </div>
       </div>
 
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        <Tabs defaultValue="dashboard" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-4">
+        <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
+          <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="dashboard">Dashboard</TabsTrigger>
             <TabsTrigger value="results">Results</TabsTrigger>
+            <TabsTrigger value="registration">Registration</TabsTrigger>
             <TabsTrigger value="profile">Profile</TabsTrigger>
             <TabsTrigger value="notifications">Notifications</TabsTrigger>
           </TabsList>
@@ -159,19 +209,23 @@ const StudentDashboard = () => {
                   <TrendingUp className="h-4 w-4 text-green-600" />
                 </CardHeader>
                 <CardContent>
-                  <div className="text-2xl font-bold text-green-600">{studentInfo.cgpa}</div>
-                  <p className="text-xs text-muted-foreground">+0.15 from last semester</p>
+                  <div className="text-2xl font-bold text-green-600">{cgpa}</div>
+                  <p className="text-xs text-muted-foreground">
+                    {cgpaChange !== null
+                      ? `${cgpaChange >= 0 ? '+' : ''}${cgpaChange.toFixed(2)} from last semester`
+                      : 'Cumulative grade point average'}
+                  </p>
                 </CardContent>
               </Card>
-              
+
               <Card>
                 <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
                   <CardTitle className="text-sm font-medium">Current Level</CardTitle>
                   <BookOpen className="h-4 w-4 text-blue-600" />
                 </CardHeader>
                 <CardContent>
-                  <div className="text-2xl font-bold">{studentInfo.level}</div>
-                  <p className="text-xs text-muted-foreground">{studentInfo.department}</p>
+                  <div className="text-2xl font-bold">{student.level}</div>
+                  <p className="text-xs text-muted-foreground">{student.department}</p>
                 </CardContent>
               </Card>
 
@@ -181,21 +235,21 @@ const StudentDashboard = () => {
                   <BookOpen className="h-4 w-4 text-green-600" />
                 </CardHeader>
                 <CardContent>
-                  <div className="text-2xl font-bold">{results.length}</div>
-                  <p className="text-xs text-muted-foreground">This semester</p>
+                  <div className="text-2xl font-bold">{latestSemesterResults.length}</div>
+                  <p className="text-xs text-muted-foreground">
+                    {latestSemester ? `${latestSemester.academicYear} ${latestSemester.semester}` : 'No published results yet'}
+                  </p>
                 </CardContent>
               </Card>
 
               <Card>
                 <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                  <CardTitle className="text-sm font-medium">Pending Results</CardTitle>
+                  <CardTitle className="text-sm font-medium">Notifications</CardTitle>
                   <Bell className="h-4 w-4 text-orange-600" />
                 </CardHeader>
                 <CardContent>
-                  <div className="text-2xl font-bold">
-                    {results.filter(r => r.status === "Pending").length}
-                  </div>
-                  <p className="text-xs text-muted-foreground">Awaiting publication</p>
+                  <div className="text-2xl font-bold">{notifications.length}</div>
+                  <p className="text-xs text-muted-foreground">Messages from your institution</p>
                 </CardContent>
               </Card>
             </div>
@@ -208,16 +262,24 @@ const StudentDashboard = () => {
                   <CardDescription>GPA and CGPA trend over semesters</CardDescription>
                 </CardHeader>
                 <CardContent>
-                  <ResponsiveContainer width="100%" height={300}>
-                    <LineChart data={performanceData}>
-                      <CartesianGrid strokeDasharray="3 3" />
-                      <XAxis dataKey="semester" tick={{ fontSize: 12 }} />
-                      <YAxis domain={[0, 4]} />
-                      <Tooltip />
-                      <Line type="monotone" dataKey="gpa" stroke="#22C55E" strokeWidth={2} />
-                      <Line type="monotone" dataKey="cgpa" stroke="#3B82F6" strokeWidth={2} />
-                    </LineChart>
-                  </ResponsiveContainer>
+                  {performance.length === 0 ? (
+                    <EmptyState
+                      icon={TrendingUp}
+                      title="No performance data yet"
+                      description="Your GPA trend will appear once results are published."
+                    />
+                  ) : (
+                    <ResponsiveContainer width="100%" height={300}>
+                      <LineChart data={performance}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+                        <YAxis domain={[0, 5]} />
+                        <Tooltip />
+                        <Line type="monotone" dataKey="gpa" name="GPA" stroke="#22C55E" strokeWidth={2} />
+                        <Line type="monotone" dataKey="cgpa" name="CGPA" stroke="#3B82F6" strokeWidth={2} />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  )}
                 </CardContent>
               </Card>
 
@@ -227,20 +289,28 @@ const StudentDashboard = () => {
                   <CardDescription>Your latest published results</CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-4">
-                  {results.filter(r => r.status === "Published").slice(0, 3).map((result) => (
-                    <div key={result.id} className="flex items-center justify-between p-3 border rounded-lg">
-                      <div>
-                        <p className="font-medium">{result.course}</p>
-                        <p className="text-sm text-gray-600">{result.title}</p>
-                      </div>
-                      <div className="text-right">
-                        <Badge className={getGradeColor(result.grade)}>
-                          {result.grade}
-                        </Badge>
-                        <p className="text-sm text-gray-600 mt-1">{result.score}%</p>
+                  {recentResults.length === 0 ? (
+                    <EmptyState
+                      icon={GraduationCap}
+                      title="No results published"
+                      description="You'll be notified as soon as your results are released."
+                    />
+                  ) : (
+                    recentResults.map((result) => (
+                      <div key={result.id} className="flex items-center justify-between p-3 border rounded-lg">
+                        <div>
+                          <p className="font-medium">{result.course.course_code}</p>
+                          <p className="text-sm text-gray-600">{result.course.course_title}</p>
+                        </div>
+                        <div className="text-right">
+                          <Badge className={getGradeBadgeClass(result.grade)}>
+                            {result.grade || 'N/A'}
+                          </Badge>
+                          <p className="text-sm text-gray-600 mt-1">{result.total_score ?? '—'}%</p>
+                        </div>
                       </div>
-                    </div>
-                  ))}
+                    ))
+                  )}
                 </CardContent>
               </Card>
             </div>
@@ -250,21 +320,20 @@ const StudentDashboard = () => {
           <TabsContent value="results" className="space-y-6">
             <Card>
               <CardHeader>
-                <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+                <div className="flex items-start justify-between gap-4">
                   <div>
                     <CardTitle>Academic Results</CardTitle>
-                    <CardDescription>View all your published and pending results</CardDescription>
-                  </div>
-                  <div className="flex gap-2">
-                    <Button variant="outline" size="sm">
-                      <Download className="h-4 w-4 mr-2" />
-                      Export
-                    </Button>
-                    <Button variant="outline" size="sm">
-                      <Filter className="h-4 w-4 mr-2" />
-                      Filter
-                    </Button>
+                    <CardDescription>All your published results</CardDescription>
                   </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleDownloadTranscript}
+                    disabled={results.length === 0}
+                  >
+                    <FileDown className="h-4 w-4 mr-2" />
+                    Download Transcript
+                  </Button>
                 </div>
               </CardHeader>
               <CardContent>
@@ -278,46 +347,72 @@ const StudentDashboard = () => {
                   />
                 </div>
 
-                <div className="space-y-4">
-                  {filteredResults.map((result) => (
-                    <div key={result.id} className="border rounded-lg p-4 hover:bg-gray-50 transition-colors">
-                      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
-                        <div className="flex-1">
-                          <div className="flex items-center gap-3 mb-2">
-                            <h3 className="font-semibold text-lg">{result.course}</h3>
-                            <Badge variant={result.status === "Published" ? "default" : "secondary"}>
-                              {result.status}
-                            </Badge>
+                {filteredResults.length === 0 ? (
+                  <EmptyState
+                    icon={BookOpen}
+                    title={results.length === 0 ? "No results published" : "No matching courses"}
+                    description={results.length === 0
+                      ? "Published results will appear here."
+                      : "Try a different course code or title."}
+                  />
+                ) : (
+                  <div className="space-y-4">
+                    {filteredResults.map((result) => (
+                      <div key={result.id} className="border rounded-lg p-4 hover:bg-gray-50 transition-colors">
+                        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+                          <div className="flex-1">
+                            <div className="flex items-center gap-3 mb-2">
+                              <h3 className="font-semibold text-lg">{result.course.course_code}</h3>
+                              <Badge variant="outline">{result.course.credit_units} Units</Badge>
+                            </div>
+                            <p className="text-gray-600 mb-1">{result.course.course_title}</p>
+                            <p className="text-sm text-gray-500">
+                              {result.academic_year} {result.semester} • Published {formatDate(result.published_at)}
+                            </p>
+                            <RemarkRequestStatus
+                              request={latestRemarkRequest(result.id)}
+                              resultId={result.id}
+                              courseLabel={`${result.course.course_code} · ${result.academic_year} ${result.semester}`}
+                              onSubmitted={() => refetch(false)}
+                            />
                           </div>
-                          <p className="text-gray-600 mb-1">{result.title}</p>
-                          <p className="text-sm text-gray-500">{result.semester}</p>
-                        </div>
-                        
-                        <div className="flex items-center gap-4">
-                          {result.status === "Published" ? (
-                            <>
-                              <div className="text-right">
-                                <p className="text-2xl font-bold text-green-600">{result.score}%</p>
-                                <Badge className={getGradeColor(result.grade)}>
-                                  {result.grade}
-                                </Badge>
+
+                          <div className="flex items-center gap-4">
+                            <div className="flex gap-3 text-sm">
+                              <div className="text-center bg-blue-50 px-3 py-2 rounded-lg">
+                                <div className="font-semibold text-blue-900">{result.ca_score ?? '—'}</div>
+                                <div className="text-xs text-blue-600">CA</div>
+                              </div>
+                              <div className="text-center bg-green-50 px-3 py-2 rounded-lg">
+                                <div className="font-semibold text-green-900">{result.exam_score ?? '—'}</div>
+                                <div className="text-xs text-green-600">Exam</div>
                               </div>
-                              <Button variant="outline" size="sm">
-                                <Eye className="h-4 w-4 mr-2" />
-                                View
-                              </Button>
-                            </>
-                          ) : (
-                            <div className="text-center">
-                              <p className="text-gray-500">Awaiting Publication</p>
-                              <p className="text-sm text-gray-400">You'll be notified</p>
                             </div>
-                          )}
+                            <div className="text-right">
+                              <p className="text-2xl font-bold text-green-600">{result.total_score ?? '—'}%</p>
+                              <Badge className={getGradeBadgeClass(result.grade)}>
+                                {result.grade || 'N/A'}
+                              </Badge>
+                            </div>
+                          </div>
                         </div>
                       </div>
-                    </div>
-                  ))}
-                </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          {/* Registration Tab */}
+          <TabsContent value="registration" className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Course Registration</CardTitle>
+                <CardDescription>Register your courses for the semester and print your course form</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <CourseRegistrationPanel student={student} />
               </CardContent>
             </Card>
           </TabsContent>
@@ -327,7 +422,7 @@ const StudentDashboard = () => {
             <Card>
               <CardHeader>
                 <CardTitle>Student Profile</CardTitle>
-                <CardDescription>Manage your personal and academic information</CardDescription>
+                <CardDescription>Your personal and academic information</CardDescription>
               </CardHeader>
               <CardContent className="space-y-6">
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -336,19 +431,19 @@ const StudentDashboard = () => {
                     <div className="space-y-3">
                       <div>
                         <label className="text-sm font-medium text-gray-700">Full Name</label>
-                        <p className="text-gray-900">{studentInfo.name}</p>
+                        <p className="text-gray-900">{fullName}</p>
                       </div>
                       <div>
                         <label className="text-sm font-medium text-gray-700">Student ID</label>
-                        <p className="text-gray-900">{studentInfo.studentId}</p>
+                        <p className="text-gray-900">{student.student_id}</p>
                       </div>
                       <div>
                         <label className="text-sm font-medium text-gray-700">Email</label>
-                        <p className="text-gray-900">john.doe@student.unilag.edu.ng</p>
+                        <p className="text-gray-900">{student.email}</p>
                       </div>
                       <div>
                         <label className="text-sm font-medium text-gray-700">Phone Number</label>
-                        <p className="text-gray-900">+234 801 234 5678</p>
+                        <p className="text-gray-900">{student.phone}</p>
                       </div>
                     </div>
                   </div>
@@ -358,34 +453,82 @@ const StudentDashboard = () => {
                     <div className="space-y-3">
                       <div>
                         <label className="text-sm font-medium text-gray-700">Institution</label>
-                        <p className="text-gray-900">{studentInfo.institution}</p>
+                        <p className="text-gray-900">{INSTITUTION}</p>
                       </div>
                       <div>
                         <label className="text-sm font-medium text-gray-700">Department</label>
-                        <p className="text-gray-900">{studentInfo.department}</p>
+                        <p className="text-gray-900">{student.department}</p>
                       </div>
                       <div>
                         <label className="text-sm font-medium text-gray-700">Current Level</label>
-                        <p className="text-gray-900">{studentInfo.level}</p>
+                        <p className="text-gray-900">{student.level}</p>
                       </div>
                       <div>
                         <label className="text-sm font-medium text-gray-700">Current CGPA</label>
-                        <p className="text-gray-900 font-semibold text-green-600">{studentInfo.cgpa}</p>
+                        <p className="text-gray-900 font-semibold text-green-600">{cgpa}</p>
+                      </div>
+                      {summary.classOfDegree && (
+                        <div>
+                          <label className="text-sm font-medium text-gray-700">Class of Degree (so far)</label>
+                          <p className="text-gray-900">{summary.classOfDegree}</p>
+                        </div>
+                      )}
+                      <div>
+                        <label className="text-sm font-medium text-gray-700">Credit Units Passed</label>
+                        <p className="text-gray-900">
+                          {summary.creditUnitsPassed} of {summary.creditUnitsAttempted} attempted
+                        </p>
+                      </div>
+                      {carryOvers.length > 0 && (
+                        <div>
+                          <label className="text-sm font-medium text-gray-700">Carry-over Courses</label>
+                          <p className="text-red-600">
+                            {carryOvers.length} outstanding · {carryOvers.reduce((sum, c) => sum + (c.course?.credit_units ?? 0), 0)} units
+                          </p>
+                        </div>
+                      )}
+                      <div>
+                        <label className="text-sm font-medium text-gray-700">Status</label>
+                        <p className="text-gray-900">{student.status}</p>
                       </div>
                     </div>
                   </div>
                 </div>
-
-                <div className="flex gap-4 pt-4">
-                  <Button className="bg-green-600 hover:bg-green-700">
-                    Edit Profile
-                  </Button>
-                  <Button variant="outline">
-                    Change Password
-                  </Button>
-                </div>
               </CardContent>
             </Card>
+
+            {carryOvers.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Outstanding Carry-overs</CardTitle>
+                  <CardDescription>
+                    Courses you have failed and not yet passed. Register them again when they are next offered.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-3">
+                    {carryOvers.map(carryOver => (
+                      <div key={carryOver.courseId} className="flex items-center justify-between p-3 border rounded-lg">
+                        <div>
+                          <h4 className="font-semibold text-gray-900">
+                            {carryOver.course?.course_code ?? "Unknown course"}
+                          </h4>
+                          <p className="text-sm text-gray-600">
+                            {carryOver.course ? `${carryOver.course.course_title} · ${carryOver.course.semester}` : "No longer offered"}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            Last sat {carryOver.lastAcademicYear} {carryOver.lastSemester} · {carryOver.attempts} attempt{carryOver.attempts !== 1 && "s"}
+                          </p>
+                        </div>
+                        <Badge className={getGradeBadgeClass(carryOver.lastGrade ?? "F")}>
+                          {carryOver.lastGrade ?? "F"}
+                        </Badge>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
           </TabsContent>
 
           {/* Notifications Tab */}
@@ -396,25 +539,32 @@ const StudentDashboard = () => {
                 <CardDescription>Stay updated with your academic progress</CardDescription>
               </CardHeader>
               <CardContent>
-                <div className="space-y-4">
-                  {notifications.map((notification) => (
-                    <div
-                      key={notification.id}
-                      className={`p-4 border rounded-lg ${!notification.read ? 'bg-blue-50 border-blue-200' : 'bg-white'}`}
-                    >
-                      <div className="flex justify-between items-start">
-                        <div>
-                          <h4 className="font-semibold text-gray-900">{notification.title}</h4>
-                          <p className="text-gray-600 mt-1">{notification.message}</p>
-                          <p className="text-sm text-gray-500 mt-2">{notification.date}</p>
+                {notifications.length === 0 ? (
+                  <EmptyState
+                    icon={Bell}
+                    title="No notifications yet"
+                    description="Result alerts and announcements will show up here."
+                  />
+                ) : (
+                  <div className="space-y-4">
+                    {notifications.map((notification) => (
+                      <div key={notification.id} className="p-4 border rounded-lg bg-white">
+                        <div className="flex justify-between items-start gap-4">
+                          <div>
+                            <h4 className="font-semibold text-gray-900">{notification.title}</h4>
+                            <p className="text-gray-600 mt-1 whitespace-pre-line">{notification.message}</p>
+                            <p className="text-sm text-gray-500 mt-2">
+                              {formatDate(notification.sent_at || notification.created_at)}
+                            </p>
+                          </div>
+                          <Badge variant="secondary" className="capitalize shrink-0">
+                            {notification.type.replace(/_/g, ' ')}
+                          </Badge>
                         </div>
-                        {!notification.read && (
-                          <div className="w-3 h-3 bg-blue-600 rounded-full"></div>
-                        )}
                       </div>
-                    </div>
-                  ))}
-                </div>
+                    ))}
+                  </div>
+                )}
               </CardContent>
             </Card>
           </TabsContent>
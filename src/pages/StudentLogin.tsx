@@ -0,0 +1,168 @@
+import React, { useState, useEffect } from 'react';
+import { useStudentAuth } from '@/contexts/StudentAuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Loader2, Bell } from 'lucide-react';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
+
+const StudentLogin = () => {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [mode, setMode] = useState<'login' | 'reset'>('login');
+  const { login, requestPasswordReset, session, sessionExpired } = useStudentAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const redirectTo = (location.state as { from?: string } | null)?.from || '/student';
+
+  useEffect(() => {
+    // Redirect if already logged in
+    if (session) {
+      navigate(redirectTo, { replace: true });
+    }
+  }, [session, navigate, redirectTo]);
+
+  const handleLogin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError('');
+    setNotice('');
+
+    const result = await login(email, password);
+
+    if (result.success) {
+      navigate(redirectTo, { replace: true });
+    } else {
+      setError(result.error || 'Login failed');
+    }
+
+    setIsLoading(false);
+  };
+
+  const handleResetRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError('');
+    setNotice('');
+
+    const result = await requestPasswordReset(email);
+
+    if (result.success) {
+      setNotice('If an account exists for this email, a password reset link has been sent.');
+    } else {
+      setError(result.error || 'Failed to send reset link');
+    }
+
+    setIsLoading(false);
+  };
+
+  const switchMode = (nextMode: 'login' | 'reset') => {
+    setMode(nextMode);
+    setError('');
+    setNotice('');
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-green-50 via-blue-50 to-white flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="flex items-center justify-center mb-4">
+            <div className="w-12 h-12 bg-gradient-to-r from-green-600 to-blue-600 rounded-lg flex items-center justify-center">
+              <Bell className="h-8 w-8 text-white" />
+            </div>
+          </div>
+          <CardTitle className="text-2xl font-bold">
+            {mode === 'login' ? 'Student Portal' : 'Reset Password'}
+          </CardTitle>
+          <CardDescription>
+            {mode === 'login'
+              ? 'Sign in to view your results and notifications'
+              : 'Enter your email and we will send you a reset link'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {sessionExpired && mode === 'login' && !error && (
+            <Alert className="mb-4">
+              <AlertDescription>Your session has expired. Please sign in again.</AlertDescription>
+            </Alert>
+          )}
+
+          <form onSubmit={mode === 'login' ? handleLogin : handleResetRequest} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="email">Email</Label>
+              <Input
+                id="email"
+                type="email"
+                placeholder="your.email@example.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+              />
+            </div>
+            {mode === 'login' && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="password">Password</Label>
+                  <button
+                    type="button"
+                    className="text-sm text-blue-600 hover:underline"
+                    onClick={() => switchMode('reset')}
+                  >
+                    Forgot password?
+                  </button>
+                </div>
+                <Input
+                  id="password"
+                  type="password"
+                  placeholder="Enter your password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                />
+              </div>
+            )}
+
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            {notice && (
+              <Alert>
+                <AlertDescription>{notice}</AlertDescription>
+              </Alert>
+            )}
+
+            <Button type="submit" className="w-full bg-green-600 hover:bg-green-700" disabled={isLoading}>
+              {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {mode === 'login' ? 'Sign In' : 'Send Reset Link'}
+            </Button>
+          </form>
+
+          <div className="text-center text-sm mt-6 space-y-2">
+            {mode === 'reset' ? (
+              <button type="button" className="text-blue-600 hover:underline" onClick={() => switchMode('login')}>
+                Back to sign in
+              </button>
+            ) : (
+              <p>
+                <span className="text-gray-600">Don't have an account? </span>
+                <Link to="/register" className="text-blue-600 hover:underline font-medium">
+                  Register here
+                </Link>
+              </p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default StudentLogin;
@@ -1,9 +1,10 @@
 const express = require('express');
 const cors = require('cors');
-const twilio = require('twilio');
 const { createClient } = require('@supabase/supabase-js');
 const rateLimit = require('express-rate-limit');
 require('dotenv').config();
+const { formatPhone, getSmsProvider, sendSMS } = require('../server/lib/sms');
+const { smsWebhookHandlers, smsWebhookRouter } = require('../server/lib/smsWebhooks');
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -22,6 +23,11 @@ const smsLimiter = rateLimit({
   message: 'SMS rate limit exceeded, please try again later.'
 });
 
+// SMS delivery reports, ahead of the JSON parser and rate limiter. /api/sms-status is the
+// Twilio status callback URL this server used before the per-provider webhooks.
+app.use('/api/sms-webhooks', smsWebhookRouter);
+app.post('/api/sms-status', ...smsWebhookHandlers.twilio);
+
 // Middleware
 app.use(express.json({ limit: '10mb' }));
 app.use(cors({
@@ -36,17 +42,6 @@ const supabase = createClient(
   process.env.SUPABASE_ANON_KEY
 );
 
-// Initialize Twilio client with error handling
-let twilioClient;
-try {
-  twilioClient = twilio(
-    process.env.TWILIO_ACCOUNT_SID,
-    process.env.TWILIO_AUTH_TOKEN
-  );
-} catch (error) {
-  console.error('Failed to initialize Twilio client:', error.message);
-}
-
 // Enhanced SMS Templates
 class EnhancedSMSTemplates {
   static getBasicResultsTemplate(studentData) {
@@ -111,29 +106,6 @@ TOP COURSES:`;
   }
 }
 
-// Enhanced phone number formatting
-function formatPhoneNumber(phone) {
-  if (!phone) return null;
-  
-  let cleaned = phone.replace(/\D/g, '');
-  
-  // Handle Nigerian numbers
-  if (cleaned.startsWith('0')) {
-    cleaned = '+234' + cleaned.substring(1);
-  } else if (cleaned.startsWith('234')) {
-    cleaned = '+' + cleaned;
-  } else if (!cleaned.startsWith('+234') && cleaned.length >= 10) {
-    cleaned = '+234' + cleaned;
-  }
-  
-  // Validate Nigerian mobile number format
-  if (cleaned.match(/^\+234[789][01]\d{8}$/)) {
-    return cleaned;
-  }
-  
-  return null; // Invalid format
-}
-
 // Enhanced student data formatting
 function formatStudentDataForSMS(studentData) {
   const { first_name, student_id_number, cgpa, course_results = [] } = studentData;
@@ -171,34 +143,26 @@ function formatStudentDataForSMS(studentData) {
 
 // Enhanced SMS sending function with retry logic
 async function sendSMSWithRetry(phoneNumber, message, maxRetries = 3) {
-  if (!twilioClient) {
-    throw new Error('Twilio client not initialized');
-  }
-
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    try {
-      const result = await twilioClient.messages.create({
-        body: message,
-        from: process.env.TWILIO_PHONE_NUMBER,
-        to: phoneNumber
-      });
+    const result = await sendSMS(phoneNumber, message);
 
+    if (result.success) {
       return {
         success: true,
         sid: result.sid,
         status: result.status,
         attempt
       };
-    } catch (error) {
-      console.error(`SMS attempt ${attempt} failed:`, error.message);
-      
-      if (attempt === maxRetries) {
-        throw error;
-      }
-      
-      // Wait before retry (exponential backoff)
-      await new Promise(resolve => setTimeout(resolve, Math.pow(2, attempt) * 1000));
     }
+
+    console.error(`SMS attempt ${attempt} failed:`, result.error);
+
+    if (attempt === maxRetries) {
+      throw new Error(result.error);
+    }
+
+    // Wait before retry (exponential backoff)
+    await new Promise(resolve => setTimeout(resolve, Math.pow(2, attempt) * 1000));
   }
 }
 
@@ -271,7 +235,7 @@ app.post('/api/notify-results', smsLimiter, async (req, res) => {
     // Send SMS notifications to each student
     for (const { student, results } of uniqueStudents) {
       try {
-        const phoneNumber = formatPhoneNumber(student.phone);
+        const phoneNumber = await formatPhone(student.phone);
         
         if (!phoneNumber) {
           smsErrors.push(`Invalid phone number for ${student.first_name} ${student.last_name}: ${student.phone}`);
@@ -461,7 +425,7 @@ app.post('/api/notify-custom', smsLimiter, async (req, res) => {
 
     for (const student of students) {
       try {
-        const phoneNumber = formatPhoneNumber(student.phone);
+        const phoneNumber = await formatPhone(student.phone);
         
         if (!phoneNumber) {
           smsErrors.push(`Invalid phone number for ${student.first_name} ${student.last_name}: ${student.phone}`);
@@ -548,27 +512,9 @@ app.post('/api/notify-custom', smsLimiter, async (req, res) => {
   }
 });
 
-// SMS delivery status webhook
-app.post('/api/sms-status', express.raw({type: 'application/x-www-form-urlencoded'}), (req, res) => {
-  try {
-    const params = new URLSearchParams(req.body.toString());
-    const messageSid = params.get('MessageSid');
-    const messageStatus = params.get('MessageStatus');
-    
-    console.log(`SMS Status Update: ${messageSid} - ${messageStatus}`);
-    
-    // You can store this status update in your database
-    // await supabase.from('sms_logs').update({ status: messageStatus }).eq('sid', messageSid);
-    
-    res.status(200).send('OK');
-  } catch (error) {
-    console.error('SMS status webhook error:', error);
-    res.status(500).send('Error');
-  }
-});
-
 // Health check endpoint with enhanced diagnostics
-app.get('/api/health', (req, res) => {
+app.get('/api/health', async (req, res) => {
+  const smsProvider = await getSmsProvider();
   const health = {
     status: 'OK',
     timestamp: new Date().toISOString(),
@@ -576,10 +522,10 @@ app.get('/api/health', (req, res) => {
     version: '2.0.0',
     environment: process.env.NODE_ENV || 'development',
     checks: {
-      twilio: !!twilioClient,
-      supabase: !!supabase,
-      twilioPhone: !!process.env.TWILIO_PHONE_NUMBER
-    }
+      sms: smsProvider.configured,
+      supabase: !!supabase
+    },
+    smsProvider: smsProvider.name
   };
 
   const isHealthy = Object.values(health.checks).every(check => check);
@@ -627,8 +573,10 @@ app.listen(PORT, () => {
   console.log(`🚀 EduNotify SMS Service v2.0.0 running on port ${PORT}`);
   console.log(`📊 Health check: http://localhost:${PORT}/api/health`);
   console.log(`🌍 Environment: ${process.env.NODE_ENV || 'development'}`);
-  
-  if (!twilioClient) {
-    console.warn('⚠️  Warning: Twilio client not initialized - SMS features disabled');
-  }
+
+  getSmsProvider().then(provider => {
+    if (!provider.configured) {
+      console.warn(`⚠️  Warning: SMS provider "${provider.name}" is not configured - SMS features disabled`);
+    }
+  }).catch(error => console.error('❌ SMS provider error:', error.message));
 });
\ No newline at end of file
@@ -0,0 +1,222 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables, TablesUpdate } from '@/integrations/supabase/types';
+import { PERMISSIONS, requirePermission } from '@/lib/permissions';
+
+export type AcademicSession = Tables<'academic_sessions'>;
+export type Semester = Tables<'semesters'>;
+
+export interface AcademicSessionWithSemesters extends AcademicSession {
+  semesters: Semester[];
+}
+
+export type SemesterUpdate = Pick<
+  TablesUpdate<'semesters'>,
+  | 'start_date'
+  | 'end_date'
+  | 'registration_opens_at'
+  | 'registration_closes_at'
+  | 'result_entry_opens_at'
+  | 'result_entry_closes_at'
+>;
+
+export const SEMESTER_NAMES = ['First Semester', 'Second Semester'];
+
+const SESSION_NAME = /^(\d{4})\/(\d{4})$/;
+
+// Sessions run from September to August
+export const defaultSessionDates = (name: string) => {
+  const match = SESSION_NAME.exec(name);
+  if (!match) return null;
+  return { start_date: `${match[1]}-09-01`, end_date: `${match[2]}-08-31` };
+};
+
+// Local calendar date as stored in the date columns
+const toDateValue = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const isWithin = (opensAt: string | null, closesAt: string | null, now: Date) =>
+  !!opensAt && !!closesAt && new Date(opensAt) <= now && now <= new Date(closesAt);
+
+export const isRegistrationOpen = (semester: Semester | null | undefined, now = new Date()) =>
+  !!semester && isWithin(semester.registration_opens_at, semester.registration_closes_at, now);
+
+// A semester without a result entry window accepts results at any time
+export const isResultEntryOpen = (semester: Semester | null | undefined, now = new Date()) =>
+  !!semester &&
+  (!semester.result_entry_opens_at || isWithin(semester.result_entry_opens_at, semester.result_entry_closes_at, now));
+
+// The semester running on a date, or the session's first semester outside term time
+export const semesterOn = (session: AcademicSessionWithSemesters | null | undefined, date = new Date()) => {
+  if (!session) return null;
+  const day = toDateValue(date);
+  return session.semesters.find(s => s.start_date <= day && day <= s.end_date) ?? session.semesters[0] ?? null;
+};
+
+const validateSession = (session: { name?: string; start_date?: string; end_date?: string }) => {
+  if (session.name !== undefined) {
+    const match = SESSION_NAME.exec(session.name);
+    if (!match || Number(match[2]) !== Number(match[1]) + 1) {
+      throw new Error('Session names must be two consecutive years, e.g. 2025/2026');
+    }
+  }
+  if (session.start_date && session.end_date && session.end_date <= session.start_date) {
+    throw new Error('The session must end after it starts');
+  }
+};
+
+const validateSemester = (semester: SemesterUpdate) => {
+  if (semester.start_date && semester.end_date && semester.end_date <= semester.start_date) {
+    throw new Error('The semester must end after it starts');
+  }
+
+  const windows: Array<[string | null | undefined, string | null | undefined, string]> = [
+    [semester.registration_opens_at, semester.registration_closes_at, 'registration'],
+    [semester.result_entry_opens_at, semester.result_entry_closes_at, 'result entry']
+  ];
+  windows.forEach(([opensAt, closesAt, label]) => {
+    if (!opensAt !== !closesAt) {
+      throw new Error(`Set both the opening and closing time of the ${label} window, or neither`);
+    }
+    if (opensAt && closesAt && new Date(closesAt) <= new Date(opensAt)) {
+      throw new Error(`The ${label} window must close after it opens`);
+    }
+  });
+};
+
+export class AcademicCalendarService {
+  // Every session with its semesters, latest session first
+  static async getCalendar(): Promise<AcademicSessionWithSemesters[]> {
+    try {
+      const { data, error } = await supabase
+        .from('academic_sessions')
+        .select('*, semesters(*)')
+        .order('name', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching academic calendar:', error);
+        throw error;
+      }
+
+      return (data || []).map(session => ({
+        ...session,
+        semesters: [...(session.semesters || [])].sort(
+          (a, b) => SEMESTER_NAMES.indexOf(a.name) - SEMESTER_NAMES.indexOf(b.name)
+        )
+      }));
+    } catch (error) {
+      console.error('Unexpected error fetching academic calendar:', error);
+      throw error;
+    }
+  }
+
+  // Creating a session also creates its two semesters
+  static async createSession(session: { name: string; start_date: string; end_date: string }): Promise<AcademicSession> {
+    try {
+      requirePermission(PERMISSIONS.MANAGE_CALENDAR);
+      validateSession(session);
+
+      const { data, error } = await supabase
+        .from('academic_sessions')
+        .insert(session)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error creating academic session:', error);
+        throw error.code === '23505' ? new Error(`The ${session.name} session already exists`) : error;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Unexpected error creating academic session:', error);
+      throw error;
+    }
+  }
+
+  static async updateSession(id: string, updates: { start_date: string; end_date: string }): Promise<AcademicSession> {
+    try {
+      requirePermission(PERMISSIONS.MANAGE_CALENDAR);
+      validateSession(updates);
+
+      const { data, error } = await supabase
+        .from('academic_sessions')
+        .update(updates)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error updating academic session:', error);
+        throw error;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Unexpected error updating academic session:', error);
+      throw error;
+    }
+  }
+
+  // Sessions that results, registrations or offerings point at cannot be deleted
+  static async deleteSession(session: Pick<AcademicSession, 'id' | 'name'>): Promise<void> {
+    try {
+      requirePermission(PERMISSIONS.MANAGE_CALENDAR);
+
+      const { error } = await supabase
+        .from('academic_sessions')
+        .delete()
+        .eq('id', session.id);
+
+      if (error) {
+        console.error('Error deleting academic session:', error);
+        throw error.code === '23503'
+          ? new Error(`${session.name} already has results, registrations or course offerings and cannot be deleted.`)
+          : error;
+      }
+    } catch (error) {
+      console.error('Unexpected error deleting academic session:', error);
+      throw error;
+    }
+  }
+
+  static async setCurrentSession(name: string): Promise<void> {
+    try {
+      requirePermission(PERMISSIONS.MANAGE_CALENDAR);
+
+      const { error } = await supabase.rpc('set_current_session', { p_name: name });
+
+      if (error) {
+        console.error('Error setting current session:', error);
+        throw error;
+      }
+    } catch (error) {
+      console.error('Unexpected error setting current session:', error);
+      throw error;
+    }
+  }
+
+  // Semester dates and its registration and result entry windows
+  static async updateSemester(id: string, updates: SemesterUpdate): Promise<Semester> {
+    try {
+      requirePermission(PERMISSIONS.MANAGE_CALENDAR);
+      validateSemester(updates);
+
+      const { data, error } = await supabase
+        .from('semesters')
+        .update(updates)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error updating semester:', error);
+        throw error;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Unexpected error updating semester:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,137 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { AdminRole, PERMISSIONS, requirePermission } from '@/lib/permissions';
+
+export type AdminAccount = Omit<Tables<'admin_users'>, 'password_hash'>;
+
+export interface AdminAuditEntry extends Tables<'admin_audit_log'> {
+  actor: Pick<Tables<'admin_users'>, 'full_name' | 'email'> | null;
+  target: Pick<Tables<'admin_users'>, 'full_name' | 'email'> | null;
+}
+
+export interface NewAdminData {
+  email: string;
+  full_name: string;
+  role: AdminRole;
+}
+
+export interface AdminUpdates {
+  full_name?: string;
+  role?: AdminRole;
+  is_active?: boolean;
+}
+
+interface AdminUsersResponse {
+  success: boolean;
+  admin?: AdminAccount;
+  temporaryPassword?: string;
+  error?: string;
+}
+
+const ADMIN_COLUMNS = 'id, email, full_name, role, is_active, last_login, created_at, must_reset_password';
+
+export class AdminService {
+  // Call the admin-users edge function, which hashes passwords and writes the audit trail
+  private static async invokeAdminUsers(body: Record<string, unknown>): Promise<AdminUsersResponse> {
+    const { data, error } = await supabase.functions.invoke<AdminUsersResponse>('admin-users', { body });
+
+    if (error) {
+      if (error instanceof FunctionsHttpError) {
+        const response: AdminUsersResponse = await error.context.json().catch(() => ({ success: false }));
+        throw new Error(response.error || 'Admin management service error');
+      }
+      throw error;
+    }
+
+    if (!data?.success) {
+      throw new Error(data?.error || 'Admin management service error');
+    }
+
+    return data;
+  }
+
+  // Get all admin accounts
+  static async getAdmins(): Promise<AdminAccount[]> {
+    try {
+      const { data, error } = await supabase
+        .from('admin_users')
+        .select(ADMIN_COLUMNS)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching admins:', error);
+        throw error;
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Unexpected error fetching admins:', error);
+      throw error;
+    }
+  }
+
+  // Get the most recent admin account changes
+  static async getAuditLog(limit: number = 100): Promise<AdminAuditEntry[]> {
+    try {
+      const { data, error } = await supabase
+        .from('admin_audit_log')
+        .select(`
+          *,
+          actor:admin_users!admin_audit_log_actor_id_fkey(full_name, email),
+          target:admin_users!admin_audit_log_target_admin_id_fkey(full_name, email)
+        `)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        console.error('Error fetching admin audit log:', error);
+        throw error;
+      }
+
+      return (data || []) as AdminAuditEntry[];
+    } catch (error) {
+      console.error('Unexpected error fetching admin audit log:', error);
+      throw error;
+    }
+  }
+
+  // Create an admin with a temporary password they must change on first sign-in
+  static async createAdmin(adminData: NewAdminData): Promise<{ admin: AdminAccount; temporaryPassword: string }> {
+    try {
+      requirePermission(PERMISSIONS.MANAGE_ADMINS);
+
+      const response = await this.invokeAdminUsers({ action: 'create', ...adminData });
+      return { admin: response.admin as AdminAccount, temporaryPassword: response.temporaryPassword as string };
+    } catch (error) {
+      console.error('Error creating admin:', error);
+      throw error;
+    }
+  }
+
+  // Change an admin's name, role or active status
+  static async updateAdmin(adminId: string, updates: AdminUpdates): Promise<AdminAccount> {
+    try {
+      requirePermission(PERMISSIONS.MANAGE_ADMINS);
+
+      const response = await this.invokeAdminUsers({ action: 'update', adminId, ...updates });
+      return response.admin as AdminAccount;
+    } catch (error) {
+      console.error('Error updating admin:', error);
+      throw error;
+    }
+  }
+
+  // Replace an admin's password with a temporary one and require a change on next sign-in
+  static async resetPassword(adminId: string): Promise<string> {
+    try {
+      requirePermission(PERMISSIONS.MANAGE_ADMINS);
+
+      const response = await this.invokeAdminUsers({ action: 'reset_password', adminId });
+      return response.temporaryPassword as string;
+    } catch (error) {
+      console.error('Error resetting admin password:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,127 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { chunk } from '@/lib/utils';
+
+type CarryOverCourse = Pick<Tables<'courses'>, 'id' | 'course_code' | 'course_title' | 'credit_units' | 'level' | 'semester'>;
+type CarryOverStudent = Pick<Tables<'students'>, 'id' | 'student_id' | 'first_name' | 'last_name' | 'department' | 'level'>;
+
+export interface CarryOver {
+  studentId: string;
+  courseId: string;
+  course: CarryOverCourse | null;
+  attempts: number;
+  lastAcademicYear: string;
+  lastSemester: string;
+  lastTotalScore: number | null;
+  lastGrade: string | null;
+}
+
+export interface CarryOverReportRow extends CarryOver {
+  student: CarryOverStudent;
+}
+
+const LOOKUP_CHUNK_SIZE = 100;
+
+const COURSE_FIELDS = 'id, course_code, course_title, credit_units, level, semester';
+
+const compareByCourseCode = (a: CarryOver, b: CarryOver) =>
+  (a.course?.course_code ?? '').localeCompare(b.course?.course_code ?? '');
+
+export class CarryOverService {
+  // Courses a student has failed and not yet passed, from the carry_overs view
+  static async getForStudent(studentId: string): Promise<CarryOver[]> {
+    try {
+      const { data, error } = await supabase
+        .from('carry_overs')
+        .select('*')
+        .eq('student_id', studentId);
+
+      if (error) {
+        console.error('Error fetching carry-overs:', error);
+        throw error;
+      }
+
+      return (await this.withCourses(data || [])).sort(compareByCourseCode);
+    } catch (error) {
+      console.error('Unexpected error fetching carry-overs:', error);
+      throw error;
+    }
+  }
+
+  // Every outstanding carry-over of a department's students, optionally for one level
+  static async getDepartmentReport(department: string, level?: string): Promise<CarryOverReportRow[]> {
+    try {
+      let studentQuery = supabase
+        .from('students')
+        .select('id, student_id, first_name, last_name, department, level')
+        .eq('department', department);
+
+      if (level) {
+        studentQuery = studentQuery.eq('level', level);
+      }
+
+      const { data: students, error: studentError } = await studentQuery;
+
+      if (studentError) {
+        console.error('Error fetching students for carry-over report:', studentError);
+        throw studentError;
+      }
+
+      const studentsById = new Map((students || []).map(student => [student.id, student]));
+      const rows: Tables<'carry_overs'>[] = [];
+
+      for (const batch of chunk(Array.from(studentsById.keys()), LOOKUP_CHUNK_SIZE)) {
+        const { data, error } = await supabase
+          .from('carry_overs')
+          .select('*')
+          .in('student_id', batch);
+
+        if (error) {
+          console.error('Error fetching carry-overs:', error);
+          throw error;
+        }
+
+        rows.push(...(data || []));
+      }
+
+      const carryOvers = await this.withCourses(rows);
+
+      return carryOvers
+        .map(carryOver => ({ ...carryOver, student: studentsById.get(carryOver.studentId)! }))
+        .sort((a, b) => compareByCourseCode(a, b) || a.student.student_id.localeCompare(b.student.student_id));
+    } catch (error) {
+      console.error('Unexpected error building carry-over report:', error);
+      throw error;
+    }
+  }
+
+  private static async withCourses(rows: Tables<'carry_overs'>[]): Promise<CarryOver[]> {
+    const courseIds = Array.from(new Set(rows.map(row => row.course_id!)));
+    const courses = new Map<string, CarryOverCourse>();
+
+    for (const batch of chunk(courseIds, LOOKUP_CHUNK_SIZE)) {
+      const { data, error } = await supabase
+        .from('courses')
+        .select(COURSE_FIELDS)
+        .in('id', batch);
+
+      if (error) {
+        console.error('Error fetching carry-over courses:', error);
+        throw error;
+      }
+
+      (data || []).forEach(course => courses.set(course.id, course));
+    }
+
+    return rows.map(row => ({
+      studentId: row.student_id!,
+      courseId: row.course_id!,
+      course: courses.get(row.course_id!) ?? null,
+      attempts: row.attempts ?? 0,
+      lastAcademicYear: row.last_academic_year ?? '',
+      lastSemester: row.last_semester ?? '',
+      lastTotalScore: row.last_total_score,
+      lastGrade: row.last_grade,
+    }));
+  }
+}
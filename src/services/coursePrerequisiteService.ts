@@ -0,0 +1,85 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { PERMISSIONS, requirePermission } from '@/lib/permissions';
+
+export type CoursePrerequisite = Tables<'course_prerequisites'>;
+
+export interface PrerequisiteWithCourse extends CoursePrerequisite {
+  prerequisite: Pick<Tables<'courses'>, 'id' | 'course_code' | 'course_title'> | null;
+}
+
+export class CoursePrerequisiteService {
+  // Prerequisites of the given courses, or of every course when none are given
+  static async getPrerequisites(courseIds?: string[]): Promise<PrerequisiteWithCourse[]> {
+    try {
+      let query = supabase
+        .from('course_prerequisites')
+        .select('*, prerequisite:courses!course_prerequisites_prerequisite_id_fkey(id, course_code, course_title)');
+
+      if (courseIds) {
+        if (courseIds.length === 0) return [];
+        query = query.in('course_id', courseIds);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        console.error('Error fetching course prerequisites:', error);
+        throw error;
+      }
+
+      return (data || []) as PrerequisiteWithCourse[];
+    } catch (error) {
+      console.error('Unexpected error fetching course prerequisites:', error);
+      throw error;
+    }
+  }
+
+  // Replace a course's prerequisites; the database rejects anything that would form a cycle
+  static async setPrerequisites(courseId: string, prerequisiteIds: string[]): Promise<void> {
+    try {
+      requirePermission(PERMISSIONS.MANAGE_COURSES);
+
+      const { data: current, error: fetchError } = await supabase
+        .from('course_prerequisites')
+        .select('prerequisite_id')
+        .eq('course_id', courseId);
+
+      if (fetchError) {
+        console.error('Error fetching course prerequisites:', fetchError);
+        throw fetchError;
+      }
+
+      const currentIds = (current || []).map(row => row.prerequisite_id);
+      const removed = currentIds.filter(id => !prerequisiteIds.includes(id));
+      const added = prerequisiteIds.filter(id => !currentIds.includes(id));
+
+      if (removed.length > 0) {
+        const { error } = await supabase
+          .from('course_prerequisites')
+          .delete()
+          .eq('course_id', courseId)
+          .in('prerequisite_id', removed);
+
+        if (error) {
+          console.error('Error removing course prerequisites:', error);
+          throw error;
+        }
+      }
+
+      if (added.length > 0) {
+        const { error } = await supabase
+          .from('course_prerequisites')
+          .insert(added.map(prerequisiteId => ({ course_id: courseId, prerequisite_id: prerequisiteId })));
+
+        if (error) {
+          console.error('Error adding course prerequisites:', error);
+          throw error;
+        }
+      }
+    } catch (error) {
+      console.error('Unexpected error saving course prerequisites:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,227 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { PERMISSIONS, requirePermission } from '@/lib/permissions';
+import { CarryOverService } from '@/services/carryOverService';
+import { CoursePrerequisiteService } from '@/services/coursePrerequisiteService';
+
+export type CreditLimit = Tables<'course_credit_limits'>;
+export type RegistrationCourse = Tables<'courses'>;
+
+export type RegistrationStudent = Pick<
+  Tables<'students'>,
+  'id' | 'student_id' | 'first_name' | 'last_name' | 'department' | 'level'
+>;
+
+export interface RegisteredCourse extends Tables<'student_courses'> {
+  course: RegistrationCourse;
+}
+
+export interface EligibleCourse extends RegistrationCourse {
+  carryOver: boolean;
+  // Codes of prerequisites the student has not passed yet
+  unmetPrerequisites: string[];
+}
+
+export const totalCreditUnits = (courses: Pick<RegistrationCourse, 'credit_units'>[]) =>
+  courses.reduce((sum, course) => sum + course.credit_units, 0);
+
+export class CourseRegistrationService {
+  // Credit unit limits for every level
+  static async getCreditLimits(): Promise<CreditLimit[]> {
+    try {
+      const { data, error } = await supabase
+        .from('course_credit_limits')
+        .select('*')
+        .order('level', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching credit limits:', error);
+        throw error;
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Unexpected error fetching credit limits:', error);
+      throw error;
+    }
+  }
+
+  static async saveCreditLimit(level: string, minUnits: number, maxUnits: number): Promise<CreditLimit> {
+    try {
+      requirePermission(PERMISSIONS.MANAGE_COURSES);
+
+      if (minUnits < 0 || maxUnits < minUnits) {
+        throw new Error('The maximum must be at least the minimum, and neither can be negative');
+      }
+
+      const { data, error } = await supabase
+        .from('course_credit_limits')
+        .upsert({ level, min_units: minUnits, max_units: maxUnits, updated_at: new Date().toISOString() })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error saving credit limit:', error);
+        throw error;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Unexpected error saving credit limit:', error);
+      throw error;
+    }
+  }
+
+  // Active courses offered to the student's department and level in a semester of the session, plus
+  // any carry-overs offered then, each with the prerequisites the student still has to pass
+  static async getEligibleCourses(
+    student: RegistrationStudent,
+    academicYear: string,
+    semester: string
+  ): Promise<EligibleCourse[]> {
+    try {
+      const { data: offerings, error: offeringsError } = await supabase
+        .from('course_offerings')
+        .select('course_id')
+        .eq('academic_year', academicYear);
+
+      if (offeringsError) {
+        console.error('Error fetching course offerings:', offeringsError);
+        throw offeringsError;
+      }
+
+      const offeredIds = new Set((offerings || []).map(offering => offering.course_id));
+
+      const { data, error } = await supabase
+        .from('courses')
+        .select('*')
+        .eq('department', student.department)
+        .eq('level', student.level)
+        .eq('semester', semester)
+        .eq('is_active', true);
+
+      if (error) {
+        console.error('Error fetching eligible courses:', error);
+        throw error;
+      }
+
+      const courses = new Map((data || [])
+        .filter(course => offeredIds.has(course.id))
+        .map(course => [course.id, course]));
+
+      const carryOverIds = (await CarryOverService.getForStudent(student.id))
+        .filter(carryOver => carryOver.course?.semester === semester && offeredIds.has(carryOver.courseId))
+        .map(carryOver => carryOver.courseId);
+
+      const missingIds = carryOverIds.filter(id => !courses.has(id));
+      if (missingIds.length > 0) {
+        const { data: carryOverCourses, error: carryOverError } = await supabase
+          .from('courses')
+          .select('*')
+          .in('id', missingIds)
+          .eq('is_active', true);
+
+        if (carryOverError) {
+          console.error('Error fetching carry-over courses:', carryOverError);
+          throw carryOverError;
+        }
+
+        (carryOverCourses || []).forEach(course => courses.set(course.id, course));
+      }
+
+      const unmet = await this.getUnmetPrerequisites(student.id, Array.from(courses.keys()));
+
+      return Array.from(courses.values())
+        .map(course => ({
+          ...course,
+          carryOver: carryOverIds.includes(course.id),
+          unmetPrerequisites: unmet.get(course.id) ?? [],
+        }))
+        .sort((a, b) => a.course_code.localeCompare(b.course_code));
+    } catch (error) {
+      console.error('Unexpected error fetching eligible courses:', error);
+      throw error;
+    }
+  }
+
+  // The courses a student registered for one semester
+  static async getRegistrations(studentId: string, academicYear: string, semester: string): Promise<RegisteredCourse[]> {
+    try {
+      const { data, error } = await supabase
+        .from('student_courses')
+        .select('*, course:courses!student_courses_course_id_fkey(*)')
+        .eq('student_id', studentId)
+        .eq('academic_year', academicYear)
+        .eq('semester', semester);
+
+      if (error) {
+        console.error('Error fetching course registrations:', error);
+        throw error;
+      }
+
+      return ((data || []) as RegisteredCourse[])
+        .filter(registration => registration.course)
+        .sort((a, b) => a.course.course_code.localeCompare(b.course.course_code));
+    } catch (error) {
+      console.error('Unexpected error fetching course registrations:', error);
+      throw error;
+    }
+  }
+
+  // Replace the student's registration for the semester; limits and eligibility are checked by the database
+  static async register(
+    studentId: string,
+    academicYear: string,
+    semester: string,
+    courseIds: string[]
+  ): Promise<number> {
+    try {
+      const { data, error } = await supabase.rpc('register_courses', {
+        p_student_id: studentId,
+        p_academic_year: academicYear,
+        p_semester: semester,
+        p_course_ids: courseIds,
+      });
+
+      if (error) {
+        console.error('Error registering courses:', error);
+        throw error;
+      }
+
+      return data ?? 0;
+    } catch (error) {
+      console.error('Unexpected error registering courses:', error);
+      throw error;
+    }
+  }
+
+  // Prerequisite codes per course that the student has no passing published result for
+  private static async getUnmetPrerequisites(studentId: string, courseIds: string[]): Promise<Map<string, string[]>> {
+    const prerequisites = await CoursePrerequisiteService.getPrerequisites(courseIds);
+    const unmet = new Map<string, string[]>();
+    if (prerequisites.length === 0) return unmet;
+
+    const { data, error } = await supabase
+      .from('results')
+      .select('course_id')
+      .eq('student_id', studentId)
+      .eq('status', 'published')
+      .gt('grade_point', 0)
+      .in('course_id', Array.from(new Set(prerequisites.map(p => p.prerequisite_id))));
+
+    if (error) {
+      console.error('Error checking prerequisites:', error);
+      throw error;
+    }
+
+    const passed = new Set((data || []).map(result => result.course_id));
+    prerequisites
+      .filter(p => !passed.has(p.prerequisite_id))
+      .forEach(p => {
+        const code = p.prerequisite?.course_code ?? 'an unavailable course';
+        unmet.set(p.course_id, [...(unmet.get(p.course_id) ?? []), code]);
+      });
+
+    return unmet;
+  }
+}
@@ -0,0 +1,283 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database, Tables, TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+import { PERMISSIONS, requirePermission } from '@/lib/permissions';
+
+export type Course = Tables<'courses'>;
+export type CourseOffering = Tables<'course_offerings'>;
+export type AssignableStaff = Database['public']['Functions']['get_assignable_staff']['Returns'][number];
+
+export type CourseDetails = Pick<
+  TablesInsert<'courses'>,
+  'course_code' | 'course_title' | 'credit_units' | 'department' | 'level' | 'semester' | 'description'
+>;
+
+export interface OfferingWithLecturers extends CourseOffering {
+  assignments: Pick<Tables<'course_assignments'>, 'id' | 'admin_user_id'>[];
+}
+
+const validateDetails = (details: Partial<CourseDetails>) => {
+  if (details.course_code !== undefined && !details.course_code.trim()) {
+    throw new Error('Course code is required');
+  }
+  if (details.course_title !== undefined && !details.course_title.trim()) {
+    throw new Error('Course title is required');
+  }
+  if (details.credit_units !== undefined && (!Number.isInteger(details.credit_units) || details.credit_units < 1)) {
+    throw new Error('Credit units must be a whole number of at least 1');
+  }
+};
+
+export class CourseService {
+  static async createCourse(details: CourseDetails): Promise<Course> {
+    try {
+      requirePermission(PERMISSIONS.MANAGE_COURSES);
+      validateDetails(details);
+
+      const { data, error } = await supabase
+        .from('courses')
+        .insert([{ ...details, course_code: details.course_code.trim().toUpperCase() }])
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error creating course:', error);
+        throw error;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Unexpected error creating course:', error);
+      throw error;
+    }
+  }
+
+  // Edit title, units, semester, level and the like; also used to (de)activate a course
+  static async updateCourse(id: string, updates: TablesUpdate<'courses'>): Promise<Course> {
+    try {
+      requirePermission(PERMISSIONS.MANAGE_COURSES);
+      validateDetails(updates);
+
+      const { data, error } = await supabase
+        .from('courses')
+        .update(updates.course_code ? { ...updates, course_code: updates.course_code.trim().toUpperCase() } : updates)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error updating course:', error);
+        throw error;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Unexpected error updating course:', error);
+      throw error;
+    }
+  }
+
+  static async setActive(id: string, isActive: boolean): Promise<Course> {
+    return this.updateCourse(id, { is_active: isActive });
+  }
+
+  // Courses with results stay so transcripts keep them; the database enforces this too
+  static async deleteCourse(course: Pick<Course, 'id' | 'course_code'>): Promise<void> {
+    try {
+      requirePermission(PERMISSIONS.MANAGE_COURSES);
+
+      const resultCount = await this.getResultCount(course.id);
+      if (resultCount > 0) {
+        throw new Error(
+          `${course.course_code} has ${resultCount} recorded result${resultCount === 1 ? '' : 's'} and cannot be deleted. ` +
+          'Deactivate it instead so transcripts keep their course.'
+        );
+      }
+
+      const { error } = await supabase
+        .from('courses')
+        .delete()
+        .eq('id', course.id);
+
+      if (error) {
+        console.error('Error deleting course:', error);
+        throw new Error(error.message);
+      }
+    } catch (error) {
+      console.error('Unexpected error deleting course:', error);
+      throw error;
+    }
+  }
+
+  static async getResultCount(id: string): Promise<number> {
+    try {
+      const { count, error } = await supabase
+        .from('results')
+        .select('id', { count: 'exact', head: true })
+        .eq('course_id', id);
+
+      if (error) {
+        console.error('Error counting course results:', error);
+        throw error;
+      }
+
+      return count ?? 0;
+    } catch (error) {
+      console.error('Unexpected error counting course results:', error);
+      throw error;
+    }
+  }
+
+  // Offerings for a session with their assigned lecturers
+  static async getOfferings(academicYear: string): Promise<OfferingWithLecturers[]> {
+    try {
+      const { data, error } = await supabase
+        .from('course_offerings')
+        .select('*, assignments:course_assignments(id, admin_user_id)')
+        .eq('academic_year', academicYear);
+
+      if (error) {
+        console.error('Error fetching course offerings:', error);
+        throw error;
+      }
+
+      return (data || []) as OfferingWithLecturers[];
+    } catch (error) {
+      console.error('Unexpected error fetching course offerings:', error);
+      throw error;
+    }
+  }
+
+  // Offer (or stop offering) a course in a session
+  static async setOffered(courseId: string, academicYear: string, offered: boolean): Promise<void> {
+    try {
+      requirePermission(PERMISSIONS.MANAGE_COURSES);
+
+      const { error } = offered
+        ? await supabase
+          .from('course_offerings')
+          .upsert({ course_id: courseId, academic_year: academicYear }, { onConflict: 'course_id,academic_year', ignoreDuplicates: true })
+        : await supabase
+          .from('course_offerings')
+          .delete()
+          .eq('course_id', courseId)
+          .eq('academic_year', academicYear);
+
+      if (error) {
+        console.error('Error updating course offering:', error);
+        throw error;
+      }
+    } catch (error) {
+      console.error('Unexpected error updating course offering:', error);
+      throw error;
+    }
+  }
+
+  // Offer a department's active courses from one session in another
+  static async copyCatalogue(
+    department: string,
+    fromYear: string,
+    toYear: string,
+    includeLecturers: boolean
+  ): Promise<number> {
+    try {
+      requirePermission(PERMISSIONS.MANAGE_COURSES);
+
+      const { data, error } = await supabase.rpc('copy_course_catalogue', {
+        p_department: department,
+        p_from_year: fromYear,
+        p_to_year: toYear,
+        p_include_lecturers: includeLecturers,
+      });
+
+      if (error) {
+        console.error('Error copying course catalogue:', error);
+        throw error;
+      }
+
+      return data ?? 0;
+    } catch (error) {
+      console.error('Unexpected error copying course catalogue:', error);
+      throw error;
+    }
+  }
+
+  static async getAssignableStaff(): Promise<AssignableStaff[]> {
+    try {
+      const { data, error } = await supabase.rpc('get_assignable_staff');
+
+      if (error) {
+        console.error('Error fetching assignable staff:', error);
+        throw error;
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Unexpected error fetching assignable staff:', error);
+      throw error;
+    }
+  }
+
+  // Replace the lecturers of a course in a session, offering it there if it was not yet
+  static async setLecturers(courseId: string, academicYear: string, adminUserIds: string[]): Promise<void> {
+    try {
+      requirePermission(PERMISSIONS.MANAGE_COURSES);
+
+      const { data: offering, error: offeringError } = await supabase
+        .from('course_offerings')
+        .upsert({ course_id: courseId, academic_year: academicYear }, { onConflict: 'course_id,academic_year' })
+        .select('id')
+        .single();
+
+      if (offeringError) {
+        console.error('Error offering course:', offeringError);
+        throw offeringError;
+      }
+
+      const { data: current, error: fetchError } = await supabase
+        .from('course_assignments')
+        .select('admin_user_id')
+        .eq('offering_id', offering.id);
+
+      if (fetchError) {
+        console.error('Error fetching course assignments:', fetchError);
+        throw fetchError;
+      }
+
+      const currentIds = (current || []).map(row => row.admin_user_id);
+      const removed = currentIds.filter(id => !adminUserIds.includes(id));
+      const added = adminUserIds.filter(id => !currentIds.includes(id));
+
+      if (removed.length > 0) {
+        const { error } = await supabase
+          .from('course_assignments')
+          .delete()
+          .eq('offering_id', offering.id)
+          .in('admin_user_id', removed);
+
+        if (error) {
+          console.error('Error removing lecturers:', error);
+          throw error;
+        }
+      }
+
+      if (added.length > 0) {
+        const { data: { user } } = await supabase.auth.getUser();
+        const { error } = await supabase
+          .from('course_assignments')
+          .insert(added.map(adminUserId => ({
+            offering_id: offering.id,
+            admin_user_id: adminUserId,
+            assigned_by: user?.id ?? null,
+          })));
+
+        if (error) {
+          console.error('Error assigning lecturers:', error);
+          throw error;
+        }
+      }
+    } catch (error) {
+      console.error('Unexpected error assigning lecturers:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,313 @@
+import { supabase } from '@/integrations/supabase/client';
+import { TablesInsert } from '@/integrations/supabase/types';
+import { GradingScale, GradingScaleAssignment, sortBands } from '@/lib/grading';
+import { PERMISSIONS, requirePermission } from '@/lib/permissions';
+
+export interface GradingScaleInput {
+  name: string;
+  description?: string | null;
+  pass_mark: number;
+  max_grade_point: number;
+  is_default?: boolean;
+  bands: Array<Pick<TablesInsert<'grading_scale_bands'>, 'min_score' | 'letter' | 'grade_point' | 'remark'>>;
+}
+
+export interface GradingScaleAssignmentWithScale extends GradingScaleAssignment {
+  scale: { name: string } | null;
+}
+
+const SCALE_SELECT = '*, bands:grading_scale_bands(*)';
+
+const withSortedBands = (scale: GradingScale): GradingScale => ({
+  ...scale,
+  bands: sortBands(scale.bands || [])
+});
+
+export class GradingScaleService {
+  // Get all grading scales with their bands, highest band first
+  static async getScales(): Promise<GradingScale[]> {
+    try {
+      const { data, error } = await supabase
+        .from('grading_scales')
+        .select(SCALE_SELECT)
+        .order('is_default', { ascending: false })
+        .order('name', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching grading scales:', error);
+        throw error;
+      }
+
+      return ((data || []) as GradingScale[]).map(withSortedBands);
+    } catch (error) {
+      console.error('Unexpected error fetching grading scales:', error);
+      throw error;
+    }
+  }
+
+  // Get the department/level/session assignments of every scale
+  static async getAssignments(): Promise<GradingScaleAssignmentWithScale[]> {
+    try {
+      const { data, error } = await supabase
+        .from('grading_scale_assignments')
+        .select('*, scale:grading_scales(name)')
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching grading scale assignments:', error);
+        throw error;
+      }
+
+      return (data || []) as GradingScaleAssignmentWithScale[];
+    } catch (error) {
+      console.error('Unexpected error fetching grading scale assignments:', error);
+      throw error;
+    }
+  }
+
+  // Get the scale the database will apply to a student's result
+  static async getScaleFor(
+    department: string | null,
+    level: string | null,
+    academicYear: string | null
+  ): Promise<GradingScale | null> {
+    try {
+      const { data: scaleId, error: resolveError } = await supabase.rpc('resolve_grading_scale', {
+        p_department: department,
+        p_level: level,
+        p_academic_year: academicYear
+      });
+
+      if (resolveError) {
+        console.error('Error resolving grading scale:', resolveError);
+        throw resolveError;
+      }
+
+      if (!scaleId) return null;
+
+      const { data, error } = await supabase
+        .from('grading_scales')
+        .select(SCALE_SELECT)
+        .eq('id', scaleId)
+        .single();
+
+      if (error) {
+        console.error('Error fetching grading scale:', error);
+        throw error;
+      }
+
+      return withSortedBands(data as GradingScale);
+    } catch (error) {
+      console.error('Unexpected error resolving grading scale:', error);
+      throw error;
+    }
+  }
+
+  // Create a scale, or update one and replace its bands
+  static async saveScale(scaleInput: GradingScaleInput, scaleId?: string): Promise<GradingScale> {
+    try {
+      requirePermission(PERMISSIONS.MANAGE_GRADING);
+
+      const { bands, ...scaleData } = scaleInput;
+
+      // Only one scale can be the default
+      if (scaleData.is_default) {
+        await this.clearDefault(scaleId);
+      }
+
+      const query = scaleId
+        ? supabase.from('grading_scales').update(scaleData).eq('id', scaleId)
+        : supabase.from('grading_scales').insert(scaleData);
+
+      const { data: scale, error } = await query.select().single();
+
+      if (error) {
+        console.error('Error saving grading scale:', error);
+        throw error;
+      }
+
+      const { error: deleteError } = await supabase
+        .from('grading_scale_bands')
+        .delete()
+        .eq('scale_id', scale.id);
+
+      if (deleteError) {
+        console.error('Error clearing grading scale bands:', deleteError);
+        throw deleteError;
+      }
+
+      const { data: savedBands, error: bandsError } = await supabase
+        .from('grading_scale_bands')
+        .insert(bands.map(band => ({
+          ...band,
+          letter: band.letter.trim().toUpperCase(),
+          scale_id: scale.id
+        })))
+        .select();
+
+      if (bandsError) {
+        console.error('Error saving grading scale bands:', bandsError);
+        throw bandsError;
+      }
+
+      await this.regradeUnpublishedResults();
+
+      return withSortedBands({ ...scale, bands: savedBands || [] });
+    } catch (error) {
+      console.error('Unexpected error saving grading scale:', error);
+      throw error;
+    }
+  }
+
+  // Make a scale the fallback for students without an assignment
+  static async setDefaultScale(scaleId: string): Promise<void> {
+    try {
+      requirePermission(PERMISSIONS.MANAGE_GRADING);
+
+      await this.clearDefault(scaleId);
+
+      const { error } = await supabase
+        .from('grading_scales')
+        .update({ is_default: true })
+        .eq('id', scaleId);
+
+      if (error) {
+        console.error('Error setting default grading scale:', error);
+        throw error;
+      }
+
+      await this.regradeUnpublishedResults();
+    } catch (error) {
+      console.error('Unexpected error setting default grading scale:', error);
+      throw error;
+    }
+  }
+
+  // Delete a scale that is not the default
+  static async deleteScale(scaleId: string): Promise<void> {
+    try {
+      requirePermission(PERMISSIONS.MANAGE_GRADING);
+
+      const { data: scale, error: fetchError } = await supabase
+        .from('grading_scales')
+        .select('is_default')
+        .eq('id', scaleId)
+        .single();
+
+      if (fetchError) {
+        console.error('Error fetching grading scale:', fetchError);
+        throw fetchError;
+      }
+
+      if (scale.is_default) {
+        throw new Error('Choose another default scale before deleting this one');
+      }
+
+      const { error } = await supabase
+        .from('grading_scales')
+        .delete()
+        .eq('id', scaleId);
+
+      if (error) {
+        console.error('Error deleting grading scale:', error);
+        throw error;
+      }
+
+      await this.regradeUnpublishedResults();
+    } catch (error) {
+      console.error('Unexpected error deleting grading scale:', error);
+      throw error;
+    }
+  }
+
+  // Use a scale for a department, level, session or any combination of them
+  static async assignScale(
+    assignment: Pick<TablesInsert<'grading_scale_assignments'>, 'scale_id' | 'department' | 'level' | 'academic_year'>
+  ): Promise<GradingScaleAssignment> {
+    try {
+      requirePermission(PERMISSIONS.MANAGE_GRADING);
+
+      if (!assignment.department && !assignment.level && !assignment.academic_year) {
+        throw new Error('Choose a department, level or session for the assignment');
+      }
+
+      const { data, error } = await supabase
+        .from('grading_scale_assignments')
+        .insert(assignment)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error assigning grading scale:', error);
+        if (error.code === '23505') {
+          throw new Error('A scale is already assigned to that department, level and session');
+        }
+        throw error;
+      }
+
+      await this.regradeUnpublishedResults();
+
+      return data;
+    } catch (error) {
+      console.error('Unexpected error assigning grading scale:', error);
+      throw error;
+    }
+  }
+
+  // Remove an assignment so the next most specific scale applies
+  static async removeAssignment(assignmentId: string): Promise<void> {
+    try {
+      requirePermission(PERMISSIONS.MANAGE_GRADING);
+
+      const { error } = await supabase
+        .from('grading_scale_assignments')
+        .delete()
+        .eq('id', assignmentId);
+
+      if (error) {
+        console.error('Error removing grading scale assignment:', error);
+        throw error;
+      }
+
+      await this.regradeUnpublishedResults();
+    } catch (error) {
+      console.error('Unexpected error removing grading scale assignment:', error);
+      throw error;
+    }
+  }
+
+  // Re-grade results that have not been published; published grades stay as issued
+  static async regradeUnpublishedResults(): Promise<number> {
+    try {
+      const { data, error } = await supabase.rpc('regrade_unpublished_results');
+
+      if (error) {
+        console.error('Error regrading results:', error);
+        throw error;
+      }
+
+      return data ?? 0;
+    } catch (error) {
+      console.error('Unexpected error regrading results:', error);
+      throw error;
+    }
+  }
+
+  private static async clearDefault(exceptScaleId?: string): Promise<void> {
+    let query = supabase
+      .from('grading_scales')
+      .update({ is_default: false })
+      .eq('is_default', true);
+
+    if (exceptScaleId) {
+      query = query.neq('id', exceptScaleId);
+    }
+
+    const { error } = await query;
+
+    if (error) {
+      console.error('Error clearing default grading scale:', error);
+      throw error;
+    }
+  }
+}
@@ -1,4 +1,10 @@
 import { supabase } from '@/integrations/supabase/client';
+import { getAdminToken } from '@/integrations/supabase/adminSession';
+import { PERMISSIONS, requirePermission } from '@/lib/permissions';
+import { GpaResultInput, summarizeResults } from '@/lib/gpa';
+import { GradingScaleService } from '@/services/gradingScaleService';
+import { PublicationScope, ResultWorkflowService } from '@/services/resultWorkflowService';
+import { SMSService } from '@/services/smsService';
 import emailjs from '@emailjs/browser';
 
 // EmailJS configuration
@@ -27,6 +33,7 @@ interface StudentResult {
   student_id: string;
   cgpa: number | null;
   results: Array<{
+    course_id: string;
     course_code: string;
     course_title: string;
     ca_score: number | null;
@@ -38,6 +45,16 @@ interface StudentResult {
     academic_year: string;
     semester: string;
   }>;
+  // Every published result, so the CGPA and carry-overs cover earlier semesters too
+  publishedResults: GpaResultInput[];
+}
+
+interface NoticeRecipient {
+  id: string;
+  first_name: string;
+  last_name: string;
+  email: string | null;
+  student_id: string;
 }
 
 export class NotificationService {
@@ -45,17 +62,42 @@ export class NotificationService {
     ? 'https://naija-result-connect.vercel.app' 
     : 'http://localhost:3001';
 
+  // Headers for the SMS service, which authorizes requests with the admin session token
+  private static smsServiceHeaders(): Record<string, string> {
+    const token = getAdminToken();
+    return {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {})
+    };
+  }
+
   // Initialize EmailJS (call this once in your app)
   static initEmailJS() {
     emailjs.init(EMAILJS_PUBLIC_KEY);
   }
 
-  // Main method to publish results and send notifications
-  static async publishAndNotifyResults(): Promise<NotificationResult> {
+  // Publish the approved results for one cohort, then notify those students
+  static async publishAndNotifyResults(scope: PublicationScope): Promise<NotificationResult> {
     try {
-      console.log('📢 Publishing results and sending notifications...');
-      
-      // Get all results (both pending and published) for notification
+      requirePermission(PERMISSIONS.PUBLISH_RESULTS);
+
+      console.log(`📢 Publishing ${scope.academicYear} ${scope.semester} results for ${scope.department} ${scope.level}...`);
+
+      const { resultIds, students } = await ResultWorkflowService.previewPublication(scope);
+      const studentIds = students.map(student => student.id);
+
+      if (resultIds.length === 0) {
+        console.log('No approved results to publish');
+        return {
+          ...this.createEmptyResult(),
+          message: 'No approved results found for this cohort'
+        };
+      }
+
+      const publishedCount = await ResultWorkflowService.transition(resultIds, 'publish');
+      console.log(`Published ${publishedCount} results`);
+
+      // Notify each affected student of everything published for them this semester
       const { data: results, error: resultsError } = await supabase
         .from('results')
         .select(`
@@ -63,20 +105,18 @@ export class NotificationService {
           students!inner(id, first_name, last_name, email, student_id, cgpa),
           courses!inner(course_title, course_code, credit_units)
         `)
-        .in('status', ['pending', 'published'])
+        .in('student_id', studentIds)
+        .eq('academic_year', scope.academicYear)
+        .eq('semester', scope.semester)
+        .eq('status', 'published')
         .not('students.email', 'is', null); // Ensure students have email addresses
 
       if (resultsError) {
         throw new Error(`Failed to fetch results: ${resultsError.message}`);
       }
 
-      if (!results || results.length === 0) {
-        console.log('No results found for notification');
-        return this.createEmptyResult();
-      }
-
       // Filter out students with invalid email addresses
-      const validResults = results.filter(result => 
+      const validResults = (results || []).filter(result => 
         result.students?.email && 
         this.isValidEmail(result.students.email)
       );
@@ -84,40 +124,33 @@ export class NotificationService {
       if (validResults.length === 0) {
         return {
           ...this.createEmptyResult(),
+          resultsPublished: publishedCount,
           errors: ['No students with valid email addresses found']
         };
       }
 
-      // Separate pending and published results
-      const pendingResults = validResults.filter(r => r.status === 'pending');
-      const publishedResults = validResults.filter(r => r.status === 'published');
-
-      console.log(`Found ${pendingResults.length} pending and ${publishedResults.length} published results`);
-
-      // Update pending results to published
-      let publishedCount = 0;
-      if (pendingResults.length > 0) {
-        const pendingIds = pendingResults.map(r => r.id);
-        const { error: updateError } = await supabase
-          .from('results')
-          .update({ 
-            status: 'published',
-            published_at: new Date().toISOString()
-          })
-          .in('id', pendingIds);
+      // Group results by student
+      const studentResults = this.groupResultsByStudent(validResults);
 
-        if (updateError) {
-          throw new Error(`Failed to update results status: ${updateError.message}`);
-        }
-        publishedCount = pendingIds.length;
-        console.log(`Published ${publishedCount} results`);
+      const { data: publishedResults, error: publishedError } = await supabase
+        .from('results')
+        .select('student_id, course_id, academic_year, semester, grade_point, courses(course_code, credit_units)')
+        .in('student_id', studentResults.map(student => student.id))
+        .eq('status', 'published');
+
+      if (publishedError) {
+        throw new Error(`Failed to fetch published results: ${publishedError.message}`);
       }
 
-      // Group results by student
-      const studentResults = this.groupResultsByStudent(validResults);
+      studentResults.forEach(student => {
+        student.publishedResults = (publishedResults || []).filter(result => result.student_id === student.id);
+      });
+
+      // The class of degree is named on the cohort's own scale
+      const scale = await GradingScaleService.getScaleFor(scope.department, scope.level, null).catch(() => null);
       
       // Send detailed notifications
-      const notificationResults = await this.sendDetailedNotifications(studentResults);
+      const notificationResults = await this.sendDetailedNotifications(studentResults, scope, scale?.max_grade_point);
 
       // Store notification records
       await this.storeNotifications(studentResults.map(sr => sr), notificationResults.errors);
@@ -132,7 +165,7 @@ export class NotificationService {
         successDetails: notificationResults.successDetails,
         failureDetails: notificationResults.failureDetails,
         errors: notificationResults.errors,
-        message: `Processed ${results.length} results, notified ${studentResults.length} students`
+        message: `Published ${publishedCount} results, notified ${studentResults.length} students`
       };
 
     } catch (error) {
@@ -148,6 +181,8 @@ export class NotificationService {
     message: string
   ): Promise<NotificationResult> {
     try {
+      requirePermission(PERMISSIONS.SEND_NOTIFICATIONS);
+
       console.log(`📱 Sending custom notifications to ${studentIds.length} students`);
       
       const { data: students, error: studentsError } = await supabase
@@ -204,6 +239,35 @@ export class NotificationService {
     }
   }
 
+  // Tell a student that one of their published results was corrected
+  static async sendResultCorrectionNotice(student: NoticeRecipient, message: string): Promise<boolean> {
+    requirePermission(PERMISSIONS.AMEND_RESULTS);
+
+    const title = 'Result Corrected';
+    const sent = await this.emailStudent(student, title, message);
+
+    const { error } = await supabase.from('notifications').insert({
+      student_id: student.id,
+      title,
+      message,
+      type: 'result_amended',
+      status: sent ? 'sent' : 'failed',
+      sent_at: sent ? new Date().toISOString() : null
+    });
+
+    if (error) {
+      console.error('❌ Failed to store correction notice:', error);
+    }
+
+    return sent;
+  }
+
+  // Email a student about a remark request; the portal notification is added by the database
+  static async sendRemarkRequestUpdate(student: NoticeRecipient, message: string): Promise<boolean> {
+    requirePermission(PERMISSIONS.AMEND_RESULTS);
+    return this.emailStudent(student, 'Remark Request Update', message);
+  }
+
   // Test email functionality
   static async testEmail(email: string, studentName: string): Promise<boolean> {
     try {
@@ -234,20 +298,21 @@ export class NotificationService {
     }
   }
 
-  // Test SMS functionality
-  static async testSMS(phoneNumber: string, message: string): Promise<boolean> {
+  // Test SMS functionality. Sent straight away by the SMS service rather than queued, so the
+  // result shows whether the configured provider works.
+  static async testSMS(phoneNumber: string, message: string): Promise<{ success: boolean; error?: string }> {
     try {
       const response = await fetch(`${this.SMS_SERVICE_URL}/api/test-sms`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ phoneNumber, message })
+        headers: this.smsServiceHeaders(),
+        body: JSON.stringify({ phone: phoneNumber, message })
       });
 
       const result = await response.json();
-      return result.success;
+      return { success: !!result.success, error: result.error };
     } catch (error) {
       console.error('❌ Test SMS error:', error);
-      return false;
+      return { success: false, error: error instanceof Error ? error.message : 'SMS service unreachable' };
     }
   }
 
@@ -303,8 +368,8 @@ export class NotificationService {
   }
 
   // Alias for backward compatibility
-  static async sendResultNotifications(): Promise<NotificationResult> {
-    return this.publishAndNotifyResults();
+  static async sendResultNotifications(scope: PublicationScope): Promise<NotificationResult> {
+    return this.publishAndNotifyResults(scope);
   }
 
   // Private helper methods
@@ -323,11 +388,13 @@ export class NotificationService {
           email: student.email,
           student_id: student.student_id,
           cgpa: student.cgpa,
-          results: []
+          results: [],
+          publishedResults: []
         });
       }
 
       studentMap.get(student.id)!.results.push({
+        course_id: result.course_id,
         course_code: course.course_code,
         course_title: course.course_title,
         ca_score: result.ca_score,
@@ -344,9 +411,13 @@ export class NotificationService {
     return Array.from(studentMap.values());
   }
 
-  private static formatDetailedEmailMessage(student: StudentResult): string {
+  private static formatDetailedEmailMessage(student: StudentResult, maxGradePoint?: number): string {
     const fullName = `${student.first_name} ${student.last_name}`;
-    const cgpa = student.cgpa ? student.cgpa.toFixed(2) : 'N/A';
+    const summary = summarizeResults(student.publishedResults, { maxGradePoint });
+    const semesterGpa = new Map(summary.semesters.map(sem => [`${sem.academicYear} - ${sem.semester}`, sem.gpa]));
+    const cgpa = summary.semesters.length > 0
+      ? summary.cgpa.toFixed(2)
+      : student.cgpa ? student.cgpa.toFixed(2) : 'N/A';
     
     // Group results by academic year and semester
     const groupedResults = new Map<string, any[]>();
@@ -374,6 +445,10 @@ export class NotificationService {
         courseResultsText += `  Grade Point: ${result.grade_point || 'N/A'}\n`;
         courseResultsText += `  Credit Units: ${result.credit_units}\n\n`;
       });
+
+      if (semesterGpa.has(period)) {
+        courseResultsText += `Semester GPA: ${semesterGpa.get(period)!.toFixed(2)}\n\n`;
+      }
     }
 
     return `Dear ${fullName},
@@ -383,7 +458,9 @@ We are pleased to inform you that your academic results have been published and
 STUDENT INFORMATION:
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 Student ID: ${student.student_id}
-Current CGPA: ${cgpa}
+Current CGPA: ${cgpa}${summary.classOfDegree ? ` (${summary.classOfDegree})` : ''}
+Credit Units Passed: ${summary.creditUnitsPassed} of ${summary.creditUnitsAttempted}${summary.carryOvers.length > 0 ? `
+Carry-over Courses: ${summary.carryOvers.map(c => c.courseCode).join(', ')}` : ''}
 
 ACADEMIC RESULTS:
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -392,7 +469,7 @@ ${courseResultsText}
  STEPS:
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 1. Log in to your EduNotify student portal for detailed information
-2. Download your official transcript if needed
+2. Download your transcript (PDF) from the Results tab of the portal
 3. Contact the Academic Affairs Office if you have any questions
 
 CONTACT INFORMATION:
@@ -422,7 +499,9 @@ Please add academic.affairs@edunotify to your contacts to ensure delivery.`;
   }
 
   private static async sendDetailedNotifications(
-    studentResults: StudentResult[]
+    studentResults: StudentResult[],
+    scope: PublicationScope,
+    maxGradePoint?: number
   ): Promise<{
     emailsSent: number;
     smsSent: number;
@@ -446,7 +525,7 @@ Please add academic.affairs@edunotify to your contacts to ensure delivery.`;
 
       while (retryCount < maxRetries && !emailSent) {
         try {
-          const detailedMessage = this.formatDetailedEmailMessage(student);
+          const detailedMessage = this.formatDetailedEmailMessage(student, maxGradePoint);
           
           console.log(`📧 Attempting to send email to ${student.email} (${student.first_name} ${student.last_name}), attempt ${retryCount + 1}`);
           
@@ -504,28 +583,29 @@ Please add academic.affairs@edunotify to your contacts to ensure delivery.`;
       }
     }
 
-    // Send SMS notifications if service is available
+    // The SMS service writes each student's result SMS to the queue; the SMS worker sends them
     const isSMSHealthy = await this.checkSMSServiceHealth();
     if (isSMSHealthy) {
       try {
-        console.log(`📱 Sending SMS notifications to ${studentResults.length} students...`);
+        console.log(`📱 Queueing SMS notifications for ${studentResults.length} students...`);
         
         const response = await fetch(`${this.SMS_SERVICE_URL}/api/notify-results`, {
           method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ 
-            studentIds: studentResults.map(s => s.id), 
-            title: 'Results Published', 
-            message: 'Your exam results have been published! Check your email for details or log in to EduNotify to view your results.' 
+          headers: this.smsServiceHeaders(),
+          body: JSON.stringify({
+            academicYear: scope.academicYear,
+            semester: scope.semester,
+            department: scope.department,
+            level: scope.level,
+            courseIds: scope.courseIds
           })
         });
 
         if (response.ok) {
           const smsResult = await response.json();
-          smsSent = smsResult.smsSent || 0;
-          if (smsResult.successDetails) successDetails.push(...smsResult.successDetails);
-          if (smsResult.failureDetails) failureDetails.push(...smsResult.failureDetails);
-          console.log(`✅ SMS sent to ${smsSent} students`);
+          smsSent = smsResult.smsQueued || 0;
+          if (smsResult.errors) errors.push(...smsResult.errors);
+          console.log(`✅ SMS queued for ${smsSent} students`);
         } else {
           console.error('❌ SMS service request failed:', response.status);
           errors.push('SMS service request failed');
@@ -611,35 +691,22 @@ Please add academic.affairs@edunotify to your contacts to ensure delivery.`;
       }
     }
 
-    // Send SMS notifications if service is available
-    const isSMSHealthy = await this.checkSMSServiceHealth();
-    if (isSMSHealthy) {
-      try {
-        const response = await fetch(`${this.SMS_SERVICE_URL}/api/notify-results`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ 
-            studentIds: students.map(s => s.id), 
-            title, 
-            message 
-          })
+    // Queue the SMS for the SMS worker; the results endpoint only announces published results
+    try {
+      const smsResult = await SMSService.queueBulkSMS(students, `${title}\n\n${message}\n\nMoshood Abiola Polytechnic`);
+      smsSent = smsResult.queued;
+      smsResult.results.filter(result => !result.success).forEach(result => {
+        failureDetails.push({
+          type: 'sms',
+          student: result.student_name,
+          contact: result.phone,
+          error: result.error
         });
-
-        if (response.ok) {
-          const smsResult = await response.json();
-          smsSent = smsResult.smsSent || 0;
-          if (smsResult.successDetails) successDetails.push(...smsResult.successDetails);
-          if (smsResult.failureDetails) failureDetails.push(...smsResult.failureDetails);
-          console.log(`✅ SMS sent to ${smsSent} students`);
-        } else {
-          errors.push('SMS service request failed');
-        }
-      } catch (smsError) {
-        console.error('❌ SMS service error:', smsError);
-        errors.push('SMS service unavailable');
-      }
-    } else {
-      console.warn('⚠️ SMS service not available, skipping SMS notifications');
+      });
+      console.log(`✅ SMS queued for ${smsSent} students`);
+    } catch (smsError) {
+      console.error('❌ SMS queue error:', smsError);
+      errors.push('Failed to queue SMS');
     }
 
     return { emailsSent, smsSent, successDetails, failureDetails, errors };
@@ -665,6 +732,35 @@ Please add academic.affairs@edunotify to your contacts to ensure delivery.`;
     }
   }
 
+  private static async emailStudent(student: NoticeRecipient, subject: string, message: string): Promise<boolean> {
+    if (!student.email || !this.isValidEmail(student.email)) {
+      return false;
+    }
+
+    try {
+      await emailjs.send(
+        EMAILJS_SERVICE_ID,
+        EMAILJS_TEMPLATE_ID,
+        {
+          to_name: `${student.first_name} ${student.last_name}`,
+          to_email: student.email,
+          student_id: student.student_id,
+          message,
+          institution: 'Moshood Abiola Polytechnic',
+          subject,
+          from_name: 'academic.affairs@edunotify',
+          from_email: 'academic.affairs@edunotify',
+          reply_to: 'academic.affairs@edunotify'
+        },
+        EMAILJS_PUBLIC_KEY
+      );
+      return true;
+    } catch (emailError) {
+      console.error(`❌ Email failed for ${student.email}:`, emailError);
+      return false;
+    }
+  }
+
   private static async storeCustomNotifications(
     students: any[], 
     title: string, 
@@ -0,0 +1,192 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { PERMISSIONS, requirePermission } from '@/lib/permissions';
+import { NotificationService } from '@/services/notificationService';
+import { AmendedScores, ResultAmendmentService } from '@/services/resultAmendmentService';
+
+export const REMARK_STATUSES = ['submitted', 'under_review', 'upheld', 'revised'] as const;
+
+export type RemarkStatus = typeof REMARK_STATUSES[number];
+
+export const REMARK_STATUS_LABELS: Record<RemarkStatus, string> = {
+  submitted: 'Submitted',
+  under_review: 'Under Review',
+  upheld: 'Upheld',
+  revised: 'Revised',
+};
+
+export const isOpenRemarkStatus = (status: string) => status === 'submitted' || status === 'under_review';
+
+export type RemarkRequest = Tables<'remark_requests'>;
+
+export interface RemarkRequestWithDetails extends RemarkRequest {
+  student: Pick<Tables<'students'>, 'id' | 'first_name' | 'last_name' | 'email' | 'student_id' | 'department' | 'level'>;
+  result: Pick<Tables<'results'>, 'id' | 'ca_score' | 'exam_score' | 'total_score' | 'grade' | 'status' | 'academic_year' | 'semester'> & {
+    course: Pick<Tables<'courses'>, 'course_code' | 'course_title'>;
+  };
+  amendment: Pick<Tables<'result_amendments'>, 'version' | 'before_total_score' | 'before_grade' | 'after_total_score' | 'after_grade'> | null;
+}
+
+const describeResult = (request: RemarkRequestWithDetails) =>
+  `${request.result.course.course_code} (${request.result.academic_year} ${request.result.semester})`;
+
+const formatScore = (total: number | null, grade: string | null) =>
+  `${total ?? '-'} (${grade ?? '-'})`;
+
+export class RemarkRequestService {
+  // A student queries one of their own published results
+  static async submit(resultId: string, reason: string): Promise<RemarkRequest> {
+    try {
+      if (!reason.trim()) {
+        throw new Error('Tell us why you want this result remarked');
+      }
+
+      const { data, error } = await supabase.rpc('submit_remark_request', {
+        p_result_id: resultId,
+        p_reason: reason.trim(),
+      });
+
+      if (error) {
+        console.error('Error submitting remark request:', error);
+        throw error;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Unexpected error submitting remark request:', error);
+      throw error;
+    }
+  }
+
+  // A student's own requests, newest first
+  static async getForStudent(studentId: string): Promise<RemarkRequest[]> {
+    try {
+      const { data, error } = await supabase
+        .from('remark_requests')
+        .select('*')
+        .eq('student_id', studentId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching remark requests:', error);
+        throw error;
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Unexpected error fetching remark requests:', error);
+      throw error;
+    }
+  }
+
+  // Every request with the student, result and any amendment it led to, newest first
+  static async getQueue(): Promise<RemarkRequestWithDetails[]> {
+    try {
+      const { data, error } = await supabase
+        .from('remark_requests')
+        .select(`
+          *,
+          student:students!remark_requests_student_id_fkey(id, first_name, last_name, email, student_id, department, level),
+          result:results!remark_requests_result_id_fkey(
+            id, ca_score, exam_score, total_score, grade, status, academic_year, semester,
+            course:courses!results_course_id_fkey(course_code, course_title)
+          ),
+          amendment:result_amendments!remark_requests_amendment_id_fkey(
+            version, before_total_score, before_grade, after_total_score, after_grade
+          )
+        `)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching remark request queue:', error);
+        throw error;
+      }
+
+      return (data || []) as RemarkRequestWithDetails[];
+    } catch (error) {
+      console.error('Unexpected error fetching remark request queue:', error);
+      throw error;
+    }
+  }
+
+  static async startReview(request: RemarkRequestWithDetails): Promise<RemarkRequest> {
+    const updated = await this.setStatus(request.id, 'under_review');
+    await this.emailStudent(request, `Your remark request for ${describeResult(request)} is now under review.`);
+    return updated;
+  }
+
+  // The original result stands; the student is told why
+  static async uphold(request: RemarkRequestWithDetails, response: string): Promise<RemarkRequest> {
+    if (!response.trim()) {
+      throw new Error('Explain to the student why the result stands');
+    }
+
+    const updated = await this.setStatus(request.id, 'upheld', response);
+    await this.emailStudent(
+      request,
+      `Your remark request for ${describeResult(request)} has been reviewed and the original result stands.\n${response.trim()}`
+    );
+    return updated;
+  }
+
+  // Amend the result and close the request against that amendment
+  static async revise(request: RemarkRequestWithDetails, scores: AmendedScores, response: string): Promise<RemarkRequest> {
+    if (!response.trim()) {
+      throw new Error('Explain to the student what changed');
+    }
+
+    // The remark notification covers the change, so skip the separate correction notice
+    const { amendment } = await ResultAmendmentService.amend(
+      request.result_id,
+      scores,
+      `Remark request: ${response.trim()}`,
+      { notifyStudent: false }
+    );
+
+    const updated = await this.setStatus(request.id, 'revised', response, amendment.id);
+    await this.emailStudent(
+      request,
+      `Your remark request for ${describeResult(request)} has been reviewed and your result was revised from ` +
+      `${formatScore(amendment.before_total_score, amendment.before_grade)} to ` +
+      `${formatScore(amendment.after_total_score, amendment.after_grade)}.\n${response.trim()}`
+    );
+    return updated;
+  }
+
+  private static async setStatus(
+    requestId: string,
+    status: Exclude<RemarkStatus, 'submitted'>,
+    response?: string,
+    amendmentId?: string
+  ): Promise<RemarkRequest> {
+    try {
+      requirePermission(PERMISSIONS.AMEND_RESULTS);
+
+      const { data, error } = await supabase.rpc('set_remark_request_status', {
+        p_request_id: requestId,
+        p_status: status,
+        p_response: response?.trim() || undefined,
+        p_amendment_id: amendmentId,
+      });
+
+      if (error) {
+        console.error(`Error marking remark request ${status}:`, error);
+        throw error;
+      }
+
+      return data;
+    } catch (error) {
+      console.error(`Unexpected error marking remark request ${status}:`, error);
+      throw error;
+    }
+  }
+
+  // The status change has already landed in the portal, so a failed email is only logged
+  private static async emailStudent(request: RemarkRequestWithDetails, message: string) {
+    try {
+      await NotificationService.sendRemarkRequestUpdate(request.student, message);
+    } catch (error) {
+      console.error('Error emailing remark request update:', error);
+    }
+  }
+}
@@ -0,0 +1,127 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { MAX_CA_SCORE, MAX_EXAM_SCORE } from '@/lib/grading';
+import { PERMISSIONS, requirePermission } from '@/lib/permissions';
+import { NotificationService } from '@/services/notificationService';
+import { StudentService } from '@/services/studentService';
+
+export type ResultAmendment = Tables<'result_amendments'>;
+
+export interface AmendedScores {
+  ca_score: number;
+  exam_score: number;
+}
+
+export interface AmendmentOptions {
+  // Off when the caller tells the student about the change some other way
+  notifyStudent?: boolean;
+}
+
+export interface AmendmentOutcome {
+  amendment: ResultAmendment;
+  studentNotified: boolean;
+}
+
+const formatScore = (total: number | null, grade: string | null) =>
+  total === null ? 'no score' : `${total}${grade ? ` (${grade})` : ''}`;
+
+export class ResultAmendmentService {
+  // Correct a result's scores with a reason; grades, CGPA and history follow from it
+  static async amend(
+    resultId: string,
+    scores: AmendedScores,
+    reason: string,
+    { notifyStudent = true }: AmendmentOptions = {}
+  ): Promise<AmendmentOutcome> {
+    try {
+      requirePermission(PERMISSIONS.AMEND_RESULTS);
+
+      if (!reason.trim()) {
+        throw new Error('Give a reason for amending the result');
+      }
+      if (isNaN(scores.ca_score) || scores.ca_score < 0 || scores.ca_score > MAX_CA_SCORE) {
+        throw new Error(`CA score must be between 0 and ${MAX_CA_SCORE}`);
+      }
+      if (isNaN(scores.exam_score) || scores.exam_score < 0 || scores.exam_score > MAX_EXAM_SCORE) {
+        throw new Error(`Exam score must be between 0 and ${MAX_EXAM_SCORE}`);
+      }
+
+      const { data: amendment, error } = await supabase.rpc('amend_result', {
+        p_result_id: resultId,
+        p_ca_score: scores.ca_score,
+        p_exam_score: scores.exam_score,
+        p_reason: reason.trim(),
+      });
+
+      if (error) {
+        console.error('Error amending result:', error);
+        throw error;
+      }
+
+      const { data: result, error: resultError } = await supabase
+        .from('results')
+        .select(`
+          status,
+          academic_year,
+          semester,
+          student:students!results_student_id_fkey(id, first_name, last_name, email, student_id),
+          course:courses!results_course_id_fkey(course_code)
+        `)
+        .eq('id', resultId)
+        .single();
+
+      if (resultError) {
+        console.error('Error fetching amended result:', resultError);
+        throw resultError;
+      }
+
+      // The amendment is already saved, so a failed refresh must not stop the student being told
+      try {
+        await StudentService.updateStudentCGPA(result.student.id);
+      } catch (cgpaError) {
+        console.error('Error refreshing CGPA after amendment:', cgpaError);
+      }
+
+      // Unpublished results have not been seen by the student, so there is nothing to correct for them
+      let studentNotified = false;
+      if (notifyStudent && result.status === 'published') {
+        const message =
+          `Your ${result.course.course_code} result for ${result.academic_year} ${result.semester} has been corrected ` +
+          `from ${formatScore(amendment.before_total_score, amendment.before_grade)} ` +
+          `to ${formatScore(amendment.after_total_score, amendment.after_grade)}. Reason: ${amendment.reason}`;
+
+        try {
+          studentNotified = await NotificationService.sendResultCorrectionNotice(result.student, message);
+        } catch (notifyError) {
+          console.error('Error notifying student of amendment:', notifyError);
+        }
+      }
+
+      return { amendment, studentNotified };
+    } catch (error) {
+      console.error('Unexpected error amending result:', error);
+      throw error;
+    }
+  }
+
+  // Every score change to a result, newest version first
+  static async getHistory(resultId: string): Promise<ResultAmendment[]> {
+    try {
+      const { data, error } = await supabase
+        .from('result_amendments')
+        .select('*')
+        .eq('result_id', resultId)
+        .order('version', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching result amendments:', error);
+        throw error;
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Unexpected error fetching result amendments:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,347 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { MAX_CA_SCORE, MAX_EXAM_SCORE } from '@/lib/grading';
+import { PERMISSIONS, requirePermission } from '@/lib/permissions';
+import { SpreadsheetData } from '@/lib/spreadsheet';
+import { chunk } from '@/lib/utils';
+import { AcademicCalendarService } from '@/services/academicCalendarService';
+
+// Column index of each field in the sheet, or -1 when the sheet does not have it
+export interface ResultImportMapping {
+  matricNumber: number;
+  courseCode: number;
+  caScore: number;
+  examScore: number;
+  academicYear: number;
+  semester: number;
+}
+
+// Used for rows whose sheet has no session/semester column; an empty semester means the course's own
+export interface ResultImportDefaults {
+  academicYear: string;
+  semester: string;
+}
+
+export interface ResultImportRow {
+  rowNumber: number;
+  matricNumber: string;
+  courseCode: string;
+  academicYear: string;
+  semester: string;
+  caScore: number | null;
+  examScore: number | null;
+  studentId: string | null;
+  studentName: string | null;
+  courseId: string | null;
+  errors: string[];
+}
+
+export interface ResultImportValidation {
+  valid: ResultImportRow[];
+  invalid: ResultImportRow[];
+}
+
+type ImportStudent = Pick<Tables<'students'>, 'id' | 'student_id' | 'first_name' | 'last_name' | 'department' | 'level'>;
+type ImportCourse = Pick<Tables<'courses'>, 'id' | 'course_code' | 'department' | 'level' | 'semester' | 'is_active'>;
+
+const LOOKUP_CHUNK_SIZE = 100;
+const PAGE_SIZE = 1000;
+
+export const RESULT_IMPORT_COLUMNS: Record<keyof ResultImportMapping, string[]> = {
+  matricNumber: ['matric', 'matric no', 'matric number', 'matriculation number', 'student id', 'reg no'],
+  courseCode: ['course', 'course code', 'code'],
+  caScore: ['ca', 'ca score', 'continuous assessment', 'test'],
+  examScore: ['exam', 'exam score', 'examination'],
+  academicYear: ['session', 'academic year', 'academic session', 'year'],
+  semester: ['semester'],
+};
+
+const normalizeCode = (value: string) => value.replace(/\s+/g, '').toUpperCase();
+const normalizeMatric = (value: string) => value.trim().toUpperCase();
+
+// Accept "1", "1st", "First" and "First Semester" for the first semester, and likewise for the second
+export const normalizeSemester = (value: string) => {
+  const cleaned = value.trim().toLowerCase();
+  if (!cleaned) return '';
+  if (/^(1|1st|first)( semester)?$/.test(cleaned)) return 'First Semester';
+  if (/^(2|2nd|second)( semester)?$/.test(cleaned)) return 'Second Semester';
+  return value.trim();
+};
+
+// Accept "2024-2025" for the 2024/2025 session
+export const normalizeSession = (value: string) =>
+  value.trim().replace(/^(\d{4})\s*[-/]\s*(\d{4})$/, '$1/$2');
+
+const parseScore = (value: string, label: string, max: number, errors: string[]) => {
+  if (value === '') {
+    errors.push(`${label} is missing`);
+    return null;
+  }
+  const score = Number(value);
+  if (isNaN(score) || score < 0 || score > max) {
+    errors.push(`${label} must be between 0 and ${max}`);
+    return null;
+  }
+  return score;
+};
+
+const resultKey = (studentId: string, courseId: string, academicYear: string, semester: string) =>
+  `${studentId}|${courseId}|${academicYear}|${semester}`;
+
+export class ResultImportService {
+  // Resolve matric numbers and course codes, check score ranges and registrations, and flag duplicates
+  static async validateSheet(
+    sheet: SpreadsheetData,
+    mapping: ResultImportMapping,
+    defaults: ResultImportDefaults
+  ): Promise<ResultImportValidation> {
+    try {
+      const cell = (row: string[], column: number) => (column >= 0 ? row[column] ?? '' : '');
+
+      const rawRows = sheet.rows.map((row, index) => ({
+        rowNumber: index + 2, // 1-based, after the header row
+        matricNumber: cell(row, mapping.matricNumber).trim(),
+        courseCode: cell(row, mapping.courseCode).trim(),
+        academicYear: normalizeSession(cell(row, mapping.academicYear)) || defaults.academicYear,
+        semester: normalizeSemester(cell(row, mapping.semester)) || defaults.semester,
+        caScore: cell(row, mapping.caScore).trim(),
+        examScore: cell(row, mapping.examScore).trim(),
+      }));
+
+      const students = await this.getStudents(rawRows.map(r => r.matricNumber).filter(Boolean));
+      const courses = await this.getCourses();
+      const studentIds = Array.from(new Set(Array.from(students.values()).map(s => s.id)));
+      const existing = await this.getExistingResultKeys(studentIds);
+      const registered = await this.getRegistrationKeys(studentIds);
+      const calendar = await AcademicCalendarService.getCalendar();
+      const calendarSemesters = new Set(
+        calendar.flatMap(session => session.semesters.map(s => `${s.academic_year}|${s.name}`))
+      );
+
+      const seen = new Map<string, number>();
+
+      const rows = rawRows.map((raw): ResultImportRow => {
+        const errors: string[] = [];
+        const caScore = parseScore(raw.caScore, 'CA score', MAX_CA_SCORE, errors);
+        const examScore = parseScore(raw.examScore, 'Exam score', MAX_EXAM_SCORE, errors);
+
+        if (caScore !== null && examScore !== null && caScore + examScore > 100) {
+          errors.push('Total score exceeds 100');
+        }
+
+        const student = raw.matricNumber ? students.get(normalizeMatric(raw.matricNumber)) : undefined;
+        if (!raw.matricNumber) {
+          errors.push('Matric number is missing');
+        } else if (!student) {
+          errors.push(`No student with matric number ${raw.matricNumber}`);
+        }
+
+        let course: ImportCourse | undefined;
+        if (!raw.courseCode) {
+          errors.push('Course code is missing');
+        } else {
+          const matches = courses.get(normalizeCode(raw.courseCode)) ?? [];
+          // The same code can exist in several departments; prefer the student's own
+          const preferred = student
+            ? matches.filter(c => c.department === student.department && c.level === student.level)
+            : [];
+          const candidates = preferred.length > 0 ? preferred : matches;
+
+          if (candidates.length === 0) {
+            errors.push(`No course with code ${raw.courseCode}`);
+          } else if (candidates.length > 1) {
+            errors.push(`Course code ${raw.courseCode} matches ${candidates.length} courses`);
+          } else {
+            course = candidates[0];
+            if (!course.is_active) {
+              errors.push(`Course ${raw.courseCode} is inactive`);
+            }
+          }
+        }
+
+        const semester = raw.semester || course?.semester || '';
+        if (!raw.academicYear) errors.push('Academic session is missing');
+        if (!semester) errors.push('Semester is missing');
+
+        if (raw.academicYear && semester && !calendarSemesters.has(`${raw.academicYear}|${semester}`)) {
+          errors.push(`${raw.academicYear} ${semester} is not in the academic calendar`);
+        }
+
+        if (student && course && raw.academicYear && semester) {
+          const key = resultKey(student.id, course.id, raw.academicYear, semester);
+          if (!registered.has(key)) {
+            errors.push(`Student is not registered for ${raw.courseCode} in ${raw.academicYear} ${semester}`);
+          }
+          if (existing.has(key)) {
+            errors.push('A result for this course and semester already exists');
+          } else if (seen.has(key)) {
+            errors.push(`Duplicate of row ${seen.get(key)}`);
+          } else {
+            seen.set(key, raw.rowNumber);
+          }
+        }
+
+        return {
+          rowNumber: raw.rowNumber,
+          matricNumber: raw.matricNumber,
+          courseCode: raw.courseCode,
+          academicYear: raw.academicYear,
+          semester,
+          caScore,
+          examScore,
+          studentId: student?.id ?? null,
+          studentName: student ? `${student.first_name} ${student.last_name}` : null,
+          courseId: course?.id ?? null,
+          errors,
+        };
+      });
+
+      return {
+        valid: rows.filter(row => row.errors.length === 0),
+        invalid: rows.filter(row => row.errors.length > 0),
+      };
+    } catch (error) {
+      console.error('Unexpected error validating result sheet:', error);
+      throw error;
+    }
+  }
+
+  // Insert every valid row as a draft result in one transaction
+  static async importRows(rows: ResultImportRow[]): Promise<number> {
+    try {
+      requirePermission(PERMISSIONS.ENTER_RESULTS);
+
+      const { data, error } = await supabase.rpc('import_results', {
+        p_rows: rows.map(row => ({
+          student_id: row.studentId,
+          course_id: row.courseId,
+          academic_year: row.academicYear,
+          semester: row.semester,
+          ca_score: row.caScore,
+          exam_score: row.examScore,
+        })),
+      });
+
+      if (error) {
+        console.error('Error importing results:', error);
+        throw error;
+      }
+
+      return data ?? 0;
+    } catch (error) {
+      console.error('Unexpected error importing results:', error);
+      throw error;
+    }
+  }
+
+  // Rows for the downloadable error report: the sheet's values plus what was wrong
+  static errorReport(rows: ResultImportRow[]) {
+    return {
+      headers: ['Row', 'Matric Number', 'Course Code', 'Session', 'Semester', 'CA', 'Exam', 'Errors'],
+      rows: rows.map(row => [
+        row.rowNumber,
+        row.matricNumber,
+        row.courseCode,
+        row.academicYear,
+        row.semester,
+        row.caScore,
+        row.examScore,
+        row.errors.join('; '),
+      ]),
+    };
+  }
+
+  private static async getStudents(matricNumbers: string[]): Promise<Map<string, ImportStudent>> {
+    const students = new Map<string, ImportStudent>();
+    const lookups = Array.from(new Set(matricNumbers.flatMap(m => [m, normalizeMatric(m)])));
+
+    for (const batch of chunk(lookups, LOOKUP_CHUNK_SIZE)) {
+      const { data, error } = await supabase
+        .from('students')
+        .select('id, student_id, first_name, last_name, department, level')
+        .in('student_id', batch);
+
+      if (error) {
+        console.error('Error looking up students:', error);
+        throw error;
+      }
+
+      (data || []).forEach(student => students.set(normalizeMatric(student.student_id), student));
+    }
+
+    return students;
+  }
+
+  // Courses grouped by normalised code, so "csc 101" matches "CSC101"
+  private static async getCourses(): Promise<Map<string, ImportCourse[]>> {
+    const { data, error } = await supabase
+      .from('courses')
+      .select('id, course_code, department, level, semester, is_active');
+
+    if (error) {
+      console.error('Error looking up courses:', error);
+      throw error;
+    }
+
+    const courses = new Map<string, ImportCourse[]>();
+    (data || []).forEach(course => {
+      const code = normalizeCode(course.course_code);
+      courses.set(code, [...(courses.get(code) ?? []), course]);
+    });
+
+    return courses;
+  }
+
+  // Results can only be recorded for registered courses, so unregistered rows are rejected up front
+  private static async getRegistrationKeys(studentIds: string[]): Promise<Set<string>> {
+    const keys = new Set<string>();
+
+    for (const batch of chunk(studentIds, LOOKUP_CHUNK_SIZE)) {
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from('student_courses')
+          .select('student_id, course_id, academic_year, semester')
+          .in('student_id', batch)
+          .order('id', { ascending: true })
+          .range(from, from + PAGE_SIZE - 1);
+
+        if (error) {
+          console.error('Error checking course registrations:', error);
+          throw error;
+        }
+
+        (data || []).forEach(r => keys.add(resultKey(r.student_id, r.course_id, r.academic_year, r.semester)));
+
+        if (!data || data.length < PAGE_SIZE) break;
+      }
+    }
+
+    return keys;
+  }
+
+  private static async getExistingResultKeys(studentIds: string[]): Promise<Set<string>> {
+    const keys = new Set<string>();
+
+    for (const batch of chunk(studentIds, LOOKUP_CHUNK_SIZE)) {
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from('results')
+          .select('student_id, course_id, academic_year, semester')
+          .in('student_id', batch)
+          .order('id', { ascending: true })
+          .range(from, from + PAGE_SIZE - 1);
+
+        if (error) {
+          console.error('Error checking existing results:', error);
+          throw error;
+        }
+
+        (data || []).forEach(r => keys.add(resultKey(r.student_id, r.course_id, r.academic_year, r.semester)));
+
+        if (!data || data.length < PAGE_SIZE) break;
+      }
+    }
+
+    return keys;
+  }
+}
@@ -0,0 +1,162 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { RESULT_ACTIONS, ResultAction } from '@/lib/resultWorkflow';
+import { requirePermission } from '@/lib/permissions';
+import { chunk } from '@/lib/utils';
+import { StudentService } from '@/services/studentService';
+
+export type ResultStatusChange = Tables<'result_status_history'>;
+
+export interface PublicationScope {
+  academicYear: string;
+  semester: string;
+  department: string;
+  level: string;
+  // Leave empty to publish every approved course in the cohort
+  courseIds?: string[];
+}
+
+export interface PublicationPreviewStudent {
+  id: string;
+  student_id: string;
+  name: string;
+  resultCount: number;
+}
+
+export interface PublicationPreview {
+  resultIds: string[];
+  students: PublicationPreviewStudent[];
+}
+
+// Ids per `.in()` filter, to keep request URLs short
+const LOOKUP_CHUNK_SIZE = 100;
+
+export class ResultWorkflowService {
+  // Move a batch of results to the next stage, or reject them back to draft with a comment
+  static async transition(resultIds: string[], action: ResultAction, comment?: string): Promise<number> {
+    try {
+      // Rejection rights depend on the stage; the database checks those per result
+      if (action !== 'reject') {
+        requirePermission(RESULT_ACTIONS[action].permission);
+      }
+
+      if (action === 'reject' && !comment?.trim()) {
+        throw new Error('Give a reason for rejecting the results');
+      }
+
+      const { data, error } = await supabase.rpc('transition_results', {
+        p_result_ids: resultIds,
+        p_action: action,
+        p_comment: comment?.trim() || undefined,
+      });
+
+      if (error) {
+        console.error(`Error applying ${action} to results:`, error);
+        throw error;
+      }
+
+      // The stored CGPA counts published results only
+      if (action === 'publish') {
+        await this.refreshStudentCGPAs(resultIds);
+      }
+
+      return data ?? 0;
+    } catch (error) {
+      console.error(`Unexpected error applying ${action} to results:`, error);
+      throw error;
+    }
+  }
+
+  // Recalculate the CGPA of every student the results belong to. The results are already
+  // published by then, so a failed refresh is logged rather than thrown.
+  private static async refreshStudentCGPAs(resultIds: string[]): Promise<void> {
+    const studentIds = new Set<string>();
+    for (const batch of chunk(resultIds, LOOKUP_CHUNK_SIZE)) {
+      const { data, error } = await supabase
+        .from('results')
+        .select('student_id')
+        .in('id', batch);
+
+      if (error) {
+        console.error('Error fetching students to refresh CGPA for:', error);
+        return;
+      }
+
+      (data || []).forEach(result => studentIds.add(result.student_id));
+    }
+
+    for (const studentId of studentIds) {
+      await StudentService.updateStudentCGPA(studentId)
+        .catch(cgpaError => console.error(`Error refreshing CGPA for student ${studentId}:`, cgpaError));
+    }
+  }
+
+  // Who moved a result between stages, newest first
+  static async getHistory(resultId: string): Promise<ResultStatusChange[]> {
+    try {
+      const { data, error } = await supabase
+        .from('result_status_history')
+        .select('*')
+        .eq('result_id', resultId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching result history:', error);
+        throw error;
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Unexpected error fetching result history:', error);
+      throw error;
+    }
+  }
+
+  // Approved results for one cohort and the students they belong to: the only results that may be published
+  static async previewPublication(scope: PublicationScope): Promise<PublicationPreview> {
+    try {
+      let query = supabase
+        .from('results')
+        .select('id, student_id, student:students!results_student_id_fkey!inner(student_id, first_name, last_name, department, level)')
+        .eq('status', 'approved')
+        .eq('academic_year', scope.academicYear)
+        .eq('semester', scope.semester)
+        .eq('student.department', scope.department)
+        .eq('student.level', scope.level);
+
+      if (scope.courseIds && scope.courseIds.length > 0) {
+        query = query.in('course_id', scope.courseIds);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        console.error('Error fetching publishable results:', error);
+        throw error;
+      }
+
+      const students = new Map<string, PublicationPreviewStudent>();
+      (data || []).forEach(result => {
+        const existing = students.get(result.student_id);
+        if (existing) {
+          existing.resultCount++;
+        } else {
+          students.set(result.student_id, {
+            id: result.student_id,
+            student_id: result.student.student_id,
+            name: `${result.student.first_name} ${result.student.last_name}`,
+            resultCount: 1,
+          });
+        }
+      });
+
+      return {
+        resultIds: (data || []).map(result => result.id),
+        students: Array.from(students.values()).sort((a, b) => a.student_id.localeCompare(b.student_id)),
+      };
+    } catch (error) {
+      console.error('Unexpected error fetching publishable results:', error);
+      throw error;
+    }
+  }
+}
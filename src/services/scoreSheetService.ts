@@ -0,0 +1,121 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import { MAX_CA_SCORE, MAX_EXAM_SCORE } from '@/lib/grading';
+import { PERMISSIONS, requirePermission } from '@/lib/permissions';
+
+type Functions = Database['public']['Functions'];
+
+export type LecturerCourse = Functions['get_lecturer_courses']['Returns'][number];
+export type ScoreSheetRow = Functions['get_score_sheet']['Returns'][number];
+
+export type ScoreSheetStatus = 'draft' | 'submitted';
+
+export interface ScoreEntry {
+  student_id: string;
+  ca_score: number | null;
+  exam_score: number | null;
+}
+
+// A student's row can still be edited until HOD review moves the result past draft
+export const isRowLocked = (row: Pick<ScoreSheetRow, 'result_status'>) =>
+  !!row.result_status && row.result_status !== 'draft';
+
+export const validateScoreEntry = (entry: Pick<ScoreEntry, 'ca_score' | 'exam_score'>): string | null => {
+  const { ca_score, exam_score } = entry;
+  if (ca_score !== null && (isNaN(ca_score) || ca_score < 0 || ca_score > MAX_CA_SCORE)) {
+    return `CA score must be between 0 and ${MAX_CA_SCORE}`;
+  }
+  if (exam_score !== null && (isNaN(exam_score) || exam_score < 0 || exam_score > MAX_EXAM_SCORE)) {
+    return `Exam score must be between 0 and ${MAX_EXAM_SCORE}`;
+  }
+  return null;
+};
+
+export class ScoreSheetService {
+  // Offerings the signed-in lecturer teaches, newest session first
+  static async getMyCourses(): Promise<LecturerCourse[]> {
+    try {
+      requirePermission(PERMISSIONS.ENTER_COURSE_SCORES);
+
+      const { data, error } = await supabase.rpc('get_lecturer_courses');
+
+      if (error) {
+        console.error('Error fetching lecturer courses:', error);
+        throw error;
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Unexpected error fetching lecturer courses:', error);
+      throw error;
+    }
+  }
+
+  // Registered students for an offering with their saved or submitted scores
+  static async getSheet(offeringId: string): Promise<ScoreSheetRow[]> {
+    try {
+      requirePermission(PERMISSIONS.ENTER_COURSE_SCORES);
+
+      const { data, error } = await supabase.rpc('get_score_sheet', { p_offering_id: offeringId });
+
+      if (error) {
+        console.error('Error fetching score sheet:', error);
+        throw error;
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Unexpected error fetching score sheet:', error);
+      throw error;
+    }
+  }
+
+  static async saveDraft(offeringId: string, entries: ScoreEntry[]): Promise<number> {
+    try {
+      requirePermission(PERMISSIONS.ENTER_COURSE_SCORES);
+
+      const invalid = entries.map(validateScoreEntry).find(Boolean);
+      if (invalid) {
+        throw new Error(invalid);
+      }
+
+      const { data, error } = await supabase.rpc('save_score_sheet', {
+        p_offering_id: offeringId,
+        p_rows: entries.map(entry => ({
+          student_id: entry.student_id,
+          ca_score: entry.ca_score,
+          exam_score: entry.exam_score,
+        })),
+      });
+
+      if (error) {
+        console.error('Error saving score sheet:', error);
+        throw error;
+      }
+
+      return data ?? 0;
+    } catch (error) {
+      console.error('Unexpected error saving score sheet:', error);
+      throw error;
+    }
+  }
+
+  // Sends the sheet for HOD review; returns how many results were written
+  static async submit(offeringId: string): Promise<number> {
+    try {
+      requirePermission(PERMISSIONS.ENTER_COURSE_SCORES);
+
+      const { data, error } = await supabase.rpc('submit_score_sheet', { p_offering_id: offeringId });
+
+      if (error) {
+        console.error('Error submitting score sheet:', error);
+        throw error;
+      }
+
+      return data ?? 0;
+    } catch (error) {
+      console.error('Unexpected error submitting score sheet:', error);
+      throw error;
+    }
+  }
+}
@@ -1,29 +1,39 @@
 import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { PERMISSIONS, requirePermission } from '@/lib/permissions';
+import { DeliveryStatus, formatNigerianPhone } from '@/lib/smsProviders';
+import { SmsEstimate, estimateSms, smsPricingFromEnv } from '@/lib/smsAnalysis';
 
 interface SMSRecord {
   id: string;
   student_id: string;
   phone_number: string;
   message: string;
-  status: 'pending' | 'sent' | 'failed' | 'retry';
+  status: 'pending' | 'sending' | 'sent' | 'failed' | 'retry';
   attempts: number;
   last_attempt: string;
+  next_attempt_at: string;
   error_message?: string;
   sid?: string;
+  provider?: string;
+  delivery_status?: DeliveryStatus | null;
+  delivered_at?: string | null;
   created_at: string;
   updated_at: string;
 }
 
-interface SMSResult {
-  success: boolean;
-  sid?: string;
-  status?: string;
-  error?: string;
+export type SMSStatusEvent = Tables<'sms_status_events'>;
+
+interface RetrySMSResult {
+  total: number;
+  successful: number;
+  failed: number;
+  errors: string[];
 }
 
 interface BulkSMSResult {
   total: number;
-  sent: number;
+  queued: number;
   failed: number;
   results: Array<{
     student_id: string;
@@ -31,274 +41,125 @@ interface BulkSMSResult {
     phone: string;
     success: boolean;
     error?: string;
-    sid?: string;
+    recordId?: string;
   }>;
 }
 
+// The browser only queues messages in sms_records; the SMS worker (server/worker.js) sends them,
+// so provider keys stay on the server and a batch carries on after the tab is closed.
 export class SMSService {
-  private static readonly API_BASE_URL = process.env.NODE_ENV === 'production' 
-    ? 'https://api.sendchamp.com/api/v1'
-    : 'https://api.sendchamp.com/api/v1';
-  
-  private static readonly SENDER_NAME = 'MAPOLY';
-  private static readonly MAX_RETRIES = 3;
+  // Rates and limits for cost estimates, from the VITE_SMS_* variables (not secret)
+  private static readonly PRICING = smsPricingFromEnv((name) => import.meta.env[`VITE_${name}`]);
 
   // Format phone number for Nigeria
   static formatPhoneNumber(phone: string): string | null {
-    if (!phone) return null;
-    
-    const cleaned = phone.replace(/\D/g, '');
-    
-    if (cleaned.startsWith('0')) {
-      return '234' + cleaned.substring(1);
-    }
-    if (cleaned.startsWith('+234')) {
-      return cleaned.substring(1);
-    }
-    if (!cleaned.startsWith('234')) {
-      return '234' + cleaned;
-    }
-    
-    // Validate Nigerian mobile number
-    if (cleaned.length === 13 && ['7', '8', '9'].includes(cleaned.charAt(3))) {
-      return cleaned;
-    }
-    
-    return null;
+    return formatNigerianPhone(phone);
   }
 
-  // Send single SMS
-  static async sendSMS(phoneNumber: string, message: string): Promise<SMSResult> {
-    try {
-      const apiKey = import.meta.env.VITE_SENDCHAMP_API_KEY;
-      
-      if (!apiKey) {
-        throw new Error('SendChamp API key not configured');
-      }
-
-      const response = await fetch(`${this.API_BASE_URL}/sms/send`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-          'Accept': 'application/json'
-        },
-        body: JSON.stringify({
-          to: [phoneNumber],
-          message: message,
-          sender_name: this.SENDER_NAME,
-          route: 'dnd'
-        })
-      });
-
-      const result = await response.json();
-
-      if (!response.ok) {
-        throw new Error(result.message || `HTTP ${response.status}`);
-      }
-
-      return {
-        success: true,
-        sid: result.data?.id || result.id,
-        status: result.data?.status || 'sent'
-      };
-    } catch (error) {
-      console.error('SMS sending error:', error);
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error'
-      };
-    }
+  // Encoding, segments and estimated cost of sending a message to `recipients` students
+  static estimateSMS(message: string, recipients: number): SmsEstimate {
+    return estimateSms(message, recipients, this.PRICING);
   }
 
-  // Create SMS record in database
-  static async createSMSRecord(
+  // Queue an SMS to a student for the worker to send
+  static async queueSMS(
     studentId: string,
     phoneNumber: string,
-    message: string,
-    status: 'pending' | 'sent' | 'failed' = 'pending',
-    sid?: string,
-    errorMessage?: string
-  ): Promise<string | null> {
+    message: string
+  ): Promise<{ success: boolean; recordId?: string; error?: string }> {
     try {
-      const { data, error } = await supabase
-        .from('sms_records')
-        .insert([{
-          student_id: studentId,
-          phone_number: phoneNumber,
-          message: message,
-          status: status,
-          attempts: 1,
-          last_attempt: new Date().toISOString(),
-          sid: sid,
-          error_message: errorMessage
-        }])
-        .select()
-        .single();
+      requirePermission(PERMISSIONS.SEND_NOTIFICATIONS);
 
-      if (error) {
-        console.error('Error creating SMS record:', error);
-        return null;
+      const formattedPhone = this.formatPhoneNumber(phoneNumber);
+      if (!formattedPhone) {
+        return { success: false, error: 'Invalid phone number format' };
       }
 
-      return data.id;
-    } catch (error) {
-      console.error('Error creating SMS record:', error);
-      return null;
-    }
-  }
-
-  // Update SMS record
-  static async updateSMSRecord(
-    recordId: string,
-    status: 'sent' | 'failed' | 'retry',
-    sid?: string,
-    errorMessage?: string
-  ): Promise<boolean> {
-    try {
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from('sms_records')
-        .update({
-          status: status,
-          last_attempt: new Date().toISOString(),
-          attempts: supabase.rpc('increment_attempts', { record_id: recordId }),
-          sid: sid,
-          error_message: errorMessage,
-          updated_at: new Date().toISOString()
+        .insert({
+          student_id: studentId,
+          phone_number: formattedPhone,
+          message: message,
+          status: 'pending'
         })
-        .eq('id', recordId);
+        .select('id')
+        .single();
 
       if (error) {
-        console.error('Error updating SMS record:', error);
-        return false;
+        console.error('Error queueing SMS:', error);
+        return { success: false, error: error.message };
       }
 
-      return true;
+      return { success: true, recordId: data.id };
     } catch (error) {
-      console.error('Error updating SMS record:', error);
-      return false;
+      console.error('Error queueing SMS:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
     }
   }
 
-  // Send SMS to student with record keeping
-  static async sendSMSToStudent(
-    studentId: string,
-    phoneNumber: string,
-    message: string,
-    recordId?: string
-  ): Promise<{ success: boolean; recordId?: string; error?: string }> {
-    const formattedPhone = this.formatPhoneNumber(phoneNumber);
-    
-    if (!formattedPhone) {
-      const error = 'Invalid phone number format';
-      if (recordId) {
-        await this.updateSMSRecord(recordId, 'failed', undefined, error);
-      }
-      return { success: false, error };
-    }
-
-    // Create record if not exists
-    let currentRecordId = recordId;
-    if (!currentRecordId) {
-      currentRecordId = await this.createSMSRecord(studentId, formattedPhone, message, 'pending');
-    }
-
-    // Send SMS
-    const smsResult = await this.sendSMS(formattedPhone, message);
-
-    // Update record
-    if (currentRecordId) {
-      await this.updateSMSRecord(
-        currentRecordId,
-        smsResult.success ? 'sent' : 'failed',
-        smsResult.sid,
-        smsResult.error
-      );
-    }
-
-    return {
-      success: smsResult.success,
-      recordId: currentRecordId || undefined,
-      error: smsResult.error
-    };
-  }
-
-  // Send bulk SMS to multiple students
-  static async sendBulkSMS(
+  // Queue the same SMS to many students in one insert; students without a valid phone number are skipped
+  static async queueBulkSMS(
     students: Array<{
       id: string;
       first_name: string;
       last_name: string;
       phone: string;
     }>,
-    message: string,
-    onProgress?: (progress: { current: number; total: number; student: string }) => void
+    message: string
   ): Promise<BulkSMSResult> {
+    requirePermission(PERMISSIONS.SEND_NOTIFICATIONS);
+
     const results: BulkSMSResult['results'] = [];
-    let sent = 0;
-    let failed = 0;
-
-    for (let i = 0; i < students.length; i++) {
-      const student = students[i];
-      const studentName = `${student.first_name} ${student.last_name}`;
-
-      // Report progress
-      if (onProgress) {
-        onProgress({
-          current: i + 1,
-          total: students.length,
-          student: studentName
+    const queueable = students.flatMap(student => {
+      const formattedPhone = this.formatPhoneNumber(student.phone);
+      if (!formattedPhone) {
+        results.push({
+          student_id: student.id,
+          student_name: `${student.first_name} ${student.last_name}`,
+          phone: student.phone,
+          success: false,
+          error: 'Invalid phone number format'
         });
+        return [];
+      }
+      return [{ student, formattedPhone }];
+    });
+
+    if (queueable.length > 0) {
+      const { data, error } = await supabase
+        .from('sms_records')
+        .insert(queueable.map(({ student, formattedPhone }) => ({
+          student_id: student.id,
+          phone_number: formattedPhone,
+          message: message,
+          status: 'pending'
+        })))
+        .select('id, student_id');
+
+      if (error) {
+        console.error('Error queueing bulk SMS:', error);
+        throw error;
       }
 
-      try {
-        const result = await this.sendSMSToStudent(
-          student.id,
-          student.phone,
-          message
-        );
-
-        if (result.success) {
-          sent++;
-          results.push({
-            student_id: student.id,
-            student_name: studentName,
-            phone: student.phone,
-            success: true,
-            sid: result.recordId
-          });
-        } else {
-          failed++;
-          results.push({
-            student_id: student.id,
-            student_name: studentName,
-            phone: student.phone,
-            success: false,
-            error: result.error
-          });
-        }
-
-        // Rate limiting - wait 1 second between SMS
-        if (i < students.length - 1) {
-          await new Promise(resolve => setTimeout(resolve, 1000));
-        }
-
-      } catch (error) {
-        failed++;
+      queueable.forEach(({ student }) => {
         results.push({
           student_id: student.id,
-          student_name: studentName,
+          student_name: `${student.first_name} ${student.last_name}`,
           phone: student.phone,
-          success: false,
-          error: error instanceof Error ? error.message : 'Unknown error'
+          success: true,
+          recordId: data?.find(record => record.student_id === student.id)?.id
         });
-      }
+      });
     }
 
     return {
       total: students.length,
-      sent,
-      failed,
+      queued: queueable.length,
+      failed: students.length - queueable.length,
       results
     };
   }
@@ -324,9 +185,43 @@ export class SMSService {
     }
   }
 
-  // Get all failed SMS records
+  // Delivery reports for one SMS, oldest first
+  static async getStatusTimeline(recordId: string): Promise<SMSStatusEvent[]> {
+    try {
+      const { data, error } = await supabase
+        .from('sms_status_events')
+        .select('*')
+        .eq('sms_record_id', recordId)
+        .order('occurred_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching SMS status timeline:', error);
+        throw error;
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Unexpected error fetching SMS status timeline:', error);
+      throw error;
+    }
+  }
+
+  // How many attempts a message gets; the limit is set in the database, which enforces it
+  static async getMaxAttempts(): Promise<number> {
+    const { data, error } = await supabase.rpc('sms_max_attempts');
+
+    if (error) {
+      console.error('Error fetching SMS retry limit:', error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  // Get all failed SMS records that still have attempts left
   static async getFailedSMSRecords(): Promise<SMSRecord[]> {
     try {
+      const maxAttempts = await this.getMaxAttempts();
       const { data, error } = await supabase
         .from('sms_records')
         .select(`
@@ -334,7 +229,7 @@ export class SMSService {
           students!inner(first_name, last_name, student_id)
         `)
         .eq('status', 'failed')
-        .lt('attempts', this.MAX_RETRIES)
+        .lt('attempts', maxAttempts)
         .order('created_at', { ascending: false });
 
       if (error) {
@@ -349,41 +244,42 @@ export class SMSService {
     }
   }
 
-  // Retry failed SMS
-  static async retrySMS(recordId: string): Promise<{ success: boolean; error?: string }> {
+  // Put failed SMS back in the queue in one step, refusing any at the retry limit; with no ids,
+  // every retryable failed SMS. The worker picks them up on its next pass.
+  static async retryFailedSMS(recordIds?: string[]): Promise<RetrySMSResult> {
     try {
-      // Get the SMS record
-      const { data: record, error: fetchError } = await supabase
-        .from('sms_records')
-        .select(`
-          *,
-          students!inner(id, first_name, last_name)
-        `)
-        .eq('id', recordId)
-        .single();
+      requirePermission(PERMISSIONS.MANAGE_SMS);
 
-      if (fetchError || !record) {
-        return { success: false, error: 'SMS record not found' };
-      }
+      const { data, error } = await supabase.rpc('retry_sms_records', {
+        p_record_ids: recordIds ?? null
+      });
 
-      if (record.attempts >= this.MAX_RETRIES) {
-        return { success: false, error: 'Maximum retry attempts reached' };
+      if (error) {
+        console.error('Error retrying SMS:', error);
+        throw error;
       }
 
-      // Update status to retry
-      await this.updateSMSRecord(recordId, 'retry');
-
-      // Attempt to send SMS again
-      const result = await this.sendSMSToStudent(
-        record.student_id,
-        record.phone_number,
-        record.message,
-        recordId
-      );
-
-      return result;
+      const results = data || [];
+      return {
+        total: results.length,
+        successful: results.filter(r => r.queued).length,
+        failed: results.filter(r => !r.queued).length,
+        errors: results.filter(r => !r.queued && r.reason).map(r => r.reason)
+      };
     } catch (error) {
       console.error('Error retrying SMS:', error);
+      throw error;
+    }
+  }
+
+  // Put one failed SMS back in the queue
+  static async retrySMS(recordId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const result = await this.retryFailedSMS([recordId]);
+      return result.successful > 0
+        ? { success: true }
+        : { success: false, error: result.errors[0] || 'SMS record not found' };
+    } catch (error) {
       return { 
         success: false, 
         error: error instanceof Error ? error.message : 'Unknown error' 
@@ -392,42 +288,17 @@ export class SMSService {
   }
 
   // Retry all failed SMS for a student
-  static async retryAllFailedSMS(studentId: string): Promise<{
-    total: number;
-    successful: number;
-    failed: number;
-    errors: string[];
-  }> {
-    const failedRecords = await this.getStudentSMSRecords(studentId);
-    const retryableRecords = failedRecords.filter(
-      record => record.status === 'failed' && record.attempts < this.MAX_RETRIES
-    );
-
-    let successful = 0;
-    let failed = 0;
-    const errors: string[] = [];
-
-    for (const record of retryableRecords) {
-      const result = await this.retrySMS(record.id);
-      if (result.success) {
-        successful++;
-      } else {
-        failed++;
-        if (result.error) {
-          errors.push(result.error);
-        }
-      }
-
-      // Rate limiting
-      await new Promise(resolve => setTimeout(resolve, 1000));
+  static async retryAllFailedSMS(studentId: string): Promise<RetrySMSResult> {
+    const [records, maxAttempts] = await Promise.all([this.getStudentSMSRecords(studentId), this.getMaxAttempts()]);
+    const retryableIds = records
+      .filter(record => record.status === 'failed' && record.attempts < maxAttempts)
+      .map(record => record.id);
+
+    if (retryableIds.length === 0) {
+      return { total: 0, successful: 0, failed: 0, errors: [] };
     }
 
-    return {
-      total: retryableRecords.length,
-      successful,
-      failed,
-      errors
-    };
+    return this.retryFailedSMS(retryableIds);
   }
 
   // Get SMS statistics
@@ -435,7 +306,7 @@ export class SMSService {
     try {
       let query = supabase
         .from('sms_records')
-        .select('status, created_at');
+        .select('status, delivery_status, created_at');
 
       if (dateFrom) {
         query = query.gte('created_at', dateFrom);
@@ -456,6 +327,9 @@ export class SMSService {
         sent: data?.filter(r => r.status === 'sent').length || 0,
         failed: data?.filter(r => r.status === 'failed').length || 0,
         pending: data?.filter(r => r.status === 'pending').length || 0,
+        sending: data?.filter(r => r.status === 'sending').length || 0,
+        delivered: data?.filter(r => r.delivery_status === 'delivered').length || 0,
+        undelivered: data?.filter(r => r.delivery_status === 'undelivered' || r.delivery_status === 'failed').length || 0,
         retry: data?.filter(r => r.status === 'retry').length || 0
       };
 
@@ -0,0 +1,236 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables, TablesInsert } from '@/integrations/supabase/types';
+import { PERMISSIONS, requirePermission } from '@/lib/permissions';
+import { SpreadsheetData } from '@/lib/spreadsheet';
+import { SMSService } from '@/services/smsService';
+
+// Column index of each field in the sheet, or -1 when the sheet does not have it
+export interface StudentImportMapping {
+  studentId: number;
+  firstName: number;
+  lastName: number;
+  email: number;
+  phone: number;
+  department: number;
+  level: number;
+  status: number;
+}
+
+export interface StudentImportRow {
+  rowNumber: number;
+  student: TablesInsert<'students'>;
+  errors: string[];
+}
+
+export interface StudentImportValidation {
+  valid: StudentImportRow[];
+  invalid: StudentImportRow[];
+}
+
+export interface StudentImportOptions {
+  // Check everything against the database but save nothing
+  dryRun?: boolean;
+}
+
+export const STUDENT_LEVELS = ['ND 1', 'ND 2', 'HND 1', 'HND 2'];
+
+export const STUDENT_IMPORT_COLUMNS: Record<keyof StudentImportMapping, string[]> = {
+  studentId: ['matric', 'matric no', 'matric number', 'matriculation number', 'student id', 'reg no'],
+  firstName: ['first name', 'firstname', 'given name'],
+  lastName: ['last name', 'lastname', 'surname'],
+  email: ['email', 'email address', 'e-mail'],
+  phone: ['phone', 'phone number', 'mobile', 'gsm', 'telephone'],
+  department: ['department', 'dept', 'programme'],
+  level: ['level', 'class'],
+  status: ['status'],
+};
+
+// The same columns the import understands, so an export can be edited and imported back
+const EXPORT_HEADERS = [
+  'Matric No', 'First Name', 'Last Name', 'Email', 'Phone', 'Department', 'Level', 'CGPA', 'Status', 'Joined'
+];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Accept "ND1", "nd 1" and "HND-2" as well as the canonical "ND 1"
+const normalizeLevel = (value: string) => {
+  const compact = value.replace(/[\s-]+/g, '').toUpperCase();
+  return STUDENT_LEVELS.find(level => level.replace(/\s+/g, '') === compact) ?? null;
+};
+
+export class StudentImportService {
+  // Check required fields, emails, phone numbers and levels, and flag duplicate matric numbers and emails
+  static async validateSheet(sheet: SpreadsheetData, mapping: StudentImportMapping): Promise<StudentImportValidation> {
+    try {
+      const cell = (row: string[], column: number) => (column >= 0 ? (row[column] ?? '').trim() : '');
+
+      const rows: StudentImportRow[] = sheet.rows.map((row, index) => {
+        const errors: string[] = [];
+        const rawLevel = cell(row, mapping.level);
+        const rawPhone = cell(row, mapping.phone);
+
+        const student: TablesInsert<'students'> = {
+          student_id: cell(row, mapping.studentId).toUpperCase(),
+          first_name: cell(row, mapping.firstName),
+          last_name: cell(row, mapping.lastName),
+          email: cell(row, mapping.email).toLowerCase(),
+          phone: rawPhone,
+          department: cell(row, mapping.department),
+          level: rawLevel,
+        };
+
+        const status = cell(row, mapping.status);
+        if (status) student.status = status;
+
+        if (!student.student_id) errors.push('Matric number is missing');
+        if (!student.first_name) errors.push('First name is missing');
+        if (!student.last_name) errors.push('Last name is missing');
+        if (!student.department) errors.push('Department is missing');
+
+        if (!student.email) {
+          errors.push('Email is missing');
+        } else if (!EMAIL_PATTERN.test(student.email)) {
+          errors.push(`${student.email} is not a valid email address`);
+        }
+
+        if (!rawPhone) {
+          errors.push('Phone number is missing');
+        } else {
+          const formatted = SMSService.formatPhoneNumber(rawPhone);
+          if (formatted) {
+            student.phone = formatted;
+          } else {
+            errors.push(`${rawPhone} is not a valid Nigerian mobile number`);
+          }
+        }
+
+        if (!rawLevel) {
+          errors.push('Level is missing');
+        } else {
+          const level = normalizeLevel(rawLevel);
+          if (level) {
+            student.level = level;
+          } else {
+            errors.push(`Level must be one of ${STUDENT_LEVELS.join(', ')}`);
+          }
+        }
+
+        return { rowNumber: index + 2, student, errors }; // 1-based, after the header row
+      });
+
+      await this.flagDuplicates(rows);
+
+      return {
+        valid: rows.filter(row => row.errors.length === 0),
+        invalid: rows.filter(row => row.errors.length > 0),
+      };
+    } catch (error) {
+      console.error('Unexpected error validating student sheet:', error);
+      throw error;
+    }
+  }
+
+  // Insert the valid rows in a single statement, so either all of them are saved or none are
+  static async importRows(rows: StudentImportRow[], options: StudentImportOptions = {}): Promise<number> {
+    const { dryRun = false } = options;
+
+    try {
+      requirePermission(PERMISSIONS.MANAGE_STUDENTS);
+
+      if (dryRun || rows.length === 0) {
+        return rows.length;
+      }
+
+      const { data, error } = await supabase
+        .from('students')
+        .insert(rows.map(row => row.student))
+        .select('id');
+
+      if (error) {
+        console.error('Error importing students:', error);
+        throw error;
+      }
+
+      return data?.length ?? 0;
+    } catch (error) {
+      console.error('Unexpected error importing students:', error);
+      throw error;
+    }
+  }
+
+  // Rows for the downloadable error report: the sheet's values plus what was wrong
+  static errorReport(rows: StudentImportRow[]) {
+    return {
+      headers: ['Row', 'Matric No', 'First Name', 'Last Name', 'Email', 'Phone', 'Department', 'Level', 'Errors'],
+      rows: rows.map(({ rowNumber, student, errors }) => [
+        rowNumber,
+        student.student_id,
+        student.first_name,
+        student.last_name,
+        student.email,
+        student.phone,
+        student.department,
+        student.level,
+        errors.join('; '),
+      ]),
+    };
+  }
+
+  // Headers and rows for exporting a list of students
+  static exportRows(students: Tables<'students'>[]) {
+    return {
+      headers: EXPORT_HEADERS,
+      rows: students.map(student => [
+        student.student_id,
+        student.first_name,
+        student.last_name,
+        student.email,
+        student.phone,
+        student.department,
+        student.level,
+        student.cgpa,
+        student.status,
+        student.created_at.slice(0, 10),
+      ]),
+    };
+  }
+
+  // Flag repeats within the sheet and clashes with existing students with one database call
+  private static async flagDuplicates(rows: StudentImportRow[]) {
+    const firstRowByStudentId = new Map<string, number>();
+    const firstRowByEmail = new Map<string, number>();
+
+    rows.forEach(({ rowNumber, student, errors }) => {
+      if (student.student_id) {
+        const first = firstRowByStudentId.get(student.student_id);
+        if (first) errors.push(`Matric number ${student.student_id} repeats row ${first}`);
+        else firstRowByStudentId.set(student.student_id, rowNumber);
+      }
+      if (student.email) {
+        const first = firstRowByEmail.get(student.email);
+        if (first) errors.push(`Email ${student.email} repeats row ${first}`);
+        else firstRowByEmail.set(student.email, rowNumber);
+      }
+    });
+
+    if (firstRowByStudentId.size === 0 && firstRowByEmail.size === 0) return;
+
+    const { data, error } = await supabase.rpc('find_student_conflicts', {
+      p_student_ids: Array.from(firstRowByStudentId.keys()),
+      p_emails: Array.from(firstRowByEmail.keys()),
+    });
+
+    if (error) {
+      console.error('Error checking for existing students:', error);
+      throw error;
+    }
+
+    const takenIds = new Set((data || []).map(s => s.student_id.toUpperCase()));
+    const takenEmails = new Set((data || []).map(s => s.email.toLowerCase()));
+
+    rows.forEach(({ student, errors }) => {
+      if (takenIds.has(student.student_id)) errors.push(`Matric number ${student.student_id} is already registered`);
+      if (takenEmails.has(student.email)) errors.push(`Email ${student.email} is already registered`);
+    });
+  }
+}
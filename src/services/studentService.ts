@@ -1,10 +1,18 @@
 import { supabase } from '@/integrations/supabase/client';
 import { TablesInsert, TablesUpdate, Tables } from '@/integrations/supabase/types';
+import { PERMISSIONS, requirePermission } from '@/lib/permissions';
+import { GpaPolicy, summarizeResults } from '@/lib/gpa';
+
+export interface StudentResultWithCourse extends Tables<'results'> {
+  course: Pick<Tables<'courses'>, 'course_code' | 'course_title' | 'credit_units' | 'department' | 'level'>;
+}
 
 export class StudentService {
   // Create a new student
   static async createStudent(studentData: TablesInsert<'students'>) {
     try {
+      requirePermission(PERMISSIONS.MANAGE_STUDENTS);
+
       const { data, error } = await supabase
         .from('students')
         .insert([studentData])
@@ -91,9 +99,88 @@ export class StudentService {
     }
   }
 
+  // Get the student record linked to a portal (Supabase Auth) account
+  static async getStudentByAuthUserId(authUserId: string): Promise<Tables<'students'> | null> {
+    try {
+      const { data, error } = await supabase
+        .from('students')
+        .select('*')
+        .eq('auth_user_id', authUserId)
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          return null; // Student not found
+        }
+        console.error('Error fetching student by auth user:', error);
+        throw error;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Unexpected error fetching student by auth user:', error);
+      throw error;
+    }
+  }
+
+  // Get published results for a student, joined with their courses
+  static async getPublishedResults(studentId: string): Promise<StudentResultWithCourse[]> {
+    try {
+      const { data, error } = await supabase
+        .from('results')
+        .select(`
+          *,
+          course:courses!results_course_id_fkey(
+            course_code,
+            course_title,
+            credit_units,
+            department,
+            level
+          )
+        `)
+        .eq('student_id', studentId)
+        .eq('status', 'published')
+        .order('academic_year', { ascending: true })
+        .order('semester', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching student results:', error);
+        throw error;
+      }
+
+      return (data || []).filter(result => result.course) as StudentResultWithCourse[];
+    } catch (error) {
+      console.error('Unexpected error fetching student results:', error);
+      throw error;
+    }
+  }
+
+  // Get notifications sent to a student
+  static async getStudentNotifications(studentId: string): Promise<Tables<'notifications'>[]> {
+    try {
+      const { data, error } = await supabase
+        .from('notifications')
+        .select('*')
+        .eq('student_id', studentId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching student notifications:', error);
+        throw error;
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Unexpected error fetching student notifications:', error);
+      throw error;
+    }
+  }
+
   // Update student
   static async updateStudent(id: string, updates: TablesUpdate<'students'>) {
     try {
+      requirePermission(PERMISSIONS.MANAGE_STUDENTS);
+
       const { data, error } = await supabase
         .from('students')
         .update(updates)
@@ -116,6 +203,8 @@ export class StudentService {
   // Delete student
   static async deleteStudent(id: string) {
     try {
+      requirePermission(PERMISSIONS.MANAGE_STUDENTS);
+
       const { error } = await supabase
         .from('students')
         .delete()
@@ -238,14 +327,14 @@ export class StudentService {
     }
   }
 
-  // Update student CGPA (calculate from results)
-  static async updateStudentCGPA(studentId: string) {
+  // Recalculate and store a student's CGPA from their published results
+  static async updateStudentCGPA(studentId: string, policy?: Partial<GpaPolicy>) {
     try {
-      // Get all results for the student
       const { data: results, error: resultsError } = await supabase
         .from('results')
-        .select('score')
-        .eq('student_id', studentId);
+        .select('course_id, academic_year, semester, grade_point, total_score, course:courses!results_course_id_fkey(course_code, credit_units)')
+        .eq('student_id', studentId)
+        .eq('status', 'published');
 
       if (resultsError) {
         console.error('Error fetching results for CGPA calculation:', resultsError);
@@ -256,14 +345,12 @@ export class StudentService {
         return null; // No results to calculate CGPA
       }
 
-      // Calculate CGPA (simple average for now)
-      const totalScore = results.reduce((sum, result) => sum + result.score, 0);
-      const cgpa = totalScore / results.length / 20; // Assuming 100 is max score, converting to 5.0 scale
+      const { cgpa } = summarizeResults(results, policy);
 
       // Update student record
       const { data, error } = await supabase
         .from('students')
-        .update({ cgpa: parseFloat(cgpa.toFixed(2)) })
+        .update({ cgpa })
         .eq('id', studentId)
         .select()
         .single();
@@ -0,0 +1,124 @@
+import { supabase } from '@/integrations/supabase/client';
+import { GradingScale } from '@/lib/grading';
+import { chunk } from '@/lib/utils';
+import { buildTranscript, Transcript, TranscriptResult, TranscriptStudent } from '@/lib/transcript';
+import { GradingScaleService } from '@/services/gradingScaleService';
+
+export interface TranscriptOptions {
+  // Official transcripts only carry published results
+  publishedOnly?: boolean;
+}
+
+// Keep `in` filters short enough for the request URL and pages within the API row limit
+const STUDENT_CHUNK_SIZE = 50;
+const RESULT_PAGE_SIZE = 1000;
+
+const TRANSCRIPT_RESULT_COLUMNS = `
+  student_id,
+  course_id,
+  academic_year,
+  semester,
+  ca_score,
+  exam_score,
+  total_score,
+  grade,
+  grade_point,
+  status,
+  course:courses!results_course_id_fkey(course_code, course_title, credit_units)
+`;
+
+type TranscriptResultRow = TranscriptResult & { student_id: string; status: string };
+
+export class TranscriptService {
+  // Build transcripts for one or more students, in the order the ids were given
+  static async getTranscripts(studentIds: string[], options: TranscriptOptions = {}): Promise<Transcript[]> {
+    const { publishedOnly = true } = options;
+
+    try {
+      const students: TranscriptStudent[] = [];
+      const results: TranscriptResultRow[] = [];
+
+      for (const ids of chunk(studentIds, STUDENT_CHUNK_SIZE)) {
+        const { data: studentRows, error: studentsError } = await supabase
+          .from('students')
+          .select('id, student_id, first_name, last_name, department, level')
+          .in('id', ids);
+
+        if (studentsError) {
+          console.error('Error fetching transcript students:', studentsError);
+          throw studentsError;
+        }
+
+        students.push(...(studentRows || []));
+        results.push(...await this.getResults(ids, publishedOnly));
+      }
+
+      const scales = await this.getScales(students);
+      const studentsById = new Map(students.map(student => [student.id, student]));
+
+      return studentIds
+        .filter(id => studentsById.has(id))
+        .map(id => {
+          const student = studentsById.get(id)!;
+          return buildTranscript(
+            student,
+            results.filter(result => result.student_id === id),
+            scales.get(`${student.department}|${student.level}`) ?? null
+          );
+        });
+    } catch (error) {
+      console.error('Unexpected error building transcripts:', error);
+      throw error;
+    }
+  }
+
+  // Build a single student's transcript
+  static async getTranscript(studentId: string, options: TranscriptOptions = {}): Promise<Transcript | null> {
+    const [transcript] = await this.getTranscripts([studentId], options);
+    return transcript ?? null;
+  }
+
+  private static async getResults(studentIds: string[], publishedOnly: boolean): Promise<TranscriptResultRow[]> {
+    const rows: TranscriptResultRow[] = [];
+
+    for (let from = 0; ; from += RESULT_PAGE_SIZE) {
+      let query = supabase
+        .from('results')
+        .select(TRANSCRIPT_RESULT_COLUMNS)
+        .in('student_id', studentIds)
+        .order('id', { ascending: true })
+        .range(from, from + RESULT_PAGE_SIZE - 1);
+
+      if (publishedOnly) {
+        query = query.eq('status', 'published');
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        console.error('Error fetching transcript results:', error);
+        throw error;
+      }
+
+      rows.push(...((data || []) as TranscriptResultRow[]).filter(row => row.course));
+
+      if (!data || data.length < RESULT_PAGE_SIZE) break;
+    }
+
+    return rows;
+  }
+
+  // One scale lookup per department and level rather than per student
+  private static async getScales(students: TranscriptStudent[]): Promise<Map<string, GradingScale | null>> {
+    const scales = new Map<string, GradingScale | null>();
+
+    for (const student of students) {
+      const key = `${student.department}|${student.level}`;
+      if (!scales.has(key)) {
+        scales.set(key, await GradingScaleService.getScaleFor(student.department, student.level, null).catch(() => null));
+      }
+    }
+
+    return scales;
+  }
+}
@@ -0,0 +1,119 @@
+import { create, getNumericDate, verify } from "https://deno.land/x/djwt@v3.0.2/mod.ts";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Admin sessions last 24 hours, matching the old client-side expiry
+export const ADMIN_SESSION_TTL_SECONDS = 24 * 60 * 60;
+
+export type AdminRole = 'admin' | 'super_admin' | 'registrar' | 'hod' | 'exam_officer' | 'lecturer';
+
+export interface AdminTokenClaims {
+  sub: string;
+  email: string;
+  admin_role: AdminRole;
+  exp: number;
+}
+
+// Tokens are signed with the project's JWT secret so PostgREST accepts them and
+// RLS policies can read `auth.uid()` and the `admin_role` claim.
+let signingKey: CryptoKey | null = null;
+
+const getSigningKey = async (): Promise<CryptoKey> => {
+  if (signingKey) return signingKey;
+
+  const secret = Deno.env.get('ADMIN_JWT_SECRET');
+  if (!secret) {
+    throw new Error('ADMIN_JWT_SECRET is not configured');
+  }
+
+  signingKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+  return signingKey;
+};
+
+export const signAdminToken = async (admin: { id: string; email: string; role: string }) => {
+  const exp = getNumericDate(ADMIN_SESSION_TTL_SECONDS);
+  const token = await create(
+    { alg: 'HS256', typ: 'JWT' },
+    {
+      iss: 'edunotify-admin',
+      aud: 'authenticated',
+      role: 'authenticated',
+      sub: admin.id,
+      email: admin.email,
+      admin_role: admin.role,
+      iat: getNumericDate(0),
+      exp,
+    },
+    await getSigningKey()
+  );
+
+  return { token, expiresAt: new Date(exp * 1000).toISOString() };
+};
+
+export const verifyAdminToken = async (token: string): Promise<AdminTokenClaims | null> => {
+  try {
+    const payload = await verify(token, await getSigningKey());
+    if (payload.iss !== 'edunotify-admin' || typeof payload.sub !== 'string') {
+      return null;
+    }
+    return payload as unknown as AdminTokenClaims;
+  } catch (_error) {
+    return null;
+  }
+};
+
+// Resolve the admin behind a request; anon and student tokens resolve to null
+export const getAdminFromRequest = async (req: Request): Promise<AdminTokenClaims | null> => {
+  const header = req.headers.get('Authorization');
+  if (!header) return null;
+  return verifyAdminToken(header.replace(/^Bearer\s+/i, ''));
+};
+
+// Look up the admin's current role in the `role_permissions` matrix with a service role client.
+// Uses the live account, so deactivated admins and role changes apply before the token expires.
+export const adminHasPermission = async (
+  supabase: SupabaseClient,
+  admin: AdminTokenClaims,
+  permission: string
+): Promise<boolean> => {
+  const { data: account, error: accountError } = await supabase
+    .from('admin_users')
+    .select('role, is_active')
+    .eq('id', admin.sub)
+    .maybeSingle();
+
+  if (accountError || !account?.is_active) {
+    if (accountError) console.error('Error loading admin account:', accountError);
+    return false;
+  }
+
+  const { data, error } = await supabase
+    .from('role_permissions')
+    .select('permission')
+    .eq('role', account.role)
+    .eq('permission', permission)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error checking admin permission:', error);
+    return false;
+  }
+
+  return data !== null;
+};
+
+export const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...corsHeaders },
+  });
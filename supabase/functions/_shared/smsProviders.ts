@@ -0,0 +1,293 @@
+// SMS providers for the edge functions.
+// Mirrors src/lib/smsProviders.js, which the app and the Express SMS servers use; keep both in sync.
+
+export type SmsProviderName = 'sendchamp' | 'twilio' | 'termii' | 'stub';
+
+export const SMS_PROVIDERS: SmsProviderName[] = ['sendchamp', 'twilio', 'termii', 'stub'];
+
+export const DEFAULT_SMS_PROVIDER: SmsProviderName = 'sendchamp';
+export const DEFAULT_SENDER_NAME = 'MAPOLY';
+
+const SENDCHAMP_BASE_URL = 'https://api.sendchamp.com/api/v1';
+const TWILIO_BASE_URL = 'https://api.twilio.com/2010-04-01';
+const TERMII_BASE_URL = 'https://api.ng.termii.com';
+
+// Our delivery statuses, in the order a message moves through them; the last three are final
+export type DeliveryStatus = 'queued' | 'sent' | 'delivered' | 'undelivered' | 'failed';
+
+export const DELIVERY_STATUSES: DeliveryStatus[] = ['queued', 'sent', 'delivered', 'undelivered', 'failed'];
+
+// Provider status names (lower-cased) for each of our delivery statuses
+const DELIVERY_STATUS_MAP: Record<SmsProviderName, Partial<Record<DeliveryStatus, string[]>>> = {
+  sendchamp: {
+    queued: ['queued', 'pending', 'processing', 'accepted'],
+    sent: ['sent', 'submitted', 'dispatched'],
+    delivered: ['delivered'],
+    undelivered: ['undelivered', 'expired', 'rejected'],
+    failed: ['failed', 'error'],
+  },
+  twilio: {
+    queued: ['accepted', 'scheduled', 'queued', 'sending'],
+    sent: ['sent'],
+    delivered: ['delivered', 'read'],
+    undelivered: ['undelivered'],
+    failed: ['failed', 'canceled'],
+  },
+  termii: {
+    queued: ['received', 'pending', 'queued'],
+    sent: ['message sent', 'sent'],
+    delivered: ['delivered'],
+    undelivered: ['rejected', 'expired', 'dnd active on phone number', 'undelivered'],
+    failed: ['message failed', 'failed'],
+  },
+  stub: {
+    sent: ['sent'],
+    delivered: ['delivered'],
+  },
+};
+
+// Our delivery status for a provider's status, or null when the status is not one we know
+export const mapDeliveryStatus = (provider: string, providerStatus: string | null | undefined): DeliveryStatus | null => {
+  const statuses = DELIVERY_STATUS_MAP[provider as SmsProviderName];
+  if (!statuses || !providerStatus) return null;
+
+  const normalized = String(providerStatus).trim().toLowerCase();
+  return DELIVERY_STATUSES.find(status => statuses[status]?.includes(normalized)) || null;
+};
+
+export interface SmsConfig {
+  provider: string;
+  senderName: string;
+  sendchamp: { apiKey?: string; route: string };
+  twilio: { accountSid?: string; authToken?: string; from?: string; statusCallback?: string };
+  termii: { apiKey?: string; channel: string; baseUrl: string };
+}
+
+export type SmsSendResult =
+  | { success: true; provider: SmsProviderName; sid?: string; status: string }
+  | { success: false; provider: SmsProviderName; error: string };
+
+export interface SmsProvider {
+  name: SmsProviderName;
+  configured: boolean;
+  // Never throws; failures come back with `success: false`
+  send(to: string, message: string): Promise<SmsSendResult>;
+}
+
+export interface StubSmsEntry {
+  sid: string;
+  to: string;
+  message: string;
+  sentAt: string;
+}
+
+// Nigerian mobile numbers in international form without the plus: 234 followed by ten digits
+export const formatNigerianPhone = (phone: string | null | undefined): string | null => {
+  if (!phone) return null;
+
+  const cleaned = String(phone).replace(/\D/g, '');
+
+  let international = cleaned;
+  if (cleaned.startsWith('0')) {
+    international = '234' + cleaned.substring(1);
+  } else if (!cleaned.startsWith('234')) {
+    international = '234' + cleaned;
+  }
+
+  if (international.length === 13 && ['7', '8', '9'].includes(international.charAt(3))) {
+    return international;
+  }
+
+  return null;
+};
+
+export const smsConfigFromEnv = (getEnv: (name: string) => string | undefined): SmsConfig => {
+  const read = (name: string) => getEnv(name) || undefined;
+
+  return {
+    provider: (read('SMS_PROVIDER') || DEFAULT_SMS_PROVIDER).trim().toLowerCase(),
+    senderName: read('SMS_SENDER_NAME') || DEFAULT_SENDER_NAME,
+    sendchamp: {
+      apiKey: read('SENDCHAMP_API_KEY'),
+      route: read('SENDCHAMP_ROUTE') || 'dnd',
+    },
+    twilio: {
+      accountSid: read('TWILIO_ACCOUNT_SID'),
+      authToken: read('TWILIO_AUTH_TOKEN'),
+      from: read('TWILIO_PHONE_NUMBER'),
+      statusCallback: read('TWILIO_STATUS_CALLBACK_URL'),
+    },
+    termii: {
+      apiKey: read('TERMII_API_KEY'),
+      channel: read('TERMII_CHANNEL') || 'dnd',
+      baseUrl: read('TERMII_BASE_URL') || TERMII_BASE_URL,
+    },
+  };
+};
+
+const failure = (provider: SmsProviderName, error: unknown): SmsSendResult => ({
+  success: false,
+  provider,
+  error: error instanceof Error ? error.message : String(error),
+});
+
+// The response fields the adapters read, across all providers
+interface ProviderResponseBody {
+  id?: string;
+  sid?: string;
+  status?: string;
+  message?: string;
+  message_id?: string;
+  data?: { id?: string; business_uid?: string; status?: string };
+}
+
+// Body of a provider response, which is not always JSON when something goes wrong
+const readBody = async (response: Response): Promise<ProviderResponseBody> => {
+  const text = await response.text();
+  try {
+    return text ? JSON.parse(text) : {};
+  } catch {
+    return { message: text };
+  }
+};
+
+const createSendChampProvider = (
+  { apiKey, route }: SmsConfig['sendchamp'],
+  senderName: string,
+  fetchImpl: typeof fetch
+): SmsProvider => ({
+  name: 'sendchamp',
+  configured: !!apiKey,
+  async send(to, message) {
+    try {
+      if (!apiKey) throw new Error('SendChamp API key not configured');
+
+      const response = await fetchImpl(`${SENDCHAMP_BASE_URL}/sms/send`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+          'Accept': 'application/json',
+        },
+        body: JSON.stringify({ to: [to], message, sender_name: senderName, route }),
+      });
+      const body = await readBody(response);
+
+      if (!response.ok) {
+        throw new Error(body.message || `HTTP ${response.status}`);
+      }
+
+      return {
+        success: true,
+        provider: 'sendchamp',
+        sid: body.data?.id || body.data?.business_uid || body.id,
+        status: body.data?.status || 'sent',
+      };
+    } catch (error) {
+      return failure('sendchamp', error);
+    }
+  },
+});
+
+const createTwilioProvider = (
+  { accountSid, authToken, from, statusCallback }: SmsConfig['twilio'],
+  fetchImpl: typeof fetch
+): SmsProvider => ({
+  name: 'twilio',
+  configured: !!(accountSid && authToken && from),
+  async send(to, message) {
+    try {
+      if (!accountSid || !authToken || !from) throw new Error('Twilio credentials not configured');
+
+      const response = await fetchImpl(`${TWILIO_BASE_URL}/Accounts/${accountSid}/Messages.json`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Basic ${btoa(`${accountSid}:${authToken}`)}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        // Twilio wants E.164 numbers with the plus; delivery reports go to the status callback
+        body: new URLSearchParams({
+          From: from,
+          To: to.startsWith('+') ? to : `+${to}`,
+          Body: message,
+          ...(statusCallback ? { StatusCallback: statusCallback } : {}),
+        }).toString(),
+      });
+      const body = await readBody(response);
+
+      if (!response.ok) {
+        throw new Error(body.message || `HTTP ${response.status}`);
+      }
+
+      return { success: true, provider: 'twilio', sid: body.sid, status: body.status || 'queued' };
+    } catch (error) {
+      return failure('twilio', error);
+    }
+  },
+});
+
+const createTermiiProvider = (
+  { apiKey, channel, baseUrl }: SmsConfig['termii'],
+  senderName: string,
+  fetchImpl: typeof fetch
+): SmsProvider => ({
+  name: 'termii',
+  configured: !!apiKey,
+  async send(to, message) {
+    try {
+      if (!apiKey) throw new Error('Termii API key not configured');
+
+      const response = await fetchImpl(`${baseUrl}/api/sms/send`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' },
+        body: JSON.stringify({ api_key: apiKey, to, from: senderName, sms: message, type: 'plain', channel }),
+      });
+      const body = await readBody(response);
+
+      if (!response.ok || !body.message_id) {
+        throw new Error(body.message || `HTTP ${response.status}`);
+      }
+
+      return { success: true, provider: 'termii', sid: body.message_id, status: 'sent' };
+    } catch (error) {
+      return failure('termii', error);
+    }
+  },
+});
+
+// Sends nothing: each message goes to `log` (the console by default) and is kept in `outbox`
+const createStubProvider = (log: (entry: StubSmsEntry) => void | Promise<void>) => {
+  const outbox: StubSmsEntry[] = [];
+  const provider: SmsProvider & { outbox: StubSmsEntry[] } = {
+    name: 'stub',
+    configured: true,
+    outbox,
+    async send(to, message) {
+      const entry = { sid: `stub-${Date.now()}-${outbox.length + 1}`, to, message, sentAt: new Date().toISOString() };
+      outbox.push(entry);
+      await log(entry);
+      return { success: true, provider: 'stub', sid: entry.sid, status: 'sent' };
+    },
+  };
+  return provider;
+};
+
+export const createSmsProvider = (
+  config: SmsConfig,
+  options: { fetch?: typeof fetch; log?: (entry: StubSmsEntry) => void | Promise<void> } = {}
+): SmsProvider => {
+  const fetchImpl = options.fetch || ((input: RequestInfo | URL, init?: RequestInit) => fetch(input, init));
+
+  switch (config.provider) {
+    case 'sendchamp':
+      return createSendChampProvider(config.sendchamp, config.senderName, fetchImpl);
+    case 'twilio':
+      return createTwilioProvider(config.twilio, fetchImpl);
+    case 'termii':
+      return createTermiiProvider(config.termii, config.senderName, fetchImpl);
+    case 'stub':
+      return createStubProvider(options.log || ((entry) => console.info('[sms stub]', entry.to, entry.message)));
+    default:
+      throw new Error(`Unknown SMS provider "${config.provider}". Use one of: ${SMS_PROVIDERS.join(', ')}`);
+  }
+};
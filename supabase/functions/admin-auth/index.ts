@@ -0,0 +1,194 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import bcrypt from "npm:bcryptjs@3.0.2";
+import { corsHeaders, getAdminFromRequest, jsonResponse, signAdminToken } from "../_shared/adminSession.ts";
+
+interface AdminAuthRequest {
+  action: 'login' | 'session' | 'change_password';
+  email?: string;
+  password?: string;
+  newPassword?: string;
+}
+
+interface AdminUser {
+  id: string;
+  email: string;
+  full_name: string;
+  role: string;
+  is_active: boolean;
+  last_login: string | null;
+  created_at: string;
+  must_reset_password: boolean;
+  password_hash: string;
+}
+
+const MIN_PASSWORD_LENGTH = 8;
+
+// Service role client: admin_users is no longer readable with the anon key
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+);
+
+const toPublicAdmin = ({ password_hash: _hash, ...admin }: AdminUser) => admin;
+
+const handleLogin = async (email?: string, password?: string): Promise<Response> => {
+  if (!email || !password) {
+    return jsonResponse({ success: false, error: 'Email and password are required' }, 400);
+  }
+
+  const { data: admin, error } = await supabase
+    .from('admin_users')
+    .select('*')
+    .eq('email', email.toLowerCase().trim())
+    .maybeSingle<AdminUser>();
+
+  if (error) {
+    console.error('Database error during admin login:', error);
+    return jsonResponse({ success: false, error: 'Login is temporarily unavailable' }, 500);
+  }
+
+  // Compare against a dummy hash when the account is missing so timing doesn't reveal valid emails
+  const hash = admin?.password_hash ?? '$2b$10$invalidinvalidinvalidinvalidinvalidinvalidinvalidinva';
+  const isPasswordValid = await bcrypt.compare(password, hash).catch(() => false);
+
+  if (!admin || !isPasswordValid) {
+    return jsonResponse({ success: false, error: 'Invalid credentials' }, 401);
+  }
+
+  if (!admin.is_active) {
+    return jsonResponse({ success: false, error: 'Account is inactive. Please contact administrator.' }, 403);
+  }
+
+  const lastLogin = new Date().toISOString();
+  const { error: updateError } = await supabase
+    .from('admin_users')
+    .update({ last_login: lastLogin })
+    .eq('id', admin.id);
+
+  if (updateError) {
+    console.error('Error updating last login:', updateError);
+  }
+
+  const { token, expiresAt } = await signAdminToken(admin);
+
+  return jsonResponse({
+    success: true,
+    token,
+    expiresAt,
+    admin: { ...toPublicAdmin(admin), last_login: lastLogin },
+  });
+};
+
+// Re-check a stored token: the signature, the expiry and that the account is still active
+const handleSession = async (req: Request): Promise<Response> => {
+  const claims = await getAdminFromRequest(req);
+  if (!claims) {
+    return jsonResponse({ success: false, error: 'Session expired' }, 401);
+  }
+
+  const { data: admin, error } = await supabase
+    .from('admin_users')
+    .select('*')
+    .eq('id', claims.sub)
+    .maybeSingle<AdminUser>();
+
+  if (error || !admin || !admin.is_active) {
+    return jsonResponse({ success: false, error: 'Session is no longer valid' }, 401);
+  }
+
+  return jsonResponse({
+    success: true,
+    expiresAt: new Date(claims.exp * 1000).toISOString(),
+    admin: toPublicAdmin(admin),
+  });
+};
+
+// Let a signed-in admin replace their password, e.g. the temporary one from a forced reset
+const handleChangePassword = async (req: Request, password?: string, newPassword?: string): Promise<Response> => {
+  const claims = await getAdminFromRequest(req);
+  if (!claims) {
+    return jsonResponse({ success: false, error: 'Session expired' }, 401);
+  }
+
+  if (!password || !newPassword) {
+    return jsonResponse({ success: false, error: 'Current and new password are required' }, 400);
+  }
+
+  if (newPassword.length < MIN_PASSWORD_LENGTH) {
+    return jsonResponse({ success: false, error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters long` }, 400);
+  }
+
+  const { data: admin, error } = await supabase
+    .from('admin_users')
+    .select('*')
+    .eq('id', claims.sub)
+    .maybeSingle<AdminUser>();
+
+  if (error || !admin || !admin.is_active) {
+    return jsonResponse({ success: false, error: 'Session is no longer valid' }, 401);
+  }
+
+  if (!(await bcrypt.compare(password, admin.password_hash).catch(() => false))) {
+    return jsonResponse({ success: false, error: 'Current password is incorrect' }, 400);
+  }
+
+  if (password === newPassword) {
+    return jsonResponse({ success: false, error: 'New password must be different from the current one' }, 400);
+  }
+
+  const { error: updateError } = await supabase
+    .from('admin_users')
+    .update({
+      password_hash: await bcrypt.hash(newPassword, 10),
+      must_reset_password: false,
+    })
+    .eq('id', admin.id);
+
+  if (updateError) throw updateError;
+
+  const { error: auditError } = await supabase.from('admin_audit_log').insert({
+    actor_id: admin.id,
+    target_admin_id: admin.id,
+    action: 'password_changed',
+  });
+
+  if (auditError) {
+    console.error('Error writing admin audit log:', auditError);
+  }
+
+  return jsonResponse({
+    success: true,
+    expiresAt: new Date(claims.exp * 1000).toISOString(),
+    admin: { ...toPublicAdmin(admin), must_reset_password: false },
+  });
+};
+
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { action, email, password, newPassword }: AdminAuthRequest = await req.json();
+
+    switch (action) {
+      case 'login':
+        return await handleLogin(email, password);
+      case 'session':
+        return await handleSession(req);
+      case 'change_password':
+        return await handleChangePassword(req, password, newPassword);
+      default:
+        return jsonResponse({ success: false, error: `Unknown action: ${action}` }, 400);
+    }
+  } catch (error) {
+    console.error('Error in admin-auth function:', error);
+    return jsonResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+};
+
+serve(handler);
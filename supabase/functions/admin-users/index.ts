@@ -0,0 +1,228 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import bcrypt from "npm:bcryptjs@3.0.2";
+import {
+  adminHasPermission,
+  AdminRole,
+  AdminTokenClaims,
+  corsHeaders,
+  getAdminFromRequest,
+  jsonResponse,
+} from "../_shared/adminSession.ts";
+
+interface AdminUsersRequest {
+  action: 'create' | 'update' | 'reset_password';
+  adminId?: string;
+  email?: string;
+  full_name?: string;
+  role?: AdminRole;
+  is_active?: boolean;
+}
+
+interface AdminRecord {
+  id: string;
+  email: string;
+  full_name: string;
+  role: AdminRole;
+  is_active: boolean;
+}
+
+const ADMIN_ROLES: AdminRole[] = ['admin', 'super_admin', 'registrar', 'hod', 'exam_officer', 'lecturer'];
+const PUBLIC_COLUMNS = 'id, email, full_name, role, is_active, last_login, created_at, must_reset_password';
+const TEMP_PASSWORD_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnpqrstuvwxyz23456789';
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+);
+
+const generateTemporaryPassword = (length = 12) => {
+  const bytes = crypto.getRandomValues(new Uint8Array(length));
+  return Array.from(bytes, (byte) => TEMP_PASSWORD_ALPHABET[byte % TEMP_PASSWORD_ALPHABET.length]).join('');
+};
+
+const recordAudit = async (
+  actor: AdminTokenClaims,
+  targetAdminId: string,
+  action: string,
+  details: Record<string, unknown> = {}
+) => {
+  const { error } = await supabase.from('admin_audit_log').insert({
+    actor_id: actor.sub,
+    target_admin_id: targetAdminId,
+    action,
+    details,
+  });
+
+  if (error) {
+    console.error('Error writing admin audit log:', error);
+  }
+};
+
+const getAdmin = async (adminId: string) => {
+  const { data, error } = await supabase
+    .from('admin_users')
+    .select('id, email, full_name, role, is_active')
+    .eq('id', adminId)
+    .maybeSingle<AdminRecord>();
+
+  if (error) throw error;
+  return data;
+};
+
+const handleCreate = async (actor: AdminTokenClaims, body: AdminUsersRequest): Promise<Response> => {
+  const email = body.email?.toLowerCase().trim();
+  const fullName = body.full_name?.trim();
+
+  if (!email || !fullName || !body.role) {
+    return jsonResponse({ success: false, error: 'Email, full name and role are required' }, 400);
+  }
+
+  if (!ADMIN_ROLES.includes(body.role)) {
+    return jsonResponse({ success: false, error: `Invalid role: ${body.role}` }, 400);
+  }
+
+  const temporaryPassword = generateTemporaryPassword();
+  const { data: admin, error } = await supabase
+    .from('admin_users')
+    .insert({
+      email,
+      full_name: fullName,
+      role: body.role,
+      is_active: true,
+      must_reset_password: true,
+      password_hash: await bcrypt.hash(temporaryPassword, 10),
+    })
+    .select(PUBLIC_COLUMNS)
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      return jsonResponse({ success: false, error: 'An admin with this email already exists' }, 409);
+    }
+    throw error;
+  }
+
+  await recordAudit(actor, admin.id, 'created', { email, full_name: fullName, role: body.role });
+
+  return jsonResponse({ success: true, admin, temporaryPassword });
+};
+
+const handleUpdate = async (actor: AdminTokenClaims, body: AdminUsersRequest): Promise<Response> => {
+  if (!body.adminId) {
+    return jsonResponse({ success: false, error: 'adminId is required' }, 400);
+  }
+
+  const existing = await getAdmin(body.adminId);
+  if (!existing) {
+    return jsonResponse({ success: false, error: 'Admin not found' }, 404);
+  }
+
+  const updates: Partial<AdminRecord> = {};
+  if (body.full_name !== undefined && body.full_name.trim() && body.full_name.trim() !== existing.full_name) {
+    updates.full_name = body.full_name.trim();
+  }
+  if (body.role !== undefined && body.role !== existing.role) {
+    if (!ADMIN_ROLES.includes(body.role)) {
+      return jsonResponse({ success: false, error: `Invalid role: ${body.role}` }, 400);
+    }
+    updates.role = body.role;
+  }
+  if (body.is_active !== undefined && body.is_active !== existing.is_active) {
+    updates.is_active = body.is_active;
+  }
+
+  // Stop super admins from locking themselves out
+  if (existing.id === actor.sub && (updates.is_active === false || (updates.role && updates.role !== 'super_admin'))) {
+    return jsonResponse({ success: false, error: 'You cannot deactivate or demote your own account' }, 400);
+  }
+
+  if (Object.keys(updates).length === 0) {
+    return jsonResponse({ success: true, admin: existing });
+  }
+
+  const { data: admin, error } = await supabase
+    .from('admin_users')
+    .update(updates)
+    .eq('id', existing.id)
+    .select(PUBLIC_COLUMNS)
+    .single();
+
+  if (error) throw error;
+
+  if (updates.role) {
+    await recordAudit(actor, existing.id, 'role_changed', { from: existing.role, to: updates.role });
+  }
+  if (updates.is_active !== undefined) {
+    await recordAudit(actor, existing.id, updates.is_active ? 'activated' : 'deactivated');
+  }
+  if (updates.full_name) {
+    await recordAudit(actor, existing.id, 'renamed', { from: existing.full_name, to: updates.full_name });
+  }
+
+  return jsonResponse({ success: true, admin });
+};
+
+const handleResetPassword = async (actor: AdminTokenClaims, body: AdminUsersRequest): Promise<Response> => {
+  if (!body.adminId) {
+    return jsonResponse({ success: false, error: 'adminId is required' }, 400);
+  }
+
+  const existing = await getAdmin(body.adminId);
+  if (!existing) {
+    return jsonResponse({ success: false, error: 'Admin not found' }, 404);
+  }
+
+  const temporaryPassword = generateTemporaryPassword();
+  const { error } = await supabase
+    .from('admin_users')
+    .update({
+      password_hash: await bcrypt.hash(temporaryPassword, 10),
+      must_reset_password: true,
+    })
+    .eq('id', existing.id);
+
+  if (error) throw error;
+
+  await recordAudit(actor, existing.id, 'password_reset');
+
+  return jsonResponse({ success: true, temporaryPassword });
+};
+
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const actor = await getAdminFromRequest(req);
+    if (!actor) {
+      return jsonResponse({ success: false, error: 'Authentication required' }, 401);
+    }
+
+    if (!(await adminHasPermission(supabase, actor, 'admins:manage'))) {
+      return jsonResponse({ success: false, error: 'You do not have permission to manage admin accounts' }, 403);
+    }
+
+    const body: AdminUsersRequest = await req.json();
+
+    switch (body.action) {
+      case 'create':
+        return await handleCreate(actor, body);
+      case 'update':
+        return await handleUpdate(actor, body);
+      case 'reset_password':
+        return await handleResetPassword(actor, body);
+      default:
+        return jsonResponse({ success: false, error: `Unknown action: ${body.action}` }, 400);
+    }
+  } catch (error) {
+    console.error('Error in admin-users function:', error);
+    return jsonResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+};
+
+serve(handler);
@@ -1,14 +1,11 @@
 
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
+import { adminHasPermission, corsHeaders, getAdminFromRequest, jsonResponse } from "../_shared/adminSession.ts";
+import { formatNigerianPhone } from "../_shared/smsProviders.ts";
 
 interface NotificationRequest {
-  type: 'result_published' | 'custom';
+  type?: string;
   studentIds?: string[];
   message?: string;
   title?: string;
@@ -26,39 +23,25 @@ const supabase = createClient(
   Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
 );
 
-async function sendSMS(phoneNumber: string, message: string): Promise<any> {
-  const accountSid = Deno.env.get('TWILIO_ACCOUNT_SID');
-  const authToken = Deno.env.get('TWILIO_AUTH_TOKEN');
-  const twilioPhone = Deno.env.get('TWILIO_PHONE_NUMBER');
-
-  if (!accountSid || !authToken || !twilioPhone) {
-    throw new Error('Twilio credentials not configured');
+// Queues the SMS in sms_records; the SMS worker (server/worker.js) sends it
+async function queueSMS(studentId: string, phone: string, message: string) {
+  const phoneNumber = formatNigerianPhone(phone);
+  if (!phoneNumber) {
+    throw new Error(`Invalid phone number: ${phone}`);
   }
 
-  const url = `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`;
-  
-  const body = new URLSearchParams({
-    From: twilioPhone,
-    To: phoneNumber,
-    Body: message,
-  });
-
-  const response = await fetch(url, {
-    method: 'POST',
-    headers: {
-      'Authorization': `Basic ${btoa(`${accountSid}:${authToken}`)}`,
-      'Content-Type': 'application/x-www-form-urlencoded',
-    },
-    body: body.toString(),
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    console.error('Twilio error:', error);
-    throw new Error(`Failed to send SMS: ${error}`);
-  }
+  const { error } = await supabase
+    .from('sms_records')
+    .insert({
+      student_id: studentId,
+      phone_number: phoneNumber,
+      message,
+      status: 'pending'
+    });
 
-  return await response.json();
+  if (error) {
+    throw new Error(`Failed to queue SMS: ${error.message}`);
+  }
 }
 
 const handler = async (req: Request): Promise<Response> => {
@@ -67,29 +50,26 @@ const handler = async (req: Request): Promise<Response> => {
   }
 
   try {
-    const { type, studentIds, message, title }: NotificationRequest = await req.json();
+    const { type = 'custom', studentIds, message, title }: NotificationRequest = await req.json();
 
-    console.log('Processing notification request:', { type, studentIds: studentIds?.length });
+    // This function uses the service role, so check the caller's role before sending anything
+    const admin = await getAdminFromRequest(req);
+    if (!admin) {
+      return jsonResponse({ success: false, error: 'Authentication required' }, 401);
+    }
 
-    let students: Student[] = [];
-    let notificationTitle = title || 'New Notification';
-    let notificationMessage = message || 'You have a new notification from Moshood Abiola Polytechnic.';
+    if (!(await adminHasPermission(supabase, admin, 'notifications:send'))) {
+      return jsonResponse({ success: false, error: 'You do not have permission to send these notifications' }, 403);
+    }
 
-    if (type === 'result_published') {
-      // Get all students for result publication
-      const { data: allStudents, error: studentsError } = await supabase
-        .from('students')
-        .select('*')
-        .eq('status', 'Active');
+    console.log('Processing notification request:', { type, studentIds: studentIds?.length });
 
-      if (studentsError) {
-        throw new Error(`Failed to fetch students: ${studentsError.message}`);
-      }
+    let students: Student[] = [];
+    const notificationTitle = title || 'New Notification';
+    const notificationMessage = message || 'You have a new notification from Moshood Abiola Polytechnic.';
 
-      students = allStudents || [];
-      notificationTitle = 'New Results Available';
-      notificationMessage = 'Your latest exam results have been published! Log in to EduNotify to view your results.';
-    } else if (studentIds && studentIds.length > 0) {
+    // Only the students named in the request are notified; result SMS are queued by the publish workflow
+    if (studentIds && studentIds.length > 0) {
       // Get specific students
       const { data: specificStudents, error: studentsError } = await supabase
         .from('students')
@@ -103,7 +83,7 @@ const handler = async (req: Request): Promise<Response> => {
       students = specificStudents || [];
     }
 
-    console.log(`Sending notifications to ${students.length} students`);
+    console.log(`Queueing notifications for ${students.length} students`);
 
     const results = {
       total: students.length,
@@ -132,15 +112,15 @@ const handler = async (req: Request): Promise<Response> => {
           continue;
         }
 
-        // Send SMS
+        // Queue SMS
         try {
           const smsMessage = `${notificationTitle}\n\n${notificationMessage}\n\nMoshood Abiola Polytechnic`;
-          await sendSMS(student.phone, smsMessage);
+          await queueSMS(student.id, student.phone, smsMessage);
           results.smsSent++;
-          console.log(`SMS sent to ${student.first_name} ${student.last_name}`);
+          console.log(`SMS queued for ${student.first_name} ${student.last_name}`);
         } catch (smsError) {
-          console.error(`SMS failed for ${student.first_name} ${student.last_name}:`, smsError);
-          results.errors.push(`SMS failed for ${student.first_name} ${student.last_name}`);
+          console.error(`SMS not queued for ${student.first_name} ${student.last_name}:`, smsError);
+          results.errors.push(`SMS not queued for ${student.first_name} ${student.last_name}`);
         }
 
         // Email will be handled by frontend EmailJS
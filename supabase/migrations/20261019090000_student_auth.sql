@@ -0,0 +1,73 @@
+/*
+  # Student Portal Accounts
+
+  1. Changes
+    - `students.auth_user_id` (uuid, nullable) - Supabase Auth user that owns the record
+
+  2. Functions
+    - `link_student_auth_user` - trigger that links an auth user to their student record once
+      the account's email is confirmed
+
+  3. Security
+    - Sign-up does not say whether a matric number and email pair exists; only the owner of the
+      email can confirm the account and so claim the record
+    - Students can read their own record, their published results and their notifications
+*/
+
+ALTER TABLE public.students
+  ADD COLUMN IF NOT EXISTS auth_user_id uuid UNIQUE REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_students_auth_user_id ON public.students(auth_user_id);
+
+-- Link the auth user to the student record named in the sign-up metadata, once the email is confirmed
+CREATE OR REPLACE FUNCTION public.link_student_auth_user()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.raw_user_meta_data ->> 'account_type' = 'student' THEN
+    UPDATE public.students
+    SET auth_user_id = NEW.id
+    WHERE student_id = NEW.raw_user_meta_data ->> 'student_id'
+      AND lower(email) = lower(NEW.email)
+      AND auth_user_id IS NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Accounts created already confirmed (email confirmation turned off) are linked straight away
+DROP TRIGGER IF EXISTS on_auth_user_created_link_student ON auth.users;
+CREATE TRIGGER on_auth_user_created_link_student
+  AFTER INSERT ON auth.users
+  FOR EACH ROW
+  WHEN (NEW.email_confirmed_at IS NOT NULL)
+  EXECUTE FUNCTION public.link_student_auth_user();
+
+DROP TRIGGER IF EXISTS on_auth_user_confirmed_link_student ON auth.users;
+CREATE TRIGGER on_auth_user_confirmed_link_student
+  AFTER UPDATE OF email_confirmed_at ON auth.users
+  FOR EACH ROW
+  WHEN (OLD.email_confirmed_at IS NULL AND NEW.email_confirmed_at IS NOT NULL)
+  EXECUTE FUNCTION public.link_student_auth_user();
+
+-- Student self-service read access
+CREATE POLICY "Students can read own record"
+  ON public.students
+  FOR SELECT
+  TO authenticated
+  USING (auth_user_id = auth.uid());
+
+CREATE POLICY "Students can read own published results"
+  ON public.results
+  FOR SELECT
+  TO authenticated
+  USING (
+    status = 'published'
+    AND student_id IN (SELECT id FROM public.students WHERE auth_user_id = auth.uid())
+  );
+
+CREATE POLICY "Students can read own notifications"
+  ON public.notifications
+  FOR SELECT
+  TO authenticated
+  USING (student_id IN (SELECT id FROM public.students WHERE auth_user_id = auth.uid()));
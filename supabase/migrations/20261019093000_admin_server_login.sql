@@ -0,0 +1,34 @@
+/*
+  # Server-side Admin Login
+
+  1. Security
+    - Remove the open `admin_users` policy so the anon key can no longer read password hashes
+    - Admin sign-in now goes through the `admin-auth` edge function (service role)
+    - Admin session tokens are signed with the project JWT secret and carry an `admin_role` claim
+
+  2. Functions
+    - `current_admin_role` - reads the `admin_role` claim of the calling admin's token
+*/
+
+DROP POLICY IF EXISTS "Admin full access to admin_users" ON public.admin_users;
+
+REVOKE ALL ON public.admin_users FROM anon, authenticated;
+
+-- Admins may still read their own profile row (without the hash) through the API
+CREATE POLICY "Admins can read own profile"
+  ON public.admin_users
+  FOR SELECT
+  TO authenticated
+  USING (id = auth.uid());
+
+GRANT SELECT (id, email, full_name, role, is_active, last_login, created_at)
+  ON public.admin_users TO authenticated;
+
+-- Role of the admin making the request, or NULL for anon and student sessions
+CREATE OR REPLACE FUNCTION public.current_admin_role()
+RETURNS text AS $$
+  SELECT CASE
+    WHEN auth.jwt() ->> 'iss' = 'edunotify-admin' THEN auth.jwt() ->> 'admin_role'
+    ELSE NULL
+  END;
+$$ LANGUAGE sql STABLE;
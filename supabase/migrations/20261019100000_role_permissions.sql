@@ -0,0 +1,169 @@
+/*
+  # Role-Based Permissions
+
+  1. New Tables
+    - `role_permissions`
+      - `role` (text) - admin, super_admin, registrar
+      - `permission` (text) - e.g. `results:enter`, `admins:manage`
+      - primary key on (`role`, `permission`)
+
+  2. Functions
+    - `admin_has_permission` - true when the calling admin's role grants the permission
+
+  3. Security
+    - Replace the open "full access" policies on students, results, notifications,
+      courses, student_courses and sms_records with per-permission policies
+    - Every admin role keeps read access; writes require the matching permission
+    - Student self-read policies are unchanged, and students can read the courses of their own
+      results so the portal's results join keeps working
+
+  The matrix must match `ROLE_PERMISSIONS` in `src/lib/permissions.ts`.
+*/
+
+CREATE TABLE IF NOT EXISTS public.role_permissions (
+  role TEXT NOT NULL CHECK (role IN ('admin', 'super_admin', 'registrar')),
+  permission TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (role, permission)
+);
+
+INSERT INTO public.role_permissions (role, permission) VALUES
+  ('super_admin', 'dashboard:view'),
+  ('super_admin', 'students:manage'),
+  ('super_admin', 'courses:manage'),
+  ('super_admin', 'results:enter'),
+  ('super_admin', 'results:publish'),
+  ('super_admin', 'notifications:send'),
+  ('super_admin', 'sms:manage'),
+  ('super_admin', 'admins:manage'),
+  ('registrar', 'dashboard:view'),
+  ('registrar', 'students:manage'),
+  ('registrar', 'results:enter'),
+  ('registrar', 'results:publish'),
+  ('registrar', 'notifications:send'),
+  ('admin', 'dashboard:view'),
+  ('admin', 'students:manage'),
+  ('admin', 'courses:manage'),
+  ('admin', 'notifications:send'),
+  ('admin', 'sms:manage')
+ON CONFLICT (role, permission) DO NOTHING;
+
+ALTER TABLE public.role_permissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read role permissions"
+  ON public.role_permissions
+  FOR SELECT
+  TO authenticated
+  USING (public.current_admin_role() IS NOT NULL);
+
+-- Whether the admin making the request holds the given permission
+CREATE OR REPLACE FUNCTION public.admin_has_permission(p_permission text)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.role_permissions
+    WHERE role = public.current_admin_role()
+      AND permission = p_permission
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.admin_has_permission(text) TO authenticated;
+
+-- Students
+DROP POLICY IF EXISTS "Admin full access to students" ON public.students;
+
+CREATE POLICY "Admins can view students"
+  ON public.students FOR SELECT TO authenticated
+  USING (public.admin_has_permission('dashboard:view'));
+
+CREATE POLICY "Admins can insert students"
+  ON public.students FOR INSERT TO authenticated
+  WITH CHECK (public.admin_has_permission('students:manage'));
+
+-- The stored CGPA is recalculated after publishing, so result publishers may update as well
+CREATE POLICY "Admins can update students"
+  ON public.students FOR UPDATE TO authenticated
+  USING (public.admin_has_permission('students:manage') OR public.admin_has_permission('results:publish'));
+
+CREATE POLICY "Admins can delete students"
+  ON public.students FOR DELETE TO authenticated
+  USING (public.admin_has_permission('students:manage'));
+
+-- Results
+DROP POLICY IF EXISTS "Admin full access to results" ON public.results;
+
+CREATE POLICY "Admins can view results"
+  ON public.results FOR SELECT TO authenticated
+  USING (public.admin_has_permission('dashboard:view'));
+
+CREATE POLICY "Admins can insert results"
+  ON public.results FOR INSERT TO authenticated
+  WITH CHECK (public.admin_has_permission('results:enter'));
+
+CREATE POLICY "Admins can update results"
+  ON public.results FOR UPDATE TO authenticated
+  USING (public.admin_has_permission('results:enter') OR public.admin_has_permission('results:publish'));
+
+CREATE POLICY "Admins can delete results"
+  ON public.results FOR DELETE TO authenticated
+  USING (public.admin_has_permission('results:enter'));
+
+-- Notifications
+DROP POLICY IF EXISTS "Admin full access to notifications" ON public.notifications;
+
+CREATE POLICY "Admins can view notifications"
+  ON public.notifications FOR SELECT TO authenticated
+  USING (public.admin_has_permission('dashboard:view'));
+
+CREATE POLICY "Admins can create notifications"
+  ON public.notifications FOR INSERT TO authenticated
+  WITH CHECK (public.admin_has_permission('notifications:send') OR public.admin_has_permission('results:publish'));
+
+CREATE POLICY "Admins can update notifications"
+  ON public.notifications FOR UPDATE TO authenticated
+  USING (public.admin_has_permission('notifications:send'));
+
+-- Courses
+ALTER TABLE public.courses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view courses"
+  ON public.courses FOR SELECT TO authenticated
+  USING (public.admin_has_permission('dashboard:view'));
+
+CREATE POLICY "Admins can manage courses"
+  ON public.courses FOR ALL TO authenticated
+  USING (public.admin_has_permission('courses:manage'))
+  WITH CHECK (public.admin_has_permission('courses:manage'));
+
+CREATE POLICY "Students can view courses of own results"
+  ON public.courses FOR SELECT TO authenticated
+  USING (id IN (
+    SELECT r.course_id
+    FROM public.results r
+    JOIN public.students s ON s.id = r.student_id
+    WHERE s.auth_user_id = auth.uid()
+  ));
+
+-- Course registrations
+ALTER TABLE public.student_courses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view course registrations"
+  ON public.student_courses FOR SELECT TO authenticated
+  USING (public.admin_has_permission('dashboard:view'));
+
+CREATE POLICY "Admins can manage course registrations"
+  ON public.student_courses FOR ALL TO authenticated
+  USING (public.admin_has_permission('students:manage'))
+  WITH CHECK (public.admin_has_permission('students:manage'));
+
+-- SMS records
+DROP POLICY IF EXISTS "Admin full access to sms_records" ON public.sms_records;
+
+CREATE POLICY "Admins can view sms records"
+  ON public.sms_records FOR SELECT TO authenticated
+  USING (public.admin_has_permission('dashboard:view'));
+
+CREATE POLICY "Admins can write sms records"
+  ON public.sms_records FOR ALL TO authenticated
+  USING (public.admin_has_permission('notifications:send') OR public.admin_has_permission('sms:manage'))
+  WITH CHECK (public.admin_has_permission('notifications:send') OR public.admin_has_permission('sms:manage'));
@@ -0,0 +1,75 @@
+/*
+  # Admin User Management
+
+  1. Changes
+    - `admin_users.must_reset_password` (boolean) - set when an account is created with, or
+      reset to, a temporary password; the admin must choose a new one after signing in
+
+  2. New Tables
+    - `admin_audit_log`
+      - `id` (uuid, primary key)
+      - `actor_id` (uuid, admin who made the change, nullable once that admin is gone)
+      - `target_admin_id` (uuid, admin account affected)
+      - `action` (text) - created, role_changed, activated, deactivated, password_reset, ...
+      - `details` (jsonb) - before/after values
+      - `created_at` (timestamptz)
+
+  3. Security
+    - Admins with `admins:manage` can list admin accounts (the password hash stays ungranted)
+      and read the audit log
+    - All writes go through the `admin-users` edge function with the service role
+    - `current_admin_role` (and so `admin_has_permission`) now reads the live account's role
+      and `is_active` flag instead of the token's `admin_role` claim
+*/
+
+ALTER TABLE public.admin_users
+  ADD COLUMN IF NOT EXISTS must_reset_password BOOLEAN NOT NULL DEFAULT false;
+
+GRANT SELECT (must_reset_password) ON public.admin_users TO authenticated;
+
+CREATE POLICY "Admin managers can read admin users"
+  ON public.admin_users
+  FOR SELECT
+  TO authenticated
+  USING (public.admin_has_permission('admins:manage'));
+
+CREATE TABLE IF NOT EXISTS public.admin_audit_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  actor_id UUID REFERENCES public.admin_users(id) ON DELETE SET NULL,
+  target_admin_id UUID REFERENCES public.admin_users(id) ON DELETE SET NULL,
+  action TEXT NOT NULL,
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_created_at ON public.admin_audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_target ON public.admin_audit_log(target_admin_id);
+
+ALTER TABLE public.admin_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin managers can read audit log"
+  ON public.admin_audit_log
+  FOR SELECT
+  TO authenticated
+  USING (public.admin_has_permission('admins:manage'));
+
+-- Read the live account rather than the token's role claim, so deactivations and
+-- role changes take effect immediately instead of when the session token expires
+CREATE OR REPLACE FUNCTION public.current_admin_role()
+RETURNS text AS $$
+  SELECT a.role
+  FROM public.admin_users a
+  WHERE auth.jwt() ->> 'iss' = 'edunotify-admin'
+    AND a.id = auth.uid()
+    AND a.is_active;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.admin_has_permission(p_permission text)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.role_permissions
+    WHERE role = public.current_admin_role()
+      AND permission = p_permission
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
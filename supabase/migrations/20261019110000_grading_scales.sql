@@ -0,0 +1,261 @@
+/*
+  # Configurable Grading Scales
+
+  1. New Tables
+    - `grading_scales`
+      - `id` (uuid, primary key)
+      - `name` (text, unique), `description` (text, nullable)
+      - `pass_mark` (numeric) - lowest total score that counts as a pass
+      - `max_grade_point` (numeric) - top of the scale, e.g. 4.0 or 5.0
+      - `is_default` (boolean) - used when no assignment matches; only one scale may be default
+    - `grading_scale_bands`
+      - `scale_id` (uuid, foreign key to grading_scales)
+      - `min_score` (numeric) - a band covers scores from here up to the next band's minimum
+      - `letter` (text), `grade_point` (numeric), `remark` (text, nullable)
+    - `grading_scale_assignments`
+      - `scale_id` (uuid, foreign key to grading_scales)
+      - `department`, `level`, `academic_year` (text, nullable) - NULL matches anything
+
+  2. Functions
+    - `resolve_grading_scale` - most specific assignment for a department/level/session, else the default
+    - `grade_for_score` - band of a scale that contains a score
+    - `apply_grading_scale` trigger - sets `grade` and `grade_point` on every result insert/update
+    - `regrade_unpublished_results` - re-applies scales after they change; published results stay as issued
+    - `calculate_student_cgpa` - credit-weighted average of the stored grade points
+
+  3. Security
+    - Every admin can read scales; changing them requires `grading:manage`
+      (granted to super_admin and registrar)
+
+  4. Seed Data
+    - "University 5-Point Scale" (the previous hard-coded scale) as the default
+    - "Polytechnic 4-Point Scale (NBTE)" for ND/HND programmes, ready to be assigned
+*/
+
+CREATE TABLE IF NOT EXISTS public.grading_scales (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  description TEXT,
+  pass_mark NUMERIC(5,2) NOT NULL DEFAULT 40 CHECK (pass_mark >= 0 AND pass_mark <= 100),
+  max_grade_point NUMERIC(3,2) NOT NULL DEFAULT 5.0 CHECK (max_grade_point > 0),
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_grading_scales_single_default
+  ON public.grading_scales (is_default) WHERE is_default;
+
+CREATE TABLE IF NOT EXISTS public.grading_scale_bands (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  scale_id UUID NOT NULL REFERENCES public.grading_scales(id) ON DELETE CASCADE,
+  min_score NUMERIC(5,2) NOT NULL CHECK (min_score >= 0 AND min_score <= 100),
+  letter TEXT NOT NULL,
+  grade_point NUMERIC(3,2) NOT NULL CHECK (grade_point >= 0),
+  remark TEXT,
+  UNIQUE (scale_id, letter),
+  UNIQUE (scale_id, min_score)
+);
+
+CREATE INDEX IF NOT EXISTS idx_grading_scale_bands_scale_id ON public.grading_scale_bands(scale_id);
+
+CREATE TABLE IF NOT EXISTS public.grading_scale_assignments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  scale_id UUID NOT NULL REFERENCES public.grading_scales(id) ON DELETE CASCADE,
+  department TEXT,
+  level TEXT,
+  academic_year TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (department IS NOT NULL OR level IS NOT NULL OR academic_year IS NOT NULL)
+);
+
+-- One scale per exact combination; NULLs are treated as "any"
+CREATE UNIQUE INDEX IF NOT EXISTS idx_grading_scale_assignments_scope
+  ON public.grading_scale_assignments (COALESCE(department, ''), COALESCE(level, ''), COALESCE(academic_year, ''));
+
+CREATE TRIGGER update_grading_scales_updated_at
+  BEFORE UPDATE ON public.grading_scales
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Most specific matching assignment wins (session beats level beats department), else the default scale
+CREATE OR REPLACE FUNCTION public.resolve_grading_scale(
+  p_department text,
+  p_level text,
+  p_academic_year text
+)
+RETURNS uuid AS $$
+  SELECT scale_id FROM (
+    SELECT a.scale_id,
+      (CASE WHEN a.academic_year IS NOT NULL THEN 4 ELSE 0 END)
+      + (CASE WHEN a.level IS NOT NULL THEN 2 ELSE 0 END)
+      + (CASE WHEN a.department IS NOT NULL THEN 1 ELSE 0 END) AS specificity
+    FROM public.grading_scale_assignments a
+    WHERE (a.department IS NULL OR a.department = p_department)
+      AND (a.level IS NULL OR a.level = p_level)
+      AND (a.academic_year IS NULL OR a.academic_year = p_academic_year)
+    UNION ALL
+    SELECT id, -1 FROM public.grading_scales WHERE is_default
+  ) candidates
+  ORDER BY specificity DESC
+  LIMIT 1;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION public.grade_for_score(p_scale_id uuid, p_score numeric)
+RETURNS public.grading_scale_bands AS $$
+  SELECT *
+  FROM public.grading_scale_bands
+  WHERE scale_id = p_scale_id
+    AND p_score >= min_score
+  ORDER BY min_score DESC
+  LIMIT 1;
+$$ LANGUAGE sql STABLE;
+
+-- Grades are always derived from the scale, so every screen and message shows the same grade
+CREATE OR REPLACE FUNCTION public.apply_grading_scale()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_department text;
+  v_level text;
+  v_band public.grading_scale_bands;
+BEGIN
+  IF NEW.total_score IS NULL AND (NEW.ca_score IS NOT NULL OR NEW.exam_score IS NOT NULL) THEN
+    NEW.total_score := COALESCE(NEW.ca_score, 0) + COALESCE(NEW.exam_score, 0);
+  END IF;
+
+  IF NEW.total_score IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT department, level INTO v_department, v_level
+  FROM public.students
+  WHERE id = NEW.student_id;
+
+  v_band := public.grade_for_score(
+    public.resolve_grading_scale(v_department, v_level, NEW.academic_year),
+    NEW.total_score
+  );
+
+  IF v_band.id IS NOT NULL THEN
+    NEW.grade := v_band.letter;
+    NEW.grade_point := v_band.grade_point;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER apply_grading_scale_to_results
+  BEFORE INSERT OR UPDATE OF ca_score, exam_score, total_score, academic_year, student_id
+  ON public.results
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_grading_scale();
+
+-- Re-run the trigger on results that have not been published yet
+CREATE OR REPLACE FUNCTION public.regrade_unpublished_results()
+RETURNS integer AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  UPDATE public.results
+  SET total_score = total_score
+  WHERE status <> 'published'
+    AND total_score IS NOT NULL;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP FUNCTION IF EXISTS public.calculate_student_cgpa(uuid);
+
+CREATE OR REPLACE FUNCTION public.calculate_student_cgpa(student_uuid uuid)
+RETURNS numeric AS $$
+DECLARE
+  v_cgpa numeric;
+BEGIN
+  SELECT COALESCE(ROUND(SUM(r.grade_point * c.credit_units) / NULLIF(SUM(c.credit_units), 0), 2), 0)
+  INTO v_cgpa
+  FROM public.results r
+  JOIN public.courses c ON c.id = r.course_id
+  WHERE r.student_id = student_uuid
+    AND r.grade_point IS NOT NULL;
+
+  UPDATE public.students SET cgpa = v_cgpa WHERE id = student_uuid;
+
+  RETURN v_cgpa;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Security
+INSERT INTO public.role_permissions (role, permission) VALUES
+  ('super_admin', 'grading:manage'),
+  ('registrar', 'grading:manage')
+ON CONFLICT (role, permission) DO NOTHING;
+
+ALTER TABLE public.grading_scales ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.grading_scale_bands ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.grading_scale_assignments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view grading scales"
+  ON public.grading_scales FOR SELECT TO authenticated
+  USING (public.admin_has_permission('dashboard:view'));
+
+CREATE POLICY "Grading managers can manage grading scales"
+  ON public.grading_scales FOR ALL TO authenticated
+  USING (public.admin_has_permission('grading:manage'))
+  WITH CHECK (public.admin_has_permission('grading:manage'));
+
+CREATE POLICY "Admins can view grading scale bands"
+  ON public.grading_scale_bands FOR SELECT TO authenticated
+  USING (public.admin_has_permission('dashboard:view'));
+
+CREATE POLICY "Grading managers can manage grading scale bands"
+  ON public.grading_scale_bands FOR ALL TO authenticated
+  USING (public.admin_has_permission('grading:manage'))
+  WITH CHECK (public.admin_has_permission('grading:manage'));
+
+CREATE POLICY "Admins can view grading scale assignments"
+  ON public.grading_scale_assignments FOR SELECT TO authenticated
+  USING (public.admin_has_permission('dashboard:view'));
+
+CREATE POLICY "Grading managers can manage grading scale assignments"
+  ON public.grading_scale_assignments FOR ALL TO authenticated
+  USING (public.admin_has_permission('grading:manage'))
+  WITH CHECK (public.admin_has_permission('grading:manage'));
+
+-- Seed scales
+WITH university AS (
+  INSERT INTO public.grading_scales (name, description, pass_mark, max_grade_point, is_default)
+  VALUES ('University 5-Point Scale', 'A-F on a 5.0 scale', 40, 5.0, true)
+  RETURNING id
+)
+INSERT INTO public.grading_scale_bands (scale_id, min_score, letter, grade_point, remark)
+SELECT id, b.min_score, b.letter, b.grade_point, b.remark
+FROM university, (VALUES
+  (70, 'A', 5.0, 'Excellent'),
+  (60, 'B', 4.0, 'Very Good'),
+  (50, 'C', 3.0, 'Good'),
+  (45, 'D', 2.0, 'Fair'),
+  (40, 'E', 1.0, 'Pass'),
+  (0, 'F', 0.0, 'Fail')
+) AS b(min_score, letter, grade_point, remark);
+
+WITH polytechnic AS (
+  INSERT INTO public.grading_scales (name, description, pass_mark, max_grade_point, is_default)
+  VALUES ('Polytechnic 4-Point Scale (NBTE)', 'AA-F on a 4.0 scale for ND and HND programmes', 40, 4.0, false)
+  RETURNING id
+)
+INSERT INTO public.grading_scale_bands (scale_id, min_score, letter, grade_point, remark)
+SELECT id, b.min_score, b.letter, b.grade_point, b.remark
+FROM polytechnic, (VALUES
+  (75, 'AA', 4.0, 'Distinction'),
+  (70, 'A', 3.5, 'Upper Credit'),
+  (65, 'AB', 3.25, 'Upper Credit'),
+  (60, 'B', 3.0, 'Upper Credit'),
+  (55, 'BC', 2.75, 'Lower Credit'),
+  (50, 'C', 2.5, 'Lower Credit'),
+  (45, 'CD', 2.25, 'Pass'),
+  (40, 'D', 2.0, 'Pass'),
+  (0, 'F', 0.0, 'Fail')
+) AS b(min_score, letter, grade_point, remark);
@@ -0,0 +1,24 @@
+/*
+  # Shared GPA Engine
+
+  1. Functions
+    - Drop `calculate_student_cgpa`; CGPA is now worked out by the shared GPA module
+      (src/lib/gpa.js) used by the app, the SMS server and notifications, and stored on `students.cgpa`
+
+  2. Security
+    - Students can read grading scales, so the portal can show the class of degree on their own scale
+*/
+
+DROP FUNCTION IF EXISTS public.calculate_student_cgpa(uuid);
+
+CREATE POLICY "Students can view grading scales"
+  ON public.grading_scales FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.students WHERE auth_user_id = auth.uid()));
+
+CREATE POLICY "Students can view grading scale bands"
+  ON public.grading_scale_bands FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.students WHERE auth_user_id = auth.uid()));
+
+CREATE POLICY "Students can view grading scale assignments"
+  ON public.grading_scale_assignments FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.students WHERE auth_user_id = auth.uid()));
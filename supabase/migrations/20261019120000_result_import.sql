@@ -0,0 +1,65 @@
+/*
+  # Bulk Result Import
+
+  1. Functions
+    - `import_results(p_rows jsonb)` - inserts a batch of score sheet rows as `pending` results
+      in a single transaction. Each row needs `student_id`, `course_id`, `academic_year`,
+      `semester`, `ca_score` and `exam_score`; grades come from the grading scale trigger.
+      The whole batch is rejected if any row already has a result for the same student,
+      course, session and semester, or appears twice in the batch.
+
+  2. Security
+    - Runs as the caller, so the results RLS policies still apply, and requires `results:enter`
+*/
+
+CREATE OR REPLACE FUNCTION public.import_results(p_rows jsonb)
+RETURNS integer AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  IF NOT public.admin_has_permission('results:enter') THEN
+    RAISE EXCEPTION 'You do not have permission to enter results'
+      USING ERRCODE = '42501';
+  END IF;
+
+  CREATE TEMP TABLE import_rows ON COMMIT DROP AS
+  SELECT *
+  FROM jsonb_to_recordset(p_rows) AS r(
+    student_id uuid,
+    course_id uuid,
+    academic_year text,
+    semester text,
+    ca_score numeric,
+    exam_score numeric
+  );
+
+  IF EXISTS (
+    SELECT 1 FROM import_rows
+    GROUP BY student_id, course_id, academic_year, semester
+    HAVING count(*) > 1
+  ) THEN
+    RAISE EXCEPTION 'The import contains the same result more than once'
+      USING ERRCODE = '23505';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM import_rows i
+    JOIN public.results r
+      ON r.student_id = i.student_id
+     AND r.course_id = i.course_id
+     AND r.academic_year = i.academic_year
+     AND r.semester = i.semester
+  ) THEN
+    RAISE EXCEPTION 'Some rows already have results; re-validate the sheet and try again'
+      USING ERRCODE = '23505';
+  END IF;
+
+  INSERT INTO public.results (student_id, course_id, academic_year, semester, ca_score, exam_score, status)
+  SELECT student_id, course_id, academic_year, semester, ca_score, exam_score, 'pending'
+  FROM import_rows;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
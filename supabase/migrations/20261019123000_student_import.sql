@@ -0,0 +1,21 @@
+/*
+  # Bulk Student Import
+
+  1. Functions
+    - `find_student_conflicts(p_student_ids text[], p_emails text[])` - returns the existing
+      students whose matric number or email matches any of the given values, ignoring case,
+      so an import sheet can be checked for duplicates in a single round trip
+
+  2. Security
+    - Runs as the caller, so only admins who can already read students see any rows
+*/
+
+CREATE OR REPLACE FUNCTION public.find_student_conflicts(p_student_ids text[], p_emails text[])
+RETURNS TABLE (student_id text, email text) AS $$
+  SELECT s.student_id, s.email
+  FROM public.students s
+  WHERE upper(s.student_id) IN (SELECT upper(trim(v)) FROM unnest(p_student_ids) AS v)
+     OR lower(s.email) IN (SELECT lower(trim(v)) FROM unnest(p_emails) AS v);
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION public.find_student_conflicts(text[], text[]) TO authenticated;
@@ -0,0 +1,299 @@
+/*
+  # Result Approval Workflow
+
+  Results move through four stages: `draft` (scores entered) -> `reviewed` (HOD) ->
+  `approved` (exam officer or registrar) -> `published`. A reviewer or approver can
+  reject a result back to `draft` with a comment.
+
+  1. Roles and Permissions
+    - New admin roles `hod` and `exam_officer`
+    - `results:review` - granted to super_admin and hod
+    - `results:approve` - granted to super_admin, registrar and exam_officer
+
+  2. Changes to `results`
+    - Existing `pending` (and legacy `confirmed`) results become `draft`; the default is now `draft`
+    - `status` is limited to the four stages
+    - `reviewed_by`/`reviewed_at`, `approved_by`/`approved_at` and `published_by` record who
+      moved the result to each stage; `rejection_comment` holds the latest rejection reason
+
+  3. New Tables
+    - `result_status_history` - one row per transition, with the actor, comment and time.
+      The actor's name is copied in, since most admins cannot read other admin accounts.
+
+  4. Functions
+    - `transition_results(p_result_ids uuid[], p_action text, p_comment text)` - applies
+      `review`, `approve`, `publish` or `reject` to a batch of results. The whole batch is
+      rejected if any result is not at the right stage for the action.
+    - `import_results` now inserts imported rows as `draft`
+
+  5. Security
+    - `transition_results` runs as the caller and checks the permission for each action
+    - Admins can read the history; rows are only written through `transition_results`
+    - `guard_result_stage` trigger - results are created as `draft`, and `status` and the
+      stage columns only change inside `transition_results`, so every move is in the history
+*/
+
+-- Roles and permissions
+ALTER TABLE public.role_permissions DROP CONSTRAINT IF EXISTS role_permissions_role_check;
+ALTER TABLE public.role_permissions ADD CONSTRAINT role_permissions_role_check
+  CHECK (role IN ('admin', 'super_admin', 'registrar', 'hod', 'exam_officer'));
+
+INSERT INTO public.role_permissions (role, permission) VALUES
+  ('super_admin', 'results:review'),
+  ('super_admin', 'results:approve'),
+  ('registrar', 'results:approve'),
+  ('hod', 'dashboard:view'),
+  ('hod', 'results:review'),
+  ('exam_officer', 'dashboard:view'),
+  ('exam_officer', 'results:approve')
+ON CONFLICT (role, permission) DO NOTHING;
+
+-- Result stages
+UPDATE public.results SET status = 'draft' WHERE status NOT IN ('reviewed', 'approved', 'published');
+
+ALTER TABLE public.results ALTER COLUMN status SET DEFAULT 'draft';
+ALTER TABLE public.results ADD CONSTRAINT results_status_check
+  CHECK (status IN ('draft', 'reviewed', 'approved', 'published'));
+
+ALTER TABLE public.results
+  ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES public.admin_users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS approved_by UUID REFERENCES public.admin_users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS approved_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS published_by UUID REFERENCES public.admin_users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS rejection_comment TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_results_status ON public.results(status);
+
+-- Transition history
+CREATE TABLE IF NOT EXISTS public.result_status_history (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  result_id UUID NOT NULL REFERENCES public.results(id) ON DELETE CASCADE,
+  action TEXT NOT NULL CHECK (action IN ('review', 'approve', 'publish', 'reject')),
+  from_status TEXT NOT NULL,
+  to_status TEXT NOT NULL,
+  comment TEXT,
+  actor_id UUID REFERENCES public.admin_users(id) ON DELETE SET NULL,
+  actor_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_result_status_history_result_id
+  ON public.result_status_history(result_id, created_at);
+
+ALTER TABLE public.result_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view result history"
+  ON public.result_status_history FOR SELECT TO authenticated
+  USING (public.admin_has_permission('dashboard:view'));
+
+CREATE POLICY "Result workflow can record history"
+  ON public.result_status_history FOR INSERT TO authenticated
+  WITH CHECK (
+    actor_id = auth.uid()
+    AND (
+      public.admin_has_permission('results:review')
+      OR public.admin_has_permission('results:approve')
+      OR public.admin_has_permission('results:publish')
+    )
+  );
+
+-- Reviewers and approvers move results between stages
+DROP POLICY IF EXISTS "Admins can update results" ON public.results;
+
+CREATE POLICY "Admins can update results"
+  ON public.results FOR UPDATE TO authenticated
+  USING (
+    public.admin_has_permission('results:enter')
+    OR public.admin_has_permission('results:review')
+    OR public.admin_has_permission('results:approve')
+    OR public.admin_has_permission('results:publish')
+  );
+
+CREATE OR REPLACE FUNCTION public.transition_results(
+  p_result_ids uuid[],
+  p_action text,
+  p_comment text DEFAULT NULL
+)
+RETURNS integer AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_actor_name text;
+  v_comment text := nullif(trim(p_comment), '');
+  v_can_review boolean := public.admin_has_permission('results:review');
+  v_can_approve boolean := public.admin_has_permission('results:approve');
+  v_from text[];
+  v_to text;
+  v_count integer;
+BEGIN
+  CASE p_action
+    WHEN 'review' THEN
+      IF NOT v_can_review THEN
+        RAISE EXCEPTION 'You do not have permission to review results' USING ERRCODE = '42501';
+      END IF;
+      v_from := ARRAY['draft'];
+      v_to := 'reviewed';
+    WHEN 'approve' THEN
+      IF NOT v_can_approve THEN
+        RAISE EXCEPTION 'You do not have permission to approve results' USING ERRCODE = '42501';
+      END IF;
+      v_from := ARRAY['reviewed'];
+      v_to := 'approved';
+    WHEN 'publish' THEN
+      IF NOT public.admin_has_permission('results:publish') THEN
+        RAISE EXCEPTION 'You do not have permission to publish results' USING ERRCODE = '42501';
+      END IF;
+      v_from := ARRAY['approved'];
+      v_to := 'published';
+    WHEN 'reject' THEN
+      -- Reviewers send back what they are reviewing; approvers can also send back approved results
+      IF v_can_approve THEN
+        v_from := ARRAY['draft', 'reviewed', 'approved'];
+      ELSIF v_can_review THEN
+        v_from := ARRAY['draft', 'reviewed'];
+      ELSE
+        RAISE EXCEPTION 'You do not have permission to reject results' USING ERRCODE = '42501';
+      END IF;
+      IF v_comment IS NULL THEN
+        RAISE EXCEPTION 'A comment is required when rejecting results' USING ERRCODE = '22023';
+      END IF;
+      v_to := 'draft';
+    ELSE
+      RAISE EXCEPTION 'Unknown result action: %', p_action USING ERRCODE = '22023';
+  END CASE;
+
+  IF EXISTS (
+    SELECT 1
+    FROM unnest(p_result_ids) AS ids(id)
+    LEFT JOIN public.results r ON r.id = ids.id
+    WHERE r.id IS NULL OR NOT (r.status = ANY (v_from))
+  ) THEN
+    RAISE EXCEPTION 'Some results are not at a stage that allows this action; refresh and try again'
+      USING ERRCODE = '55000';
+  END IF;
+
+  SELECT full_name INTO v_actor_name FROM public.admin_users WHERE id = v_actor;
+
+  -- Lets the stage change past guard_result_stage; local to this transaction
+  PERFORM set_config('app.result_transition', 'on', true);
+
+  INSERT INTO public.result_status_history (result_id, action, from_status, to_status, comment, actor_id, actor_name)
+  SELECT r.id, p_action, r.status, v_to, v_comment, v_actor, v_actor_name
+  FROM public.results r
+  WHERE r.id = ANY (p_result_ids);
+
+  UPDATE public.results r
+  SET
+    status = v_to,
+    reviewed_by = CASE WHEN p_action = 'review' THEN v_actor WHEN p_action = 'reject' THEN NULL ELSE r.reviewed_by END,
+    reviewed_at = CASE WHEN p_action = 'review' THEN now() WHEN p_action = 'reject' THEN NULL ELSE r.reviewed_at END,
+    approved_by = CASE WHEN p_action = 'approve' THEN v_actor WHEN p_action = 'reject' THEN NULL ELSE r.approved_by END,
+    approved_at = CASE WHEN p_action = 'approve' THEN now() WHEN p_action = 'reject' THEN NULL ELSE r.approved_at END,
+    published_by = CASE WHEN p_action = 'publish' THEN v_actor ELSE r.published_by END,
+    published_at = CASE WHEN p_action = 'publish' THEN now() ELSE r.published_at END,
+    rejection_comment = CASE WHEN p_action = 'reject' THEN v_comment ELSE NULL END,
+    updated_at = now()
+  WHERE r.id = ANY (p_result_ids);
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  PERFORM set_config('app.result_transition', '', true);
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION public.transition_results(uuid[], text, text) TO authenticated;
+
+-- Stage changes made any other way would be missing from result_status_history
+CREATE OR REPLACE FUNCTION public.guard_result_stage()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_setting('app.result_transition', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'draft'
+      OR NEW.reviewed_by IS NOT NULL OR NEW.reviewed_at IS NOT NULL
+      OR NEW.approved_by IS NOT NULL OR NEW.approved_at IS NOT NULL
+      OR NEW.published_by IS NOT NULL OR NEW.published_at IS NOT NULL
+    THEN
+      RAISE EXCEPTION 'New results start as draft; use the approval workflow to move them on'
+        USING ERRCODE = '42501';
+    END IF;
+  ELSIF NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.reviewed_by IS DISTINCT FROM OLD.reviewed_by
+    OR NEW.reviewed_at IS DISTINCT FROM OLD.reviewed_at
+    OR NEW.approved_by IS DISTINCT FROM OLD.approved_by
+    OR NEW.approved_at IS DISTINCT FROM OLD.approved_at
+    OR NEW.published_by IS DISTINCT FROM OLD.published_by
+    OR NEW.published_at IS DISTINCT FROM OLD.published_at
+    -- Clearing the comment is fine: resubmitted scores answer the rejection
+    OR (NEW.rejection_comment IS DISTINCT FROM OLD.rejection_comment AND NEW.rejection_comment IS NOT NULL)
+  THEN
+    RAISE EXCEPTION 'Result stages can only be changed through the approval workflow'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER guard_result_stage
+  BEFORE INSERT OR UPDATE ON public.results
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_result_stage();
+
+-- Imported score sheets start at the first stage like any other entry
+CREATE OR REPLACE FUNCTION public.import_results(p_rows jsonb)
+RETURNS integer AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  IF NOT public.admin_has_permission('results:enter') THEN
+    RAISE EXCEPTION 'You do not have permission to enter results'
+      USING ERRCODE = '42501';
+  END IF;
+
+  CREATE TEMP TABLE import_rows ON COMMIT DROP AS
+  SELECT *
+  FROM jsonb_to_recordset(p_rows) AS r(
+    student_id uuid,
+    course_id uuid,
+    academic_year text,
+    semester text,
+    ca_score numeric,
+    exam_score numeric
+  );
+
+  IF EXISTS (
+    SELECT 1 FROM import_rows
+    GROUP BY student_id, course_id, academic_year, semester
+    HAVING count(*) > 1
+  ) THEN
+    RAISE EXCEPTION 'The import contains the same result more than once'
+      USING ERRCODE = '23505';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM import_rows i
+    JOIN public.results r
+      ON r.student_id = i.student_id
+     AND r.course_id = i.course_id
+     AND r.academic_year = i.academic_year
+     AND r.semester = i.semester
+  ) THEN
+    RAISE EXCEPTION 'Some rows already have results; re-validate the sheet and try again'
+      USING ERRCODE = '23505';
+  END IF;
+
+  INSERT INTO public.results (student_id, course_id, academic_year, semester, ca_score, exam_score, status)
+  SELECT student_id, course_id, academic_year, semester, ca_score, exam_score, 'draft'
+  FROM import_rows;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
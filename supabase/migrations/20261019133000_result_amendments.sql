@@ -0,0 +1,192 @@
+/*
+  # Result Amendments
+
+  Scores can be corrected after entry, and every change to a result's scores leaves a
+  versioned trace, whether it goes through the app or is edited in the database directly.
+
+  1. Permissions
+    - `results:amend` - granted to super_admin, registrar and exam_officer
+
+  2. New Tables
+    - `result_amendments` - one row per score change, numbered per result (`version`),
+      with the reason, the result's stage at the time, and the CA, exam, total, grade
+      and grade point before and after. The amending admin's name is copied in.
+
+  3. Functions
+    - `amend_result(p_result_id, p_ca_score, p_exam_score, p_reason)` - changes the scores
+      of one result with a mandatory reason. The grading trigger recalculates the total,
+      grade and grade point; the new history row is returned.
+    - `record_result_amendment` trigger - writes the history row for any score change.
+      Changes made outside `amend_result` are recorded with a placeholder reason.
+
+  4. Security
+    - Admins can read amendment history; rows are only written by the trigger
+    - Amenders can update results and record the correction notice sent to the student
+    - Amenders can update students, so the CGPA is refreshed after a correction
+*/
+
+INSERT INTO public.role_permissions (role, permission) VALUES
+  ('super_admin', 'results:amend'),
+  ('registrar', 'results:amend'),
+  ('exam_officer', 'results:amend')
+ON CONFLICT (role, permission) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS public.result_amendments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  result_id UUID NOT NULL REFERENCES public.results(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  reason TEXT NOT NULL,
+  result_status TEXT NOT NULL,
+  before_ca_score NUMERIC,
+  before_exam_score NUMERIC,
+  before_total_score NUMERIC,
+  before_grade TEXT,
+  before_grade_point NUMERIC,
+  after_ca_score NUMERIC,
+  after_exam_score NUMERIC,
+  after_total_score NUMERIC,
+  after_grade TEXT,
+  after_grade_point NUMERIC,
+  amended_by UUID REFERENCES public.admin_users(id) ON DELETE SET NULL,
+  amended_by_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (result_id, version)
+);
+
+ALTER TABLE public.result_amendments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view result amendments"
+  ON public.result_amendments FOR SELECT TO authenticated
+  USING (public.admin_has_permission('dashboard:view'));
+
+-- Runs after the grading trigger, so NEW already carries the recalculated grade
+CREATE OR REPLACE FUNCTION public.record_result_amendment()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+BEGIN
+  INSERT INTO public.result_amendments (
+    result_id, version, reason, result_status,
+    before_ca_score, before_exam_score, before_total_score, before_grade, before_grade_point,
+    after_ca_score, after_exam_score, after_total_score, after_grade, after_grade_point,
+    amended_by, amended_by_name
+  )
+  SELECT
+    NEW.id,
+    COALESCE((SELECT max(version) FROM public.result_amendments WHERE result_id = NEW.id), 0) + 1,
+    COALESCE(nullif(current_setting('app.amendment_reason', true), ''), 'Edited outside the amendment workflow'),
+    NEW.status,
+    OLD.ca_score, OLD.exam_score, OLD.total_score, OLD.grade, OLD.grade_point,
+    NEW.ca_score, NEW.exam_score, NEW.total_score, NEW.grade, NEW.grade_point,
+    v_actor,
+    (SELECT full_name FROM public.admin_users WHERE id = v_actor);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER record_result_amendment
+  AFTER UPDATE OF ca_score, exam_score, total_score ON public.results
+  FOR EACH ROW
+  WHEN (
+    OLD.ca_score IS DISTINCT FROM NEW.ca_score
+    OR OLD.exam_score IS DISTINCT FROM NEW.exam_score
+    OR OLD.total_score IS DISTINCT FROM NEW.total_score
+  )
+  EXECUTE FUNCTION public.record_result_amendment();
+
+DROP POLICY IF EXISTS "Admins can update results" ON public.results;
+
+CREATE POLICY "Admins can update results"
+  ON public.results FOR UPDATE TO authenticated
+  USING (
+    public.admin_has_permission('results:enter')
+    OR public.admin_has_permission('results:review')
+    OR public.admin_has_permission('results:approve')
+    OR public.admin_has_permission('results:publish')
+    OR public.admin_has_permission('results:amend')
+  );
+
+-- An amendment changes the stored CGPA, as publishing does
+DROP POLICY IF EXISTS "Admins can update students" ON public.students;
+
+CREATE POLICY "Admins can update students"
+  ON public.students FOR UPDATE TO authenticated
+  USING (
+    public.admin_has_permission('students:manage')
+    OR public.admin_has_permission('results:publish')
+    OR public.admin_has_permission('results:amend')
+  );
+
+DROP POLICY IF EXISTS "Admins can create notifications" ON public.notifications;
+
+CREATE POLICY "Admins can create notifications"
+  ON public.notifications FOR INSERT TO authenticated
+  WITH CHECK (
+    public.admin_has_permission('notifications:send')
+    OR public.admin_has_permission('results:publish')
+    OR public.admin_has_permission('results:amend')
+  );
+
+CREATE OR REPLACE FUNCTION public.amend_result(
+  p_result_id uuid,
+  p_ca_score numeric,
+  p_exam_score numeric,
+  p_reason text
+)
+RETURNS public.result_amendments AS $$
+DECLARE
+  v_reason text := nullif(trim(p_reason), '');
+  v_result public.results;
+  v_amendment public.result_amendments;
+BEGIN
+  IF NOT public.admin_has_permission('results:amend') THEN
+    RAISE EXCEPTION 'You do not have permission to amend results' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required when amending a result' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_ca_score IS NULL OR p_ca_score < 0 OR p_ca_score > 30 THEN
+    RAISE EXCEPTION 'CA score must be between 0 and 30' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_exam_score IS NULL OR p_exam_score < 0 OR p_exam_score > 70 THEN
+    RAISE EXCEPTION 'Exam score must be between 0 and 70' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_result FROM public.results WHERE id = p_result_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Result not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_result.ca_score IS NOT DISTINCT FROM p_ca_score AND v_result.exam_score IS NOT DISTINCT FROM p_exam_score THEN
+    RAISE EXCEPTION 'The new scores are the same as the current ones' USING ERRCODE = '22023';
+  END IF;
+
+  -- Picked up by record_result_amendment; local to this transaction
+  PERFORM set_config('app.amendment_reason', v_reason, true);
+
+  UPDATE public.results
+  SET
+    ca_score = p_ca_score,
+    exam_score = p_exam_score,
+    total_score = p_ca_score + p_exam_score,
+    updated_at = now()
+  WHERE id = p_result_id;
+
+  PERFORM set_config('app.amendment_reason', '', true);
+
+  SELECT * INTO v_amendment
+  FROM public.result_amendments
+  WHERE result_id = p_result_id
+  ORDER BY version DESC
+  LIMIT 1;
+
+  RETURN v_amendment;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION public.amend_result(uuid, numeric, numeric, text) TO authenticated;
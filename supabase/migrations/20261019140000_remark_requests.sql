@@ -0,0 +1,222 @@
+/*
+  # Result Remark Requests
+
+  Students can query a published result from the portal instead of emailing the
+  Academic Affairs Office. A request moves `submitted` -> `under_review` -> `upheld`
+  (the original result stands) or `revised` (the result was amended).
+
+  1. New Tables
+    - `remark_requests` - the student's reason, the current status, the office's response,
+      who handled it, and the `result_amendments` row when the result was revised.
+      A result can only have one open request at a time.
+
+  2. Functions
+    - `submit_remark_request(p_result_id, p_reason)` - a student queries one of their own
+      published results
+    - `set_remark_request_status(p_request_id, p_status, p_response, p_amendment_id)` -
+      moves a request along; upholding needs a response and revising needs an amendment
+      of the same result made after the request was submitted
+    - `notify_remark_request` trigger - adds a portal notification for the student on
+      submission and every status change
+
+  3. Security
+    - Students can read their own requests; admins with `dashboard:view` can read all
+    - Students can only create requests through `submit_remark_request`; handling a
+      request needs `results:amend`
+*/
+
+CREATE TABLE IF NOT EXISTS public.remark_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  result_id UUID NOT NULL REFERENCES public.results(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES public.students(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'submitted'
+    CHECK (status IN ('submitted', 'under_review', 'upheld', 'revised')),
+  admin_response TEXT,
+  amendment_id UUID REFERENCES public.result_amendments(id) ON DELETE SET NULL,
+  handled_by UUID REFERENCES public.admin_users(id) ON DELETE SET NULL,
+  handled_by_name TEXT,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_remark_requests_student_id ON public.remark_requests(student_id);
+CREATE INDEX IF NOT EXISTS idx_remark_requests_status ON public.remark_requests(status);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_remark_requests_one_open_per_result
+  ON public.remark_requests(result_id)
+  WHERE status IN ('submitted', 'under_review');
+
+ALTER TABLE public.remark_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Students can read own remark requests"
+  ON public.remark_requests FOR SELECT TO authenticated
+  USING (student_id IN (SELECT id FROM public.students WHERE auth_user_id = auth.uid()));
+
+CREATE POLICY "Admins can view remark requests"
+  ON public.remark_requests FOR SELECT TO authenticated
+  USING (public.admin_has_permission('dashboard:view'));
+
+CREATE OR REPLACE FUNCTION public.submit_remark_request(p_result_id uuid, p_reason text)
+RETURNS public.remark_requests AS $$
+DECLARE
+  v_reason text := nullif(trim(p_reason), '');
+  v_student_id uuid;
+  v_request public.remark_requests;
+BEGIN
+  SELECT r.student_id INTO v_student_id
+  FROM public.results r
+  JOIN public.students s ON s.id = r.student_id
+  WHERE r.id = p_result_id
+    AND r.status = 'published'
+    AND s.auth_user_id = auth.uid();
+
+  IF v_student_id IS NULL THEN
+    RAISE EXCEPTION 'You can only request a remark of your own published results' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_reason IS NULL THEN
+    RAISE EXCEPTION 'Tell us why you want this result remarked' USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.remark_requests
+    WHERE result_id = p_result_id AND status IN ('submitted', 'under_review')
+  ) THEN
+    RAISE EXCEPTION 'You already have an open remark request for this result' USING ERRCODE = '23505';
+  END IF;
+
+  INSERT INTO public.remark_requests (result_id, student_id, reason)
+  VALUES (p_result_id, v_student_id, v_reason)
+  RETURNING * INTO v_request;
+
+  RETURN v_request;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.submit_remark_request(uuid, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.set_remark_request_status(
+  p_request_id uuid,
+  p_status text,
+  p_response text DEFAULT NULL,
+  p_amendment_id uuid DEFAULT NULL
+)
+RETURNS public.remark_requests AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_response text := nullif(trim(p_response), '');
+  v_request public.remark_requests;
+BEGIN
+  IF NOT public.admin_has_permission('results:amend') THEN
+    RAISE EXCEPTION 'You do not have permission to handle remark requests' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_request FROM public.remark_requests WHERE id = p_request_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Remark request not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_request.status NOT IN ('submitted', 'under_review')
+    OR (p_status = 'under_review' AND v_request.status <> 'submitted') THEN
+    RAISE EXCEPTION 'This remark request is already %; refresh and try again', replace(v_request.status, '_', ' ')
+      USING ERRCODE = '55000';
+  END IF;
+
+  CASE p_status
+    WHEN 'under_review' THEN
+      NULL;
+    WHEN 'upheld' THEN
+      IF v_response IS NULL THEN
+        RAISE EXCEPTION 'Explain to the student why the result stands' USING ERRCODE = '22023';
+      END IF;
+    WHEN 'revised' THEN
+      IF NOT EXISTS (
+        SELECT 1 FROM public.result_amendments
+        WHERE id = p_amendment_id
+          AND result_id = v_request.result_id
+          AND created_at >= v_request.created_at
+      ) THEN
+        RAISE EXCEPTION 'A revised request must link to an amendment of the same result' USING ERRCODE = '22023';
+      END IF;
+    ELSE
+      RAISE EXCEPTION 'Unknown remark request status: %', p_status USING ERRCODE = '22023';
+  END CASE;
+
+  UPDATE public.remark_requests
+  SET
+    status = p_status,
+    admin_response = COALESCE(v_response, admin_response),
+    amendment_id = CASE WHEN p_status = 'revised' THEN p_amendment_id ELSE amendment_id END,
+    handled_by = v_actor,
+    handled_by_name = (SELECT full_name FROM public.admin_users WHERE id = v_actor),
+    resolved_at = CASE WHEN p_status IN ('upheld', 'revised') THEN now() ELSE NULL END,
+    updated_at = now()
+  WHERE id = p_request_id
+  RETURNING * INTO v_request;
+
+  RETURN v_request;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION public.set_remark_request_status(uuid, text, text, uuid) TO authenticated;
+
+-- Admins write through set_remark_request_status, which runs as the caller
+CREATE POLICY "Admins can update remark requests"
+  ON public.remark_requests FOR UPDATE TO authenticated
+  USING (public.admin_has_permission('results:amend'));
+
+-- Keep the student informed in the portal at every step
+CREATE OR REPLACE FUNCTION public.notify_remark_request()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_course text;
+  v_amendment public.result_amendments;
+  v_message text;
+BEGIN
+  SELECT c.course_code || ' (' || r.academic_year || ' ' || r.semester || ')' INTO v_course
+  FROM public.results r
+  JOIN public.courses c ON c.id = r.course_id
+  WHERE r.id = NEW.result_id;
+
+  CASE NEW.status
+    WHEN 'submitted' THEN
+      v_message := 'We have received your remark request for ' || v_course
+        || '. You will be notified when it is reviewed.';
+    WHEN 'under_review' THEN
+      v_message := 'Your remark request for ' || v_course || ' is now under review.';
+    WHEN 'upheld' THEN
+      v_message := 'Your remark request for ' || v_course || ' has been reviewed and the original result stands.'
+        || E'\n' || NEW.admin_response;
+    WHEN 'revised' THEN
+      SELECT * INTO v_amendment FROM public.result_amendments WHERE id = NEW.amendment_id;
+      v_message := 'Your remark request for ' || v_course || ' has been reviewed and your result was revised from '
+        || COALESCE(v_amendment.before_total_score::text, '-') || ' (' || COALESCE(v_amendment.before_grade, '-') || ') to '
+        || COALESCE(v_amendment.after_total_score::text, '-') || ' (' || COALESCE(v_amendment.after_grade, '-') || ').'
+        || COALESCE(E'\n' || NEW.admin_response, '');
+  END CASE;
+
+  INSERT INTO public.notifications (student_id, title, message, type, status, sent_at)
+  VALUES (NEW.student_id, 'Remark Request Update', v_message, 'remark_request', 'sent', now());
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_remark_request_submitted
+  AFTER INSERT ON public.remark_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_remark_request();
+
+CREATE TRIGGER notify_remark_request_status_changed
+  AFTER UPDATE OF status ON public.remark_requests
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.notify_remark_request();
+
+CREATE TRIGGER update_remark_requests_updated_at
+  BEFORE UPDATE ON public.remark_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,251 @@
+/*
+  # Semester Course Registration
+
+  Students (or admins on their behalf) register the courses they take each semester.
+  Results can only be entered for registered courses.
+
+  1. Changes to `student_courses`
+    - `academic_year` and `semester` - the semester a registration belongs to. Existing rows
+      take the course's semester and the session their enrollment date falls in.
+    - `registered_by` - the auth user (student or admin) who saved the registration
+    - A course can be registered once per student and semester
+
+  2. New Tables
+    - `course_credit_limits` - minimum and maximum credit units per semester for each level
+    - `registration_windows` - when students may register for an academic year and semester
+
+  3. Functions
+    - `registration_window_open(p_academic_year, p_semester)` - true while the window is open
+    - `register_courses(p_student_id, p_academic_year, p_semester, p_course_ids)` - replaces a
+      student's registration for one semester. Every course must be active and offered to the
+      student's department and level in that semester, and the total must be within the
+      level's credit limits. Courses that already have a result cannot be dropped. Students
+      can only register themselves while the window is open; admins with `students:manage`
+      can register any student at any time (late registration).
+    - `require_course_registration` trigger - rejects results for unregistered courses
+
+  4. Security
+    - Students can read their own registrations, active courses, limits and windows
+    - Limits are managed with `courses:manage`; windows with `students:manage`
+*/
+
+-- Registrations belong to a semester
+ALTER TABLE public.student_courses
+  ADD COLUMN IF NOT EXISTS academic_year TEXT,
+  ADD COLUMN IF NOT EXISTS semester TEXT,
+  ADD COLUMN IF NOT EXISTS registered_by UUID;
+
+-- Sessions run September to August
+UPDATE public.student_courses sc
+SET
+  semester = c.semester,
+  academic_year = CASE
+    WHEN extract(month FROM sc.enrollment_date) >= 9
+      THEN extract(year FROM sc.enrollment_date)::int || '/' || (extract(year FROM sc.enrollment_date)::int + 1)
+    ELSE (extract(year FROM sc.enrollment_date)::int - 1) || '/' || extract(year FROM sc.enrollment_date)::int
+  END
+FROM public.courses c
+WHERE c.id = sc.course_id
+  AND (sc.academic_year IS NULL OR sc.semester IS NULL);
+
+ALTER TABLE public.student_courses
+  ALTER COLUMN academic_year SET NOT NULL,
+  ALTER COLUMN semester SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_student_courses_unique_registration
+  ON public.student_courses(student_id, course_id, academic_year, semester);
+
+CREATE INDEX IF NOT EXISTS idx_student_courses_semester
+  ON public.student_courses(academic_year, semester);
+
+-- Credit unit limits
+CREATE TABLE IF NOT EXISTS public.course_credit_limits (
+  level TEXT NOT NULL PRIMARY KEY,
+  min_units INTEGER NOT NULL CHECK (min_units >= 0),
+  max_units INTEGER NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (max_units >= min_units)
+);
+
+INSERT INTO public.course_credit_limits (level, min_units, max_units) VALUES
+  ('ND 1', 15, 24),
+  ('ND 2', 15, 24),
+  ('HND 1', 15, 24),
+  ('HND 2', 15, 24)
+ON CONFLICT (level) DO NOTHING;
+
+-- Registration windows
+CREATE TABLE IF NOT EXISTS public.registration_windows (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  academic_year TEXT NOT NULL,
+  semester TEXT NOT NULL,
+  opens_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  closes_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (academic_year, semester),
+  CHECK (closes_at > opens_at)
+);
+
+-- Security
+ALTER TABLE public.course_credit_limits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.registration_windows ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone signed in can view credit limits"
+  ON public.course_credit_limits FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage credit limits"
+  ON public.course_credit_limits FOR ALL TO authenticated
+  USING (public.admin_has_permission('courses:manage'))
+  WITH CHECK (public.admin_has_permission('courses:manage'));
+
+CREATE POLICY "Anyone signed in can view registration windows"
+  ON public.registration_windows FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage registration windows"
+  ON public.registration_windows FOR ALL TO authenticated
+  USING (public.admin_has_permission('students:manage'))
+  WITH CHECK (public.admin_has_permission('students:manage'));
+
+CREATE POLICY "Students can view active courses"
+  ON public.courses FOR SELECT TO authenticated
+  USING (is_active AND EXISTS (SELECT 1 FROM public.students WHERE auth_user_id = auth.uid()));
+
+CREATE POLICY "Students can read own course registrations"
+  ON public.student_courses FOR SELECT TO authenticated
+  USING (student_id IN (SELECT id FROM public.students WHERE auth_user_id = auth.uid()));
+
+CREATE OR REPLACE FUNCTION public.registration_window_open(p_academic_year text, p_semester text)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.registration_windows
+    WHERE academic_year = p_academic_year
+      AND semester = p_semester
+      AND now() BETWEEN opens_at AND closes_at
+  );
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION public.registration_window_open(text, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.register_courses(
+  p_student_id uuid,
+  p_academic_year text,
+  p_semester text,
+  p_course_ids uuid[]
+)
+RETURNS integer AS $$
+DECLARE
+  v_student public.students;
+  v_is_admin boolean := public.admin_has_permission('students:manage');
+  v_limits public.course_credit_limits;
+  v_course_ids uuid[] := ARRAY(SELECT DISTINCT unnest(COALESCE(p_course_ids, '{}')));
+  v_ineligible text;
+  v_locked text;
+  v_units integer;
+BEGIN
+  SELECT * INTO v_student FROM public.students WHERE id = p_student_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Student not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT v_is_admin THEN
+    IF v_student.auth_user_id IS DISTINCT FROM auth.uid() THEN
+      RAISE EXCEPTION 'You can only register your own courses' USING ERRCODE = '42501';
+    END IF;
+
+    IF NOT public.registration_window_open(p_academic_year, p_semester) THEN
+      RAISE EXCEPTION 'Course registration for % % is closed', p_academic_year, p_semester
+        USING ERRCODE = '55000';
+    END IF;
+  END IF;
+
+  -- Unknown ids count as ineligible too
+  SELECT string_agg(COALESCE(c.course_code, ids.id::text), ', ') INTO v_ineligible
+  FROM unnest(v_course_ids) AS ids(id)
+  LEFT JOIN public.courses c ON c.id = ids.id
+  WHERE c.id IS NULL
+    OR NOT c.is_active
+    OR c.department <> v_student.department
+    OR c.level <> v_student.level
+    OR c.semester <> p_semester;
+
+  IF v_ineligible IS NOT NULL THEN
+    RAISE EXCEPTION 'Not offered to % % students in the %: %',
+      v_student.department, v_student.level, p_semester, v_ineligible
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT COALESCE(sum(credit_units), 0) INTO v_units
+  FROM public.courses
+  WHERE id = ANY (v_course_ids);
+
+  SELECT * INTO v_limits FROM public.course_credit_limits WHERE level = v_student.level;
+
+  IF FOUND AND (v_units < v_limits.min_units OR v_units > v_limits.max_units) THEN
+    RAISE EXCEPTION '% students must register between % and % credit units; this registration has %',
+      v_student.level, v_limits.min_units, v_limits.max_units, v_units
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT string_agg(c.course_code, ', ') INTO v_locked
+  FROM public.student_courses sc
+  JOIN public.courses c ON c.id = sc.course_id
+  WHERE sc.student_id = p_student_id
+    AND sc.academic_year = p_academic_year
+    AND sc.semester = p_semester
+    AND NOT (sc.course_id = ANY (v_course_ids))
+    AND EXISTS (
+      SELECT 1 FROM public.results r
+      WHERE r.student_id = sc.student_id
+        AND r.course_id = sc.course_id
+        AND r.academic_year = sc.academic_year
+        AND r.semester = sc.semester
+    );
+
+  IF v_locked IS NOT NULL THEN
+    RAISE EXCEPTION 'These courses already have results and cannot be dropped: %', v_locked
+      USING ERRCODE = '55000';
+  END IF;
+
+  DELETE FROM public.student_courses
+  WHERE student_id = p_student_id
+    AND academic_year = p_academic_year
+    AND semester = p_semester
+    AND NOT (course_id = ANY (v_course_ids));
+
+  INSERT INTO public.student_courses (student_id, course_id, academic_year, semester, registered_by)
+  SELECT p_student_id, ids.id, p_academic_year, p_semester, auth.uid()
+  FROM unnest(v_course_ids) AS ids(id)
+  ON CONFLICT (student_id, course_id, academic_year, semester) DO NOTHING;
+
+  RETURN COALESCE(array_length(v_course_ids, 1), 0);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.register_courses(uuid, text, text, uuid[]) TO authenticated;
+
+-- Results can only be recorded for courses the student registered that semester
+CREATE OR REPLACE FUNCTION public.require_course_registration()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.student_courses
+    WHERE student_id = NEW.student_id
+      AND course_id = NEW.course_id
+      AND academic_year = NEW.academic_year
+      AND semester = NEW.semester
+  ) THEN
+    RAISE EXCEPTION 'The student is not registered for this course in % %', NEW.academic_year, NEW.semester
+      USING ERRCODE = '23503';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER require_course_registration
+  BEFORE INSERT ON public.results
+  FOR EACH ROW
+  EXECUTE FUNCTION public.require_course_registration();
@@ -0,0 +1,236 @@
+/*
+  # Course Prerequisites and Carry-overs
+
+  1. New Tables
+    - `course_prerequisites` - a course (`course_id`) that can only be registered once the
+      student has passed another (`prerequisite_id`). Cycles are rejected.
+
+  2. New Views
+    - `carry_overs` - every course a student has sat (published, graded results) but never
+      passed, with the number of attempts and the latest sitting. A course leaves the list as
+      soon as one attempt has a grade point above zero, matching the GPA engine.
+      The view runs with the caller's permissions, so students only see their own.
+
+  3. Changes to `register_courses`
+    - Outstanding carry-overs may be registered in any later session, whatever the student's
+      current level, as long as they are offered in that semester
+    - Newly added courses are rejected while a prerequisite has not been passed
+
+  4. Security
+    - Everyone signed in can read prerequisites; `courses:manage` maintains them
+*/
+
+CREATE TABLE IF NOT EXISTS public.course_prerequisites (
+  course_id UUID NOT NULL REFERENCES public.courses(id) ON DELETE CASCADE,
+  prerequisite_id UUID NOT NULL REFERENCES public.courses(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (course_id, prerequisite_id),
+  CHECK (course_id <> prerequisite_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_course_prerequisites_prerequisite
+  ON public.course_prerequisites(prerequisite_id);
+
+-- A course cannot (even indirectly) be its own prerequisite
+CREATE OR REPLACE FUNCTION public.prevent_prerequisite_cycle()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    WITH RECURSIVE chain(course_id) AS (
+      SELECT NEW.prerequisite_id
+      UNION
+      SELECT cp.prerequisite_id
+      FROM public.course_prerequisites cp
+      JOIN chain ON cp.course_id = chain.course_id
+    )
+    SELECT 1 FROM chain WHERE course_id = NEW.course_id
+  ) THEN
+    RAISE EXCEPTION 'This prerequisite would make the course depend on itself'
+      USING ERRCODE = '23514';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER prevent_prerequisite_cycle
+  BEFORE INSERT OR UPDATE ON public.course_prerequisites
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_prerequisite_cycle();
+
+ALTER TABLE public.course_prerequisites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone signed in can view prerequisites"
+  ON public.course_prerequisites FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage prerequisites"
+  ON public.course_prerequisites FOR ALL TO authenticated
+  USING (public.admin_has_permission('courses:manage'))
+  WITH CHECK (public.admin_has_permission('courses:manage'));
+
+-- Courses sat but never passed, generated from published grades
+CREATE OR REPLACE VIEW public.carry_overs
+WITH (security_invoker = true) AS
+WITH graded AS (
+  SELECT
+    r.student_id,
+    r.course_id,
+    r.academic_year,
+    r.semester,
+    r.total_score,
+    r.grade,
+    count(*) OVER attempts_of_course AS attempts,
+    max(r.grade_point) OVER attempts_of_course AS best_grade_point,
+    row_number() OVER (
+      attempts_of_course
+      ORDER BY r.academic_year DESC,
+        CASE r.semester WHEN 'First Semester' THEN 1 WHEN 'Second Semester' THEN 2 ELSE 99 END DESC
+    ) AS recency
+  FROM public.results r
+  WHERE r.status = 'published'
+    AND r.grade_point IS NOT NULL
+  WINDOW attempts_of_course AS (PARTITION BY r.student_id, r.course_id)
+)
+SELECT
+  student_id,
+  course_id,
+  attempts::integer AS attempts,
+  academic_year AS last_academic_year,
+  semester AS last_semester,
+  total_score AS last_total_score,
+  grade AS last_grade
+FROM graded
+WHERE recency = 1
+  AND best_grade_point <= 0;
+
+GRANT SELECT ON public.carry_overs TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.register_courses(
+  p_student_id uuid,
+  p_academic_year text,
+  p_semester text,
+  p_course_ids uuid[]
+)
+RETURNS integer AS $$
+DECLARE
+  v_student public.students;
+  v_is_admin boolean := public.admin_has_permission('students:manage');
+  v_limits public.course_credit_limits;
+  v_course_ids uuid[] := ARRAY(SELECT DISTINCT unnest(COALESCE(p_course_ids, '{}')));
+  v_ineligible text;
+  v_unmet text;
+  v_locked text;
+  v_units integer;
+BEGIN
+  SELECT * INTO v_student FROM public.students WHERE id = p_student_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Student not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT v_is_admin THEN
+    IF v_student.auth_user_id IS DISTINCT FROM auth.uid() THEN
+      RAISE EXCEPTION 'You can only register your own courses' USING ERRCODE = '42501';
+    END IF;
+
+    IF NOT public.registration_window_open(p_academic_year, p_semester) THEN
+      RAISE EXCEPTION 'Course registration for % % is closed', p_academic_year, p_semester
+        USING ERRCODE = '55000';
+    END IF;
+  END IF;
+
+  -- Unknown ids count as ineligible too; carry-overs are eligible at any level
+  SELECT string_agg(COALESCE(c.course_code, ids.id::text), ', ') INTO v_ineligible
+  FROM unnest(v_course_ids) AS ids(id)
+  LEFT JOIN public.courses c ON c.id = ids.id
+  WHERE c.id IS NULL
+    OR NOT c.is_active
+    OR c.semester <> p_semester
+    OR NOT (
+      (c.department = v_student.department AND c.level = v_student.level)
+      OR EXISTS (
+        SELECT 1 FROM public.carry_overs co
+        WHERE co.student_id = p_student_id AND co.course_id = c.id
+      )
+    );
+
+  IF v_ineligible IS NOT NULL THEN
+    RAISE EXCEPTION 'Not offered to % % students in the %: %',
+      v_student.department, v_student.level, p_semester, v_ineligible
+      USING ERRCODE = '22023';
+  END IF;
+
+  -- Courses already registered keep their place even if a prerequisite changed since
+  SELECT string_agg(c.course_code || ' needs ' || p.course_code, ', ' ORDER BY c.course_code, p.course_code)
+  INTO v_unmet
+  FROM unnest(v_course_ids) AS ids(id)
+  JOIN public.course_prerequisites cp ON cp.course_id = ids.id
+  JOIN public.courses c ON c.id = cp.course_id
+  JOIN public.courses p ON p.id = cp.prerequisite_id
+  WHERE NOT EXISTS (
+      SELECT 1 FROM public.results r
+      WHERE r.student_id = p_student_id
+        AND r.course_id = cp.prerequisite_id
+        AND r.status = 'published'
+        AND r.grade_point > 0
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM public.student_courses sc
+      WHERE sc.student_id = p_student_id
+        AND sc.course_id = ids.id
+        AND sc.academic_year = p_academic_year
+        AND sc.semester = p_semester
+    );
+
+  IF v_unmet IS NOT NULL THEN
+    RAISE EXCEPTION 'Prerequisites not passed: %', v_unmet
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT COALESCE(sum(credit_units), 0) INTO v_units
+  FROM public.courses
+  WHERE id = ANY (v_course_ids);
+
+  SELECT * INTO v_limits FROM public.course_credit_limits WHERE level = v_student.level;
+
+  IF FOUND AND (v_units < v_limits.min_units OR v_units > v_limits.max_units) THEN
+    RAISE EXCEPTION '% students must register between % and % credit units; this registration has %',
+      v_student.level, v_limits.min_units, v_limits.max_units, v_units
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT string_agg(c.course_code, ', ') INTO v_locked
+  FROM public.student_courses sc
+  JOIN public.courses c ON c.id = sc.course_id
+  WHERE sc.student_id = p_student_id
+    AND sc.academic_year = p_academic_year
+    AND sc.semester = p_semester
+    AND NOT (sc.course_id = ANY (v_course_ids))
+    AND EXISTS (
+      SELECT 1 FROM public.results r
+      WHERE r.student_id = sc.student_id
+        AND r.course_id = sc.course_id
+        AND r.academic_year = sc.academic_year
+        AND r.semester = sc.semester
+    );
+
+  IF v_locked IS NOT NULL THEN
+    RAISE EXCEPTION 'These courses already have results and cannot be dropped: %', v_locked
+      USING ERRCODE = '55000';
+  END IF;
+
+  DELETE FROM public.student_courses
+  WHERE student_id = p_student_id
+    AND academic_year = p_academic_year
+    AND semester = p_semester
+    AND NOT (course_id = ANY (v_course_ids));
+
+  INSERT INTO public.student_courses (student_id, course_id, academic_year, semester, registered_by)
+  SELECT p_student_id, ids.id, p_academic_year, p_semester, auth.uid()
+  FROM unnest(v_course_ids) AS ids(id)
+  ON CONFLICT (student_id, course_id, academic_year, semester) DO NOTHING;
+
+  RETURN COALESCE(array_length(v_course_ids, 1), 0);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,329 @@
+/*
+  # Course Management
+
+  The course catalogue stays timeless (one row per course, so results, carry-overs and
+  prerequisites keep pointing at the same course), and each session offers a subset of it.
+
+  1. New Tables
+    - `course_offerings` - a catalogue course offered in an academic session. Existing
+      registrations and results are backfilled as offerings, and every active course is
+      offered in the current session.
+    - `course_assignments` - the staff accounts (`admin_users`) teaching an offering
+
+  2. Functions
+    - `copy_course_catalogue(p_department, p_from_year, p_to_year, p_include_lecturers)` -
+      offers a department's active courses from one session in another, optionally with the
+      same lecturers. Returns how many offerings were added.
+    - `get_assignable_staff()` - active staff accounts that can be assigned to courses
+    - `prevent_course_delete` trigger - a course with results cannot be deleted; the error
+      explains that it should be deactivated instead
+    - `register_courses` - only courses offered in the session can be registered
+
+  3. Changes
+    - Deleting a course (without results) removes its registrations and offerings
+
+  4. Security
+    - Everyone signed in can read offerings; admins can read assignments
+    - Offerings and assignments are managed with `courses:manage`
+    - Students can also read deactivated courses they registered for (courses of their own
+      results were already readable), so deactivating a course keeps it on their transcript
+*/
+
+CREATE TABLE IF NOT EXISTS public.course_offerings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  course_id UUID NOT NULL REFERENCES public.courses(id) ON DELETE CASCADE,
+  academic_year TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (course_id, academic_year)
+);
+
+CREATE INDEX IF NOT EXISTS idx_course_offerings_academic_year
+  ON public.course_offerings(academic_year);
+
+CREATE TABLE IF NOT EXISTS public.course_assignments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  offering_id UUID NOT NULL REFERENCES public.course_offerings(id) ON DELETE CASCADE,
+  admin_user_id UUID NOT NULL REFERENCES public.admin_users(id) ON DELETE CASCADE,
+  assigned_by UUID REFERENCES public.admin_users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (offering_id, admin_user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_course_assignments_admin_user
+  ON public.course_assignments(admin_user_id);
+
+-- Every session a course was already taken in, plus the current session (September to August)
+INSERT INTO public.course_offerings (course_id, academic_year)
+SELECT course_id, academic_year FROM public.student_courses
+UNION
+SELECT course_id, academic_year FROM public.results WHERE course_id IS NOT NULL
+UNION
+SELECT c.id,
+  CASE
+    WHEN extract(month FROM now()) >= 9
+      THEN extract(year FROM now())::int || '/' || (extract(year FROM now())::int + 1)
+    ELSE (extract(year FROM now())::int - 1) || '/' || extract(year FROM now())::int
+  END
+FROM public.courses c
+WHERE c.is_active
+ON CONFLICT (course_id, academic_year) DO NOTHING;
+
+-- Registrations go with the course; results block the delete below
+ALTER TABLE public.student_courses
+  DROP CONSTRAINT IF EXISTS student_courses_course_id_fkey,
+  ADD CONSTRAINT student_courses_course_id_fkey
+    FOREIGN KEY (course_id) REFERENCES public.courses(id) ON DELETE CASCADE;
+
+CREATE OR REPLACE FUNCTION public.prevent_course_delete()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_results integer;
+BEGIN
+  SELECT count(*) INTO v_results FROM public.results WHERE course_id = OLD.id;
+
+  IF v_results > 0 THEN
+    RAISE EXCEPTION '% has % recorded result(s) and cannot be deleted. Deactivate it instead so transcripts keep their course.',
+      OLD.course_code, v_results
+      USING ERRCODE = '23503';
+  END IF;
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER prevent_course_delete
+  BEFORE DELETE ON public.courses
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_course_delete();
+
+-- Security
+ALTER TABLE public.course_offerings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.course_assignments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone signed in can view course offerings"
+  ON public.course_offerings FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage course offerings"
+  ON public.course_offerings FOR ALL TO authenticated
+  USING (public.admin_has_permission('courses:manage'))
+  WITH CHECK (public.admin_has_permission('courses:manage'));
+
+CREATE POLICY "Students can view courses they registered for"
+  ON public.courses FOR SELECT TO authenticated
+  USING (id IN (
+    SELECT sc.course_id
+    FROM public.student_courses sc
+    JOIN public.students s ON s.id = sc.student_id
+    WHERE s.auth_user_id = auth.uid()
+  ));
+
+CREATE POLICY "Admins can view course assignments"
+  ON public.course_assignments FOR SELECT TO authenticated
+  USING (public.admin_has_permission('dashboard:view'));
+
+CREATE POLICY "Admins can manage course assignments"
+  ON public.course_assignments FOR ALL TO authenticated
+  USING (public.admin_has_permission('courses:manage'))
+  WITH CHECK (public.admin_has_permission('courses:manage'));
+
+CREATE OR REPLACE FUNCTION public.get_assignable_staff()
+RETURNS TABLE (id uuid, full_name text, email text, role text) AS $$
+BEGIN
+  IF NOT public.admin_has_permission('courses:manage') THEN
+    RAISE EXCEPTION 'Permission denied' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT a.id, a.full_name, a.email, a.role
+  FROM public.admin_users a
+  WHERE a.is_active
+  ORDER BY a.full_name;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_assignable_staff() TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.copy_course_catalogue(
+  p_department text,
+  p_from_year text,
+  p_to_year text,
+  p_include_lecturers boolean DEFAULT false
+)
+RETURNS integer AS $$
+DECLARE
+  v_added integer;
+BEGIN
+  IF NOT public.admin_has_permission('courses:manage') THEN
+    RAISE EXCEPTION 'Permission denied' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_from_year = p_to_year THEN
+    RAISE EXCEPTION 'Pick a different session to copy to' USING ERRCODE = '22023';
+  END IF;
+
+  WITH added AS (
+    INSERT INTO public.course_offerings (course_id, academic_year)
+    SELECT o.course_id, p_to_year
+    FROM public.course_offerings o
+    JOIN public.courses c ON c.id = o.course_id
+    WHERE o.academic_year = p_from_year
+      AND c.department = p_department
+      AND c.is_active
+    ON CONFLICT (course_id, academic_year) DO NOTHING
+    RETURNING 1
+  )
+  SELECT count(*) INTO v_added FROM added;
+
+  IF p_include_lecturers THEN
+    INSERT INTO public.course_assignments (offering_id, admin_user_id, assigned_by)
+    SELECT target.id, a.admin_user_id, auth.uid()
+    FROM public.course_assignments a
+    JOIN public.course_offerings source ON source.id = a.offering_id
+    JOIN public.courses c ON c.id = source.course_id
+    JOIN public.course_offerings target
+      ON target.course_id = source.course_id AND target.academic_year = p_to_year
+    WHERE source.academic_year = p_from_year
+      AND c.department = p_department
+      AND c.is_active
+    ON CONFLICT (offering_id, admin_user_id) DO NOTHING;
+  END IF;
+
+  RETURN v_added;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.copy_course_catalogue(text, text, text, boolean) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.register_courses(
+  p_student_id uuid,
+  p_academic_year text,
+  p_semester text,
+  p_course_ids uuid[]
+)
+RETURNS integer AS $$
+DECLARE
+  v_student public.students;
+  v_is_admin boolean := public.admin_has_permission('students:manage');
+  v_limits public.course_credit_limits;
+  v_course_ids uuid[] := ARRAY(SELECT DISTINCT unnest(COALESCE(p_course_ids, '{}')));
+  v_ineligible text;
+  v_unmet text;
+  v_locked text;
+  v_units integer;
+BEGIN
+  SELECT * INTO v_student FROM public.students WHERE id = p_student_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Student not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT v_is_admin THEN
+    IF v_student.auth_user_id IS DISTINCT FROM auth.uid() THEN
+      RAISE EXCEPTION 'You can only register your own courses' USING ERRCODE = '42501';
+    END IF;
+
+    IF NOT public.registration_window_open(p_academic_year, p_semester) THEN
+      RAISE EXCEPTION 'Course registration for % % is closed', p_academic_year, p_semester
+        USING ERRCODE = '55000';
+    END IF;
+  END IF;
+
+  -- Unknown ids count as ineligible too; carry-overs are eligible at any level
+  SELECT string_agg(COALESCE(c.course_code, ids.id::text), ', ') INTO v_ineligible
+  FROM unnest(v_course_ids) AS ids(id)
+  LEFT JOIN public.courses c ON c.id = ids.id
+  WHERE c.id IS NULL
+    OR NOT c.is_active
+    OR c.semester <> p_semester
+    OR NOT EXISTS (
+      SELECT 1 FROM public.course_offerings o
+      WHERE o.course_id = c.id AND o.academic_year = p_academic_year
+    )
+    OR NOT (
+      (c.department = v_student.department AND c.level = v_student.level)
+      OR EXISTS (
+        SELECT 1 FROM public.carry_overs co
+        WHERE co.student_id = p_student_id AND co.course_id = c.id
+      )
+    );
+
+  IF v_ineligible IS NOT NULL THEN
+    RAISE EXCEPTION 'Not offered to % % students in the % of %: %',
+      v_student.department, v_student.level, p_semester, p_academic_year, v_ineligible
+      USING ERRCODE = '22023';
+  END IF;
+
+  -- Courses already registered keep their place even if a prerequisite changed since
+  SELECT string_agg(c.course_code || ' needs ' || p.course_code, ', ' ORDER BY c.course_code, p.course_code)
+  INTO v_unmet
+  FROM unnest(v_course_ids) AS ids(id)
+  JOIN public.course_prerequisites cp ON cp.course_id = ids.id
+  JOIN public.courses c ON c.id = cp.course_id
+  JOIN public.courses p ON p.id = cp.prerequisite_id
+  WHERE NOT EXISTS (
+      SELECT 1 FROM public.results r
+      WHERE r.student_id = p_student_id
+        AND r.course_id = cp.prerequisite_id
+        AND r.status = 'published'
+        AND r.grade_point > 0
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM public.student_courses sc
+      WHERE sc.student_id = p_student_id
+        AND sc.course_id = ids.id
+        AND sc.academic_year = p_academic_year
+        AND sc.semester = p_semester
+    );
+
+  IF v_unmet IS NOT NULL THEN
+    RAISE EXCEPTION 'Prerequisites not passed: %', v_unmet
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT COALESCE(sum(credit_units), 0) INTO v_units
+  FROM public.courses
+  WHERE id = ANY (v_course_ids);
+
+  SELECT * INTO v_limits FROM public.course_credit_limits WHERE level = v_student.level;
+
+  IF FOUND AND (v_units < v_limits.min_units OR v_units > v_limits.max_units) THEN
+    RAISE EXCEPTION '% students must register between % and % credit units; this registration has %',
+      v_student.level, v_limits.min_units, v_limits.max_units, v_units
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT string_agg(c.course_code, ', ') INTO v_locked
+  FROM public.student_courses sc
+  JOIN public.courses c ON c.id = sc.course_id
+  WHERE sc.student_id = p_student_id
+    AND sc.academic_year = p_academic_year
+    AND sc.semester = p_semester
+    AND NOT (sc.course_id = ANY (v_course_ids))
+    AND EXISTS (
+      SELECT 1 FROM public.results r
+      WHERE r.student_id = sc.student_id
+        AND r.course_id = sc.course_id
+        AND r.academic_year = sc.academic_year
+        AND r.semester = sc.semester
+    );
+
+  IF v_locked IS NOT NULL THEN
+    RAISE EXCEPTION 'These courses already have results and cannot be dropped: %', v_locked
+      USING ERRCODE = '55000';
+  END IF;
+
+  DELETE FROM public.student_courses
+  WHERE student_id = p_student_id
+    AND academic_year = p_academic_year
+    AND semester = p_semester
+    AND NOT (course_id = ANY (v_course_ids));
+
+  INSERT INTO public.student_courses (student_id, course_id, academic_year, semester, registered_by)
+  SELECT p_student_id, ids.id, p_academic_year, p_semester, auth.uid()
+  FROM unnest(v_course_ids) AS ids(id)
+  ON CONFLICT (student_id, course_id, academic_year, semester) DO NOTHING;
+
+  RETURN COALESCE(array_length(v_course_ids, 1), 0);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,419 @@
+/*
+  # Lecturer Score Entry
+
+  Lecturers enter CA and exam scores for the courses they are assigned to teach
+  (`course_assignments`), instead of the exam office keying them in from paper sheets.
+
+  1. Roles and Permissions
+    - New admin role `lecturer`
+    - `scores:enter` - enter scores for assigned courses only; granted to lecturer.
+      Lecturers do not get `dashboard:view`, so they cannot browse other students or results.
+
+  2. New Tables
+    - `score_sheets` - one per course offering, `draft` while the lecturer works on it and
+      `submitted` once sent for HOD review. `submitted_by`/`submitted_at` record the last submission.
+    - `score_sheet_entries` - the lecturer's saved CA and exam scores, one row per student
+
+  3. Functions
+    - `get_lecturer_courses()` - the calling lecturer's offerings with sheet status and class size
+    - `get_score_sheet(p_offering_id)` - registered students with their saved scores and, once
+      submitted, the stage of their result
+    - `save_score_sheet(p_offering_id, p_rows)` - saves draft scores; the sheet must be in draft
+    - `submit_score_sheet(p_offering_id)` - checks every student has both scores, then writes
+      them to `results` as `draft` (the stage HOD review starts from). Results already past
+      `draft` are left alone.
+    - `reopen_score_sheet` trigger - rejecting a result sends its sheet back to draft so the
+      lecturer can correct and resubmit it
+    - `apply_grading_scale` now recomputes the total whenever CA or exam is set, so a corrected
+      score never keeps the total, grade and grade point of the one it replaced
+
+  4. Security
+    - Sheets and entries are only written through the functions above, which check that the
+      caller is an active lecturer assigned to the offering
+    - Lecturers can read their own course assignments; admins can read every sheet
+*/
+
+-- The total follows CA and exam whenever either is set; results imported with only a total keep it
+CREATE OR REPLACE FUNCTION public.apply_grading_scale()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_department text;
+  v_level text;
+  v_band public.grading_scale_bands;
+BEGIN
+  IF NEW.ca_score IS NOT NULL OR NEW.exam_score IS NOT NULL THEN
+    NEW.total_score := COALESCE(NEW.ca_score, 0) + COALESCE(NEW.exam_score, 0);
+  END IF;
+
+  IF NEW.total_score IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT department, level INTO v_department, v_level
+  FROM public.students
+  WHERE id = NEW.student_id;
+
+  v_band := public.grade_for_score(
+    public.resolve_grading_scale(v_department, v_level, NEW.academic_year),
+    NEW.total_score
+  );
+
+  IF v_band.id IS NOT NULL THEN
+    NEW.grade := v_band.letter;
+    NEW.grade_point := v_band.grade_point;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Roles and permissions
+ALTER TABLE public.role_permissions DROP CONSTRAINT IF EXISTS role_permissions_role_check;
+ALTER TABLE public.role_permissions ADD CONSTRAINT role_permissions_role_check
+  CHECK (role IN ('admin', 'super_admin', 'registrar', 'hod', 'exam_officer', 'lecturer'));
+
+INSERT INTO public.role_permissions (role, permission) VALUES
+  ('super_admin', 'scores:enter'),
+  ('lecturer', 'scores:enter')
+ON CONFLICT (role, permission) DO NOTHING;
+
+-- Score sheets
+CREATE TABLE IF NOT EXISTS public.score_sheets (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  offering_id UUID NOT NULL UNIQUE REFERENCES public.course_offerings(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'submitted')),
+  submitted_by UUID REFERENCES public.admin_users(id) ON DELETE SET NULL,
+  submitted_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.score_sheet_entries (
+  sheet_id UUID NOT NULL REFERENCES public.score_sheets(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES public.students(id) ON DELETE CASCADE,
+  ca_score NUMERIC CHECK (ca_score >= 0 AND ca_score <= 30),
+  exam_score NUMERIC CHECK (exam_score >= 0 AND exam_score <= 70),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (sheet_id, student_id)
+);
+
+ALTER TABLE public.score_sheets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.score_sheet_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view score sheets"
+  ON public.score_sheets FOR SELECT TO authenticated
+  USING (public.admin_has_permission('dashboard:view'));
+
+CREATE POLICY "Admins can view score sheet entries"
+  ON public.score_sheet_entries FOR SELECT TO authenticated
+  USING (public.admin_has_permission('dashboard:view'));
+
+CREATE POLICY "Lecturers can view their course assignments"
+  ON public.course_assignments FOR SELECT TO authenticated
+  USING (admin_user_id = auth.uid() AND public.admin_has_permission('scores:enter'));
+
+-- Whether the caller may enter scores for the offering
+CREATE OR REPLACE FUNCTION public.is_offering_lecturer(p_offering_id uuid)
+RETURNS boolean AS $$
+  SELECT public.admin_has_permission('scores:enter')
+    AND EXISTS (
+      SELECT 1
+      FROM public.course_assignments
+      WHERE offering_id = p_offering_id
+        AND admin_user_id = auth.uid()
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.is_offering_lecturer(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_lecturer_courses()
+RETURNS TABLE (
+  offering_id uuid,
+  course_id uuid,
+  academic_year text,
+  course_code text,
+  course_title text,
+  credit_units integer,
+  department text,
+  level text,
+  semester text,
+  sheet_status text,
+  submitted_at timestamptz,
+  student_count integer
+) AS $$
+BEGIN
+  IF NOT public.admin_has_permission('scores:enter') THEN
+    RAISE EXCEPTION 'You do not have permission to enter course scores' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    o.id,
+    c.id,
+    o.academic_year,
+    c.course_code,
+    c.course_title,
+    c.credit_units,
+    c.department,
+    c.level,
+    c.semester,
+    COALESCE(s.status, 'draft'),
+    s.submitted_at,
+    (
+      SELECT count(*)::integer
+      FROM public.student_courses sc
+      WHERE sc.course_id = c.id
+        AND sc.academic_year = o.academic_year
+        AND sc.semester = c.semester
+    )
+  FROM public.course_assignments a
+  JOIN public.course_offerings o ON o.id = a.offering_id
+  JOIN public.courses c ON c.id = o.course_id
+  LEFT JOIN public.score_sheets s ON s.offering_id = o.id
+  WHERE a.admin_user_id = auth.uid()
+  ORDER BY o.academic_year DESC, c.course_code;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_lecturer_courses() TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_score_sheet(p_offering_id uuid)
+RETURNS TABLE (
+  student_id uuid,
+  matric_number text,
+  first_name text,
+  last_name text,
+  level text,
+  ca_score numeric,
+  exam_score numeric,
+  result_status text,
+  rejection_comment text
+) AS $$
+BEGIN
+  IF NOT public.is_offering_lecturer(p_offering_id) THEN
+    RAISE EXCEPTION 'You are not assigned to this course' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    st.id,
+    st.student_id,
+    st.first_name,
+    st.last_name,
+    st.level,
+    COALESCE(e.ca_score, r.ca_score),
+    COALESCE(e.exam_score, r.exam_score),
+    r.status,
+    r.rejection_comment
+  FROM public.course_offerings o
+  JOIN public.courses c ON c.id = o.course_id
+  JOIN public.student_courses sc
+    ON sc.course_id = c.id
+   AND sc.academic_year = o.academic_year
+   AND sc.semester = c.semester
+  JOIN public.students st ON st.id = sc.student_id
+  LEFT JOIN public.score_sheets s ON s.offering_id = o.id
+  LEFT JOIN public.score_sheet_entries e ON e.sheet_id = s.id AND e.student_id = st.id
+  LEFT JOIN public.results r
+    ON r.student_id = st.id
+   AND r.course_id = c.id
+   AND r.academic_year = o.academic_year
+   AND r.semester = c.semester
+  WHERE o.id = p_offering_id
+  ORDER BY st.student_id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_score_sheet(uuid) TO authenticated;
+
+-- p_rows: [{ "student_id": uuid, "ca_score": number | null, "exam_score": number | null }]
+CREATE OR REPLACE FUNCTION public.save_score_sheet(p_offering_id uuid, p_rows jsonb)
+RETURNS integer AS $$
+DECLARE
+  v_sheet public.score_sheets;
+  v_count integer;
+BEGIN
+  IF NOT public.is_offering_lecturer(p_offering_id) THEN
+    RAISE EXCEPTION 'You are not assigned to this course' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.score_sheets (offering_id)
+  VALUES (p_offering_id)
+  ON CONFLICT (offering_id) DO NOTHING;
+
+  SELECT * INTO v_sheet FROM public.score_sheets WHERE offering_id = p_offering_id FOR UPDATE;
+
+  IF v_sheet.status <> 'draft' THEN
+    RAISE EXCEPTION 'This score sheet has been submitted for review and can no longer be edited'
+      USING ERRCODE = '55000';
+  END IF;
+
+  CREATE TEMP TABLE sheet_rows ON COMMIT DROP AS
+  SELECT *
+  FROM jsonb_to_recordset(p_rows) AS r(student_id uuid, ca_score numeric, exam_score numeric);
+
+  IF EXISTS (
+    SELECT 1
+    FROM sheet_rows sr
+    WHERE NOT EXISTS (
+      SELECT 1
+      FROM public.course_offerings o
+      JOIN public.courses c ON c.id = o.course_id
+      JOIN public.student_courses sc
+        ON sc.course_id = c.id
+       AND sc.academic_year = o.academic_year
+       AND sc.semester = c.semester
+      WHERE o.id = p_offering_id
+        AND sc.student_id = sr.student_id
+    )
+  ) THEN
+    RAISE EXCEPTION 'Some students on the sheet are not registered for this course' USING ERRCODE = '23514';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM sheet_rows WHERE ca_score < 0 OR ca_score > 30) THEN
+    RAISE EXCEPTION 'CA scores must be between 0 and 30' USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM sheet_rows WHERE exam_score < 0 OR exam_score > 70) THEN
+    RAISE EXCEPTION 'Exam scores must be between 0 and 70' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.score_sheet_entries (sheet_id, student_id, ca_score, exam_score, updated_at)
+  SELECT v_sheet.id, student_id, ca_score, exam_score, now()
+  FROM sheet_rows
+  ON CONFLICT (sheet_id, student_id) DO UPDATE
+  SET ca_score = EXCLUDED.ca_score,
+      exam_score = EXCLUDED.exam_score,
+      updated_at = now();
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  UPDATE public.score_sheets SET updated_at = now() WHERE id = v_sheet.id;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.save_score_sheet(uuid, jsonb) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.submit_score_sheet(p_offering_id uuid)
+RETURNS integer AS $$
+DECLARE
+  v_sheet public.score_sheets;
+  v_offering public.course_offerings;
+  v_course public.courses;
+  v_missing integer;
+  v_count integer;
+  v_inserted integer;
+BEGIN
+  IF NOT public.is_offering_lecturer(p_offering_id) THEN
+    RAISE EXCEPTION 'You are not assigned to this course' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_sheet FROM public.score_sheets WHERE offering_id = p_offering_id FOR UPDATE;
+
+  IF v_sheet.id IS NULL THEN
+    RAISE EXCEPTION 'Save the score sheet before submitting it' USING ERRCODE = '55000';
+  END IF;
+
+  IF v_sheet.status <> 'draft' THEN
+    RAISE EXCEPTION 'This score sheet has already been submitted' USING ERRCODE = '55000';
+  END IF;
+
+  SELECT * INTO v_offering FROM public.course_offerings WHERE id = p_offering_id;
+  SELECT * INTO v_course FROM public.courses WHERE id = v_offering.course_id;
+
+  -- Students whose result is still open need both scores
+  SELECT count(*) INTO v_missing
+  FROM public.student_courses sc
+  LEFT JOIN public.score_sheet_entries e ON e.sheet_id = v_sheet.id AND e.student_id = sc.student_id
+  LEFT JOIN public.results r
+    ON r.student_id = sc.student_id
+   AND r.course_id = sc.course_id
+   AND r.academic_year = sc.academic_year
+   AND r.semester = sc.semester
+  WHERE sc.course_id = v_course.id
+    AND sc.academic_year = v_offering.academic_year
+    AND sc.semester = v_course.semester
+    AND (r.id IS NULL OR r.status = 'draft')
+    AND (e.ca_score IS NULL OR e.exam_score IS NULL);
+
+  IF v_missing > 0 THEN
+    RAISE EXCEPTION '% student(s) still need both a CA and an exam score', v_missing USING ERRCODE = '23514';
+  END IF;
+
+  PERFORM set_config('app.amendment_reason', 'Resubmitted on the lecturer score sheet', true);
+
+  UPDATE public.results r
+  SET ca_score = e.ca_score,
+      exam_score = e.exam_score,
+      total_score = e.ca_score + e.exam_score,
+      rejection_comment = NULL,
+      updated_at = now()
+  FROM public.score_sheet_entries e
+  WHERE e.sheet_id = v_sheet.id
+    AND r.student_id = e.student_id
+    AND r.course_id = v_course.id
+    AND r.academic_year = v_offering.academic_year
+    AND r.semester = v_course.semester
+    AND r.status = 'draft';
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  INSERT INTO public.results (student_id, course_id, academic_year, semester, ca_score, exam_score, status)
+  SELECT e.student_id, v_course.id, v_offering.academic_year, v_course.semester, e.ca_score, e.exam_score, 'draft'
+  FROM public.score_sheet_entries e
+  JOIN public.student_courses sc
+    ON sc.student_id = e.student_id
+   AND sc.course_id = v_course.id
+   AND sc.academic_year = v_offering.academic_year
+   AND sc.semester = v_course.semester
+  WHERE e.sheet_id = v_sheet.id
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.results r
+      WHERE r.student_id = e.student_id
+        AND r.course_id = v_course.id
+        AND r.academic_year = v_offering.academic_year
+        AND r.semester = v_course.semester
+    );
+
+  GET DIAGNOSTICS v_inserted = ROW_COUNT;
+
+  UPDATE public.score_sheets
+  SET status = 'submitted',
+      submitted_by = auth.uid(),
+      submitted_at = now(),
+      updated_at = now()
+  WHERE id = v_sheet.id;
+
+  RETURN v_count + v_inserted;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.submit_score_sheet(uuid) TO authenticated;
+
+-- A rejected result goes back to the lecturer who entered it
+CREATE OR REPLACE FUNCTION public.reopen_score_sheet()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.score_sheets s
+  SET status = 'draft',
+      updated_at = now()
+  FROM public.results r
+  JOIN public.courses c ON c.id = r.course_id
+  JOIN public.course_offerings o ON o.course_id = r.course_id AND o.academic_year = r.academic_year
+  WHERE r.id = NEW.result_id
+    AND r.semester = c.semester
+    AND s.offering_id = o.id
+    AND s.status = 'submitted';
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER reopen_score_sheet
+  AFTER INSERT ON public.result_status_history
+  FOR EACH ROW
+  WHEN (NEW.action = 'reject')
+  EXECUTE FUNCTION public.reopen_score_sheet();
@@ -0,0 +1,79 @@
+/*
+  # Score Grid Grading
+
+  The lecturer score sheet shows each student's total and grade as scores are typed, using
+  the same grading scale the results trigger will apply.
+
+  1. Functions
+    - `get_score_sheet` also returns the student's department, which together with their
+      level and the session picks the grading scale
+
+  2. Security
+    - Lecturers (`scores:enter`) can read grading scales, bands and assignments
+*/
+
+CREATE POLICY "Lecturers can view grading scales"
+  ON public.grading_scales FOR SELECT TO authenticated
+  USING (public.admin_has_permission('scores:enter'));
+
+CREATE POLICY "Lecturers can view grading scale bands"
+  ON public.grading_scale_bands FOR SELECT TO authenticated
+  USING (public.admin_has_permission('scores:enter'));
+
+CREATE POLICY "Lecturers can view grading scale assignments"
+  ON public.grading_scale_assignments FOR SELECT TO authenticated
+  USING (public.admin_has_permission('scores:enter'));
+
+-- The result columns change, so the function has to be dropped first
+DROP FUNCTION IF EXISTS public.get_score_sheet(uuid);
+
+CREATE OR REPLACE FUNCTION public.get_score_sheet(p_offering_id uuid)
+RETURNS TABLE (
+  student_id uuid,
+  matric_number text,
+  first_name text,
+  last_name text,
+  department text,
+  level text,
+  ca_score numeric,
+  exam_score numeric,
+  result_status text,
+  rejection_comment text
+) AS $$
+BEGIN
+  IF NOT public.is_offering_lecturer(p_offering_id) THEN
+    RAISE EXCEPTION 'You are not assigned to this course' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    st.id,
+    st.student_id,
+    st.first_name,
+    st.last_name,
+    st.department,
+    st.level,
+    COALESCE(e.ca_score, r.ca_score),
+    COALESCE(e.exam_score, r.exam_score),
+    r.status,
+    r.rejection_comment
+  FROM public.course_offerings o
+  JOIN public.courses c ON c.id = o.course_id
+  JOIN public.student_courses sc
+    ON sc.course_id = c.id
+   AND sc.academic_year = o.academic_year
+   AND sc.semester = c.semester
+  JOIN public.students st ON st.id = sc.student_id
+  LEFT JOIN public.score_sheets s ON s.offering_id = o.id
+  LEFT JOIN public.score_sheet_entries e ON e.sheet_id = s.id AND e.student_id = st.id
+  LEFT JOIN public.results r
+    ON r.student_id = st.id
+   AND r.course_id = c.id
+   AND r.academic_year = o.academic_year
+   AND r.semester = c.semester
+  WHERE o.id = p_offering_id
+  ORDER BY st.student_id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_score_sheet(uuid) TO authenticated;
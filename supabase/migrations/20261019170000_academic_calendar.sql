@@ -0,0 +1,314 @@
+/*
+  # Academic Calendar
+
+  Academic sessions and their semesters become records with dates, instead of strings each
+  screen made up (`2024/2025` from the current year, `First Semester` typed by hand). Results,
+  registrations and course offerings must point at a session and semester that exists.
+
+  1. Clean-up
+    - Semester names are normalised to `First Semester` / `Second Semester` on results, course
+      registrations and courses (the sample data used `2023/2024 First Semester`), and session
+      names to `YYYY/YYYY`
+
+  2. New Tables
+    - `academic_sessions` - one per session (`2024/2025`) with its start and end dates; exactly
+      one may be flagged `is_current`
+    - `semesters` - the two semesters of each session with their dates, registration window and
+      result entry window. Both semesters are created with the session.
+
+  3. Changes
+    - `registration_windows` is folded into `semesters` (`registration_opens_at`/`closes_at`) and dropped
+    - `results` and `student_courses` reference `semesters`; `course_offerings` and
+      `grading_scale_assignments` reference `academic_sessions`. Renaming a session cascades.
+    - `courses.semester` must be one of the two semester names
+
+  4. Functions
+    - `registration_window_open(p_academic_year, p_semester)` reads the semester's registration window
+    - `result_entry_open(p_academic_year, p_semester)` - true while the semester's result entry
+      window is open, or when the semester has none
+    - `set_current_session(p_name)` - moves the current-session flag
+    - Results and lecturer score sheets can only be written while result entry is open, except by
+      staff who may amend results (`results:amend`)
+
+  5. Security
+    - New permission `calendar:manage` for super_admin, registrar and admin
+    - Anyone signed in can read sessions and semesters
+*/
+
+-- Roles and permissions
+INSERT INTO public.role_permissions (role, permission) VALUES
+  ('super_admin', 'calendar:manage'),
+  ('registrar', 'calendar:manage'),
+  ('admin', 'calendar:manage')
+ON CONFLICT (role, permission) DO NOTHING;
+
+-- Normalise existing session and semester strings
+CREATE OR REPLACE FUNCTION public.normalize_semester_name(p_semester text)
+RETURNS text AS $$
+  SELECT CASE
+    WHEN cleaned ~ '^(1|1st|first)( semester)?$' THEN 'First Semester'
+    WHEN cleaned ~ '^(2|2nd|second)( semester)?$' THEN 'Second Semester'
+    ELSE p_semester
+  END
+  FROM (
+    SELECT lower(trim(regexp_replace(p_semester, '^\s*\d{4}\s*[-/]\s*\d{4}\s*', ''))) AS cleaned
+  ) s;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION public.normalize_session_name(p_academic_year text)
+RETURNS text AS $$
+  SELECT regexp_replace(trim(p_academic_year), '^(\d{4})\s*[-/]\s*(\d{4})$', '\1/\2');
+$$ LANGUAGE sql IMMUTABLE;
+
+UPDATE public.results
+SET semester = public.normalize_semester_name(semester),
+    academic_year = public.normalize_session_name(academic_year)
+WHERE semester IS DISTINCT FROM public.normalize_semester_name(semester)
+   OR academic_year IS DISTINCT FROM public.normalize_session_name(academic_year);
+
+UPDATE public.student_courses
+SET semester = public.normalize_semester_name(semester),
+    academic_year = public.normalize_session_name(academic_year)
+WHERE semester IS DISTINCT FROM public.normalize_semester_name(semester)
+   OR academic_year IS DISTINCT FROM public.normalize_session_name(academic_year);
+
+UPDATE public.courses
+SET semester = public.normalize_semester_name(semester)
+WHERE semester IS DISTINCT FROM public.normalize_semester_name(semester);
+
+UPDATE public.registration_windows
+SET semester = public.normalize_semester_name(semester),
+    academic_year = public.normalize_session_name(academic_year);
+
+UPDATE public.course_offerings
+SET academic_year = public.normalize_session_name(academic_year)
+WHERE academic_year IS DISTINCT FROM public.normalize_session_name(academic_year);
+
+UPDATE public.grading_scale_assignments
+SET academic_year = public.normalize_session_name(academic_year)
+WHERE academic_year IS DISTINCT FROM public.normalize_session_name(academic_year);
+
+ALTER TABLE public.courses ADD CONSTRAINT courses_semester_check
+  CHECK (semester IN ('First Semester', 'Second Semester'));
+
+-- Sessions and semesters
+CREATE TABLE IF NOT EXISTS public.academic_sessions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE CHECK (name ~ '^\d{4}/\d{4}$'),
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  is_current BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (end_date > start_date)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS academic_sessions_one_current
+  ON public.academic_sessions (is_current) WHERE is_current;
+
+CREATE TABLE IF NOT EXISTS public.semesters (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  academic_year TEXT NOT NULL REFERENCES public.academic_sessions(name) ON UPDATE CASCADE ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (name IN ('First Semester', 'Second Semester')),
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  registration_opens_at TIMESTAMP WITH TIME ZONE,
+  registration_closes_at TIMESTAMP WITH TIME ZONE,
+  result_entry_opens_at TIMESTAMP WITH TIME ZONE,
+  result_entry_closes_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (academic_year, name),
+  CHECK (end_date > start_date),
+  CHECK ((registration_opens_at IS NULL) = (registration_closes_at IS NULL)),
+  CHECK (registration_closes_at > registration_opens_at),
+  CHECK ((result_entry_opens_at IS NULL) = (result_entry_closes_at IS NULL)),
+  CHECK (result_entry_closes_at > result_entry_opens_at)
+);
+
+CREATE TRIGGER update_academic_sessions_updated_at
+  BEFORE UPDATE ON public.academic_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_semesters_updated_at
+  BEFORE UPDATE ON public.semesters
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Every session gets both semesters, split at the end of January of its second year
+CREATE OR REPLACE FUNCTION public.create_session_semesters()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_split DATE := GREATEST(
+    NEW.start_date + 2,
+    LEAST(make_date(EXTRACT(YEAR FROM NEW.end_date)::int, 2, 1), NEW.end_date)
+  );
+BEGIN
+  INSERT INTO public.semesters (academic_year, name, start_date, end_date) VALUES
+    (NEW.name, 'First Semester', NEW.start_date, v_split - 1),
+    (NEW.name, 'Second Semester', v_split, GREATEST(NEW.end_date, v_split + 1))
+  ON CONFLICT (academic_year, name) DO NOTHING;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER create_session_semesters
+  AFTER INSERT ON public.academic_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.create_session_semesters();
+
+-- Backfill a session for every year already in use, plus the one running today
+-- (sessions run from September to August)
+INSERT INTO public.academic_sessions (name, start_date, end_date)
+SELECT name, make_date(left(name, 4)::int, 9, 1), make_date(right(name, 4)::int, 8, 31)
+FROM (
+  SELECT academic_year AS name FROM public.results
+  UNION SELECT academic_year FROM public.student_courses WHERE academic_year IS NOT NULL
+  UNION SELECT academic_year FROM public.course_offerings
+  UNION SELECT academic_year FROM public.grading_scale_assignments WHERE academic_year IS NOT NULL
+  UNION SELECT academic_year FROM public.registration_windows
+  UNION SELECT CASE
+    WHEN EXTRACT(MONTH FROM current_date) >= 9
+      THEN EXTRACT(YEAR FROM current_date)::int || '/' || (EXTRACT(YEAR FROM current_date)::int + 1)
+    ELSE (EXTRACT(YEAR FROM current_date)::int - 1) || '/' || EXTRACT(YEAR FROM current_date)::int
+  END
+) years
+WHERE name ~ '^\d{4}/\d{4}$'
+ON CONFLICT (name) DO NOTHING;
+
+UPDATE public.academic_sessions
+SET is_current = true
+WHERE current_date BETWEEN start_date AND end_date;
+
+UPDATE public.semesters s
+SET registration_opens_at = w.opens_at,
+    registration_closes_at = w.closes_at
+FROM public.registration_windows w
+WHERE w.academic_year = s.academic_year
+  AND w.semester = s.name;
+
+DROP TABLE IF EXISTS public.registration_windows;
+
+-- Everything that names a session or semester must point at one that exists
+ALTER TABLE public.results
+  ADD CONSTRAINT results_semester_fkey FOREIGN KEY (academic_year, semester)
+  REFERENCES public.semesters(academic_year, name) ON UPDATE CASCADE;
+
+ALTER TABLE public.student_courses
+  ADD CONSTRAINT student_courses_semester_fkey FOREIGN KEY (academic_year, semester)
+  REFERENCES public.semesters(academic_year, name) ON UPDATE CASCADE;
+
+ALTER TABLE public.course_offerings
+  ADD CONSTRAINT course_offerings_academic_year_fkey FOREIGN KEY (academic_year)
+  REFERENCES public.academic_sessions(name) ON UPDATE CASCADE;
+
+ALTER TABLE public.grading_scale_assignments
+  ADD CONSTRAINT grading_scale_assignments_academic_year_fkey FOREIGN KEY (academic_year)
+  REFERENCES public.academic_sessions(name) ON UPDATE CASCADE;
+
+-- Security
+ALTER TABLE public.academic_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.semesters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone signed in can view academic sessions"
+  ON public.academic_sessions FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage academic sessions"
+  ON public.academic_sessions FOR ALL TO authenticated
+  USING (public.admin_has_permission('calendar:manage'))
+  WITH CHECK (public.admin_has_permission('calendar:manage'));
+
+CREATE POLICY "Anyone signed in can view semesters"
+  ON public.semesters FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage semesters"
+  ON public.semesters FOR ALL TO authenticated
+  USING (public.admin_has_permission('calendar:manage'))
+  WITH CHECK (public.admin_has_permission('calendar:manage'));
+
+-- Windows
+CREATE OR REPLACE FUNCTION public.registration_window_open(p_academic_year text, p_semester text)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.semesters
+    WHERE academic_year = p_academic_year
+      AND name = p_semester
+      AND now() BETWEEN registration_opens_at AND registration_closes_at
+  );
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION public.result_entry_open(p_academic_year text, p_semester text)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.semesters
+    WHERE academic_year = p_academic_year
+      AND name = p_semester
+      AND (result_entry_opens_at IS NULL OR now() BETWEEN result_entry_opens_at AND result_entry_closes_at)
+  );
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION public.result_entry_open(text, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.enforce_result_entry_window()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF public.admin_has_permission('results:amend') THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT public.result_entry_open(NEW.academic_year, NEW.semester) THEN
+    RAISE EXCEPTION 'Result entry for % % is closed', NEW.academic_year, NEW.semester
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER enforce_result_entry_window
+  BEFORE INSERT OR UPDATE OF ca_score, exam_score ON public.results
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_result_entry_window();
+
+CREATE OR REPLACE FUNCTION public.enforce_score_sheet_entry_window()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_academic_year TEXT;
+  v_semester TEXT;
+BEGIN
+  SELECT o.academic_year, c.semester INTO v_academic_year, v_semester
+  FROM public.score_sheets s
+  JOIN public.course_offerings o ON o.id = s.offering_id
+  JOIN public.courses c ON c.id = o.course_id
+  WHERE s.id = NEW.sheet_id;
+
+  IF NOT public.result_entry_open(v_academic_year, v_semester) THEN
+    RAISE EXCEPTION 'Score entry for % % is closed', v_academic_year, v_semester
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER enforce_score_sheet_entry_window
+  BEFORE INSERT OR UPDATE OF ca_score, exam_score ON public.score_sheet_entries
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_score_sheet_entry_window();
+
+-- Clear the old flag before setting the new one; the partial unique index allows only one
+CREATE OR REPLACE FUNCTION public.set_current_session(p_name text)
+RETURNS void AS $$
+BEGIN
+  IF NOT public.admin_has_permission('calendar:manage') THEN
+    RAISE EXCEPTION 'Not allowed to manage the academic calendar' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.academic_sessions WHERE name = p_name) THEN
+    RAISE EXCEPTION 'Academic session % does not exist', p_name;
+  END IF;
+
+  UPDATE public.academic_sessions SET is_current = false WHERE is_current AND name <> p_name;
+  UPDATE public.academic_sessions SET is_current = true WHERE name = p_name AND NOT is_current;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.set_current_session(text) TO authenticated;
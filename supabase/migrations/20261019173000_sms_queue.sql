@@ -0,0 +1,93 @@
+/*
+  # SMS Send Queue
+
+  The dashboard stops sending SMS itself: that shipped the provider key in the frontend bundle and
+  a bulk send died with the admin's browser tab. It now queues messages in `sms_records` with
+  status `pending`, and the SMS worker (`server/worker.js`) sends them with the service role key.
+
+  1. Changes to `sms_records`
+    - New status `sending` while a worker holds the message
+    - `attempts` counts send attempts and starts at 0 for queued messages
+    - `next_attempt_at` - when the message is due; retries are pushed back with exponential backoff
+    - `locked_by` / `locked_at` - the worker sending the message
+    - `provider` - the SMS provider that accepted it
+    - Messages left `pending` or `retry` by the old in-browser sender are marked failed rather
+      than sent late
+
+  2. Functions
+    - `claim_sms_records(p_worker, p_limit, p_max_attempts, p_stale_after)` - locks the next due
+      messages for a worker and counts the attempt. Rows are claimed with SKIP LOCKED, so several
+      workers can share the queue. A message still `sending` after `p_stale_after` belonged to a
+      worker that stopped; it is claimed again, or failed once it has used its last attempt.
+
+  3. Security
+    - Only the service role may claim messages
+*/
+
+-- Queue columns
+ALTER TABLE public.sms_records
+  ADD COLUMN IF NOT EXISTS next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  ADD COLUMN IF NOT EXISTS locked_by text,
+  ADD COLUMN IF NOT EXISTS locked_at timestamptz,
+  ADD COLUMN IF NOT EXISTS provider text;
+
+ALTER TABLE public.sms_records ALTER COLUMN attempts SET DEFAULT 0;
+
+ALTER TABLE public.sms_records DROP CONSTRAINT IF EXISTS sms_records_status_check;
+ALTER TABLE public.sms_records
+  ADD CONSTRAINT sms_records_status_check
+  CHECK (status IN ('pending', 'sending', 'sent', 'failed', 'retry'));
+
+UPDATE public.sms_records
+SET status = 'failed',
+    error_message = COALESCE(error_message, 'Not sent before the SMS queue was introduced')
+WHERE status IN ('pending', 'retry');
+
+CREATE INDEX IF NOT EXISTS idx_sms_records_queue
+  ON public.sms_records(next_attempt_at)
+  WHERE status IN ('pending', 'retry', 'sending');
+
+-- Claim the next due messages for a worker
+CREATE OR REPLACE FUNCTION public.claim_sms_records(
+  p_worker text,
+  p_limit integer DEFAULT 5,
+  p_max_attempts integer DEFAULT 3,
+  p_stale_after interval DEFAULT interval '5 minutes'
+)
+RETURNS SETOF public.sms_records AS $$
+BEGIN
+  -- Abandoned mid-send on the last attempt: the message may have gone out, so it is not retried
+  UPDATE public.sms_records
+  SET status = 'failed',
+      locked_by = NULL,
+      locked_at = NULL,
+      error_message = COALESCE(error_message, 'The SMS worker stopped while sending this message')
+  WHERE status = 'sending'
+    AND locked_at < now() - p_stale_after
+    AND attempts >= p_max_attempts;
+
+  RETURN QUERY
+  UPDATE public.sms_records r
+  SET status = 'sending',
+      locked_by = p_worker,
+      locked_at = now(),
+      attempts = r.attempts + 1,
+      last_attempt = now()
+  WHERE r.id IN (
+    SELECT q.id
+    FROM public.sms_records q
+    WHERE q.attempts < p_max_attempts
+      AND (
+        (q.status IN ('pending', 'retry') AND q.next_attempt_at <= now())
+        OR (q.status = 'sending' AND q.locked_at < now() - p_stale_after)
+      )
+    ORDER BY q.next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING r.*;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE ALL ON FUNCTION public.claim_sms_records(text, integer, integer, interval) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_sms_records(text, integer, integer, interval) TO service_role;
@@ -0,0 +1,124 @@
+/*
+  # SMS Delivery Receipts
+
+  `sms_records.status` only says whether the provider accepted a message. Providers report what
+  happened next (delivered, undelivered, ...) to webhooks on the SMS server, which verify the
+  provider's signature and record the report here.
+
+  1. Changes to `sms_records`
+    - `delivery_status` - the latest delivery report mapped to our statuses:
+      `queued`, `sent`, `delivered`, `undelivered`, `failed`
+    - `delivery_updated_at` - when the provider reported it
+    - `delivered_at` - when the message was delivered
+
+  2. New Tables
+    - `sms_status_events` - every delivery report for a message (the status timeline), with the
+      provider's own status and error code
+
+  3. Functions
+    - `record_sms_delivery_status(...)` - finds the message by provider message id (`sid`), adds
+      the report to its timeline and moves `delivery_status` forward. Reports can arrive out of
+      order, so a final status is never replaced by an earlier stage. Returns the message id, or
+      null when no message has that id (e.g. test SMS).
+
+  4. Security
+    - Admins who can view SMS records can read the timeline
+    - Only the service role (the SMS server and worker) records reports
+*/
+
+ALTER TABLE public.sms_records
+  ADD COLUMN IF NOT EXISTS delivery_status text
+    CHECK (delivery_status IN ('queued', 'sent', 'delivered', 'undelivered', 'failed')),
+  ADD COLUMN IF NOT EXISTS delivery_updated_at timestamptz,
+  ADD COLUMN IF NOT EXISTS delivered_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_sms_records_sid ON public.sms_records(sid) WHERE sid IS NOT NULL;
+
+-- Status timeline
+CREATE TABLE IF NOT EXISTS public.sms_status_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  sms_record_id uuid NOT NULL REFERENCES public.sms_records(id) ON DELETE CASCADE,
+  provider text NOT NULL,
+  status text NOT NULL CHECK (status IN ('queued', 'sent', 'delivered', 'undelivered', 'failed')),
+  provider_status text,
+  error_code text,
+  occurred_at timestamptz NOT NULL DEFAULT now(),
+  received_at timestamptz NOT NULL DEFAULT now(),
+  payload jsonb
+);
+
+CREATE INDEX IF NOT EXISTS idx_sms_status_events_record
+  ON public.sms_status_events(sms_record_id, occurred_at);
+
+ALTER TABLE public.sms_status_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view sms status events"
+  ON public.sms_status_events FOR SELECT TO authenticated
+  USING (public.admin_has_permission('dashboard:view'));
+
+-- Order of delivery stages; the last three are final
+CREATE OR REPLACE FUNCTION public.sms_delivery_rank(p_status text)
+RETURNS integer AS $$
+  SELECT CASE p_status
+    WHEN 'queued' THEN 1
+    WHEN 'sent' THEN 2
+    WHEN 'delivered' THEN 3
+    WHEN 'undelivered' THEN 3
+    WHEN 'failed' THEN 3
+    ELSE 0
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION public.record_sms_delivery_status(
+  p_provider text,
+  p_sid text,
+  p_status text,
+  p_provider_status text DEFAULT NULL,
+  p_error_code text DEFAULT NULL,
+  p_occurred_at timestamptz DEFAULT now(),
+  p_payload jsonb DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  v_record_id uuid;
+BEGIN
+  IF public.sms_delivery_rank(p_status) = 0 THEN
+    RAISE EXCEPTION 'Unknown SMS delivery status %', p_status;
+  END IF;
+
+  SELECT id INTO v_record_id
+  FROM public.sms_records
+  WHERE sid = p_sid AND (provider = p_provider OR provider IS NULL)
+  ORDER BY created_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF v_record_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.sms_status_events (
+    sms_record_id, provider, status, provider_status, error_code, occurred_at, payload
+  ) VALUES (
+    v_record_id, p_provider, p_status, p_provider_status, p_error_code, COALESCE(p_occurred_at, now()), p_payload
+  );
+
+  UPDATE public.sms_records
+  SET delivery_status = p_status,
+      delivery_updated_at = COALESCE(p_occurred_at, now()),
+      delivered_at = CASE WHEN p_status = 'delivered' THEN COALESCE(p_occurred_at, now()) ELSE delivered_at END
+  WHERE id = v_record_id
+    AND (
+      public.sms_delivery_rank(p_status) > public.sms_delivery_rank(delivery_status)
+      OR (
+        public.sms_delivery_rank(p_status) = public.sms_delivery_rank(delivery_status)
+        AND COALESCE(p_occurred_at, now()) >= COALESCE(delivery_updated_at, '-infinity'::timestamptz)
+      )
+    );
+
+  RETURN v_record_id;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE ALL ON FUNCTION public.record_sms_delivery_status(text, text, text, text, text, timestamptz, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_sms_delivery_status(text, text, text, text, text, timestamptz, jsonb) TO service_role;
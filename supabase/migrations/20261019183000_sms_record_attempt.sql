@@ -0,0 +1,184 @@
+/*
+  # Atomic SMS Attempts and Retries
+
+  Attempt counting used to be spread over several writes (and the dashboard once passed an
+  unresolved `increment_attempts` call as the column value), so the count drifted and the retry
+  limit was not enforced. Every change to the count now happens in one statement in the database.
+
+  1. Functions
+    - `sms_max_attempts()` - the retry limit: how many attempts a message gets in total. It is the
+      only place the limit is set; the worker and the dashboard both go by it.
+    - `record_sms_attempt(...)` - the SMS worker records the outcome of a send: counts the
+      attempt, sets status and error, and turns a `retry` into `failed` once the message has used
+      its last attempt. Refuses a message that is already at the limit or held by another worker.
+    - `retry_sms_records(p_record_ids)` - puts failed messages back in the queue
+      (all retryable failed messages when no ids are given). Messages at the retry limit are
+      refused; each id comes back with whether it was queued and why not.
+    - `claim_sms_records` no longer counts the attempt when claiming; a message abandoned by a
+      stopped worker is counted when it is reclaimed, so the limit still holds across crashes.
+      It no longer takes the limit as a parameter.
+    - `increment_attempts` is dropped
+
+  2. Security
+    - `record_sms_attempt` is for the service role (the worker) only
+    - `retry_sms_records` requires `sms:manage`
+*/
+
+DROP FUNCTION IF EXISTS public.increment_attempts(uuid);
+DROP FUNCTION IF EXISTS public.claim_sms_records(text, integer, integer, interval);
+
+-- Attempts a message gets in total, first send included
+CREATE OR REPLACE FUNCTION public.sms_max_attempts()
+RETURNS integer AS $$
+  SELECT 3;
+$$ LANGUAGE sql IMMUTABLE;
+
+GRANT EXECUTE ON FUNCTION public.sms_max_attempts() TO authenticated, service_role;
+
+CREATE OR REPLACE FUNCTION public.claim_sms_records(
+  p_worker text,
+  p_limit integer DEFAULT 5,
+  p_stale_after interval DEFAULT interval '5 minutes'
+)
+RETURNS SETOF public.sms_records AS $$
+DECLARE
+  v_max_attempts integer := public.sms_max_attempts();
+BEGIN
+  -- Abandoned mid-send: the message may have gone out, so that attempt counts
+  UPDATE public.sms_records
+  SET attempts = attempts + 1,
+      status = CASE WHEN attempts + 1 >= v_max_attempts THEN 'failed' ELSE 'retry' END,
+      next_attempt_at = now(),
+      locked_by = NULL,
+      locked_at = NULL,
+      error_message = 'The SMS worker stopped while sending this message'
+  WHERE status = 'sending'
+    AND locked_at < now() - p_stale_after;
+
+  RETURN QUERY
+  UPDATE public.sms_records r
+  SET status = 'sending',
+      locked_by = p_worker,
+      locked_at = now()
+  WHERE r.id IN (
+    SELECT q.id
+    FROM public.sms_records q
+    WHERE q.status IN ('pending', 'retry')
+      AND q.next_attempt_at <= now()
+      AND q.attempts < v_max_attempts
+    ORDER BY q.next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING r.*;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE ALL ON FUNCTION public.claim_sms_records(text, integer, interval) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_sms_records(text, integer, interval) TO service_role;
+
+-- Record the outcome of one send by the worker holding the message
+CREATE OR REPLACE FUNCTION public.record_sms_attempt(
+  p_record_id uuid,
+  p_worker text,
+  p_status text,
+  p_error text DEFAULT NULL,
+  p_sid text DEFAULT NULL,
+  p_provider text DEFAULT NULL,
+  p_retry_at timestamptz DEFAULT NULL
+)
+RETURNS public.sms_records AS $$
+DECLARE
+  v_max_attempts integer := public.sms_max_attempts();
+  v_record public.sms_records;
+BEGIN
+  IF p_status NOT IN ('sent', 'retry', 'failed') THEN
+    RAISE EXCEPTION 'An SMS attempt ends sent, retry or failed, not %', p_status;
+  END IF;
+
+  SELECT * INTO v_record FROM public.sms_records WHERE id = p_record_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'SMS record % not found', p_record_id;
+  END IF;
+
+  IF v_record.locked_by IS DISTINCT FROM p_worker THEN
+    RAISE EXCEPTION 'SMS record % is not held by worker %', p_record_id, p_worker;
+  END IF;
+
+  IF v_record.attempts >= v_max_attempts THEN
+    RAISE EXCEPTION 'SMS record % has already used its % attempts', p_record_id, v_max_attempts;
+  END IF;
+
+  UPDATE public.sms_records
+  SET attempts = attempts + 1,
+      last_attempt = now(),
+      status = CASE
+        WHEN p_status = 'retry' AND attempts + 1 >= v_max_attempts THEN 'failed'
+        ELSE p_status
+      END,
+      error_message = CASE WHEN p_status = 'sent' THEN NULL ELSE p_error END,
+      sid = COALESCE(p_sid, sid),
+      provider = COALESCE(p_provider, provider),
+      next_attempt_at = COALESCE(p_retry_at, next_attempt_at),
+      locked_by = NULL,
+      locked_at = NULL
+  WHERE id = p_record_id
+  RETURNING * INTO v_record;
+
+  RETURN v_record;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE ALL ON FUNCTION public.record_sms_attempt(uuid, text, text, text, text, text, timestamptz) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_sms_attempt(uuid, text, text, text, text, text, timestamptz) TO service_role;
+
+-- Put failed messages back in the queue, up to the retry limit
+CREATE OR REPLACE FUNCTION public.retry_sms_records(
+  p_record_ids uuid[] DEFAULT NULL
+)
+RETURNS TABLE (id uuid, queued boolean, reason text) AS $$
+DECLARE
+  v_max_attempts integer := public.sms_max_attempts();
+BEGIN
+  IF NOT public.admin_has_permission('sms:manage') THEN
+    RAISE EXCEPTION 'Not allowed to manage SMS delivery' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  WITH requested AS (
+    SELECT r.id, r.status, r.attempts
+    FROM public.sms_records r
+    WHERE CASE
+      WHEN p_record_ids IS NULL THEN r.status = 'failed' AND r.attempts < v_max_attempts
+      ELSE r.id = ANY(p_record_ids)
+    END
+    FOR UPDATE
+  ),
+  requeued AS (
+    UPDATE public.sms_records r
+    SET status = 'pending',
+        next_attempt_at = now(),
+        error_message = NULL
+    FROM requested q
+    WHERE r.id = q.id
+      AND q.status = 'failed'
+      AND q.attempts < v_max_attempts
+    RETURNING r.id
+  )
+  SELECT q.id,
+         q.id IN (SELECT requeued.id FROM requeued),
+         CASE
+           WHEN q.id IN (SELECT requeued.id FROM requeued) THEN NULL
+           WHEN q.status <> 'failed' THEN 'Only failed SMS can be retried'
+           ELSE 'Maximum retry attempts reached'
+         END
+  FROM requested q
+  UNION ALL
+  SELECT missing.id, false, 'SMS record not found'
+  FROM unnest(COALESCE(p_record_ids, ARRAY[]::uuid[])) AS missing(id)
+  WHERE missing.id NOT IN (SELECT requested.id FROM requested);
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION public.retry_sms_records(uuid[]) TO authenticated;
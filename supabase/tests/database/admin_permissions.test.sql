@@ -0,0 +1,26 @@
+-- Run with `supabase test db`
+BEGIN;
+SELECT plan(5);
+
+INSERT INTO public.admin_users (id, email, password_hash, full_name, role)
+VALUES ('00000000-0000-0000-0000-00000000e001', 'permissions.test@example.com', 'not-a-real-hash', 'Test Admin', 'super_admin');
+
+-- Signed in with a token issued while the account was a super admin
+SELECT set_config('request.jwt.claims',
+  '{"sub": "00000000-0000-0000-0000-00000000e001", "role": "authenticated", "iss": "edunotify-admin", "admin_role": "super_admin"}',
+  true);
+
+SELECT ok(public.admin_has_permission('admins:manage'), 'an active super admin can manage admins');
+
+UPDATE public.admin_users SET role = 'admin' WHERE id = '00000000-0000-0000-0000-00000000e001';
+
+SELECT is(public.current_admin_role(), 'admin', 'the stored role wins over the token claim');
+SELECT ok(NOT public.admin_has_permission('admins:manage'), 'a demoted admin loses permissions straight away');
+
+UPDATE public.admin_users SET is_active = false WHERE id = '00000000-0000-0000-0000-00000000e001';
+
+SELECT is(public.current_admin_role(), NULL, 'a deactivated admin has no role');
+SELECT ok(NOT public.admin_has_permission('sms:manage'), 'a deactivated admin loses every permission');
+
+SELECT * FROM finish();
+ROLLBACK;
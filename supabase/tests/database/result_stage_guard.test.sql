@@ -0,0 +1,66 @@
+-- Run with `supabase test db`
+BEGIN;
+SELECT plan(5);
+
+-- A new session's semesters have no entry window yet, so result entry is open
+INSERT INTO public.academic_sessions (name, start_date, end_date) VALUES ('2092/2093', '2092-09-01', '2093-08-31');
+
+INSERT INTO public.admin_users (id, email, password_hash, full_name, role)
+VALUES ('00000000-0000-0000-0000-00000000e201', 'stages.test@example.com', 'not-a-real-hash', 'Test Admin', 'super_admin');
+
+INSERT INTO public.students (id, student_id, first_name, last_name, email, phone, department, level)
+VALUES ('00000000-0000-0000-0000-00000000b201', 'TEST/ND/0201', 'Test', 'Student', 'stages.test@example.com',
+        '08012345678', 'Test Department', 'ND1');
+
+INSERT INTO public.courses (id, course_code, course_title, credit_units, department, level, semester) VALUES
+  ('00000000-0000-0000-0000-00000000c201', 'TST921', 'Staged Course', 3, 'Test Department', 'ND1', 'First Semester'),
+  ('00000000-0000-0000-0000-00000000c202', 'TST922', 'Skipped Course', 3, 'Test Department', 'ND1', 'First Semester');
+
+INSERT INTO public.student_courses (student_id, course_id, academic_year, semester) VALUES
+  ('00000000-0000-0000-0000-00000000b201', '00000000-0000-0000-0000-00000000c201', '2092/2093', 'First Semester'),
+  ('00000000-0000-0000-0000-00000000b201', '00000000-0000-0000-0000-00000000c202', '2092/2093', 'First Semester');
+
+INSERT INTO public.results (id, student_id, course_id, academic_year, semester, ca_score, exam_score)
+VALUES ('00000000-0000-0000-0000-00000000d201', '00000000-0000-0000-0000-00000000b201', '00000000-0000-0000-0000-00000000c201',
+        '2092/2093', 'First Semester', 20, 40);
+
+-- Signed in as an admin who may enter, review, approve and publish results
+SELECT set_config('request.jwt.claims',
+  '{"sub": "00000000-0000-0000-0000-00000000e201", "role": "authenticated", "iss": "edunotify-admin"}',
+  true);
+SET LOCAL ROLE authenticated;
+
+SELECT throws_ok(
+  $$ UPDATE public.results SET status = 'published', published_at = now() WHERE id = '00000000-0000-0000-0000-00000000d201' $$,
+  '42501',
+  'Result stages can only be changed through the approval workflow',
+  'a direct update cannot publish a result'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.results (student_id, course_id, academic_year, semester, ca_score, exam_score, status)
+     VALUES ('00000000-0000-0000-0000-00000000b201', '00000000-0000-0000-0000-00000000c202', '2092/2093', 'First Semester', 20, 40, 'published') $$,
+  '42501',
+  'New results start as draft; use the approval workflow to move them on',
+  'a result cannot be inserted already published'
+);
+
+SELECT lives_ok(
+  $$ UPDATE public.results SET exam_score = 45 WHERE id = '00000000-0000-0000-0000-00000000d201' $$,
+  'scores can still be edited directly'
+);
+
+SELECT is(
+  public.transition_results(ARRAY['00000000-0000-0000-0000-00000000d201']::uuid[], 'review'),
+  1,
+  'the workflow moves the result on'
+);
+
+SELECT results_eq(
+  $$ SELECT from_status || ' -> ' || to_status FROM public.result_status_history WHERE result_id = '00000000-0000-0000-0000-00000000d201' $$,
+  ARRAY['draft -> reviewed'],
+  'the move is recorded in the history'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,55 @@
+-- Run with `supabase test db`
+BEGIN;
+SELECT plan(4);
+
+-- A new session's semesters have no entry window yet, so result entry is open
+INSERT INTO public.academic_sessions (name, start_date, end_date) VALUES ('2090/2091', '2090-09-01', '2091-08-31');
+
+INSERT INTO public.students (id, student_id, first_name, last_name, email, phone, department, level)
+VALUES ('00000000-0000-0000-0000-00000000b101', 'TEST/ND/0101', 'Test', 'Student', 'totals.test@example.com',
+        '08012345678', 'Test Department', 'ND1');
+
+INSERT INTO public.courses (id, course_code, course_title, credit_units, department, level, semester) VALUES
+  ('00000000-0000-0000-0000-00000000c101', 'TST911', 'Scored Course', 3, 'Test Department', 'ND1', 'First Semester'),
+  ('00000000-0000-0000-0000-00000000c102', 'TST912', 'Imported Course', 2, 'Test Department', 'ND1', 'First Semester');
+
+INSERT INTO public.student_courses (student_id, course_id, academic_year, semester) VALUES
+  ('00000000-0000-0000-0000-00000000b101', '00000000-0000-0000-0000-00000000c101', '2090/2091', 'First Semester'),
+  ('00000000-0000-0000-0000-00000000b101', '00000000-0000-0000-0000-00000000c102', '2090/2091', 'First Semester');
+
+INSERT INTO public.results (id, student_id, course_id, academic_year, semester, ca_score, exam_score, total_score, status) VALUES
+  ('00000000-0000-0000-0000-00000000d101', '00000000-0000-0000-0000-00000000b101', '00000000-0000-0000-0000-00000000c101',
+   '2090/2091', 'First Semester', 20, 30, NULL, 'draft'),
+  ('00000000-0000-0000-0000-00000000d102', '00000000-0000-0000-0000-00000000b101', '00000000-0000-0000-0000-00000000c102',
+   '2090/2091', 'First Semester', NULL, NULL, 65, 'draft');
+
+-- A corrected exam score, as a resubmitted score sheet writes it
+UPDATE public.results SET exam_score = 50 WHERE id = '00000000-0000-0000-0000-00000000d101';
+
+SELECT ok(
+  (SELECT total_score = 70 AND grade = 'A' AND grade_point = 5 FROM public.results WHERE id = '00000000-0000-0000-0000-00000000d101'),
+  'changing the exam score recomputes the total, grade and grade point'
+);
+
+UPDATE public.results SET ca_score = 10, total_score = 99 WHERE id = '00000000-0000-0000-0000-00000000d101';
+
+SELECT ok(
+  (SELECT total_score = 60 AND grade = 'B' FROM public.results WHERE id = '00000000-0000-0000-0000-00000000d101'),
+  'a total that disagrees with CA and exam is replaced by their sum'
+);
+
+SELECT ok(
+  (SELECT total_score = 65 AND grade = 'B' FROM public.results WHERE id = '00000000-0000-0000-0000-00000000d102'),
+  'a result with only a total keeps it'
+);
+
+UPDATE public.results SET total_score = 45 WHERE id = '00000000-0000-0000-0000-00000000d102';
+
+SELECT is(
+  (SELECT grade FROM public.results WHERE id = '00000000-0000-0000-0000-00000000d102'),
+  'D',
+  'a result with only a total is regraded when the total changes'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,34 @@
+-- Run with `supabase test db`
+BEGIN;
+SELECT plan(3);
+
+INSERT INTO public.students (id, student_id, first_name, last_name, email, phone, department, level)
+VALUES ('00000000-0000-0000-0000-00000000b301', 'TEST/ND/0301', 'Test', 'Student', 'link.test@example.com',
+        '08012345678', 'Test Department', 'ND1');
+
+-- Signed up with the student's matric number and email, not yet confirmed
+INSERT INTO auth.users (id, email, raw_user_meta_data)
+VALUES ('00000000-0000-0000-0000-00000000a301', 'link.test@example.com',
+        '{"account_type": "student", "student_id": "TEST/ND/0301"}');
+
+SELECT is(
+  (SELECT auth_user_id FROM public.students WHERE id = '00000000-0000-0000-0000-00000000b301'),
+  NULL,
+  'an unconfirmed sign-up does not claim the student record'
+);
+
+UPDATE auth.users SET email_confirmed_at = now() WHERE id = '00000000-0000-0000-0000-00000000a301';
+
+SELECT is(
+  (SELECT auth_user_id FROM public.students WHERE id = '00000000-0000-0000-0000-00000000b301'),
+  '00000000-0000-0000-0000-00000000a301'::uuid,
+  'confirming the email links the student record'
+);
+
+SELECT ok(
+  NOT EXISTS (SELECT 1 FROM pg_proc WHERE proname = 'verify_student_registration'),
+  'there is no anonymous check for matric number and email pairs'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
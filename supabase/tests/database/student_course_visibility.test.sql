@@ -0,0 +1,55 @@
+-- Run with `supabase test db`
+BEGIN;
+SELECT plan(3);
+
+-- Fixtures skip the result workflow triggers
+SET LOCAL session_replication_role = replica;
+
+INSERT INTO auth.users (id, email)
+VALUES ('00000000-0000-0000-0000-00000000a001', 'transcript.test@example.com');
+
+INSERT INTO public.students (id, student_id, first_name, last_name, email, phone, department, level, auth_user_id)
+VALUES ('00000000-0000-0000-0000-00000000b001', 'TEST/ND/0001', 'Test', 'Student', 'transcript.test@example.com',
+        '08012345678', 'Test Department', 'ND1', '00000000-0000-0000-0000-00000000a001');
+
+INSERT INTO public.courses (id, course_code, course_title, credit_units, department, level, semester) VALUES
+  ('00000000-0000-0000-0000-00000000c001', 'TST901', 'Passed Course', 3, 'Test Department', 'ND1', 'First Semester'),
+  ('00000000-0000-0000-0000-00000000c002', 'TST902', 'Registered Course', 2, 'Test Department', 'ND1', 'First Semester'),
+  ('00000000-0000-0000-0000-00000000c003', 'TST903', 'Unrelated Course', 2, 'Test Department', 'ND1', 'First Semester');
+
+INSERT INTO public.results (student_id, course_id, academic_year, semester, ca_score, exam_score, total_score, grade, grade_point, status)
+VALUES ('00000000-0000-0000-0000-00000000b001', '00000000-0000-0000-0000-00000000c001', '2023/2024', 'First Semester',
+        30, 40, 70, 'A', 4, 'published');
+
+INSERT INTO public.student_courses (student_id, course_id, academic_year, semester)
+VALUES ('00000000-0000-0000-0000-00000000b001', '00000000-0000-0000-0000-00000000c002', '2024/2025', 'First Semester');
+
+SET LOCAL session_replication_role = DEFAULT;
+
+UPDATE public.courses SET is_active = false
+WHERE id IN ('00000000-0000-0000-0000-00000000c001', '00000000-0000-0000-0000-00000000c002', '00000000-0000-0000-0000-00000000c003');
+
+-- Signed in as the student
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000a001", "role": "authenticated"}', true);
+SET LOCAL ROLE authenticated;
+
+-- The transcript and portal load results with their course joined, and drop rows without one
+SELECT results_eq(
+  $$ SELECT c.course_code FROM public.results r LEFT JOIN public.courses c ON c.id = r.course_id $$,
+  ARRAY['TST901'],
+  'a published result keeps its course after the course is deactivated'
+);
+
+SELECT results_eq(
+  $$ SELECT c.course_code FROM public.student_courses sc LEFT JOIN public.courses c ON c.id = sc.course_id $$,
+  ARRAY['TST902'],
+  'a registration keeps its course after the course is deactivated'
+);
+
+SELECT is_empty(
+  $$ SELECT 1 FROM public.courses WHERE course_code = 'TST903' $$,
+  'other deactivated courses stay hidden'
+);
+
+SELECT * FROM finish();
+ROLLBACK;